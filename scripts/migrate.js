@@ -0,0 +1,107 @@
+#!/usr/bin/env node
+
+/**
+ * Runs the data migrations in src/lib/migrations against the Firestore emulator.
+ *
+ *   npm run migrate -- list                  defined migrations
+ *   npm run migrate -- status                what has run, when and by whom
+ *   npm run migrate -- up --dry-run          report the changes without writing
+ *   npm run migrate -- up [--to 2]           run pending migrations
+ *
+ * The emulator enforces firestore.rules, so --as <uid> (or MIGRATIONS_UID) must be the uid of a
+ * super-admin profile in the emulator's users collection. The emulator address comes from
+ * FIRESTORE_EMULATOR_HOST (default localhost:8080).
+ */
+
+const fs = require('fs');
+const ts = require('typescript');
+
+require('dotenv').config({ path: '.env.local' });
+
+// The migrations are TypeScript; compile them on load with the project's own compiler
+require.extensions['.ts'] = (module, filename) => {
+  const { outputText } = ts.transpileModule(fs.readFileSync(filename, 'utf8'), {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020, esModuleInterop: true },
+    fileName: filename,
+  });
+  module._compile(outputText, filename);
+};
+
+const { initializeApp } = require('firebase/app');
+const { getFirestore, connectFirestoreEmulator } = require('firebase/firestore');
+const { migrations, runMigrations, getMigrationRecords } = require('../src/lib/migrations/index.ts');
+
+function parseArgs(argv) {
+  const [command = 'help', ...rest] = argv;
+  const options = { command, dryRun: false, to: undefined, as: process.env.MIGRATIONS_UID };
+  for (let i = 0; i < rest.length; i++) {
+    if (rest[i] === '--dry-run') options.dryRun = true;
+    else if (rest[i] === '--to') options.to = Number(rest[++i]);
+    else if (rest[i] === '--as') options.as = rest[++i];
+    else throw new Error(`Unknown option: ${rest[i]}`);
+  }
+  if (options.to !== undefined && !Number.isInteger(options.to)) throw new Error('--to takes a migration id');
+  return options;
+}
+
+function connect(uid) {
+  const [host, port] = (process.env.FIRESTORE_EMULATOR_HOST || 'localhost:8080').split(':');
+  const projectId = process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID || 'demo-church-dashboard';
+  const db = getFirestore(initializeApp({ projectId }));
+  connectFirestoreEmulator(db, host, Number(port), uid ? { mockUserToken: { user_id: uid } } : undefined);
+  console.log(`Using the Firestore emulator at ${host}:${port} (project ${projectId})`);
+  return db;
+}
+
+function formatTime(timestamp) {
+  return timestamp ? timestamp.toDate().toISOString().replace('T', ' ').slice(0, 19) : '';
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const sorted = [...migrations].sort((a, b) => a.id - b.id);
+
+  switch (options.command) {
+    case 'list':
+      sorted.forEach(migration => console.log(`${migration.id}\t${migration.name}\t${migration.description}`));
+      return;
+
+    case 'status': {
+      const records = await getMigrationRecords(connect(options.as));
+      sorted.forEach(migration => {
+        const record = records.get(migration.id);
+        const detail = record
+          ? `${record.status}\t${formatTime(record.finishedAt || record.startedAt)}\t${record.ranByName}${record.error ? `\t${record.error}` : ''}`
+          : 'pending';
+        console.log(`${migration.id}\t${migration.name}\t${detail}`);
+      });
+      return;
+    }
+
+    case 'up': {
+      if (!options.as && !options.dryRun) {
+        throw new Error('Pass --as <uid> (or set MIGRATIONS_UID) with the uid of a super-admin in the emulator');
+      }
+      const results = await runMigrations({
+        db: connect(options.as),
+        migrations,
+        ranBy: { uid: options.as || 'cli', name: `CLI (${options.as || 'anonymous'})` },
+        dryRun: options.dryRun,
+        to: options.to,
+      });
+      if (results.some(result => result.status === 'failed')) process.exitCode = 1;
+      return;
+    }
+
+    default:
+      console.log('Usage: npm run migrate -- <list|status|up> [--dry-run] [--to <id>] [--as <uid>]');
+  }
+}
+
+main()
+  .catch(error => {
+    console.error(`❌ ${error.message}`);
+    process.exitCode = 1;
+  })
+  // The Firestore client keeps its connection open
+  .finally(() => process.exit());
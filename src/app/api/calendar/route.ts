@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getChurchTimezone, getEventsInRange, getSiteSettings } from '@/lib/firestore';
+import { getChurchInfo } from '@/lib/mail/templates';
+import { buildICalendar } from '@/lib/utils/calendar';
+import { getTodayInTimezone, addDaysToDateString } from '@/lib/utils/timezoneUtils';
+
+// Public iCalendar feed. Subscribe with webcal://<host>/api/calendar
+// Optional ?from=YYYY-MM-DD&to=YYYY-MM-DD narrows the range (church-local dates).
+export const dynamic = 'force-dynamic';
+
+const FEED_DAYS_BEHIND = 30;
+const FEED_DAYS_AHEAD = 180;
+const MAX_RANGE_DAYS = 366;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export async function GET(request: NextRequest) {
+  const from = request.nextUrl.searchParams.get('from');
+  const to = request.nextUrl.searchParams.get('to');
+
+  if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+    return NextResponse.json({ error: 'from and to must be YYYY-MM-DD dates' }, { status: 400 });
+  }
+
+  try {
+    const [timezone, settings] = await Promise.all([getChurchTimezone(), getSiteSettings()]);
+    const today = getTodayInTimezone(timezone);
+    const rangeStart = from || addDaysToDateString(today, -FEED_DAYS_BEHIND);
+    const rangeEnd = to || addDaysToDateString(today, FEED_DAYS_AHEAD);
+
+    if (rangeEnd < rangeStart || rangeEnd > addDaysToDateString(rangeStart, MAX_RANGE_DAYS)) {
+      return NextResponse.json({ error: `Range must be between 0 and ${MAX_RANGE_DAYS} days` }, { status: 400 });
+    }
+
+    const events = await getEventsInRange(rangeStart, rangeEnd, { includeCancelled: true, timezone });
+
+    return new NextResponse(buildICalendar(events, timezone, getChurchInfo(settings).name), {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="events.ics"',
+        'Cache-Control': 'public, max-age=900, s-maxage=900',
+      },
+    });
+  } catch (error) {
+    console.error('❌ Calendar feed: Failed to build feed:', error);
+    return NextResponse.json({ error: 'Failed to build calendar feed' }, { status: 500 });
+  }
+}
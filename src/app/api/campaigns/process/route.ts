@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { processCampaigns } from '@/lib/mail/campaigns';
+import { getPublicBaseUrl } from '@/lib/mail/subscriptions';
+import { getBearerToken, FirestoreRestError } from '@/lib/server/firestoreRest';
+
+// Sends the next batch of newsletter emails as the signed-in caller. Body: { campaignId?: string }.
+// Responds with { sent, failed, remaining }; the dashboard calls again while remaining is true.
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  const idToken = getBearerToken(request.headers.get('authorization'));
+  if (!idToken) {
+    return NextResponse.json({ error: 'Sign in to send campaigns' }, { status: 401 });
+  }
+
+  let campaignId: unknown;
+  try {
+    ({ campaignId } = await request.json());
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+  if (campaignId !== undefined && (typeof campaignId !== 'string' || !campaignId)) {
+    return NextResponse.json({ error: 'campaignId must be a campaign id' }, { status: 400 });
+  }
+
+  try {
+    const result = await processCampaigns(idToken, getPublicBaseUrl(request.nextUrl.origin), campaignId as string | undefined);
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof FirestoreRestError && (error.status === 401 || error.status === 403)) {
+      return NextResponse.json({ error: 'You do not have permission to send campaigns' }, { status: 403 });
+    }
+    console.error('❌ Campaigns API: Failed to send campaigns:', error);
+    return NextResponse.json({ error: 'Failed to send campaigns' }, { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sendCampaignTest } from '@/lib/mail/campaigns';
+import { getPublicBaseUrl } from '@/lib/mail/subscriptions';
+import { getBearerToken, FirestoreRestError } from '@/lib/server/firestoreRest';
+
+// Sends a single test copy of a campaign. Body: { campaignId, to }.
+// The test is recorded on the campaign with the caller's ID token before it is sent, so only
+// users the Firestore rules let edit campaigns can send tests.
+export const dynamic = 'force-dynamic';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export async function POST(request: NextRequest) {
+  const idToken = getBearerToken(request.headers.get('authorization'));
+  if (!idToken) {
+    return NextResponse.json({ error: 'Sign in to send test emails' }, { status: 401 });
+  }
+
+  let campaignId: unknown;
+  let to: unknown;
+  try {
+    ({ campaignId, to } = await request.json());
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+  if (typeof campaignId !== 'string' || !campaignId) {
+    return NextResponse.json({ error: 'campaignId is required' }, { status: 400 });
+  }
+  if (typeof to !== 'string' || !EMAIL_PATTERN.test(to)) {
+    return NextResponse.json({ error: 'Enter a valid email address for the test' }, { status: 400 });
+  }
+
+  try {
+    const result = await sendCampaignTest(idToken, getPublicBaseUrl(request.nextUrl.origin), campaignId, to);
+    if (!result) {
+      return NextResponse.json({ error: 'Campaign not found' }, { status: 404 });
+    }
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof FirestoreRestError && (error.status === 401 || error.status === 403)) {
+      return NextResponse.json({ error: 'You do not have permission to send test emails' }, { status: 403 });
+    }
+    console.error('❌ Campaigns API: Failed to send test email:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to send test email' },
+      { status: 502 }
+    );
+  }
+}
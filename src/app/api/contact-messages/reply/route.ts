@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sendMail } from '@/lib/mail';
+import { getChurchInfo, renderMailTemplate } from '@/lib/mail/templates';
+import {
+  getBearerToken,
+  getDocumentAsUser,
+  getRestDocumentAsUser,
+  updateDocumentAsUser,
+  FirestoreRestError,
+  RestDocument,
+} from '@/lib/server/firestoreRest';
+
+// Sends an email reply that the dashboard has already saved to a contact message thread.
+// Replies go out straight away rather than through the mail queue, so the sender sees the result.
+// The reply is read with the caller's ID token, so only users allowed by the Firestore rules
+// to read contact message replies can send them. It always goes to the address on the contact
+// message, never one taken from the reply, and is claimed before sending so it goes out once.
+// The dashboard records the result.
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  const idToken = getBearerToken(request.headers.get('authorization'));
+  if (!idToken) {
+    return NextResponse.json({ error: 'Sign in to send replies' }, { status: 401 });
+  }
+
+  let messageId: unknown;
+  let replyId: unknown;
+  try {
+    ({ messageId, replyId } = await request.json());
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+  if (typeof messageId !== 'string' || typeof replyId !== 'string' || !messageId || !replyId) {
+    return NextResponse.json({ error: 'messageId and replyId are required' }, { status: 400 });
+  }
+
+  const messagePath = `contactMessages/${encodeURIComponent(messageId)}`;
+  let message: Record<string, unknown> | null;
+  let reply: RestDocument | null;
+  let settings: Record<string, unknown> | null;
+  try {
+    [message, reply, settings] = await Promise.all([
+      getDocumentAsUser(messagePath, idToken),
+      getRestDocumentAsUser(`${messagePath}/replies/${encodeURIComponent(replyId)}`, idToken),
+      getDocumentAsUser('settings/main', idToken),
+    ]);
+  } catch (error) {
+    if (error instanceof FirestoreRestError && (error.status === 401 || error.status === 403)) {
+      return NextResponse.json({ error: 'You do not have permission to send replies' }, { status: 403 });
+    }
+    console.error('❌ Contact reply API: Failed to load reply:', error);
+    return NextResponse.json({ error: 'Failed to load reply' }, { status: 500 });
+  }
+
+  if (!message || !reply) {
+    return NextResponse.json({ error: 'Reply not found' }, { status: 404 });
+  }
+  if (reply.data.channel !== 'email' || reply.data.status !== 'sending' || reply.data.claimedAt) {
+    return NextResponse.json({ error: 'This reply has already been processed' }, { status: 409 });
+  }
+
+  // A repeated or concurrent request finds the reply changed since it was read and stops here
+  try {
+    await updateDocumentAsUser(
+      `${messagePath}/replies/${encodeURIComponent(replyId)}`,
+      { claimedAt: new Date() },
+      idToken,
+      reply.updateTime
+    );
+  } catch (error) {
+    if (error instanceof FirestoreRestError && (error.status === 401 || error.status === 403)) {
+      return NextResponse.json({ error: 'You do not have permission to send replies' }, { status: 403 });
+    }
+    return NextResponse.json({ error: 'This reply has already been processed' }, { status: 409 });
+  }
+
+  try {
+    const rendered = renderMailTemplate('contact-reply', {
+      recipientName: String(message.name),
+      subject: String(reply.data.subject),
+      body: String(reply.data.body),
+      senderName: String(reply.data.sentByName),
+    }, getChurchInfo(settings));
+    const result = await sendMail({ to: String(message.email), ...rendered });
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('❌ Contact reply API: Failed to send reply:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to send reply' },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { processMailQueue } from '@/lib/mail/queue';
+import { getBearerToken, FirestoreRestError } from '@/lib/server/firestoreRest';
+
+// Sends queued emails as the signed-in caller. Body: { ids?: string[] }.
+// With ids, only those items are sent (the dashboard passes the email it just queued);
+// without, every due item is processed, which needs read access to the whole queue.
+export const dynamic = 'force-dynamic';
+
+const MAX_IDS = 50;
+
+export async function POST(request: NextRequest) {
+  const idToken = getBearerToken(request.headers.get('authorization'));
+  if (!idToken) {
+    return NextResponse.json({ error: 'Sign in to send email' }, { status: 401 });
+  }
+
+  let ids: unknown;
+  try {
+    ({ ids } = await request.json());
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+  if (ids !== undefined && (!Array.isArray(ids) || ids.length > MAX_IDS || !ids.every(id => typeof id === 'string' && id))) {
+    return NextResponse.json({ error: `ids must be a list of up to ${MAX_IDS} queue item ids` }, { status: 400 });
+  }
+
+  try {
+    const result = await processMailQueue(idToken, ids as string[] | undefined);
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof FirestoreRestError && (error.status === 401 || error.status === 403)) {
+      return NextResponse.json({ error: 'You do not have permission to send these emails' }, { status: 403 });
+    }
+    console.error('❌ Mail API: Failed to process mail queue:', error);
+    return NextResponse.json({ error: 'Failed to process mail queue' }, { status: 500 });
+  }
+}
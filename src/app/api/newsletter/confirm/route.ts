@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { confirmNewsletterSignup, getNewsletterChurchInfo, renderNewsletterPage } from '@/lib/mail/subscriptions';
+import { getChurchInfo } from '@/lib/mail/templates';
+
+// Target of the link in the confirmation email: /api/newsletter/confirm?token=...
+// Moves the signup from pending to confirmed and shows a short page.
+export const dynamic = 'force-dynamic';
+
+const messages = {
+  confirmed: ['Subscription confirmed', 'Thank you! You will now receive our newsletter.'],
+  'already-confirmed': ['Already confirmed', 'Your subscription was already confirmed. There is nothing more to do.'],
+  invalid: ['Link not valid', 'This confirmation link is invalid or has expired. Please sign up again on our website.'],
+} as const;
+
+const htmlResponse = (html: string, status = 200) =>
+  new NextResponse(html, { status, headers: { 'Content-Type': 'text/html; charset=utf-8' } });
+
+export async function GET(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get('token') || '';
+
+  try {
+    const result = await confirmNewsletterSignup(token);
+    const church = await getNewsletterChurchInfo();
+    const [title, message] = messages[result];
+    return htmlResponse(renderNewsletterPage(church, title, message), result === 'invalid' ? 400 : 200);
+  } catch (error) {
+    console.error('❌ Newsletter API: Failed to confirm signup:', error);
+    return htmlResponse(
+      renderNewsletterPage(getChurchInfo(null), 'Something went wrong', 'We could not confirm your subscription right now. Please try the link again later.'),
+      500
+    );
+  }
+}
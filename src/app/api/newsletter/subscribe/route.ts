@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { subscribeToNewsletter, getPublicBaseUrl } from '@/lib/mail/subscriptions';
+import { isValidNewsletterEmail, isNewsletterInterest } from '@/lib/utils/newsletterUtils';
+import { NewsletterInterest, NewsletterSource } from '@/lib/firestore';
+
+// Public newsletter signup for the website.
+// Body: { email, name?, interests?: ('youth' | 'outreach' | 'womens-ministry')[], source?: 'website-footer' | 'event-registration' }.
+// Records a pending signup and emails a confirmation link. The response is the same whether
+// or not the address was already on the list, so it cannot be used to look up subscribers.
+export const dynamic = 'force-dynamic';
+
+// The website is served from a different origin than the dashboard
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+const PUBLIC_SOURCES: NewsletterSource[] = ['website-footer', 'event-registration'];
+const MAX_NAME_LENGTH = 200;
+
+const CONFIRMATION_MESSAGE = 'Thanks! Check your inbox for a link to confirm your subscription.';
+
+export async function OPTIONS() {
+  return new NextResponse(null, { status: 204, headers: CORS_HEADERS });
+}
+
+export async function POST(request: NextRequest) {
+  let email: unknown;
+  let name: unknown;
+  let interests: unknown;
+  let source: unknown;
+  try {
+    ({ email, name, interests, source } = await request.json());
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400, headers: CORS_HEADERS });
+  }
+  if (typeof email !== 'string' || !isValidNewsletterEmail(email)) {
+    return NextResponse.json({ error: 'Enter a valid email address' }, { status: 400, headers: CORS_HEADERS });
+  }
+  if (name !== undefined && name !== null && (typeof name !== 'string' || name.length > MAX_NAME_LENGTH)) {
+    return NextResponse.json({ error: `name must be text of up to ${MAX_NAME_LENGTH} characters` }, { status: 400, headers: CORS_HEADERS });
+  }
+  if (interests !== undefined && (!Array.isArray(interests) || !interests.every(isNewsletterInterest))) {
+    return NextResponse.json({ error: 'interests must be a list of known interests' }, { status: 400, headers: CORS_HEADERS });
+  }
+  if (source !== undefined && !PUBLIC_SOURCES.includes(source as NewsletterSource)) {
+    return NextResponse.json({ error: `source must be one of ${PUBLIC_SOURCES.join(', ')}` }, { status: 400, headers: CORS_HEADERS });
+  }
+
+  try {
+    await subscribeToNewsletter(email, {
+      name: typeof name === 'string' ? name.trim() || null : null,
+      interests: Array.from(new Set((interests as NewsletterInterest[] | undefined) || [])),
+      source: (source as NewsletterSource | undefined) || 'website-footer',
+    }, getPublicBaseUrl(request.nextUrl.origin));
+    return NextResponse.json({ message: CONFIRMATION_MESSAGE }, { headers: CORS_HEADERS });
+  } catch (error) {
+    console.error('❌ Newsletter API: Failed to subscribe:', error);
+    return NextResponse.json(
+      { error: 'We could not sign you up right now. Please try again later.' },
+      { status: 500, headers: CORS_HEADERS }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { unsubscribeFromNewsletter, getNewsletterChurchInfo, renderNewsletterPage } from '@/lib/mail/subscriptions';
+import { getChurchInfo } from '@/lib/mail/templates';
+
+// Target of the unsubscribe link in every newsletter: /api/newsletter/unsubscribe?token=...
+// GET shows a confirmation button, because mail scanners open links; POST unsubscribes.
+// Mail clients POST here directly for one-click unsubscribe (List-Unsubscribe-Post).
+export const dynamic = 'force-dynamic';
+
+const htmlResponse = (html: string, status = 200) =>
+  new NextResponse(html, { status, headers: { 'Content-Type': 'text/html; charset=utf-8' } });
+
+export async function GET() {
+  const church = await getNewsletterChurchInfo();
+  const button = '<form method="post"><button type="submit" style="padding:10px 20px;background:#18181b;color:#ffffff;border:0;border-radius:6px;font-size:15px;cursor:pointer">Unsubscribe</button></form>';
+  return htmlResponse(renderNewsletterPage(
+    church,
+    'Unsubscribe from our newsletter?',
+    `You will no longer receive the ${church.name} newsletter.`,
+    button
+  ));
+}
+
+export async function POST(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get('token') || '';
+
+  try {
+    const result = await unsubscribeFromNewsletter(token);
+    const church = await getNewsletterChurchInfo();
+    if (result === 'invalid') {
+      return htmlResponse(renderNewsletterPage(church, 'Link not valid', 'This unsubscribe link is invalid. Please contact us and we will remove you.'), 400);
+    }
+    return htmlResponse(renderNewsletterPage(church, 'You have been unsubscribed', 'You will not receive any more newsletters from us.'));
+  } catch (error) {
+    console.error('❌ Newsletter API: Failed to unsubscribe:', error);
+    return htmlResponse(
+      renderNewsletterPage(getChurchInfo(null), 'Something went wrong', 'We could not unsubscribe you right now. Please try the link again later.'),
+      500
+    );
+  }
+}
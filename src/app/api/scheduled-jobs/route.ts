@@ -0,0 +1,99 @@
+import { timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { processCampaigns } from '@/lib/mail/campaigns';
+import { processMailQueue, MailQueueRunResult } from '@/lib/mail/queue';
+import { getPublicBaseUrl } from '@/lib/mail/subscriptions';
+import { getBearerToken } from '@/lib/server/firestoreRest';
+import { purgeExpiredExportArchivesAsUser } from '@/lib/server/exportArchives';
+import { getSchedulerIdToken } from '@/lib/server/serviceUser';
+
+// Runs the background work that used to wait for someone to have the dashboard open: sending
+// scheduled campaigns, retrying queued emails and deleting expired export files. Called by Vercel Cron (see vercel.json) with
+// "Authorization: Bearer <CRON_SECRET>", and acts as the scheduler account (see serviceUser.ts).
+// Each job reports its own result, so one failing job does not stop the others.
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+// Stop starting new batches after this long, leaving time to finish the current one
+const TIME_BUDGET_MS = 40 * 1000;
+
+interface JobContext {
+  idToken: string;
+  baseUrl: string;
+  deadline: number;
+}
+
+const isAuthorized = (request: NextRequest) => {
+  const secret = process.env.CRON_SECRET;
+  const token = getBearerToken(request.headers.get('authorization'));
+  if (!secret || !token) return false;
+  const expected = Buffer.from(secret);
+  const actual = Buffer.from(token);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
+
+// Sends batches until every due campaign is done, a batch makes no progress or time runs out
+const sendDueCampaigns = async ({ idToken, baseUrl, deadline }: JobContext) => {
+  const total = { sent: 0, failed: 0, remaining: true };
+  while (total.remaining && Date.now() < deadline) {
+    const result = await processCampaigns(idToken, baseUrl);
+    total.sent += result.sent;
+    total.failed += result.failed;
+    total.remaining = result.remaining;
+    if (result.sent + result.failed === 0) break;
+  }
+  return total;
+};
+
+// Sends due emails a batch at a time until none are left or time runs out
+const sendDueEmails = async ({ idToken, deadline }: JobContext) => {
+  const total: MailQueueRunResult = { sent: 0, retrying: 0, failed: 0, skipped: 0 };
+  while (Date.now() < deadline) {
+    const result = await processMailQueue(idToken);
+    total.sent += result.sent;
+    total.retrying += result.retrying;
+    total.failed += result.failed;
+    total.skipped += result.skipped;
+    if (result.sent + result.retrying + result.failed === 0) break;
+  }
+  return total;
+};
+
+const jobs: Record<string, (context: JobContext) => Promise<unknown>> = {
+  campaigns: sendDueCampaigns,
+  mailQueue: sendDueEmails,
+  exportArchives: async ({ idToken }) => ({ deleted: await purgeExpiredExportArchivesAsUser(idToken) }),
+};
+
+export async function GET(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  let idToken: string;
+  try {
+    idToken = await getSchedulerIdToken();
+  } catch (error) {
+    console.error('❌ Scheduled jobs: Failed to sign in the scheduler account:', error);
+    return NextResponse.json({ error: 'Failed to sign in the scheduler account' }, { status: 500 });
+  }
+
+  const context: JobContext = {
+    idToken,
+    baseUrl: getPublicBaseUrl(request.nextUrl.origin),
+    deadline: Date.now() + TIME_BUDGET_MS,
+  };
+  const results: Record<string, unknown> = {};
+  let failed = false;
+  for (const [name, job] of Object.entries(jobs)) {
+    try {
+      results[name] = await job(context);
+    } catch (error) {
+      console.error(`❌ Scheduled jobs: ${name} failed:`, error);
+      results[name] = { error: error instanceof Error ? error.message : 'Failed' };
+      failed = true;
+    }
+  }
+
+  return NextResponse.json(results, { status: failed ? 500 : 200 });
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPublishedTestimonies } from '@/lib/firestore';
+
+// Public, read-only list of published testimonies for the website.
+// Only the editor-approved excerpt is returned, never the original text.
+// Optional ?limit=N caps the number returned (newest first).
+export const dynamic = 'force-dynamic';
+
+const MAX_LIMIT = 50;
+
+export async function GET(request: NextRequest) {
+  const limitParam = request.nextUrl.searchParams.get('limit');
+  const limit = limitParam ? Number(limitParam) : MAX_LIMIT;
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return NextResponse.json({ error: `limit must be a whole number from 1 to ${MAX_LIMIT}` }, { status: 400 });
+  }
+
+  try {
+    const testimonies = await getPublishedTestimonies(limit);
+
+    return NextResponse.json({ testimonies }, {
+      headers: {
+        'Cache-Control': 'public, max-age=300, s-maxage=300',
+      },
+    });
+  } catch (error) {
+    console.error('❌ Testimonies API: Failed to load published testimonies:', error);
+    return NextResponse.json({ error: 'Failed to load testimonies' }, { status: 500 });
+  }
+}
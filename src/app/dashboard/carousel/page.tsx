@@ -4,7 +4,6 @@ import { useState, useEffect } from 'react';
 import Image from 'next/image';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import * as z from 'zod';
 import {
   DndContext,
   closestCenter,
@@ -44,6 +43,7 @@ import {
   reorderCarouselSlides,
   subscribeToCarouselSlides
 } from '@/lib/firestore/content';
+import { carouselSlideFormSchema, CarouselSlideFormData } from '@/lib/firestore/schemas';
 import { 
   Plus, 
   Edit, 
@@ -55,16 +55,6 @@ import {
   GripVertical 
 } from 'lucide-react';
 
-const carouselSchema = z.object({
-  headline: z.string().min(1, 'Headline is required'),
-  subheadline: z.string().min(1, 'Subheadline is required'),
-  ctaText: z.string().optional(),
-  ctaLink: z.string().url().optional().or(z.literal('')),
-  isVisible: z.boolean(),
-});
-
-type CarouselFormData = z.infer<typeof carouselSchema>;
-
 // Draggable Slide Component
 function DraggableSlide({ 
   slide, 
@@ -197,7 +187,7 @@ function DraggableSlide({
 }
 
 export default function CarouselPage() {
-  const { loading: authLoading } = useProtectedRoute();
+  const { loading: authLoading } = useProtectedRoute('carousel');
   const [slides, setSlides] = useState<CarouselSlide[]>([]);
   const [loading, setLoading] = useState(true);
   const [editingSlide, setEditingSlide] = useState<CarouselSlide | null>(null);
@@ -218,8 +208,8 @@ export default function CarouselPage() {
     setValue,
     watch,
     formState: { errors, isSubmitting },
-  } = useForm<CarouselFormData>({
-    resolver: zodResolver(carouselSchema),
+  } = useForm<CarouselSlideFormData>({
+    resolver: zodResolver(carouselSlideFormSchema),
     defaultValues: {
       isVisible: true,
     },
@@ -267,7 +257,7 @@ export default function CarouselPage() {
     }
   };
 
-  const onSubmit = async (data: CarouselFormData) => {
+  const onSubmit = async (data: CarouselSlideFormData) => {
     if (!uploadedImageUrl && !editingSlide?.imageUrl) {
       toast.error('Please upload an image');
       return;
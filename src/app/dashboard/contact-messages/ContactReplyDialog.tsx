@@ -0,0 +1,293 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Mail, Phone, Send } from 'lucide-react';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import {
+  ContactMessage,
+  ContactMessageReply,
+  subscribeToContactMessageReplies,
+  createContactMessageReply,
+  updateContactMessageReply,
+  setContactMessageStatus,
+} from '@/lib/firestore';
+import {
+  contactStatusLabels,
+  contactStatusBadgeClass,
+  replyStatusLabels,
+  callOutcomeLabels,
+  getReplySubject,
+  getReplyChannels,
+} from '@/lib/utils/contactMessageUtils';
+import { useAuth } from '@/contexts/AuthContext';
+import { logUpdate } from '@/lib/firebase/logActivity';
+import { postJsonAsUser } from '@/lib/utils/authFetch';
+
+type CallOutcome = NonNullable<ContactMessageReply['callOutcome']>;
+
+interface ContactReplyDialogProps {
+  message: ContactMessage;
+  onClose: () => void;
+}
+
+export default function ContactReplyDialog({ message, onClose }: ContactReplyDialogProps) {
+  const { user } = useAuth();
+  const channels = getReplyChannels(message);
+  const [replies, setReplies] = useState<ContactMessageReply[]>([]);
+  const [channel, setChannel] = useState<ContactMessageReply['channel']>(channels[0]);
+  const [subject, setSubject] = useState(getReplySubject(message));
+  const [body, setBody] = useState('');
+  const [callOutcome, setCallOutcome] = useState<CallOutcome>('spoke');
+  const [callNotes, setCallNotes] = useState('');
+  const [isSending, setIsSending] = useState(false);
+
+  useEffect(() => {
+    if (!message.id) return;
+    const unsubscribe = subscribeToContactMessageReplies(message.id, setReplies);
+    return () => unsubscribe();
+  }, [message.id]);
+
+  const title = message.subject || message.name || 'Contact Message';
+  const senderName = user?.displayName || user?.email || 'Unknown';
+
+  // Replying never reopens a closed conversation on its own
+  const markReplied = async () => {
+    if (!user || !message.id || message.status === 'closed') return;
+    await setContactMessageStatus(message.id, 'replied', user.uid);
+  };
+
+  const handleSendEmail = async () => {
+    if (!user || !message.id) return;
+    if (!subject.trim() || !body.trim()) {
+      toast.error('Write a subject and message before sending');
+      return;
+    }
+
+    setIsSending(true);
+    let replyId: string | null = null;
+    try {
+      replyId = await createContactMessageReply(message.id, {
+        channel: 'email',
+        to: message.email,
+        subject: subject.trim(),
+        body: body.trim(),
+        status: 'sending',
+        sentBy: user.uid,
+        sentByName: senderName,
+      });
+
+      const result = await postJsonAsUser<{ messageId: string; transport: string }>(
+        user,
+        '/api/contact-messages/reply',
+        { messageId: message.id, replyId }
+      );
+
+      await updateContactMessageReply(message.id, replyId, {
+        status: 'sent',
+        error: null,
+        transport: result.transport,
+        providerMessageId: result.messageId,
+      });
+      await markReplied();
+      await logUpdate('contactMessages', title, user.uid, { action: 'email_reply', transport: result.transport });
+      toast.success(`Reply sent to ${message.email}`);
+      setBody('');
+    } catch (error) {
+      console.error('Failed to send reply:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to send reply';
+      if (replyId) {
+        await updateContactMessageReply(message.id, replyId, {
+          status: 'failed',
+          error: errorMessage,
+          transport: null,
+          providerMessageId: null,
+        }).catch((updateError) => console.error('Failed to record reply failure:', updateError));
+      }
+      toast.error(errorMessage);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleLogCall = async () => {
+    if (!user || !message.id) return;
+    if (!callNotes.trim()) {
+      toast.error('Add a few notes about the call');
+      return;
+    }
+
+    setIsSending(true);
+    try {
+      await createContactMessageReply(message.id, {
+        channel: 'phone',
+        to: message.phone || '',
+        body: callNotes.trim(),
+        status: 'logged',
+        callOutcome,
+        sentBy: user.uid,
+        sentByName: senderName,
+      });
+      // Only a conversation counts as a reply; voicemails and missed calls leave the status alone
+      if (callOutcome === 'spoke') await markReplied();
+      await logUpdate('contactMessages', title, user.uid, { action: 'call_logged', callOutcome });
+      toast.success('Call logged');
+      setCallNotes('');
+    } catch (error) {
+      console.error('Failed to log call:', error);
+      toast.error('Failed to log call');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const emailForm = (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>To</Label>
+        <Input value={`${message.name} <${message.email}>`} disabled />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="replySubject">Subject</Label>
+        <Input id="replySubject" value={subject} onChange={(e) => setSubject(e.target.value)} />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="replyBody">Message</Label>
+        <Textarea
+          id="replyBody"
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          placeholder="The greeting, your name and the church contact details are added for you"
+          rows={8}
+        />
+      </div>
+      <div className="flex justify-end">
+        <Button onClick={handleSendEmail} disabled={isSending || !body.trim()} className="flex items-center gap-2">
+          <Send className="h-4 w-4" />
+          {isSending ? 'Sending...' : 'Send Reply'}
+        </Button>
+      </div>
+    </div>
+  );
+
+  const callForm = (
+    <div className="space-y-4">
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label>Phone</Label>
+          <Input value={message.phone || 'No phone number given'} disabled />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="callOutcome">Outcome</Label>
+          <Select value={callOutcome} onValueChange={(value) => setCallOutcome(value as CallOutcome)}>
+            <SelectTrigger id="callOutcome">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(callOutcomeLabels) as CallOutcome[]).map((option) => (
+                <SelectItem key={option} value={option}>
+                  {callOutcomeLabels[option]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="callNotes">Call Notes</Label>
+        <Textarea
+          id="callNotes"
+          value={callNotes}
+          onChange={(e) => setCallNotes(e.target.value)}
+          placeholder="What was discussed and any next steps"
+          rows={4}
+        />
+      </div>
+      <div className="flex justify-end">
+        <Button onClick={handleLogCall} disabled={isSending || !callNotes.trim()} className="flex items-center gap-2">
+          <Phone className="h-4 w-4" />
+          {isSending ? 'Saving...' : 'Log Call'}
+        </Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {message.subject}
+            <Badge variant="outline" className={contactStatusBadgeClass[message.status]}>
+              {contactStatusLabels[message.status]}
+            </Badge>
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {/* Original Message */}
+          <div className="rounded-md border p-3 space-y-1">
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-medium">{message.name}</span>
+              <span className="text-muted-foreground">
+                {message.createdAt ? format(message.createdAt.toDate(), 'MMM d, yyyy h:mm a') : ''}
+              </span>
+            </div>
+            <p className="text-sm whitespace-pre-wrap">{message.message}</p>
+          </div>
+
+          {/* Thread */}
+          {replies.length > 0 && (
+            <div className="space-y-3">
+              <Label>Conversation ({replies.length})</Label>
+              {replies.map((reply) => (
+                <div key={reply.id} className="ml-6 rounded-md border bg-gray-50 p-3 space-y-1">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="flex items-center gap-2 font-medium">
+                      {reply.channel === 'email' ? <Mail className="h-4 w-4" /> : <Phone className="h-4 w-4" />}
+                      {reply.sentByName}
+                      {reply.callOutcome && (
+                        <span className="font-normal text-muted-foreground">· {callOutcomeLabels[reply.callOutcome]}</span>
+                      )}
+                    </span>
+                    <span className="flex items-center gap-2 text-muted-foreground">
+                      {reply.createdAt ? format(reply.createdAt.toDate(), 'MMM d, yyyy h:mm a') : ''}
+                      {reply.channel === 'email' && (
+                        <Badge variant={reply.status === 'failed' ? 'destructive' : 'outline'}>
+                          {replyStatusLabels[reply.status]}
+                        </Badge>
+                      )}
+                    </span>
+                  </div>
+                  {reply.subject && <p className="text-sm font-medium">{reply.subject}</p>}
+                  <p className="text-sm whitespace-pre-wrap">{reply.body}</p>
+                  {reply.error && <p className="text-xs text-red-500">{reply.error}</p>}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Composer */}
+          {channels.length > 1 ? (
+            <Tabs value={channel} onValueChange={(value) => setChannel(value as ContactMessageReply['channel'])}>
+              <TabsList>
+                <TabsTrigger value="email">Email Reply</TabsTrigger>
+                <TabsTrigger value="phone">Log Call</TabsTrigger>
+              </TabsList>
+              <TabsContent value="email">{emailForm}</TabsContent>
+              <TabsContent value="phone">{callForm}</TabsContent>
+            </Tabs>
+          ) : channel === 'phone' ? callForm : emailForm}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
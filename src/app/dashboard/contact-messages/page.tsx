@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { useProtectedRoute } from '@/hooks/useProtectedRoute';
+import { useInboxWindow } from '@/hooks/useInboxWindow';
 import DashboardLayout from '@/components/layout/DashboardLayout';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -21,34 +22,41 @@ import {
   EyeOff,
   MessageSquare,
   Mail,
-  Phone
+  Phone,
+  Reply,
+  CheckCircle,
+  RotateCcw
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { format } from 'date-fns';
 import { 
   ContactMessage, 
+  ContactMessageStatus,
   getContactMessagesWithFilters, 
-  deleteDocument, 
-  contactMessagesCollection,
+  getContactMessageCounts,
+  getChurchTimezone,
+  contactMessagesRepository,
   markContactMessageAsRead,
   markMultipleContactMessagesAsRead,
-  subscribeToContactMessages,
-  getUnreadContactMessagesCount
+  setContactMessageStatus,
+  subscribeToContactMessages
 } from '@/lib/firestore';
 import { logDelete, logUpdate } from '@/lib/firebase/logActivity';
 import { useAuth } from '@/contexts/AuthContext';
 import ExportModal from '@/components/ui/ExportModal';
 import ExportHistory from '@/components/ui/ExportHistory';
+import ContactReplyDialog from './ContactReplyDialog';
+import { CONTACT_MESSAGE_STATUSES, contactStatusLabels, contactStatusBadgeClass } from '@/lib/utils/contactMessageUtils';
+import { DEFAULT_TIMEZONE } from '@/lib/utils/timezoneUtils';
 
-type FilterType = 'all' | 'new' | 'read';
+type FilterType = 'all' | ContactMessageStatus;
 
 export default function ContactMessagesPage() {
-  const { loading } = useProtectedRoute();
+  const { loading } = useProtectedRoute('contactMessages');
   const { user } = useAuth();
   
-  const [contactMessages, setContactMessages] = useState<ContactMessage[]>([]);
   const [filteredContactMessages, setFilteredContactMessages] = useState<ContactMessage[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
+  const [stats, setStats] = useState({ total: 0, unread: 0, awaitingReply: 0, replied: 0 });
   const [showExportModal, setShowExportModal] = useState(false);
   const [selectedMessages, setSelectedMessages] = useState<Set<string>>(new Set());
   const [searchTerm, setSearchTerm] = useState('');
@@ -56,55 +64,66 @@ export default function ContactMessagesPage() {
   const [dateFrom, setDateFrom] = useState('');
   const [dateTo, setDateTo] = useState('');
   const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set());
+  const [replyTarget, setReplyTarget] = useState<ContactMessage | null>(null);
+  const [timezone, setTimezone] = useState(DEFAULT_TIMEZONE);
 
-  useEffect(() => {
-    // Only set up listeners if user is authenticated
-    if (!user) {
-      setContactMessages([]);
-      setFilteredContactMessages([]);
-      setIsLoading(false);
-      return;
-    }
-
-    const fetchData = async () => {
-      try {
-        const data = await getContactMessagesWithFilters();
-        setContactMessages(data);
-        setFilteredContactMessages(data);
-        
-        // Get unread count
-        await getUnreadContactMessagesCount();
-      } catch (error) {
-        console.error('Failed to fetch contact messages:', error);
-        
-        // Provide more specific error messages
-        if (error instanceof Error) {
-          if (error.message.includes('permission')) {
-            toast.error('Permission denied: Cannot access contact messages');
-          } else if (error.message.includes('network')) {
-            toast.error('Network error: Please check your connection');
-          } else {
-            toast.error(`Failed to fetch contact messages: ${error.message}`);
-          }
+  // Status and date filters run on the server; search filters the loaded pages
+  const serverFilters = { filterType, dateFrom, dateTo, timezone };
+  const {
+    items: contactMessages,
+    isLoading,
+    hasMore,
+    isLoadingMore,
+    loadMore,
+  } = useInboxWindow<ContactMessage>({
+    enabled: Boolean(user),
+    filtersKey: JSON.stringify(serverFilters),
+    loadPage: (after) => getContactMessagesWithFilters(serverFilters, { after }),
+    subscribe: (until, callback) => subscribeToContactMessages(callback, serverFilters, { until }),
+    onError: (error) => {
+      console.error('Failed to fetch contact messages:', error);
+      
+      // Provide more specific error messages
+      if (error instanceof Error) {
+        if (error.message.includes('permission')) {
+          toast.error('Permission denied: Cannot access contact messages');
+        } else if (error.message.includes('network')) {
+          toast.error('Network error: Please check your connection');
         } else {
-          toast.error('Failed to fetch contact messages');
+          toast.error(`Failed to fetch contact messages: ${error.message}`);
         }
-      } finally {
-        setIsLoading(false);
+      } else {
+        toast.error('Failed to fetch contact messages');
       }
-    };
+    },
+  });
 
-    fetchData();
+  useEffect(() => {
+    if (!user) return;
+
+    // Deleted messages can be restored for a while; clear out the ones past that
+    contactMessagesRepository.purgeDeleted()
+      .catch(error => console.warn('Failed to purge deleted contact messages:', error));
+  }, [user]);
 
-    // Set up real-time listener
-    const unsubscribe = subscribeToContactMessages((data) => {
-      setContactMessages(data);
-      setFilteredContactMessages(data);
-    });
+  // The date filters are days in the church timezone
+  useEffect(() => {
+    if (!user) return;
 
-    return () => unsubscribe();
+    getChurchTimezone()
+      .then(setTimezone)
+      .catch(error => console.error('Failed to load church timezone:', error));
   }, [user]);
 
+  // The loaded pages change whenever a message arrives or changes status, so the totals follow them
+  useEffect(() => {
+    if (!user) return;
+
+    getContactMessageCounts()
+      .then(setStats)
+      .catch(error => console.error('Failed to count contact messages:', error));
+  }, [user, contactMessages]);
+
   useEffect(() => {
     let filtered = contactMessages;
 
@@ -119,35 +138,8 @@ export default function ContactMessagesPage() {
       );
     }
 
-    // Apply type filter
-    if (filterType !== 'all') {
-      switch (filterType) {
-        case 'new':
-          filtered = filtered.filter(message => message.status === 'new');
-          break;
-        case 'read':
-          filtered = filtered.filter(message => message.status === 'read');
-          break;
-      }
-    }
-
-    // Apply date filter
-    if (dateFrom || dateTo) {
-      filtered = filtered.filter(message => {
-        if (!message.createdAt) return false;
-        const messageDate = message.createdAt.toDate();
-        const fromDate = dateFrom ? new Date(dateFrom) : null;
-        const endDate = dateTo ? new Date(dateTo) : null;
-        
-        if (fromDate && messageDate < fromDate) return false;
-        if (endDate && messageDate > endDate) return false;
-        
-        return true;
-      });
-    }
-
     setFilteredContactMessages(filtered);
-  }, [contactMessages, searchTerm, filterType, dateFrom, dateTo]);
+  }, [contactMessages, searchTerm]);
 
   const handleSelectAll = (checked: boolean) => {
     if (checked) {
@@ -190,20 +182,29 @@ export default function ContactMessagesPage() {
   const handleMarkMultipleAsRead = async () => {
     if (!user || selectedMessages.size === 0) return;
     
+    // Replied and closed messages have already been read; leave their status alone
+    const unreadIds = contactMessages
+      .filter(m => selectedMessages.has(m.id!) && m.status === 'new')
+      .map(m => m.id!);
+    if (unreadIds.length === 0) {
+      setSelectedMessages(new Set());
+      return;
+    }
+    
     try {
       await markMultipleContactMessagesAsRead(
-        Array.from(selectedMessages), 
+        unreadIds, 
         user.uid, 
         user.email || ''
       );
       
       // Log the bulk update activity
-      await logUpdate('contactMessages', `${selectedMessages.size} contact messages`, user.uid, {
+      await logUpdate('contactMessages', `${unreadIds.length} contact messages`, user.uid, {
         action: 'bulk_mark_read',
-        count: selectedMessages.size
+        count: unreadIds.length
       });
       
-      toast.success(`${selectedMessages.size} contact message(s) marked as read`);
+      toast.success(`${unreadIds.length} contact message(s) marked as read`);
       setSelectedMessages(new Set());
     } catch (error) {
       console.error('Failed to mark multiple as read:', error);
@@ -211,6 +212,23 @@ export default function ContactMessagesPage() {
     }
   };
 
+  const handleSetStatus = async (message: ContactMessage, status: ContactMessageStatus) => {
+    if (!user || !message.id) return;
+    
+    try {
+      await setContactMessageStatus(message.id, status, user.uid);
+      await logUpdate('contactMessages', message.subject || message.name || 'Contact Message', user.uid, {
+        action: status === 'closed' ? 'close' : 'reopen',
+        fromStatus: message.status,
+        toStatus: status
+      });
+      toast.success(status === 'closed' ? 'Conversation closed' : 'Conversation reopened');
+    } catch (error) {
+      console.error('Failed to update status:', error);
+      toast.error('Failed to update status');
+    }
+  };
+
   const handleDelete = async (messageId: string) => {
     if (!confirm('Are you sure you want to delete this contact message?')) return;
     
@@ -219,12 +237,14 @@ export default function ContactMessagesPage() {
       const message = contactMessages.find(m => m.id === messageId);
       const title = message?.subject || message?.name || 'Contact Message';
       
-      await deleteDocument(contactMessagesCollection, messageId);
+      await contactMessagesRepository.remove(messageId, user?.uid);
       
       // Log the deletion activity
       await logDelete('contactMessages', title, user?.uid);
       
-      toast.success('Contact message deleted');
+      toast.success('Contact message deleted', {
+        action: { label: 'Undo', onClick: () => handleRestore([messageId]) },
+      });
     } catch (error) {
       console.error('Failed to delete:', error);
       toast.error('Failed to delete contact message');
@@ -237,10 +257,8 @@ export default function ContactMessagesPage() {
     if (!confirm(`Are you sure you want to delete ${selectedMessages.size} contact message(s)?`)) return;
     
     try {
-      const promises = Array.from(selectedMessages).map(id => 
-        deleteDocument(contactMessagesCollection, id)
-      );
-      await Promise.all(promises);
+      const ids = Array.from(selectedMessages);
+      await Promise.all(ids.map(id => contactMessagesRepository.remove(id, user?.uid)));
       
       // Log the bulk deletion activity
       await logDelete('contactMessages', `${selectedMessages.size} contact messages`, user?.uid, {
@@ -248,7 +266,9 @@ export default function ContactMessagesPage() {
         count: selectedMessages.size
       });
       
-      toast.success(`${selectedMessages.size} contact message(s) deleted`);
+      toast.success(`${selectedMessages.size} contact message(s) deleted`, {
+        action: { label: 'Undo', onClick: () => handleRestore(ids) },
+      });
       setSelectedMessages(new Set());
     } catch (error) {
       console.error('Failed to delete multiple:', error);
@@ -256,6 +276,16 @@ export default function ContactMessagesPage() {
     }
   };
 
+  const handleRestore = async (ids: string[]) => {
+    try {
+      await Promise.all(ids.map(id => contactMessagesRepository.restore(id)));
+      toast.success(ids.length === 1 ? 'Contact message restored' : `${ids.length} contact messages restored`);
+    } catch (error) {
+      console.error('Failed to restore:', error);
+      toast.error('Failed to restore contact message');
+    }
+  };
+
   const toggleExpanded = (messageId: string) => {
     const newExpanded = new Set(expandedRows);
     if (newExpanded.has(messageId)) {
@@ -266,15 +296,11 @@ export default function ContactMessagesPage() {
     setExpandedRows(newExpanded);
   };
 
-  const getStats = () => {
-    const total = contactMessages.length;
-    const unread = contactMessages.filter(m => m.status === 'new').length;
-    const read = total - unread;
-    
-    return { total, unread, read };
-  };
-
-  const stats = getStats();
+  // Looked up from the live list so the dialog's status badge follows updates. Replying can move the
+  // message out of a status filter, so the copy the dialog was opened with stays as a fallback.
+  const replyMessage = replyTarget
+    ? contactMessages.find(m => m.id === replyTarget.id) ?? replyTarget
+    : undefined;
 
   if (loading) {
     return (
@@ -329,7 +355,7 @@ export default function ContactMessagesPage() {
         </div>
 
         {/* Stats Cards */}
-        <div className="grid gap-4 md:grid-cols-3">
+        <div className="grid gap-4 md:grid-cols-4">
           <Card>
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
               <CardTitle className="text-sm font-medium">Total Messages</CardTitle>
@@ -350,11 +376,20 @@ export default function ContactMessagesPage() {
           </Card>
           <Card>
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Read</CardTitle>
+              <CardTitle className="text-sm font-medium">Awaiting Reply</CardTitle>
               <Eye className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold text-blue-600">{stats.read}</div>
+              <div className="text-2xl font-bold text-blue-600">{stats.awaitingReply}</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Replied</CardTitle>
+              <Reply className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold text-green-600">{stats.replied}</div>
             </CardContent>
           </Card>
         </div>
@@ -390,8 +425,11 @@ export default function ContactMessagesPage() {
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="all">All Messages</SelectItem>
-                    <SelectItem value="new">Unread Only</SelectItem>
-                    <SelectItem value="read">Read Only</SelectItem>
+                    {CONTACT_MESSAGE_STATUSES.map((status) => (
+                      <SelectItem key={status} value={status}>
+                        {contactStatusLabels[status]} Only
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
@@ -420,7 +458,9 @@ export default function ContactMessagesPage() {
         {/* Contact Messages Table */}
         <Card>
           <CardHeader>
-            <CardTitle>Contact Messages ({filteredContactMessages.length})</CardTitle>
+            <CardTitle>
+              Contact Messages ({filteredContactMessages.length}{hasMore ? ' loaded' : ''})
+            </CardTitle>
           </CardHeader>
           <CardContent>
             {isLoading ? (
@@ -461,7 +501,7 @@ export default function ContactMessagesPage() {
                             <TableHead className="w-32 px-3 py-3">Preferred Contact</TableHead>
                             <TableHead className="w-24 px-3 py-3">Created</TableHead>
                             <TableHead className="w-20 px-3 py-3">Status</TableHead>
-                            <TableHead className="w-32 px-3 py-3">Actions</TableHead>
+                            <TableHead className="w-40 px-3 py-3">Actions</TableHead>
                           </TableRow>
                         </TableHeader>
                         <TableBody>
@@ -539,13 +579,13 @@ export default function ContactMessagesPage() {
                                 )}
                               </TableCell>
                               <TableCell className="px-3 py-3">
-                                <Badge variant={message.status === 'read' ? 'default' : 'destructive'}>
-                                  {message.status === 'read' ? 'Read' : 'Unread'}
+                                <Badge variant="outline" className={contactStatusBadgeClass[message.status]}>
+                                  {contactStatusLabels[message.status]}
                                 </Badge>
                               </TableCell>
                               <TableCell className="px-3 py-3">
                                 <div className="flex items-center gap-1">
-                                  {message.status === 'new' ? (
+                                  {message.status === 'new' && (
                                     <Button
                                       variant="ghost"
                                       size="sm"
@@ -555,15 +595,38 @@ export default function ContactMessagesPage() {
                                     >
                                       <Eye className="h-4 w-4" />
                                     </Button>
+                                  )}
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => {
+                                      if (message.status === 'new') handleMarkAsRead(message.id!);
+                                      setReplyTarget(message);
+                                    }}
+                                    className="h-8 w-8 p-0"
+                                    title="Reply"
+                                  >
+                                    <Reply className="h-4 w-4" />
+                                  </Button>
+                                  {message.status === 'closed' ? (
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      onClick={() => handleSetStatus(message, 'read')}
+                                      className="h-8 w-8 p-0"
+                                      title="Reopen"
+                                    >
+                                      <RotateCcw className="h-4 w-4" />
+                                    </Button>
                                   ) : (
                                     <Button
                                       variant="ghost"
                                       size="sm"
-                                      onClick={() => handleMarkAsRead(message.id!)}
+                                      onClick={() => handleSetStatus(message, 'closed')}
                                       className="h-8 w-8 p-0"
-                                      title="Mark as unread"
+                                      title="Close"
                                     >
-                                      <EyeOff className="h-4 w-4" />
+                                      <CheckCircle className="h-4 w-4" />
                                     </Button>
                                   )}
                                   <Button
@@ -586,16 +649,31 @@ export default function ContactMessagesPage() {
                 </div>
               </div>
             )}
+            {!isLoading && hasMore && (
+              <div className="flex justify-center pt-4">
+                <Button variant="outline" onClick={loadMore} disabled={isLoadingMore}>
+                  {isLoadingMore ? 'Loading...' : 'Load older messages'}
+                </Button>
+              </div>
+            )}
           </CardContent>
         </Card>
 
         {/* Export History */}
         <ExportHistory 
-          collection="contact_messages_exports"
-          contactMessages={contactMessages}
+          dataset="contactMessages"
+          items={contactMessages}
         />
       </div>
 
+      {/* Reply Dialog */}
+      {replyMessage && (
+        <ContactReplyDialog
+          message={replyMessage}
+          onClose={() => setReplyTarget(null)}
+        />
+      )}
+
       {/* Export Modal */}
       <ExportModal
         isOpen={showExportModal}
@@ -604,7 +682,7 @@ export default function ContactMessagesPage() {
           ? filteredContactMessages.filter(m => selectedMessages.has(m.id!))
           : filteredContactMessages
         }
-        exportType="contact_messages"
+        dataset="contactMessages"
         onExportSuccess={() => {
           setShowExportModal(false);
           setSelectedMessages(new Set());
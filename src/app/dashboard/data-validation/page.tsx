@@ -0,0 +1,188 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useProtectedRoute } from '@/hooks/useProtectedRoute';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { ShieldCheck, AlertTriangle, CheckCircle, Database, ExternalLink } from 'lucide-react';
+import { toast } from 'sonner';
+import { CollectionValidationResult, validateCollections, validatedCollections } from '@/lib/firestore';
+import { canRead } from '@/lib/auth/roles';
+
+const MAX_VALUE_LENGTH = 80;
+
+const formatStoredValue = (value: unknown) => {
+  if (value === undefined) return '(missing)';
+  const text = typeof value === 'string' ? `"${value}"` : JSON.stringify(value);
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}…` : text;
+};
+
+export default function DataValidationPage() {
+  const { role, loading } = useProtectedRoute('settings');
+  const [results, setResults] = useState<CollectionValidationResult[] | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  // Only collections this role can read can be checked
+  const collections = validatedCollections.filter(collection => canRead(role, collection.resource));
+
+  const handleCheck = async () => {
+    setIsChecking(true);
+    try {
+      const checked = await validateCollections(collections);
+      setResults(checked);
+      const invalidCount = checked.reduce((total, result) => total + result.invalid.length, 0);
+      if (invalidCount === 0) {
+        toast.success('Every document passed validation');
+      } else {
+        toast.warning(`${invalidCount} document(s) failed validation`);
+      }
+    } catch (error) {
+      console.error('Failed to validate collections:', error);
+      toast.error('Failed to check collections');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <DashboardLayout>
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  const invalidCount = results?.reduce((total, result) => total + result.invalid.length, 0) ?? 0;
+  const failedResults = results?.filter(result => result.invalid.length > 0 || result.error) ?? [];
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Data Validation</h1>
+            <p className="text-gray-600 mt-2">
+              Documents that don&apos;t match their expected shape are left out of the dashboard tables. Find them here and fix the listed fields.
+            </p>
+          </div>
+          <Button onClick={handleCheck} disabled={isChecking || collections.length === 0}>
+            <ShieldCheck className="h-4 w-4 mr-2" />
+            {isChecking ? 'Checking...' : results ? 'Check Again' : 'Check Collections'}
+          </Button>
+        </div>
+
+        {/* Stats */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <Card>
+            <CardContent className="p-6">
+              <div className="flex items-center space-x-3">
+                <div className="p-2 bg-blue-100 rounded-lg">
+                  <Database className="h-6 w-6 text-blue-600" />
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-gray-600">Collections</p>
+                  <p className="text-2xl font-bold text-gray-900">{collections.length}</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-6">
+              <div className="flex items-center space-x-3">
+                <div className="p-2 bg-red-100 rounded-lg">
+                  <AlertTriangle className="h-6 w-6 text-red-600" />
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-gray-600">Invalid Documents</p>
+                  <p className="text-2xl font-bold text-gray-900">{results ? invalidCount : '—'}</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        {!results ? (
+          <Card>
+            <CardContent className="text-center py-8">
+              <ShieldCheck className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-gray-900 mb-2">Not checked yet</h3>
+              <p className="text-gray-500">
+                Checking reads every document in the {collections.length} collection(s) you have access to.
+              </p>
+            </CardContent>
+          </Card>
+        ) : failedResults.length === 0 ? (
+          <Card>
+            <CardContent className="text-center py-8">
+              <CheckCircle className="h-12 w-12 text-green-500 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-gray-900 mb-2">No problems found</h3>
+              <p className="text-gray-500">Every document in the checked collections passed validation.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          failedResults.map(({ collection, invalid, error }) => (
+            <Card key={collection.repository.collectionName}>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle className="flex items-center gap-2">
+                    {collection.label}
+                    <Badge variant="outline" className="font-mono text-xs">
+                      {collection.repository.collectionName}
+                    </Badge>
+                  </CardTitle>
+                  {collection.href && (
+                    <Button variant="outline" size="sm" asChild>
+                      <Link href={collection.href}>
+                        <ExternalLink className="h-4 w-4 mr-2" />
+                        Open {collection.label}
+                      </Link>
+                    </Button>
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent>
+                {error ? (
+                  <p className="text-sm text-red-600">Could not check this collection: {error}</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Document</TableHead>
+                        <TableHead>Field</TableHead>
+                        <TableHead>Problem</TableHead>
+                        <TableHead>Stored Value</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {invalid.flatMap(document =>
+                        document.issues.map((issue, index) => (
+                          <TableRow key={`${document.id}-${index}`}>
+                            <TableCell className="font-mono text-xs text-gray-900">
+                              {index === 0 ? document.id : ''}
+                            </TableCell>
+                            <TableCell className="font-mono text-xs">{issue.field || '(document)'}</TableCell>
+                            <TableCell className="text-sm text-gray-700">{issue.message}</TableCell>
+                            <TableCell className="font-mono text-xs text-gray-500 max-w-xs truncate" title={formatStoredValue(issue.value)}>
+                              {formatStoredValue(issue.value)}
+                            </TableCell>
+                          </TableRow>
+                        ))
+                      )}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,47 @@
+'use client';
+
+import { AlertTriangle } from 'lucide-react';
+import { BookableResource } from '@/lib/firestore';
+import { BookingConflict } from '@/lib/utils/eventConflicts';
+import { formatCalendarDate } from '@/lib/utils/timezoneUtils';
+
+const MAX_LISTED_CONFLICTS = 5;
+
+interface BookingConflictsProps {
+  conflicts: BookingConflict[];
+  resources: BookableResource[];
+}
+
+export default function BookingConflicts({ conflicts, resources }: BookingConflictsProps) {
+  const getResourceName = (id: string) => resources.find(resource => resource.id === id)?.name || 'Unknown resource';
+
+  const describeClash = (conflict: BookingConflict) => {
+    const names = conflict.sharedResourceIds.map(getResourceName);
+    if (conflict.sameLocation) names.unshift(conflict.event.location);
+    return names.join(', ');
+  };
+
+  return (
+    <div className="rounded-md border border-red-200 bg-red-50 p-3 space-y-2">
+      <div className="flex items-center space-x-2 text-sm font-medium text-red-800">
+        <AlertTriangle className="h-4 w-4" />
+        <span>
+          {conflicts.length === 1 ? '1 booking conflict' : `${conflicts.length} booking conflicts`}
+        </span>
+      </div>
+      <ul className="space-y-1 text-sm text-red-700">
+        {conflicts.slice(0, MAX_LISTED_CONFLICTS).map((conflict) => (
+          <li key={`${conflict.date}-${conflict.event.id}`}>
+            {formatCalendarDate(conflict.date, { weekday: 'short', month: 'short', day: 'numeric' })}:{' '}
+            <span className="font-medium">{conflict.event.title}</span> ({conflict.event.startTime} - {conflict.event.endTime})
+            {' '}already books {describeClash(conflict)}
+          </li>
+        ))}
+      </ul>
+      {conflicts.length > MAX_LISTED_CONFLICTS && (
+        <p className="text-xs text-red-600">and {conflicts.length - MAX_LISTED_CONFLICTS} more</p>
+      )}
+      <p className="text-xs text-red-600">Change the time or booking, or save again to book anyway.</p>
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CalendarDays, Copy, Download, Rss } from 'lucide-react';
+import { toast } from 'sonner';
+import { Event, getEventsInRange } from '@/lib/firestore';
+import {
+  ExportFilter,
+  DateRange,
+  getDateRange,
+  formatDateRangeLabel,
+  buildICalendar,
+  downloadICalendar,
+  getICalFilename,
+} from '@/lib/utils/calendar';
+
+interface CalendarExportDialogProps {
+  timezone: string;
+  churchName: string;
+  onCancel: () => void;
+}
+
+export default function CalendarExportDialog({ timezone, churchName, onCancel }: CalendarExportDialogProps) {
+  const [filter, setFilter] = useState<ExportFilter>('this-month');
+  const [customRange, setCustomRange] = useState<DateRange>(() => getDateRange('this-month', timezone));
+  const [events, setEvents] = useState<Event[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const range = getDateRange(filter, timezone, customRange);
+  const isValidRange = Boolean(range.start && range.end && range.start <= range.end);
+  const feedUrl = typeof window !== 'undefined' ? `${window.location.origin}/api/calendar` : '/api/calendar';
+
+  useEffect(() => {
+    if (!isValidRange) return;
+
+    const fetchEvents = async () => {
+      setIsLoading(true);
+      try {
+        setEvents(await getEventsInRange(range.start, range.end, { timezone }));
+      } catch {
+        toast.error('Failed to load events for export');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchEvents();
+  }, [range.start, range.end, timezone, isValidRange]);
+
+  const handleDownload = () => {
+    const content = buildICalendar(events, timezone, churchName);
+    downloadICalendar(content, getICalFilename(`events ${range.start} to ${range.end}`));
+    toast.success(`Exported ${events.length} events`);
+  };
+
+  const handleCopyFeedUrl = async () => {
+    try {
+      await navigator.clipboard.writeText(feedUrl.replace(/^https?:/, 'webcal:'));
+      toast.success('Subscription link copied');
+    } catch {
+      toast.error('Failed to copy link');
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={onCancel}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Export Calendar</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {/* Range Export */}
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="export-filter">Date Range</Label>
+              <Select value={filter} onValueChange={(value) => setFilter(value as ExportFilter)}>
+                <SelectTrigger id="export-filter">
+                  <SelectValue placeholder="Select date range" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="this-month">This Month</SelectItem>
+                  <SelectItem value="next-month">Next Month</SelectItem>
+                  <SelectItem value="custom-range">Custom Range</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {filter === 'custom-range' && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="start-date">Start Date</Label>
+                  <Input
+                    id="start-date"
+                    type="date"
+                    value={customRange.start}
+                    onChange={(e) => setCustomRange(prev => ({ ...prev, start: e.target.value }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="end-date">End Date</Label>
+                  <Input
+                    id="end-date"
+                    type="date"
+                    value={customRange.end}
+                    onChange={(e) => setCustomRange(prev => ({ ...prev, end: e.target.value }))}
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-2 text-sm text-gray-600">
+                <CalendarDays className="h-4 w-4 text-gray-500" />
+                <span>
+                  {!isValidRange
+                    ? 'End date must be after the start date'
+                    : isLoading
+                      ? 'Counting events...'
+                      : `${events.length} events, ${formatDateRangeLabel(range)}`}
+                </span>
+              </div>
+              <Button onClick={handleDownload} disabled={!isValidRange || isLoading || events.length === 0}>
+                <Download className="h-4 w-4 mr-2" />
+                Download .ics
+              </Button>
+            </div>
+          </div>
+
+          {/* Subscription Feed */}
+          <div className="space-y-2 border-t pt-4">
+            <Label className="flex items-center space-x-2">
+              <Rss className="h-4 w-4" />
+              <span>Subscription Feed</span>
+            </Label>
+            <div className="flex space-x-2">
+              <Input value={feedUrl} readOnly className="bg-gray-50" />
+              <Button variant="outline" onClick={handleCopyFeedUrl} title="Copy webcal link">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-gray-500">
+              Share this link so congregants can subscribe once in Google Calendar, Apple Calendar or Outlook.
+              Their calendars pick up new, changed and cancelled events automatically.
+            </p>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,366 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  DndContext,
+  PointerSensor,
+  useSensor,
+  useSensors,
+  useDraggable,
+  useDroppable,
+  DragEndEvent,
+} from '@dnd-kit/core';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ChevronLeft, ChevronRight, AlertTriangle, MapPin, Clock } from 'lucide-react';
+import { toast } from 'sonner';
+import { Event, RecurringEvent, generateRecurringEventOccurrences } from '@/lib/firestore';
+import { parseDateString } from '@/lib/utils/recurrenceUtils';
+import { getTodayInTimezone, addDaysToDateString, formatCalendarDate } from '@/lib/utils/timezoneUtils';
+import { findConflictingEventIds } from '@/lib/utils/eventConflicts';
+
+type CalendarMode = 'month' | 'week' | 'agenda';
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const FIRST_HOUR = 6;
+const LAST_HOUR = 22;
+const AGENDA_DAYS = 30;
+
+interface EventCalendarProps {
+  events: Event[]; // one-time events
+  recurringEvents: RecurringEvent[];
+  timezone: string;
+  refreshKey: number; // bump to re-expand recurring occurrences after skips or overrides change
+  onCreate: (date: string, startTime?: string) => void;
+  onSelect: (event: Event) => void;
+  onReschedule: (event: Event, date: string, startTime: string) => Promise<void>;
+}
+
+const getWeekStart = (date: string) => addDaysToDateString(date, -parseDateString(date).getUTCDay());
+
+const getVisibleRange = (mode: CalendarMode, cursor: string) => {
+  if (mode === 'week') {
+    const start = getWeekStart(cursor);
+    return { start, end: addDaysToDateString(start, 6) };
+  }
+  if (mode === 'agenda') {
+    return { start: cursor, end: addDaysToDateString(cursor, AGENDA_DAYS - 1) };
+  }
+  const start = getWeekStart(`${cursor.slice(0, 7)}-01`);
+  return { start, end: addDaysToDateString(start, 41) };
+};
+
+const shiftCursor = (mode: CalendarMode, cursor: string, direction: 1 | -1) => {
+  if (mode === 'week') return addDaysToDateString(cursor, 7 * direction);
+  if (mode === 'agenda') return addDaysToDateString(cursor, AGENDA_DAYS * direction);
+  const date = parseDateString(`${cursor.slice(0, 7)}-01`);
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + direction, 1)).toISOString().split('T')[0];
+};
+
+const getSlotHour = (time: string) => {
+  const hour = parseInt(time.split(':')[0], 10) || 0;
+  return Math.min(Math.max(hour, FIRST_HOUR), LAST_HOUR);
+};
+
+interface EventChipProps {
+  event: Event;
+  isConflict: boolean;
+  showTime?: boolean;
+  onSelect: (event: Event) => void;
+}
+
+function EventChip({ event, isConflict, showTime = true, onSelect }: EventChipProps) {
+  const isCancelled = event.occurrenceStatus === 'cancelled';
+  const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({
+    id: event.id!,
+    data: { event },
+    disabled: isCancelled,
+  });
+
+  const style = transform ? { transform: `translate3d(${transform.x}px, ${transform.y}px, 0)` } : undefined;
+  const colour = isCancelled
+    ? 'bg-gray-100 text-gray-400 line-through border-gray-200'
+    : event.recurringEventId
+      ? 'bg-purple-50 text-purple-800 border-purple-200'
+      : 'bg-blue-50 text-blue-800 border-blue-200';
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={style}
+      {...listeners}
+      {...attributes}
+      onClick={(e) => {
+        e.stopPropagation();
+        onSelect(event);
+      }}
+      title={`${event.title} · ${event.startTime}-${event.endTime} · ${event.location}${isConflict ? ' · Conflicts with another event at this location' : ''}`}
+      className={`truncate rounded border px-1.5 py-0.5 text-xs ${colour} ${
+        event.occurrenceStatus === 'modified' ? 'border-dashed border-orange-400' : ''
+      } ${isConflict ? 'ring-2 ring-red-500' : ''} ${isDragging ? 'opacity-50 z-10 relative' : ''} ${
+        isCancelled ? 'cursor-default' : 'cursor-grab'
+      }`}
+    >
+      {isConflict && <AlertTriangle className="inline h-3 w-3 mr-1 text-red-600" />}
+      {showTime && <span className="font-medium mr-1">{event.startTime}</span>}
+      {event.title}
+    </div>
+  );
+}
+
+interface DropCellProps {
+  id: string;
+  className?: string;
+  onClick: () => void;
+  children: React.ReactNode;
+}
+
+function DropCell({ id, className = '', onClick, children }: DropCellProps) {
+  const { setNodeRef, isOver } = useDroppable({ id });
+
+  return (
+    <div
+      ref={setNodeRef}
+      onClick={onClick}
+      className={`${className} cursor-pointer hover:bg-gray-50 ${isOver ? 'bg-blue-50' : ''}`}
+    >
+      {children}
+    </div>
+  );
+}
+
+export default function EventCalendar({
+  events,
+  recurringEvents,
+  timezone,
+  refreshKey,
+  onCreate,
+  onSelect,
+  onReschedule,
+}: EventCalendarProps) {
+  const today = getTodayInTimezone(timezone);
+  const [mode, setMode] = useState<CalendarMode>('month');
+  const [cursor, setCursor] = useState(today);
+  const [occurrences, setOccurrences] = useState<Event[]>([]);
+
+  const range = getVisibleRange(mode, cursor);
+
+  const sensors = useSensors(
+    // A small drag threshold keeps plain clicks working on draggable events
+    useSensor(PointerSensor, { activationConstraint: { distance: 5 } })
+  );
+
+  useEffect(() => {
+    const expandOccurrences = async () => {
+      try {
+        setOccurrences(await generateRecurringEventOccurrences(recurringEvents, range.start, range.end, {
+          includeCancelled: true,
+          timezone,
+        }));
+      } catch {
+        toast.error('Failed to load recurring events');
+      }
+    };
+
+    expandOccurrences();
+  }, [recurringEvents, range.start, range.end, timezone, refreshKey]);
+
+  const visibleEvents = [
+    ...events.filter(event => event.date >= range.start && event.date <= range.end),
+    ...occurrences,
+  ].sort((a, b) => `${a.date} ${a.startTime}`.localeCompare(`${b.date} ${b.startTime}`));
+
+  const conflictIds = findConflictingEventIds(visibleEvents);
+
+  const eventsOn = (date: string) => visibleEvents.filter(event => event.date === date);
+
+  const handleDragEnd = async ({ active, over }: DragEndEvent) => {
+    const event = active.data.current?.event as Event | undefined;
+    if (!event || !over) return;
+
+    const [kind, date, hour] = String(over.id).split('|');
+    const minutes = event.startTime.split(':')[1] || '00';
+    const startTime = kind === 'slot' ? `${hour}:${minutes}` : event.startTime;
+
+    if (date === event.date && startTime === event.startTime) return;
+    await onReschedule(event, date, startTime);
+  };
+
+  const getTitle = () => {
+    if (mode === 'month') {
+      return formatCalendarDate(`${cursor.slice(0, 7)}-01`, { month: 'long', year: 'numeric' });
+    }
+    const options: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric', year: 'numeric' };
+    return `${formatCalendarDate(range.start, options)} - ${formatCalendarDate(range.end, options)}`;
+  };
+
+  const days = (count: number) => Array.from({ length: count }, (_, i) => addDaysToDateString(range.start, i));
+
+  const renderMonth = () => (
+    <div className="grid grid-cols-7 border-l border-t">
+      {WEEKDAY_LABELS.map(label => (
+        <div key={label} className="border-r border-b bg-gray-50 px-2 py-1 text-xs font-medium text-gray-600">
+          {label}
+        </div>
+      ))}
+      {days(42).map(date => {
+        const inMonth = date.slice(0, 7) === cursor.slice(0, 7);
+        return (
+          <DropCell
+            key={date}
+            id={`day|${date}`}
+            onClick={() => onCreate(date)}
+            className={`min-h-24 border-r border-b p-1 space-y-1 ${inMonth ? '' : 'bg-gray-50/60'}`}
+          >
+            <div className={`text-xs ${date === today ? 'font-bold text-blue-600' : inMonth ? 'text-gray-700' : 'text-gray-400'}`}>
+              {parseDateString(date).getUTCDate()}
+            </div>
+            {eventsOn(date).map(event => (
+              <EventChip key={event.id} event={event} isConflict={conflictIds.has(event.id!)} onSelect={onSelect} />
+            ))}
+          </DropCell>
+        );
+      })}
+    </div>
+  );
+
+  const renderWeek = () => {
+    const weekDays = days(7);
+    const hours = Array.from({ length: LAST_HOUR - FIRST_HOUR + 1 }, (_, i) => FIRST_HOUR + i);
+
+    return (
+      <div className="grid grid-cols-[4rem_repeat(7,minmax(0,1fr))] border-l border-t">
+        <div className="border-r border-b bg-gray-50" />
+        {weekDays.map(date => (
+          <div
+            key={date}
+            className={`border-r border-b bg-gray-50 px-2 py-1 text-xs font-medium ${date === today ? 'text-blue-600' : 'text-gray-600'}`}
+          >
+            {formatCalendarDate(date, { weekday: 'short', day: 'numeric' })}
+          </div>
+        ))}
+        {hours.map(hour => {
+          const hourLabel = String(hour).padStart(2, '0');
+          return (
+            <div key={hour} className="contents">
+              <div className="border-r border-b px-2 py-1 text-xs text-gray-500">{hourLabel}:00</div>
+              {weekDays.map(date => (
+                <DropCell
+                  key={`${date}-${hour}`}
+                  id={`slot|${date}|${hourLabel}`}
+                  onClick={() => onCreate(date, `${hourLabel}:00`)}
+                  className="min-h-10 border-r border-b p-0.5 space-y-0.5"
+                >
+                  {eventsOn(date)
+                    .filter(event => getSlotHour(event.startTime) === hour)
+                    .map(event => (
+                      <EventChip key={event.id} event={event} isConflict={conflictIds.has(event.id!)} onSelect={onSelect} />
+                    ))}
+                </DropCell>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  const renderAgenda = () => {
+    const agendaDays = days(AGENDA_DAYS).filter(date => eventsOn(date).length > 0);
+
+    if (agendaDays.length === 0) {
+      return <p className="py-8 text-center text-gray-500">No events in this period.</p>;
+    }
+
+    return (
+      <div className="divide-y">
+        {agendaDays.map(date => (
+          <div key={date} className="flex gap-4 py-3">
+            <div className={`w-28 shrink-0 text-sm font-medium ${date === today ? 'text-blue-600' : 'text-gray-900'}`}>
+              {formatCalendarDate(date, { weekday: 'short', month: 'short', day: 'numeric' })}
+            </div>
+            <div className="flex-1 space-y-2">
+              {eventsOn(date).map(event => {
+                const isCancelled = event.occurrenceStatus === 'cancelled';
+                const isConflict = conflictIds.has(event.id!);
+                return (
+                  <div
+                    key={event.id}
+                    onClick={() => onSelect(event)}
+                    className={`cursor-pointer rounded-md border p-2 hover:bg-gray-50 ${isConflict ? 'border-red-400' : ''}`}
+                  >
+                    <div className="flex items-center gap-2">
+                      <p className={`font-medium ${isCancelled ? 'text-gray-400 line-through' : 'text-gray-900'}`}>
+                        {event.title}
+                      </p>
+                      {isCancelled && <Badge variant="destructive">Cancelled</Badge>}
+                      {event.occurrenceStatus === 'modified' && (
+                        <Badge variant="outline" className="border-orange-300 text-orange-700 bg-orange-50">Modified</Badge>
+                      )}
+                      {isConflict && (
+                        <Badge variant="outline" className="border-red-300 text-red-700 bg-red-50">
+                          <AlertTriangle className="h-3 w-3 mr-1" />
+                          Conflict
+                        </Badge>
+                      )}
+                    </div>
+                    <div className="mt-1 flex items-center gap-4 text-sm text-gray-600">
+                      <span className="flex items-center"><Clock className="h-3 w-3 mr-1" />{event.startTime} - {event.endTime}</span>
+                      <span className="flex items-center"><MapPin className="h-3 w-3 mr-1" />{event.location}</span>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Toolbar */}
+      <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+        <div className="flex items-center space-x-2">
+          <Button variant="outline" size="sm" onClick={() => setCursor(shiftCursor(mode, cursor, -1))}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setCursor(today)}>
+            Today
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setCursor(shiftCursor(mode, cursor, 1))}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <h3 className="ml-2 text-lg font-semibold text-gray-900">{getTitle()}</h3>
+        </div>
+        <div className="flex items-center space-x-3">
+          {conflictIds.size > 0 && (
+            <Badge variant="outline" className="border-red-300 text-red-700 bg-red-50">
+              <AlertTriangle className="h-3 w-3 mr-1" />
+              {conflictIds.size} events with location conflicts
+            </Badge>
+          )}
+          <Tabs value={mode} onValueChange={(value) => setMode(value as CalendarMode)}>
+            <TabsList>
+              <TabsTrigger value="month">Month</TabsTrigger>
+              <TabsTrigger value="week">Week</TabsTrigger>
+              <TabsTrigger value="agenda">Agenda</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </div>
+      </div>
+
+      <DndContext sensors={sensors} onDragEnd={handleDragEnd}>
+        {mode === 'month' && renderMonth()}
+        {mode === 'week' && renderWeek()}
+        {mode === 'agenda' && renderAgenda()}
+      </DndContext>
+
+      <p className="text-xs text-gray-500">
+        Click an empty day or time slot to add an event. Drag an event to reschedule it; recurring occurrences can only move to another time on the same day.
+      </p>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -9,51 +9,142 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
 import { toast } from 'sonner';
-import { Event, createDocument, updateDocument, eventsCollection } from '@/lib/firestore';
+import {
+  Event,
+  BookableResource,
+  eventsRepository,
+  getEventInstants,
+  getBookableResources,
+  getBookingConflicts,
+  getRegistrationDeadlineAt,
+} from '@/lib/firestore';
+import { eventDetailsFormFields, registrationQuestionFormSchema } from '@/lib/firestore/schemas';
+import { BookingConflict } from '@/lib/utils/eventConflicts';
+import ResourcePicker from './ResourcePicker';
+import BookingConflicts from './BookingConflicts';
+import RegistrationQuestionsEditor, {
+  toQuestionDraft,
+  fromQuestionDraft,
+  parseQuestionOptions,
+} from './RegistrationQuestionsEditor';
 
 const eventSchema = z.object({
   title: z.string().min(1, 'Title is required'),
   date: z.string().min(1, 'Date is required'),
-  startTime: z.string().min(1, 'Start time is required'),
-  endTime: z.string().min(1, 'End time is required'),
-  location: z.string().min(1, 'Location is required'),
-  description: z.string().min(10, 'Description must be at least 10 characters'),
+  ...eventDetailsFormFields,
+  resourceIds: z.array(z.string()),
+  registrationEnabled: z.boolean(),
+  capacity: z.number().int().min(1, 'Capacity must be at least 1').optional(),
+  deadlineDate: z.string().optional(),
+  deadlineTime: z.string().optional(),
+  questions: z.array(registrationQuestionFormSchema),
+}).refine(data => !data.registrationEnabled || data.questions.every(q => q.label.trim().length > 0), {
+  message: 'Every question needs a label',
+  path: ['questions'],
+}).refine(data => !data.registrationEnabled || data.questions.every(q => q.type !== 'select' || parseQuestionOptions(q.optionsText).length > 0), {
+  message: 'Choice questions need at least one option',
+  path: ['questions'],
+}).refine(data => !data.registrationEnabled || !data.deadlineDate || `${data.deadlineDate}T${data.deadlineTime || '23:59'}` <= `${data.date}T${data.startTime}`, {
+  message: 'Registration must close before the event starts',
+  path: ['deadlineDate'],
 });
 
 type EventFormData = z.infer<typeof eventSchema>;
 
 interface EventFormProps {
   event?: Event | null;
+  timezone: string; // church timezone the date and times are entered in
+  defaults?: Partial<Pick<Event, 'date' | 'startTime' | 'endTime'>>; // prefill for new events, e.g. from a calendar slot
   onSuccess: (event: Event) => void;
   onCancel: () => void;
 }
 
-export default function EventForm({ event, onSuccess, onCancel }: EventFormProps) {
+export default function EventForm({ event, timezone, defaults, onSuccess, onCancel }: EventFormProps) {
   const [isLoading, setIsLoading] = useState(false);
+  const [resources, setResources] = useState<BookableResource[]>([]);
+  // null until the booking has been checked; shown conflicts are accepted by saving again
+  const [conflicts, setConflicts] = useState<BookingConflict[] | null>(null);
 
   const form = useForm<EventFormData>({
     resolver: zodResolver(eventSchema),
     defaultValues: {
       title: event?.title || '',
-      date: event?.date || '',
-      startTime: event?.startTime || '',
-      endTime: event?.endTime || '',
+      date: event?.date || defaults?.date || '',
+      startTime: event?.startTime || defaults?.startTime || '',
+      endTime: event?.endTime || defaults?.endTime || '',
       location: event?.location || '',
+      locationId: event?.locationId ?? null,
+      resourceIds: event?.resourceIds || [],
       description: event?.description || '',
+      registrationEnabled: event?.registration?.enabled ?? false,
+      capacity: event?.registration?.capacity ?? undefined,
+      deadlineDate: event?.registration?.deadline?.split('T')[0] || '',
+      deadlineTime: event?.registration?.deadline?.split('T')[1] || '',
+      questions: (event?.registration?.questions || []).map(toQuestionDraft),
     },
   });
 
-  const onSubmit = async (data: EventFormData) => {
+  useEffect(() => {
+    const fetchResources = async () => {
+      try {
+        setResources(await getBookableResources());
+      } catch (error) {
+        console.error('Error fetching resources:', error);
+      }
+    };
+
+    fetchResources();
+  }, []);
+
+  // Any change to the event needs a fresh conflict check
+  useEffect(() => {
+    const subscription = form.watch(() => setConflicts(null));
+    return () => subscription.unsubscribe();
+  }, [form]);
+
+  const locationId = form.watch('locationId');
+  const resourceIds = form.watch('resourceIds');
+  const registrationEnabled = form.watch('registrationEnabled');
+  const questions = form.watch('questions');
+
+  const onSubmit = async (formData: EventFormData) => {
+    const { registrationEnabled, capacity, deadlineDate, deadlineTime, questions, ...eventFields } = formData;
+    const deadline = deadlineDate ? `${deadlineDate}T${deadlineTime || '23:59'}` : null;
+    const data: Omit<Event, 'id'> = {
+      ...eventFields,
+      ...getEventInstants(formData.date, formData.startTime, formData.endTime, timezone),
+    };
+
+    // Events that never had registration are saved without the field
+    if (registrationEnabled || event?.registration) {
+      data.registration = {
+        enabled: registrationEnabled,
+        capacity: capacity && !Number.isNaN(capacity) ? capacity : null,
+        deadline,
+        deadlineAt: deadline ? getRegistrationDeadlineAt(deadline, timezone) : null,
+        questions: questions.map(fromQuestionDraft),
+      };
+    }
+
     setIsLoading(true);
     try {
+      if (conflicts === null) {
+        const found = await getBookingConflicts([data], { excludeEventId: event?.id, timezone });
+        if (found.length > 0) {
+          setConflicts(found);
+          return;
+        }
+      }
+
       if (event?.id) {
         // Update existing event
-        await updateDocument(eventsCollection, event.id, data);
+        await eventsRepository.update(event.id, data);
         onSuccess({ ...event, ...data });
       } else {
         // Create new event
-        const id = await createDocument(eventsCollection, data);
+        const id = await eventsRepository.create(data);
         onSuccess({ id, ...data });
       }
     } catch {
@@ -65,7 +156,7 @@ export default function EventForm({ event, onSuccess, onCancel }: EventFormProps
 
   return (
     <Dialog open onOpenChange={onCancel}>
-      <DialogContent className="max-w-2xl">
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>
             {event ? 'Edit Event' : 'Add New Event'}
@@ -104,7 +195,7 @@ export default function EventForm({ event, onSuccess, onCancel }: EventFormProps
               )}
             </div>
             <div className="space-y-2">
-              <Label htmlFor="startTime">Start Time</Label>
+              <Label htmlFor="startTime">Start Time ({timezone})</Label>
               <Input
                 id="startTime"
                 type="time"
@@ -131,20 +222,32 @@ export default function EventForm({ event, onSuccess, onCancel }: EventFormProps
             </div>
           </div>
 
-          {/* Location */}
-          <div className="space-y-2">
-            <Label htmlFor="location">Location</Label>
-            <Input
-              id="location"
-              placeholder="e.g., Main Sanctuary, Fellowship Hall"
-              {...form.register('location')}
-            />
-            {form.formState.errors.location && (
-              <p className="text-sm text-red-500">
-                {form.formState.errors.location.message}
-              </p>
-            )}
-          </div>
+          {/* Location & Resources */}
+          <ResourcePicker
+            resources={resources}
+            locationId={locationId}
+            resourceIds={resourceIds}
+            onLocationChange={(room) => {
+              form.setValue('locationId', room?.id ?? null);
+              form.setValue('location', room?.name ?? '', { shouldValidate: !!room });
+            }}
+            onResourceIdsChange={(ids) => form.setValue('resourceIds', ids)}
+          />
+          {!locationId && (
+            <div className="space-y-2">
+              <Label htmlFor="location">Location</Label>
+              <Input
+                id="location"
+                placeholder="e.g., Main Sanctuary, Fellowship Hall"
+                {...form.register('location')}
+              />
+              {form.formState.errors.location && (
+                <p className="text-sm text-red-500">
+                  {form.formState.errors.location.message}
+                </p>
+              )}
+            </div>
+          )}
 
           {/* Description */}
           <div className="space-y-2">
@@ -162,13 +265,92 @@ export default function EventForm({ event, onSuccess, onCancel }: EventFormProps
             )}
           </div>
 
+          {/* Registration */}
+          <div className="space-y-4 rounded-lg border p-4">
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="registrationEnabled"
+                checked={registrationEnabled}
+                onCheckedChange={(checked) => form.setValue('registrationEnabled', checked)}
+              />
+              <Label htmlFor="registrationEnabled">Require registration (RSVP)</Label>
+            </div>
+
+            {registrationEnabled && (
+              <>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="capacity">Capacity</Label>
+                    <Input
+                      id="capacity"
+                      type="number"
+                      min={1}
+                      placeholder="Unlimited"
+                      {...form.register('capacity', {
+                        setValueAs: (value) => (value === '' || value === null ? undefined : Number(value)),
+                      })}
+                    />
+                    {form.formState.errors.capacity && (
+                      <p className="text-sm text-red-500">
+                        {form.formState.errors.capacity.message}
+                      </p>
+                    )}
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="deadlineDate">Registration Closes</Label>
+                    <Input
+                      id="deadlineDate"
+                      type="date"
+                      {...form.register('deadlineDate')}
+                    />
+                    {form.formState.errors.deadlineDate && (
+                      <p className="text-sm text-red-500">
+                        {form.formState.errors.deadlineDate.message}
+                      </p>
+                    )}
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="deadlineTime">At</Label>
+                    <Input
+                      id="deadlineTime"
+                      type="time"
+                      placeholder="23:59"
+                      {...form.register('deadlineTime')}
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-gray-500">
+                  Once capacity is reached new registrations join the waitlist and are promoted in order when places free up.
+                </p>
+
+                <RegistrationQuestionsEditor
+                  questions={questions}
+                  onChange={(updated) => form.setValue('questions', updated, { shouldValidate: form.formState.isSubmitted })}
+                />
+                {form.formState.errors.questions && (
+                  <p className="text-sm text-red-500">
+                    {form.formState.errors.questions.message}
+                  </p>
+                )}
+              </>
+            )}
+          </div>
+
+          {conflicts && conflicts.length > 0 && (
+            <BookingConflicts conflicts={conflicts} resources={resources} />
+          )}
+
           {/* Actions */}
           <div className="flex justify-end space-x-2">
             <Button type="button" variant="outline" onClick={onCancel}>
               Cancel
             </Button>
             <Button type="submit" disabled={isLoading}>
-              {isLoading ? 'Saving...' : (event ? 'Update Event' : 'Add Event')}
+              {isLoading
+                ? 'Saving...'
+                : conflicts && conflicts.length > 0
+                  ? 'Save Anyway'
+                  : (event ? 'Update Event' : 'Add Event')}
             </Button>
           </div>
         </form>
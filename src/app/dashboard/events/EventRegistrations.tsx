@@ -0,0 +1,306 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ClipboardList, Download, Search, UserCheck, Users, Hourglass, XCircle, RotateCcw } from 'lucide-react';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import {
+  Event,
+  EventRegistration,
+  subscribeToEventRegistrations,
+  setEventRegistrationCheckedIn,
+  setEventRegistrationStatus,
+} from '@/lib/firestore';
+import {
+  RegistrationPlacement,
+  getRegistrationPlacements,
+  placementLabels,
+  isRegistrationOpen,
+  formatRegistrationAnswer,
+} from '@/lib/utils/registrationUtils';
+import { getTodayInTimezone, formatCalendarDate } from '@/lib/utils/timezoneUtils';
+import { useAuth } from '@/contexts/AuthContext';
+import { logUpdate } from '@/lib/firebase/logActivity';
+import ExportModal from '@/components/ui/ExportModal';
+import { getEventRegistrationColumns } from '@/lib/export';
+
+const placementBadgeClass: Record<RegistrationPlacement, string> = {
+  confirmed: 'border-green-300 text-green-700 bg-green-50',
+  waitlisted: 'border-orange-300 text-orange-700 bg-orange-50',
+  cancelled: 'border-gray-300 text-gray-500 bg-gray-50',
+};
+
+interface EventRegistrationsProps {
+  events: Event[]; // one-time events
+  timezone: string;
+  canWrite: boolean;
+}
+
+export default function EventRegistrations({ events, timezone, canWrite }: EventRegistrationsProps) {
+  const { user } = useAuth();
+  const today = getTodayInTimezone(timezone);
+
+  // Upcoming events first, soonest at the top, then past events most recent first
+  const registrationEvents = events
+    .filter(event => event.registration)
+    .sort((a, b) => {
+      const aUpcoming = a.date >= today;
+      const bUpcoming = b.date >= today;
+      if (aUpcoming !== bUpcoming) return aUpcoming ? -1 : 1;
+      const order = `${a.date} ${a.startTime}`.localeCompare(`${b.date} ${b.startTime}`);
+      return aUpcoming ? order : -order;
+    });
+
+  const [selectedEventId, setSelectedEventId] = useState<string | undefined>(registrationEvents[0]?.id);
+  const [registrations, setRegistrations] = useState<EventRegistration[]>([]);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [showExportModal, setShowExportModal] = useState(false);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  const selectedEvent = registrationEvents.find(event => event.id === selectedEventId);
+
+  useEffect(() => {
+    if (!selectedEventId) return;
+
+    const unsubscribe = subscribeToEventRegistrations(selectedEventId, setRegistrations);
+    return () => unsubscribe();
+  }, [selectedEventId]);
+
+  if (!selectedEvent) {
+    return (
+      <Card>
+        <CardContent className="text-center py-8">
+          <ClipboardList className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">No events take registrations</h3>
+          <p className="text-gray-500">Turn on &quot;Require registration&quot; when adding or editing a one-time event.</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const settings = selectedEvent.registration!;
+  const placements = getRegistrationPlacements(registrations, settings.capacity);
+  const countBy = (placement: RegistrationPlacement) =>
+    registrations.filter(registration => placements.get(registration.id!) === placement).length;
+  const confirmedCount = countBy('confirmed');
+  const checkedInCount = registrations.filter(r => r.checkedIn && placements.get(r.id!) !== 'cancelled').length;
+
+  const filteredRegistrations = registrations.filter(registration => {
+    if (!searchTerm) return true;
+    const term = searchTerm.toLowerCase();
+    return registration.name.toLowerCase().includes(term) ||
+      registration.email.toLowerCase().includes(term) ||
+      (registration.phone || '').toLowerCase().includes(term);
+  });
+
+  const handleCheckIn = async (registration: EventRegistration, checkedIn: boolean) => {
+    if (!user) return;
+    setUpdatingId(registration.id!);
+    try {
+      await setEventRegistrationCheckedIn(registration.id!, checkedIn, user.uid);
+    } catch {
+      toast.error('Failed to update check-in');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleStatusChange = async (registration: EventRegistration) => {
+    const cancelling = registration.status !== 'cancelled';
+    if (cancelling && !confirm(`Cancel ${registration.name}'s registration? The first person on the waitlist takes their place.`)) {
+      return;
+    }
+
+    setUpdatingId(registration.id!);
+    try {
+      await setEventRegistrationStatus(registration.id!, cancelling ? 'cancelled' : 'registered');
+      await logUpdate('eventRegistrations', `${registration.name} - ${selectedEvent.title}`, user?.uid, {
+        status: cancelling ? 'cancelled' : 'registered',
+      });
+      toast.success(cancelling ? 'Registration cancelled' : 'Registration restored');
+    } catch {
+      toast.error('Failed to update registration');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const getRegistrationStateBadge = () => {
+    if (!settings.enabled) return <Badge variant="secondary">Registration off</Badge>;
+    if (!isRegistrationOpen(settings)) return <Badge variant="secondary">Closed</Badge>;
+    if (settings.capacity != null && confirmedCount >= settings.capacity) {
+      return <Badge variant="outline" className="border-orange-300 text-orange-700 bg-orange-50">Full - waitlist open</Badge>;
+    }
+    return <Badge>Open</Badge>;
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Event Selection */}
+      <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+        <div className="flex items-center space-x-3">
+          <Select value={selectedEventId} onValueChange={setSelectedEventId}>
+            <SelectTrigger className="w-80">
+              <SelectValue placeholder="Select an event" />
+            </SelectTrigger>
+            <SelectContent>
+              {registrationEvents.map((event) => (
+                <SelectItem key={event.id} value={event.id!}>
+                  {event.title} - {formatCalendarDate(event.date, { month: 'short', day: 'numeric', year: 'numeric' })}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {getRegistrationStateBadge()}
+        </div>
+        <Button variant="outline" onClick={() => setShowExportModal(true)} disabled={registrations.length === 0}>
+          <Download className="h-4 w-4 mr-2" />
+          Export
+        </Button>
+      </div>
+
+      {/* Stats */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+        {[
+          {
+            label: 'Confirmed',
+            value: settings.capacity != null ? `${confirmedCount} / ${settings.capacity}` : confirmedCount,
+            icon: Users,
+            color: 'bg-green-100 text-green-600',
+          },
+          { label: 'Waitlisted', value: countBy('waitlisted'), icon: Hourglass, color: 'bg-orange-100 text-orange-600' },
+          { label: 'Checked In', value: checkedInCount, icon: UserCheck, color: 'bg-blue-100 text-blue-600' },
+          { label: 'Cancelled', value: countBy('cancelled'), icon: XCircle, color: 'bg-gray-100 text-gray-600' },
+        ].map(({ label, value, icon: Icon, color }) => (
+          <Card key={label}>
+            <CardContent className="p-6">
+              <div className="flex items-center space-x-3">
+                <div className={`p-2 rounded-lg ${color}`}>
+                  <Icon className="h-6 w-6" />
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-gray-600">{label}</p>
+                  <p className="text-2xl font-bold text-gray-900">{value}</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Registrations Table */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Registrations</CardTitle>
+            <div className="relative w-64">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <Input
+                placeholder="Search registrants..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+          </div>
+          {settings.deadline && (
+            <p className="text-sm text-gray-500">
+              Registration closes {formatCalendarDate(settings.deadline.split('T')[0], { weekday: 'short', month: 'short', day: 'numeric' })} at {settings.deadline.split('T')[1]}
+            </p>
+          )}
+        </CardHeader>
+        <CardContent>
+          {filteredRegistrations.length === 0 ? (
+            <p className="text-center py-8 text-gray-500">
+              {registrations.length === 0 ? 'No one has registered yet.' : 'No registrants match your search.'}
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Registrant</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Answers</TableHead>
+                  <TableHead>Registered</TableHead>
+                  <TableHead>Checked In</TableHead>
+                  {canWrite && <TableHead>Actions</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredRegistrations.map((registration) => {
+                  const placement = placements.get(registration.id!) || 'confirmed';
+                  const isCancelled = placement === 'cancelled';
+                  return (
+                    <TableRow key={registration.id} className={isCancelled ? 'text-gray-400' : ''}>
+                      <TableCell>
+                        <p className={`font-medium ${isCancelled ? 'line-through' : 'text-gray-900'}`}>{registration.name}</p>
+                        <p className="text-sm text-gray-500">{registration.email}</p>
+                        {registration.phone && <p className="text-sm text-gray-500">{registration.phone}</p>}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={placementBadgeClass[placement]}>
+                          {placementLabels[placement]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-600">
+                        {settings.questions.map((question) => {
+                          const answer = formatRegistrationAnswer(question, registration.answers?.[question.id]);
+                          return answer ? (
+                            <p key={question.id}>
+                              <span className="font-medium">{question.label}:</span> {answer}
+                            </p>
+                          ) : null;
+                        })}
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-600">
+                        {registration.createdAt ? format(registration.createdAt.toDate(), 'MMM d, yyyy h:mm a') : '—'}
+                      </TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={registration.checkedIn}
+                          disabled={!canWrite || isCancelled || updatingId === registration.id}
+                          onCheckedChange={(checked) => handleCheckIn(registration, checked)}
+                        />
+                      </TableCell>
+                      {canWrite && (
+                        <TableCell>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleStatusChange(registration)}
+                            disabled={updatingId === registration.id}
+                            title={isCancelled ? 'Restore registration' : 'Cancel registration'}
+                          >
+                            {isCancelled ? <RotateCcw className="h-4 w-4" /> : <XCircle className="h-4 w-4" />}
+                          </Button>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {showExportModal && (
+        <ExportModal
+          isOpen={showExportModal}
+          onClose={() => setShowExportModal(false)}
+          dataset="eventRegistrations"
+          items={registrations}
+          columns={getEventRegistrationColumns(selectedEvent, registrations)}
+          event={selectedEvent}
+        />
+      )}
+    </div>
+  );
+}
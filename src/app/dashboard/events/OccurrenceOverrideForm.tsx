@@ -0,0 +1,268 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from 'sonner';
+import {
+  Event,
+  RecurringEvent,
+  BookableResource,
+  getOccurrenceKey,
+  saveRecurringEventOverride,
+  deleteRecurringEventOverride,
+  getBookableResources,
+  getBookingConflicts,
+} from '@/lib/firestore';
+import { occurrenceOverrideFormSchema, OccurrenceOverrideFormData } from '@/lib/firestore/schemas';
+import { formatCalendarDate } from '@/lib/utils/timezoneUtils';
+import { BookingConflict } from '@/lib/utils/eventConflicts';
+import ResourcePicker from './ResourcePicker';
+import BookingConflicts from './BookingConflicts';
+
+interface OccurrenceOverrideFormProps {
+  recurringEvent: RecurringEvent;
+  occurrence: Event;
+  onSuccess: () => void;
+  onCancel: () => void;
+}
+
+export default function OccurrenceOverrideForm({ recurringEvent, occurrence, onSuccess, onCancel }: OccurrenceOverrideFormProps) {
+  const [isLoading, setIsLoading] = useState(false);
+  const [resources, setResources] = useState<BookableResource[]>([]);
+  // null until the booking has been checked; shown conflicts are accepted by saving again
+  const [conflicts, setConflicts] = useState<BookingConflict[] | null>(null);
+  const isModified = occurrence.occurrenceStatus === 'modified';
+  const overrideId = getOccurrenceKey(recurringEvent.id!, occurrence.date);
+
+  const form = useForm<OccurrenceOverrideFormData>({
+    resolver: zodResolver(occurrenceOverrideFormSchema),
+    defaultValues: {
+      startTime: occurrence.startTime,
+      endTime: occurrence.endTime,
+      location: occurrence.location,
+      locationId: occurrence.locationId ?? null,
+      description: occurrence.description,
+      reason: isModified ? occurrence.occurrenceReason || '' : '',
+    },
+  });
+
+  useEffect(() => {
+    const fetchResources = async () => {
+      try {
+        setResources(await getBookableResources());
+      } catch (error) {
+        console.error('Error fetching resources:', error);
+      }
+    };
+
+    fetchResources();
+  }, []);
+
+  // Any change to the occurrence needs a fresh conflict check
+  useEffect(() => {
+    const subscription = form.watch(() => setConflicts(null));
+    return () => subscription.unsubscribe();
+  }, [form]);
+
+  const locationId = form.watch('locationId');
+
+  const onSubmit = async (data: OccurrenceOverrideFormData) => {
+    // Only keep the fields that differ from the series so later series edits still apply
+    const locationChanged = data.location !== recurringEvent.location
+      || data.locationId !== (recurringEvent.locationId ?? null);
+    const changes = {
+      startTime: data.startTime !== recurringEvent.startTime ? data.startTime : undefined,
+      endTime: data.endTime !== recurringEvent.endTime ? data.endTime : undefined,
+      location: locationChanged ? data.location : undefined,
+      locationId: locationChanged ? data.locationId : undefined,
+      description: data.description !== recurringEvent.description ? data.description : undefined,
+    };
+    const hasChanges = Object.values(changes).some(value => value !== undefined);
+
+    setIsLoading(true);
+    try {
+      if (hasChanges && conflicts === null) {
+        const candidate: Event = {
+          ...occurrence,
+          startTime: data.startTime,
+          endTime: data.endTime,
+          location: data.location,
+          locationId: data.locationId,
+        };
+        const found = await getBookingConflicts([candidate], { excludeEventId: occurrence.id });
+        if (found.length > 0) {
+          setConflicts(found);
+          return;
+        }
+      }
+
+      if (hasChanges) {
+        await saveRecurringEventOverride({
+          recurringEventId: recurringEvent.id!,
+          occurrenceDate: occurrence.date,
+          ...changes,
+          reason: data.reason || undefined,
+        });
+        toast.success(`Updated ${recurringEvent.title} for ${occurrence.date}`);
+      } else if (isModified) {
+        await deleteRecurringEventOverride(overrideId);
+        toast.success(`${recurringEvent.title} on ${occurrence.date} now follows the series`);
+      }
+      onSuccess();
+    } catch {
+      toast.error('Failed to update occurrence');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleReset = async () => {
+    setIsLoading(true);
+    try {
+      await deleteRecurringEventOverride(overrideId);
+      toast.success(`${recurringEvent.title} on ${occurrence.date} now follows the series`);
+      onSuccess();
+    } catch {
+      toast.error('Failed to reset occurrence');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={onCancel}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Edit This Occurrence</DialogTitle>
+        </DialogHeader>
+
+        <div className="p-4 bg-gray-50 rounded-lg">
+          <h4 className="font-medium text-gray-900 mb-1">{recurringEvent.title}</h4>
+          <p className="text-sm text-gray-600">
+            {formatCalendarDate(occurrence.date, {
+              weekday: 'long',
+              year: 'numeric',
+              month: 'long',
+              day: 'numeric',
+            })}
+          </p>
+          <p className="text-xs text-gray-500 mt-1">
+            Changes apply to this date only. Edit the series to change every occurrence.
+          </p>
+        </div>
+
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+          {/* Time */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="startTime">Start Time</Label>
+              <Input
+                id="startTime"
+                type="time"
+                {...form.register('startTime')}
+              />
+              {form.formState.errors.startTime && (
+                <p className="text-sm text-red-500">
+                  {form.formState.errors.startTime.message}
+                </p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="endTime">End Time</Label>
+              <Input
+                id="endTime"
+                type="time"
+                {...form.register('endTime')}
+              />
+              {form.formState.errors.endTime && (
+                <p className="text-sm text-red-500">
+                  {form.formState.errors.endTime.message}
+                </p>
+              )}
+            </div>
+          </div>
+
+          {/* Location */}
+          <ResourcePicker
+            resources={resources}
+            locationId={locationId}
+            resourceIds={occurrence.resourceIds || []}
+            onLocationChange={(room) => {
+              form.setValue('locationId', room?.id ?? null);
+              form.setValue('location', room?.name ?? '', { shouldValidate: !!room });
+            }}
+          />
+          {!locationId && (
+            <div className="space-y-2">
+              <Label htmlFor="location">Location</Label>
+              <Input
+                id="location"
+                placeholder="e.g., Main Sanctuary, Fellowship Hall"
+                {...form.register('location')}
+              />
+              {form.formState.errors.location && (
+                <p className="text-sm text-red-500">
+                  {form.formState.errors.location.message}
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Description */}
+          <div className="space-y-2">
+            <Label htmlFor="description">Description</Label>
+            <Textarea
+              id="description"
+              rows={4}
+              {...form.register('description')}
+            />
+            {form.formState.errors.description && (
+              <p className="text-sm text-red-500">
+                {form.formState.errors.description.message}
+              </p>
+            )}
+          </div>
+
+          {/* Reason (Optional) */}
+          <div className="space-y-2">
+            <Label htmlFor="reason">Reason (Optional)</Label>
+            <Input
+              id="reason"
+              placeholder="e.g., Joint service, Venue change"
+              {...form.register('reason')}
+            />
+          </div>
+
+          {conflicts && conflicts.length > 0 && (
+            <BookingConflicts conflicts={conflicts} resources={resources} />
+          )}
+
+          {/* Actions */}
+          <div className="flex justify-between">
+            <div>
+              {isModified && (
+                <Button type="button" variant="outline" onClick={handleReset} disabled={isLoading}>
+                  Reset to Series
+                </Button>
+              )}
+            </div>
+            <div className="flex space-x-2">
+              <Button type="button" variant="outline" onClick={onCancel}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isLoading}>
+                {isLoading ? 'Saving...' : conflicts && conflicts.length > 0 ? 'Save Anyway' : 'Save Occurrence'}
+              </Button>
+            </div>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
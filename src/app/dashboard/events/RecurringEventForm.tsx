@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -12,38 +12,106 @@ import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Switch } from '@/components/ui/switch';
 import { toast } from 'sonner';
-import { RecurringEvent, createRecurringEvent, updateRecurringEvent } from '@/lib/firestore';
+import {
+  Event,
+  RecurringEvent,
+  BookableResource,
+  createRecurringEvent,
+  updateRecurringEvent,
+  getRecurrenceRule,
+  getBookableResources,
+  getBookingConflicts,
+} from '@/lib/firestore';
+import { eventDetailsFormFields } from '@/lib/firestore/schemas';
+import {
+  RecurrenceRule,
+  WEEKDAY_NAMES,
+  SET_POS_LABELS,
+  formatRRule,
+  expandRecurrence,
+  describeRecurrence,
+  parseDateString,
+} from '@/lib/utils/recurrenceUtils';
+import { getTodayInTimezone, addDaysToDateString, formatCalendarDate } from '@/lib/utils/timezoneUtils';
+import { BookingConflict } from '@/lib/utils/eventConflicts';
+import ResourcePicker from './ResourcePicker';
+import BookingConflicts from './BookingConflicts';
+
+const PREVIEW_COUNT = 6;
+// How far ahead occurrences are checked against existing bookings
+const CONFLICT_CHECK_DAYS = 182;
 
 const recurringEventSchema = z.object({
   title: z.string().min(1, 'Title is required'),
-  description: z.string().min(10, 'Description must be at least 10 characters'),
-  location: z.string().min(1, 'Location is required'),
-  dayOfWeek: z.number().min(0).max(6, 'Day of week must be between 0 and 6'),
-  startTime: z.string().min(1, 'Start time is required'),
-  endTime: z.string().min(1, 'End time is required'),
+  ...eventDetailsFormFields,
+  resourceIds: z.array(z.string()),
+  frequency: z.enum(['WEEKLY', 'MONTHLY']),
+  interval: z.number().int().min(1, 'Interval must be at least 1').max(12, 'Interval must be 12 or less'),
+  weekdays: z.array(z.number().min(0).max(6)),
+  monthlyMode: z.enum(['weekday', 'monthDay']),
+  setPosition: z.number(),
+  monthlyWeekday: z.number().min(0).max(6),
+  monthDay: z.number().int().min(1, 'Day must be between 1 and 31').max(31, 'Day must be between 1 and 31'),
+  startDate: z.string().min(1, 'Start date is required'),
+  endType: z.enum(['never', 'until', 'count']),
+  until: z.string().optional(),
+  count: z.number().int().optional(),
   isActive: z.boolean(),
+}).refine(data => data.frequency !== 'WEEKLY' || data.weekdays.length > 0, {
+  message: 'Select at least one day',
+  path: ['weekdays'],
+}).refine(data => data.endType !== 'until' || (!!data.until && data.until >= data.startDate), {
+  message: 'End date must be on or after the start date',
+  path: ['until'],
+}).refine(data => data.endType !== 'count' || (!!data.count && data.count >= 1), {
+  message: 'Enter how many times the event repeats',
+  path: ['count'],
 });
 
 type RecurringEventFormData = z.infer<typeof recurringEventSchema>;
 
+const buildRecurrenceRule = (data: RecurringEventFormData): RecurrenceRule => {
+  const rule: RecurrenceRule = {
+    freq: data.frequency,
+    interval: data.interval || 1,
+    byDay: [],
+  };
+
+  if (data.frequency === 'WEEKLY') {
+    rule.byDay = data.weekdays;
+  } else if (data.monthlyMode === 'weekday') {
+    rule.byDay = [data.monthlyWeekday];
+    rule.bySetPos = data.setPosition;
+  } else {
+    rule.byMonthDay = data.monthDay;
+  }
+
+  if (data.endType === 'until' && data.until) rule.until = data.until;
+  if (data.endType === 'count' && data.count) rule.count = data.count;
+
+  return rule;
+};
+
 interface RecurringEventFormProps {
   event?: RecurringEvent | null;
+  timezone: string; // church timezone the times are entered in
   onSuccess: (event: RecurringEvent) => void;
   onCancel: () => void;
 }
 
-const dayOfWeekOptions = [
-  { value: 0, label: 'Sunday' },
-  { value: 1, label: 'Monday' },
-  { value: 2, label: 'Tuesday' },
-  { value: 3, label: 'Wednesday' },
-  { value: 4, label: 'Thursday' },
-  { value: 5, label: 'Friday' },
-  { value: 6, label: 'Saturday' },
-];
-
-export default function RecurringEventForm({ event, onSuccess, onCancel }: RecurringEventFormProps) {
+const dayOfWeekOptions = WEEKDAY_NAMES.map((label, value) => ({ value, label }));
+
+const setPositionOptions = [1, 2, 3, 4, -1].map(value => ({ value, label: SET_POS_LABELS[value] }));
+
+export default function RecurringEventForm({ event, timezone, onSuccess, onCancel }: RecurringEventFormProps) {
   const [isLoading, setIsLoading] = useState(false);
+  const [resources, setResources] = useState<BookableResource[]>([]);
+  // null until the bookings have been checked; shown conflicts are accepted by saving again
+  const [conflicts, setConflicts] = useState<BookingConflict[] | null>(null);
+  const today = getTodayInTimezone(timezone);
+  const initialRule: RecurrenceRule = event
+    ? getRecurrenceRule(event)
+    : { freq: 'WEEKLY', interval: 1, byDay: [0] };
 
   const form = useForm<RecurringEventFormData>({
     resolver: zodResolver(recurringEventSchema),
@@ -51,24 +119,109 @@ export default function RecurringEventForm({ event, onSuccess, onCancel }: Recur
       title: event?.title || '',
       description: event?.description || '',
       location: event?.location || '',
-      dayOfWeek: event?.dayOfWeek ?? 0,
+      locationId: event?.locationId ?? null,
+      resourceIds: event?.resourceIds || [],
+      frequency: initialRule.freq,
+      interval: initialRule.interval,
+      weekdays: initialRule.freq === 'WEEKLY' ? initialRule.byDay : [event?.dayOfWeek ?? 0],
+      monthlyMode: initialRule.byMonthDay !== undefined ? 'monthDay' : 'weekday',
+      setPosition: initialRule.bySetPos ?? 1,
+      monthlyWeekday: initialRule.byDay[0] ?? event?.dayOfWeek ?? 0,
+      monthDay: initialRule.byMonthDay ?? 1,
+      startDate: event?.startDate || today,
+      endType: initialRule.until ? 'until' : initialRule.count ? 'count' : 'never',
+      until: initialRule.until || '',
+      count: initialRule.count ?? 10,
       startTime: event?.startTime || '',
       endTime: event?.endTime || '',
       isActive: event?.isActive ?? true,
     },
   });
 
+  useEffect(() => {
+    const fetchResources = async () => {
+      try {
+        setResources(await getBookableResources());
+      } catch (error) {
+        console.error('Error fetching resources:', error);
+      }
+    };
+
+    fetchResources();
+  }, []);
+
+  // Any change to the series needs a fresh conflict check
+  useEffect(() => {
+    const subscription = form.watch(() => setConflicts(null));
+    return () => subscription.unsubscribe();
+  }, [form]);
+
+  const values = form.watch();
+  const previewRule = buildRecurrenceRule(values);
+  const canPreview = Boolean(values.startDate) && (
+    values.frequency === 'WEEKLY'
+      ? values.weekdays.length > 0
+      : values.monthlyMode === 'weekday' || (values.monthDay >= 1 && values.monthDay <= 31)
+  );
+  const previewDates = canPreview
+    ? expandRecurrence(
+        previewRule,
+        values.startDate,
+        values.startDate > today ? values.startDate : today,
+        '2100-12-31',
+        PREVIEW_COUNT
+      )
+    : [];
+
+  const toggleWeekday = (day: number) => {
+    const weekdays = values.weekdays.includes(day)
+      ? values.weekdays.filter(d => d !== day)
+      : [...values.weekdays, day].sort((a, b) => a - b);
+    form.setValue('weekdays', weekdays, { shouldValidate: true });
+  };
+
   const onSubmit = async (data: RecurringEventFormData) => {
+    const rule = buildRecurrenceRule(data);
+    const eventData = {
+      title: data.title,
+      description: data.description,
+      location: data.location,
+      locationId: data.locationId,
+      resourceIds: data.resourceIds,
+      dayOfWeek: rule.byDay[0] ?? parseDateString(data.startDate).getUTCDay(),
+      rrule: formatRRule(rule),
+      startDate: data.startDate,
+      startTime: data.startTime,
+      endTime: data.endTime,
+      isActive: data.isActive,
+    };
+
     setIsLoading(true);
     try {
+      if (conflicts === null && eventData.isActive) {
+        const checkFrom = data.startDate > today ? data.startDate : today;
+        const occurrences: Event[] = expandRecurrence(
+          rule,
+          data.startDate,
+          checkFrom,
+          addDaysToDateString(today, CONFLICT_CHECK_DAYS)
+        ).map(date => ({ ...eventData, date }));
+
+        const found = await getBookingConflicts(occurrences, { excludeRecurringEventId: event?.id, timezone });
+        if (found.length > 0) {
+          setConflicts(found);
+          return;
+        }
+      }
+
       if (event?.id) {
         // Update existing event
-        await updateRecurringEvent({ ...event, ...data });
-        onSuccess({ ...event, ...data });
+        await updateRecurringEvent({ ...event, ...eventData });
+        onSuccess({ ...event, ...eventData });
       } else {
         // Create new event
-        const id = await createRecurringEvent(data);
-        onSuccess({ id, ...data });
+        const id = await createRecurringEvent(eventData);
+        onSuccess({ id, ...eventData });
       }
     } catch {
       toast.error('Failed to save recurring event');
@@ -102,35 +255,226 @@ export default function RecurringEventForm({ event, onSuccess, onCancel }: Recur
             )}
           </div>
 
-          {/* Day of Week */}
-          <div className="space-y-2">
-            <Label htmlFor="dayOfWeek">Day of Week</Label>
-            <Select
-              value={form.watch('dayOfWeek').toString()}
-              onValueChange={(value) => form.setValue('dayOfWeek', parseInt(value))}
-            >
-              <SelectTrigger>
-                <SelectValue placeholder="Select day of week" />
-              </SelectTrigger>
-              <SelectContent>
-                {dayOfWeekOptions.map((option) => (
-                  <SelectItem key={option.value} value={option.value.toString()}>
-                    {option.label}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-            {form.formState.errors.dayOfWeek && (
-              <p className="text-sm text-red-500">
-                {form.formState.errors.dayOfWeek.message}
-              </p>
+          {/* Recurrence */}
+          <div className="space-y-4 rounded-lg border p-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="frequency">Repeats</Label>
+                <Select
+                  value={values.frequency}
+                  onValueChange={(value) => form.setValue('frequency', value as RecurringEventFormData['frequency'])}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="WEEKLY">Weekly</SelectItem>
+                    <SelectItem value="MONTHLY">Monthly</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="interval">
+                  Every ({values.frequency === 'WEEKLY' ? 'weeks' : 'months'})
+                </Label>
+                <Input
+                  id="interval"
+                  type="number"
+                  min={1}
+                  max={12}
+                  {...form.register('interval', { valueAsNumber: true })}
+                />
+                {form.formState.errors.interval && (
+                  <p className="text-sm text-red-500">
+                    {form.formState.errors.interval.message}
+                  </p>
+                )}
+              </div>
+            </div>
+
+            {values.frequency === 'WEEKLY' ? (
+              <div className="space-y-2">
+                <Label>On</Label>
+                <div className="flex flex-wrap gap-2">
+                  {dayOfWeekOptions.map((option) => (
+                    <Button
+                      key={option.value}
+                      type="button"
+                      size="sm"
+                      variant={values.weekdays.includes(option.value) ? 'default' : 'outline'}
+                      onClick={() => toggleWeekday(option.value)}
+                    >
+                      {option.label.slice(0, 3)}
+                    </Button>
+                  ))}
+                </div>
+                {form.formState.errors.weekdays && (
+                  <p className="text-sm text-red-500">
+                    {form.formState.errors.weekdays.message}
+                  </p>
+                )}
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label>On</Label>
+                <Select
+                  value={values.monthlyMode}
+                  onValueChange={(value) => form.setValue('monthlyMode', value as RecurringEventFormData['monthlyMode'])}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="weekday">A weekday of the month (e.g., first Sunday)</SelectItem>
+                    <SelectItem value="monthDay">A day of the month (e.g., the 15th)</SelectItem>
+                  </SelectContent>
+                </Select>
+                {values.monthlyMode === 'weekday' ? (
+                  <div className="grid grid-cols-2 gap-4">
+                    <Select
+                      value={values.setPosition.toString()}
+                      onValueChange={(value) => form.setValue('setPosition', parseInt(value))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {setPositionOptions.map((option) => (
+                          <SelectItem key={option.value} value={option.value.toString()}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select
+                      value={values.monthlyWeekday.toString()}
+                      onValueChange={(value) => form.setValue('monthlyWeekday', parseInt(value))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {dayOfWeekOptions.map((option) => (
+                          <SelectItem key={option.value} value={option.value.toString()}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ) : (
+                  <Input
+                    id="monthDay"
+                    type="number"
+                    min={1}
+                    max={31}
+                    {...form.register('monthDay', { valueAsNumber: true })}
+                  />
+                )}
+                {form.formState.errors.monthDay && (
+                  <p className="text-sm text-red-500">
+                    {form.formState.errors.monthDay.message}
+                  </p>
+                )}
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="startDate">Starts On</Label>
+                <Input
+                  id="startDate"
+                  type="date"
+                  {...form.register('startDate')}
+                />
+                {form.formState.errors.startDate && (
+                  <p className="text-sm text-red-500">
+                    {form.formState.errors.startDate.message}
+                  </p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="endType">Ends</Label>
+                <Select
+                  value={values.endType}
+                  onValueChange={(value) => form.setValue('endType', value as RecurringEventFormData['endType'])}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="never">Never</SelectItem>
+                    <SelectItem value="until">On a date</SelectItem>
+                    <SelectItem value="count">After a number of occurrences</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {values.endType === 'until' && (
+              <div className="space-y-2">
+                <Label htmlFor="until">End Date</Label>
+                <Input
+                  id="until"
+                  type="date"
+                  {...form.register('until')}
+                />
+                {form.formState.errors.until && (
+                  <p className="text-sm text-red-500">
+                    {form.formState.errors.until.message}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {values.endType === 'count' && (
+              <div className="space-y-2">
+                <Label htmlFor="count">Occurrences</Label>
+                <Input
+                  id="count"
+                  type="number"
+                  min={1}
+                  {...form.register('count', { valueAsNumber: true })}
+                />
+                {form.formState.errors.count && (
+                  <p className="text-sm text-red-500">
+                    {form.formState.errors.count.message}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {/* Preview */}
+            {canPreview && (
+              <div className="rounded-md bg-gray-50 p-3 space-y-2">
+                <p className="text-sm font-medium text-gray-900">{describeRecurrence(previewRule)}</p>
+                {previewDates.length === 0 ? (
+                  <p className="text-sm text-gray-500">No upcoming occurrences.</p>
+                ) : (
+                  <div>
+                    <p className="text-xs text-gray-500 mb-1">Next {previewDates.length} occurrences</p>
+                    <ul className="grid grid-cols-1 md:grid-cols-2 gap-1 text-sm text-gray-600">
+                      {previewDates.map((date) => (
+                        <li key={date}>
+                          {formatCalendarDate(date, {
+                            weekday: 'short',
+                            year: 'numeric',
+                            month: 'short',
+                            day: 'numeric',
+                          })}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
             )}
           </div>
 
           {/* Time */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div className="space-y-2">
-              <Label htmlFor="startTime">Start Time</Label>
+              <Label htmlFor="startTime">Start Time ({timezone})</Label>
               <Input
                 id="startTime"
                 type="time"
@@ -157,20 +501,32 @@ export default function RecurringEventForm({ event, onSuccess, onCancel }: Recur
             </div>
           </div>
 
-          {/* Location */}
-          <div className="space-y-2">
-            <Label htmlFor="location">Location</Label>
-            <Input
-              id="location"
-              placeholder="e.g., Main Sanctuary, Fellowship Hall"
-              {...form.register('location')}
-            />
-            {form.formState.errors.location && (
-              <p className="text-sm text-red-500">
-                {form.formState.errors.location.message}
-              </p>
-            )}
-          </div>
+          {/* Location & Resources */}
+          <ResourcePicker
+            resources={resources}
+            locationId={values.locationId}
+            resourceIds={values.resourceIds}
+            onLocationChange={(room) => {
+              form.setValue('locationId', room?.id ?? null);
+              form.setValue('location', room?.name ?? '', { shouldValidate: !!room });
+            }}
+            onResourceIdsChange={(ids) => form.setValue('resourceIds', ids)}
+          />
+          {!values.locationId && (
+            <div className="space-y-2">
+              <Label htmlFor="location">Location</Label>
+              <Input
+                id="location"
+                placeholder="e.g., Main Sanctuary, Fellowship Hall"
+                {...form.register('location')}
+              />
+              {form.formState.errors.location && (
+                <p className="text-sm text-red-500">
+                  {form.formState.errors.location.message}
+                </p>
+              )}
+            </div>
+          )}
 
           {/* Description */}
           <div className="space-y-2">
@@ -198,13 +554,21 @@ export default function RecurringEventForm({ event, onSuccess, onCancel }: Recur
             <Label htmlFor="isActive">Active</Label>
           </div>
 
+          {conflicts && conflicts.length > 0 && (
+            <BookingConflicts conflicts={conflicts} resources={resources} />
+          )}
+
           {/* Actions */}
           <div className="flex justify-end space-x-2">
             <Button type="button" variant="outline" onClick={onCancel}>
               Cancel
             </Button>
             <Button type="submit" disabled={isLoading}>
-              {isLoading ? 'Saving...' : (event ? 'Update Event' : 'Add Event')}
+              {isLoading
+                ? 'Saving...'
+                : conflicts && conflicts.length > 0
+                  ? 'Save Anyway'
+                  : (event ? 'Update Event' : 'Add Event')}
             </Button>
           </div>
         </form>
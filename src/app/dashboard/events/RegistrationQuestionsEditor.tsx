@@ -0,0 +1,126 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Trash2 } from 'lucide-react';
+import { RegistrationQuestion, RegistrationQuestionType } from '@/lib/firestore';
+import { createQuestionId, MAX_REGISTRATION_QUESTIONS } from '@/lib/utils/registrationUtils';
+
+// Select options are edited as comma-separated text and split when the event is saved
+export type QuestionDraft = Omit<RegistrationQuestion, 'options'> & { optionsText: string };
+
+export const toQuestionDraft = (question: RegistrationQuestion): QuestionDraft => ({
+  id: question.id,
+  label: question.label,
+  type: question.type,
+  required: question.required,
+  optionsText: question.options?.join(', ') || '',
+});
+
+export const parseQuestionOptions = (optionsText: string): string[] => {
+  return optionsText.split(',').map(option => option.trim()).filter(Boolean);
+};
+
+export const fromQuestionDraft = (draft: QuestionDraft): RegistrationQuestion => ({
+  id: draft.id,
+  label: draft.label.trim(),
+  type: draft.type,
+  required: draft.required,
+  ...(draft.type === 'select' ? { options: parseQuestionOptions(draft.optionsText) } : {}),
+});
+
+const questionTypeOptions: { value: RegistrationQuestionType; label: string }[] = [
+  { value: 'text', label: 'Short answer' },
+  { value: 'select', label: 'Choice' },
+  { value: 'checkbox', label: 'Yes / No' },
+];
+
+interface RegistrationQuestionsEditorProps {
+  questions: QuestionDraft[];
+  onChange: (questions: QuestionDraft[]) => void;
+}
+
+export default function RegistrationQuestionsEditor({ questions, onChange }: RegistrationQuestionsEditorProps) {
+  const updateQuestion = (id: string, changes: Partial<QuestionDraft>) => {
+    onChange(questions.map(question => question.id === id ? { ...question, ...changes } : question));
+  };
+
+  const addQuestion = () => {
+    onChange([...questions, { id: createQuestionId(), label: '', type: 'text', required: false, optionsText: '' }]);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label>Custom Questions</Label>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={addQuestion}
+          disabled={questions.length >= MAX_REGISTRATION_QUESTIONS}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add Question
+        </Button>
+      </div>
+
+      {questions.length === 0 && (
+        <p className="text-sm text-gray-500">Registrants give their name, email and phone. Add questions for anything else, e.g. dietary needs.</p>
+      )}
+
+      {questions.map((question) => (
+        <div key={question.id} className="space-y-2 rounded-md border p-3">
+          <div className="flex items-center space-x-2">
+            <Input
+              placeholder="Question, e.g. Dietary requirements"
+              value={question.label}
+              onChange={(e) => updateQuestion(question.id, { label: e.target.value })}
+            />
+            <Select
+              value={question.type}
+              onValueChange={(value) => updateQuestion(question.id, { type: value as RegistrationQuestionType })}
+            >
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {questionTypeOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange(questions.filter(q => q.id !== question.id))}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+          {question.type === 'select' && (
+            <Input
+              placeholder="Choices, separated by commas"
+              value={question.optionsText}
+              onChange={(e) => updateQuestion(question.id, { optionsText: e.target.value })}
+            />
+          )}
+          <div className="flex items-center space-x-2">
+            <Switch
+              id={`required-${question.id}`}
+              checked={question.required}
+              onCheckedChange={(checked) => updateQuestion(question.id, { required: checked })}
+            />
+            <Label htmlFor={`required-${question.id}`} className="text-sm font-normal">Required</Label>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+'use client';
+
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { BookableResource } from '@/lib/firestore';
+
+export const OTHER_LOCATION = 'other';
+
+interface ResourcePickerProps {
+  resources: BookableResource[];
+  locationId?: string | null;
+  resourceIds: string[];
+  onLocationChange: (room: BookableResource | null) => void;
+  onResourceIdsChange?: (resourceIds: string[]) => void; // omit to pick a room only
+}
+
+export const formatResourceLabel = (resource: BookableResource) => {
+  return resource.capacity ? `${resource.name} (${resource.capacity})` : resource.name;
+};
+
+export default function ResourcePicker({
+  resources,
+  locationId,
+  resourceIds,
+  onLocationChange,
+  onResourceIdsChange,
+}: ResourcePickerProps) {
+  // Inactive resources stay listed while an event still books them
+  const isSelectable = (resource: BookableResource) =>
+    resource.isActive || resource.id === locationId || resourceIds.includes(resource.id!);
+
+  const rooms = resources.filter(resource => resource.type === 'room' && isSelectable(resource));
+  const equipment = resources.filter(resource => resource.type !== 'room' && isSelectable(resource));
+
+  const toggleResource = (id: string, checked: boolean) => {
+    onResourceIdsChange?.(checked ? [...resourceIds, id] : resourceIds.filter(resourceId => resourceId !== id));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="room">Room</Label>
+        <Select
+          value={locationId || OTHER_LOCATION}
+          onValueChange={(value) => onLocationChange(rooms.find(room => room.id === value) || null)}
+        >
+          <SelectTrigger id="room">
+            <SelectValue placeholder="Select a room" />
+          </SelectTrigger>
+          <SelectContent>
+            {rooms.map((room) => (
+              <SelectItem key={room.id} value={room.id!}>
+                {formatResourceLabel(room)}
+              </SelectItem>
+            ))}
+            <SelectItem value={OTHER_LOCATION}>Other location (not booked)</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {onResourceIdsChange && equipment.length > 0 && (
+        <div className="space-y-2">
+          <Label>Equipment & Vehicles</Label>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            {equipment.map((resource) => (
+              <div key={resource.id} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`resource-${resource.id}`}
+                  checked={resourceIds.includes(resource.id!)}
+                  onCheckedChange={(checked) => toggleResource(resource.id!, checked === true)}
+                />
+                <Label htmlFor={`resource-${resource.id}`} className="font-normal">
+                  {formatResourceLabel(resource)}
+                </Label>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
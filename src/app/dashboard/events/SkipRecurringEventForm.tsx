@@ -3,7 +3,6 @@
 import { useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 
@@ -11,38 +10,31 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { toast } from 'sonner';
-import { RecurringEvent, createSkippedRecurringEvent } from '@/lib/firestore';
-
-const skipEventSchema = z.object({
-  skipDate: z.string().min(1, 'Skip date is required'),
-  reason: z.string().optional(),
-});
-
-type SkipEventFormData = z.infer<typeof skipEventSchema>;
+import { RecurringEvent, createSkippedRecurringEvent, getRecurrenceRule } from '@/lib/firestore';
+import { skippedRecurringEventFormSchema, SkippedRecurringEventFormData } from '@/lib/firestore/schemas';
+import { expandRecurrence, describeRecurrence } from '@/lib/utils/recurrenceUtils';
+import { getTodayInTimezone, formatCalendarDate } from '@/lib/utils/timezoneUtils';
 
 interface SkipRecurringEventFormProps {
   recurringEvent: RecurringEvent;
+  occurrenceDate?: string; // preselects the occurrence the skip was started from
+  timezone: string;
   onSuccess: () => void;
   onCancel: () => void;
 }
 
-const getDayOfWeekName = (dayOfWeek: number) => {
-  const days = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-  return days[dayOfWeek];
-};
-
-export default function SkipRecurringEventForm({ recurringEvent, onSuccess, onCancel }: SkipRecurringEventFormProps) {
+export default function SkipRecurringEventForm({ recurringEvent, occurrenceDate, timezone, onSuccess, onCancel }: SkipRecurringEventFormProps) {
   const [isLoading, setIsLoading] = useState(false);
 
-  const form = useForm<SkipEventFormData>({
-    resolver: zodResolver(skipEventSchema),
+  const form = useForm<SkippedRecurringEventFormData>({
+    resolver: zodResolver(skippedRecurringEventFormSchema),
     defaultValues: {
-      skipDate: '',
+      skipDate: occurrenceDate || '',
       reason: '',
     },
   });
 
-  const onSubmit = async (data: SkipEventFormData) => {
+  const onSubmit = async (data: SkippedRecurringEventFormData) => {
     setIsLoading(true);
     try {
       await createSkippedRecurringEvent({
@@ -59,37 +51,22 @@ export default function SkipRecurringEventForm({ recurringEvent, onSuccess, onCa
     }
   };
 
-  // Generate next few occurrences of this recurring event for date selection
+  const rule = getRecurrenceRule(recurringEvent);
+
+  // Generate next 8 occurrences of this recurring event for date selection
   const generateNextOccurrences = () => {
-    const occurrences = [];
-    const today = new Date();
-    const currentDate = new Date(today);
-    
-    // Find the next occurrence of this day of week
-    while (currentDate.getDay() !== recurringEvent.dayOfWeek) {
-      currentDate.setDate(currentDate.getDate() + 1);
-    }
+    const today = getTodayInTimezone(timezone);
+    const dates = expandRecurrence(rule, recurringEvent.startDate || today, today, '2100-12-31', 8);
 
-    // Generate next 8 occurrences
-    for (let i = 0; i < 8; i++) {
-      const dateStr = currentDate.toISOString().split('T')[0];
-      const displayDate = currentDate.toLocaleDateString('en-US', {
+    return dates.map(date => ({
+      value: date,
+      label: formatCalendarDate(date, {
         weekday: 'short',
         year: 'numeric',
         month: 'short',
         day: 'numeric',
-      });
-      
-      occurrences.push({
-        value: dateStr,
-        label: displayDate,
-      });
-      
-      // Move to next week
-      currentDate.setDate(currentDate.getDate() + 7);
-    }
-
-    return occurrences;
+      }),
+    }));
   };
 
   const nextOccurrences = generateNextOccurrences();
@@ -104,7 +81,7 @@ export default function SkipRecurringEventForm({ recurringEvent, onSuccess, onCa
         <div className="mb-4 p-4 bg-gray-50 rounded-lg">
           <h4 className="font-medium text-gray-900 mb-2">{recurringEvent.title}</h4>
           <p className="text-sm text-gray-600">
-            Every {getDayOfWeekName(recurringEvent.dayOfWeek)} at {recurringEvent.startTime} - {recurringEvent.endTime}
+            {describeRecurrence(rule)} at {recurringEvent.startTime} - {recurringEvent.endTime}
           </p>
           <p className="text-sm text-gray-600">{recurringEvent.location}</p>
         </div>
@@ -8,20 +8,45 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Plus, Edit, Trash2, Calendar, MapPin, Clock, ChevronDown, ChevronRight, Repeat, SkipForward } from 'lucide-react';
+import { Plus, Edit, Trash2, Calendar, MapPin, Clock, ChevronDown, ChevronRight, Repeat, SkipForward, PenLine, RotateCcw, Download, List, CalendarDays, ClipboardList, FileSpreadsheet } from 'lucide-react';
 import { toast } from 'sonner';
-import { Event, RecurringEvent, getDocuments, deleteDocument, eventsCollection, getRecurringEvents, deleteRecurringEvent, generateUpcomingRecurringEvents } from '@/lib/firestore';
+import { Event, RecurringEvent, eventsRepository, getRecurringEvents, deleteRecurringEvent, generateUpcomingRecurringEvents, restoreRecurringEventOccurrence, getRecurrenceRule, getChurchTimezone, getSiteSettings, getEventInstants, saveRecurringEventOverride, deleteRecurringEventOverride, getOccurrenceKey } from '@/lib/firestore';
+import { describeRecurrence } from '@/lib/utils/recurrenceUtils';
+import { DEFAULT_TIMEZONE, getTodayInTimezone, formatCalendarDate } from '@/lib/utils/timezoneUtils';
+import { buildICalendar, downloadICalendar, getICalFilename } from '@/lib/utils/calendar';
+import { getChurchInfo } from '@/lib/mail/templates';
+import { canRead, canWrite } from '@/lib/auth/roles';
 import EventForm from './EventForm';
 import RecurringEventForm from './RecurringEventForm';
 import SkipRecurringEventForm from './SkipRecurringEventForm';
+import OccurrenceOverrideForm from './OccurrenceOverrideForm';
+import CalendarExportDialog from './CalendarExportDialog';
+import EventCalendar from './EventCalendar';
+import EventRegistrations from './EventRegistrations';
+import ExportModal from '@/components/ui/ExportModal';
 
 type FilterType = 'all' | 'oneTime' | 'past' | 'recurring';
+type ViewMode = 'table' | 'calendar' | 'registrations';
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+// Moves the end time along with the start time so the event keeps its length
+const getRescheduledEndTime = (event: Event, startTime: string) => {
+  const duration = (toMinutes(event.endTime) - toMinutes(event.startTime) + 1440) % 1440;
+  const end = (toMinutes(startTime) + duration) % 1440;
+  return `${String(Math.floor(end / 60)).padStart(2, '0')}:${String(end % 60).padStart(2, '0')}`;
+};
 
 export default function EventsPage() {
-  const { loading } = useProtectedRoute();
+  const { loading, role } = useProtectedRoute('events');
   const [events, setEvents] = useState<Event[]>([]);
   const [recurringEvents, setRecurringEvents] = useState<RecurringEvent[]>([]);
   const [upcomingRecurringEvents, setUpcomingRecurringEvents] = useState<Event[]>([]);
+  const [timezone, setTimezone] = useState(DEFAULT_TIMEZONE);
+  const [churchName, setChurchName] = useState(getChurchInfo(null).name);
   const [isLoading, setIsLoading] = useState(true);
   const [showForm, setShowForm] = useState(false);
   const [showRecurringForm, setShowRecurringForm] = useState(false);
@@ -29,21 +54,35 @@ export default function EventsPage() {
   const [editingEvent, setEditingEvent] = useState<Event | null>(null);
   const [editingRecurringEvent, setEditingRecurringEvent] = useState<RecurringEvent | null>(null);
   const [skippingRecurringEvent, setSkippingRecurringEvent] = useState<RecurringEvent | null>(null);
+  const [skippingOccurrenceDate, setSkippingOccurrenceDate] = useState<string | undefined>(undefined);
+  const [overridingOccurrence, setOverridingOccurrence] = useState<Event | null>(null);
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  const [showListExport, setShowListExport] = useState(false);
+  const [newEventDefaults, setNewEventDefaults] = useState<Partial<Event> | undefined>(undefined);
+  const [viewMode, setViewMode] = useState<ViewMode>('table');
+  const [calendarRefreshKey, setCalendarRefreshKey] = useState(0);
   const [activeFilter, setActiveFilter] = useState<FilterType>('all');
   const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set());
 
   useEffect(() => {
     const fetchData = async () => {
       try {
-        const [eventsData, recurringEventsData] = await Promise.all([
-          getDocuments<Event>(eventsCollection),
-          getRecurringEvents()
+        const [eventsData, recurringEventsData, churchTimezone, settings] = await Promise.all([
+          eventsRepository.list(),
+          getRecurringEvents(),
+          getChurchTimezone(),
+          getSiteSettings()
         ]);
         setEvents(eventsData);
         setRecurringEvents(recurringEventsData);
+        setTimezone(churchTimezone);
+        setChurchName(getChurchInfo(settings).name);
         
         // Generate upcoming recurring events
-        const upcomingRecurring = await generateUpcomingRecurringEvents(recurringEventsData);
+        const upcomingRecurring = await generateUpcomingRecurringEvents(recurringEventsData, 4, {
+          includeCancelled: true,
+          timezone: churchTimezone,
+        });
         setUpcomingRecurringEvents(upcomingRecurring);
       } catch {
         toast.error('Failed to fetch events');
@@ -57,8 +96,9 @@ export default function EventsPage() {
 
   const refreshRecurringEvents = async () => {
     try {
-      const upcomingRecurring = await generateUpcomingRecurringEvents(recurringEvents);
+      const upcomingRecurring = await generateUpcomingRecurringEvents(recurringEvents, 4, { includeCancelled: true, timezone });
       setUpcomingRecurringEvents(upcomingRecurring);
+      setCalendarRefreshKey(key => key + 1);
     } catch {
       toast.error('Failed to refresh recurring events');
     }
@@ -74,15 +114,106 @@ export default function EventsPage() {
     setShowRecurringForm(true);
   };
 
-  const handleSkipRecurring = (event: RecurringEvent) => {
+  const handleSkipRecurring = (event: RecurringEvent, occurrenceDate?: string) => {
     setSkippingRecurringEvent(event);
+    setSkippingOccurrenceDate(occurrenceDate);
     setShowSkipForm(true);
   };
 
+  const handleRestoreOccurrence = async (occurrence: Event) => {
+    if (!occurrence.recurringEventId) return;
+    try {
+      await restoreRecurringEventOccurrence(occurrence.recurringEventId, occurrence.date);
+      await refreshRecurringEvents();
+      toast.success(`Restored ${occurrence.title} for ${occurrence.date}`);
+    } catch {
+      toast.error('Failed to restore occurrence');
+    }
+  };
+
+  const handleCalendarCreate = (date: string, startTime?: string) => {
+    setEditingEvent(null);
+    setNewEventDefaults({ date, startTime });
+    setShowForm(true);
+  };
+
+  const handleCalendarSelect = (event: Event) => {
+    if (event.recurringEventId) {
+      if (event.occurrenceStatus === 'cancelled') {
+        const recurringEvent = findRecurringEvent(event);
+        if (recurringEvent) handleEditRecurring(recurringEvent);
+      } else {
+        setOverridingOccurrence(event);
+      }
+    } else {
+      handleEdit(event);
+    }
+  };
+
+  const handleReschedule = async (event: Event, date: string, startTime: string) => {
+    const endTime = getRescheduledEndTime(event, startTime);
+
+    if (event.recurringEventId) {
+      const recurringEvent = findRecurringEvent(event);
+      if (!recurringEvent) return;
+
+      // Overrides are keyed by the occurrence date, so a series date can only change by editing the series
+      if (date !== event.date) {
+        toast.error('Recurring occurrences can only move to another time on the same day. Edit the series to change its days.');
+        return;
+      }
+
+      const locationChanged = event.location !== recurringEvent.location
+        || (event.locationId ?? null) !== (recurringEvent.locationId ?? null);
+      const changes = {
+        startTime: startTime !== recurringEvent.startTime ? startTime : undefined,
+        endTime: endTime !== recurringEvent.endTime ? endTime : undefined,
+        location: locationChanged ? event.location : undefined,
+        locationId: locationChanged ? event.locationId ?? null : undefined,
+        description: event.description !== recurringEvent.description ? event.description : undefined,
+      };
+
+      try {
+        if (Object.values(changes).some(value => value !== undefined)) {
+          await saveRecurringEventOverride({
+            recurringEventId: recurringEvent.id!,
+            occurrenceDate: date,
+            ...changes,
+            reason: event.occurrenceStatus === 'modified' ? event.occurrenceReason : undefined,
+          });
+        } else {
+          await deleteRecurringEventOverride(getOccurrenceKey(recurringEvent.id!, date));
+        }
+        await refreshRecurringEvents();
+        toast.success(`Moved ${event.title} to ${startTime}`);
+      } catch {
+        toast.error('Failed to reschedule occurrence');
+      }
+      return;
+    }
+
+    const data = { date, startTime, endTime, ...getEventInstants(date, startTime, endTime, timezone) };
+    try {
+      await eventsRepository.update(event.id!, data);
+      setEvents(events.map(e => e.id === event.id ? { ...e, ...data } : e));
+      toast.success(`Moved ${event.title} to ${formatDate(date)} at ${startTime}`);
+    } catch {
+      toast.error('Failed to reschedule event');
+    }
+  };
+
+  const handleDownloadEvent = (event: Event) => {
+    downloadICalendar(buildICalendar([event], timezone, churchName), getICalFilename(`${event.title} ${event.date}`));
+  };
+
+  const findRecurringEvent = (occurrence: Event) => {
+    return recurringEvents.find(e => e.id === occurrence.recurringEventId);
+  };
+
   const handleDelete = async (id: string) => {
     if (confirm('Are you sure you want to delete this event?')) {
       try {
-        await deleteDocument(eventsCollection, id);
+        await eventsRepository.remove(id);
         setEvents(events.filter(event => event.id !== id));
         toast.success('Event deleted successfully');
       } catch {
@@ -112,6 +243,7 @@ export default function EventsPage() {
       setEvents([event, ...events]);
     }
     setShowForm(false);
+    setNewEventDefaults(undefined);
     toast.success(editingEvent ? 'Event updated successfully' : 'Event added successfully');
   };
 
@@ -130,11 +262,17 @@ export default function EventsPage() {
   const handleSkipSuccess = () => {
     setShowSkipForm(false);
     setSkippingRecurringEvent(null);
+    setSkippingOccurrenceDate(undefined);
+    refreshRecurringEvents();
+  };
+
+  const handleOverrideSuccess = () => {
+    setOverridingOccurrence(null);
     refreshRecurringEvents();
   };
 
   const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString('en-US', {
+    return formatCalendarDate(dateString, {
       weekday: 'short',
       year: 'numeric',
       month: 'short',
@@ -142,13 +280,19 @@ export default function EventsPage() {
     });
   };
 
+  // Dates are church-local, so compare against today in the church timezone
+  const today = getTodayInTimezone(timezone);
   const isUpcoming = (dateString: string) => {
-    return new Date(dateString) >= new Date();
+    return dateString >= today;
   };
 
-  const getDayOfWeekName = (dayOfWeek: number) => {
-    const days = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-    return days[dayOfWeek];
+  const getRecurrenceDescription = (recurringEvent?: RecurringEvent) => {
+    if (!recurringEvent) return '';
+    try {
+      return describeRecurrence(getRecurrenceRule(recurringEvent));
+    } catch {
+      return 'Invalid recurrence rule';
+    }
   };
 
   const toggleRowExpansion = (id: string) => {
@@ -164,11 +308,12 @@ export default function EventsPage() {
   // Separate one-time events from recurring events
   const oneTimeEvents = events.filter(event => !event.id?.startsWith('recurring-'));
   
+  // Cancelled occurrences are listed but not counted
+  const scheduledRecurringEvents = upcomingRecurringEvents.filter(event => event.occurrenceStatus !== 'cancelled');
+
   // Combine all events for the "All Events" view
   const allEvents = [...oneTimeEvents, ...(upcomingRecurringEvents || [])].sort((a, b) => {
-    const dateA = new Date(a.date);
-    const dateB = new Date(b.date);
-    return dateA.getTime() - dateB.getTime();
+    return `${a.date} ${a.startTime}`.localeCompare(`${b.date} ${b.startTime}`);
   });
 
   // Filter events based on active filter
@@ -240,8 +385,17 @@ export default function EventsPage() {
           <div>
             <h1 className="text-3xl font-bold text-gray-900">Events</h1>
             <p className="text-gray-600 mt-2">Manage church events and service times</p>
+            <p className="text-xs text-gray-500 mt-1">All dates and times are in {timezone.replace(/_/g, ' ')}</p>
           </div>
           <div className="flex space-x-2">
+            <Button onClick={() => setShowListExport(true)} variant="outline" disabled={filteredEvents.length === 0}>
+              <FileSpreadsheet className="h-4 w-4 mr-2" />
+              Export List
+            </Button>
+            <Button onClick={() => setShowExportDialog(true)} variant="outline">
+              <Download className="h-4 w-4 mr-2" />
+              Export Calendar
+            </Button>
             <Button onClick={() => setShowRecurringForm(true)} variant="outline">
               <Repeat className="h-4 w-4 mr-2" />
               Add Recurring
@@ -263,7 +417,9 @@ export default function EventsPage() {
                 </div>
                 <div>
                   <p className="text-sm font-medium text-gray-600">Total Events</p>
-                  <p className="text-2xl font-bold text-gray-900">{allEvents.length}</p>
+                  <p className="text-2xl font-bold text-gray-900">
+                    {oneTimeEvents.length + scheduledRecurringEvents.length}
+                  </p>
                 </div>
               </div>
             </CardContent>
@@ -313,200 +469,303 @@ export default function EventsPage() {
           </Card>
         </div>
 
-        {/* Filter Tabs */}
-        <Tabs value={activeFilter} onValueChange={(value) => setActiveFilter(value as FilterType)}>
-          <TabsList className="grid w-full grid-cols-4">
-            <TabsTrigger value="all">All Events</TabsTrigger>
-            <TabsTrigger value="oneTime">One-time Events</TabsTrigger>
-            <TabsTrigger value="past">Past Events</TabsTrigger>
-            <TabsTrigger value="recurring">Recurring</TabsTrigger>
-          </TabsList>
-        </Tabs>
-
-        {/* Events Table */}
-        <Card>
-          <CardHeader>
-            <CardTitle>
-              {activeFilter === 'all' && 'All Events'}
-              {activeFilter === 'oneTime' && 'Upcoming One-time Events'}
-              {activeFilter === 'past' && 'Past Events'}
-              {activeFilter === 'recurring' && 'Recurring Events'}
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            {filteredEvents.length === 0 ? (
-              <div className="text-center py-8">
-                <Calendar className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-                <h3 className="text-lg font-medium text-gray-900 mb-2">{emptyState.title}</h3>
-                <p className="text-gray-500 mb-4">{emptyState.description}</p>
-                {emptyState.action && (
-                  <Button onClick={emptyState.action}>
-                    <Plus className="h-4 w-4 mr-2" />
-                    {emptyState.actionText}
-                  </Button>
-                )}
-              </div>
-            ) : (
-              <Table>
-                <TableHeader>
-                  <TableRow>
-                    <TableHead></TableHead>
-                    <TableHead>Event</TableHead>
-                    <TableHead>Date & Time</TableHead>
-                    <TableHead>Location</TableHead>
-                    <TableHead>Status</TableHead>
-                    <TableHead>Actions</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {filteredEvents.map((event) => {
-                    const isRecurring = event.id?.startsWith('recurring-');
-                    const isExpanded = expandedRows.has(event.id!);
+        {/* View Toggle */}
+        <div className="flex justify-end">
+          <Tabs value={viewMode} onValueChange={(value) => setViewMode(value as ViewMode)}>
+            <TabsList>
+              <TabsTrigger value="table">
+                <List className="h-4 w-4 mr-2" />
+                Table
+              </TabsTrigger>
+              <TabsTrigger value="calendar">
+                <CalendarDays className="h-4 w-4 mr-2" />
+                Calendar
+              </TabsTrigger>
+              {canRead(role, 'eventRegistrations') && (
+                <TabsTrigger value="registrations">
+                  <ClipboardList className="h-4 w-4 mr-2" />
+                  Registrations
+                </TabsTrigger>
+              )}
+            </TabsList>
+          </Tabs>
+        </div>
+
+        {viewMode === 'registrations' ? (
+          <EventRegistrations
+            events={oneTimeEvents}
+            timezone={timezone}
+            canWrite={canWrite(role, 'eventRegistrations')}
+          />
+        ) : viewMode === 'calendar' ? (
+          <Card>
+            <CardContent className="p-6">
+              <EventCalendar
+                events={oneTimeEvents}
+                recurringEvents={recurringEvents}
+                timezone={timezone}
+                refreshKey={calendarRefreshKey}
+                onCreate={handleCalendarCreate}
+                onSelect={handleCalendarSelect}
+                onReschedule={handleReschedule}
+              />
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            {/* Filter Tabs */}
+            <Tabs value={activeFilter} onValueChange={(value) => setActiveFilter(value as FilterType)}>
+              <TabsList className="grid w-full grid-cols-4">
+                <TabsTrigger value="all">All Events</TabsTrigger>
+                <TabsTrigger value="oneTime">One-time Events</TabsTrigger>
+                <TabsTrigger value="past">Past Events</TabsTrigger>
+                <TabsTrigger value="recurring">Recurring</TabsTrigger>
+              </TabsList>
+            </Tabs>
+
+            {/* Events Table */}
+            <Card>
+              <CardHeader>
+                <CardTitle>
+                  {activeFilter === 'all' && 'All Events'}
+                  {activeFilter === 'oneTime' && 'Upcoming One-time Events'}
+                  {activeFilter === 'past' && 'Past Events'}
+                  {activeFilter === 'recurring' && 'Recurring Events'}
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {filteredEvents.length === 0 ? (
+                  <div className="text-center py-8">
+                    <Calendar className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                    <h3 className="text-lg font-medium text-gray-900 mb-2">{emptyState.title}</h3>
+                    <p className="text-gray-500 mb-4">{emptyState.description}</p>
+                    {emptyState.action && (
+                      <Button onClick={emptyState.action}>
+                        <Plus className="h-4 w-4 mr-2" />
+                        {emptyState.actionText}
+                      </Button>
+                    )}
+                  </div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead></TableHead>
+                        <TableHead>Event</TableHead>
+                        <TableHead>Date & Time</TableHead>
+                        <TableHead>Location</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {filteredEvents.map((event) => {
+                        const isRecurring = event.id?.startsWith('recurring-');
+                        const isExpanded = expandedRows.has(event.id!);
+                        const isCancelled = event.occurrenceStatus === 'cancelled';
+                        const isModified = event.occurrenceStatus === 'modified';
                     
-                    return (
-                      <React.Fragment key={event.id}>
-                        <TableRow>
-                          <TableCell>
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => toggleRowExpansion(event.id!)}
-                            >
-                              {isExpanded ? (
-                                <ChevronDown className="h-4 w-4" />
-                              ) : (
-                                <ChevronRight className="h-4 w-4" />
-                              )}
-                            </Button>
-                          </TableCell>
-                          <TableCell>
-                            <div className="flex items-center space-x-2">
-                              <p className="font-medium text-gray-900">{event.title}</p>
-                              {isRecurring && (
-                                <Badge variant="outline" className="text-xs">
-                                  <Repeat className="h-3 w-3 mr-1" />
-                                  Recurring
-                                </Badge>
-                              )}
-                            </div>
-                          </TableCell>
-                          <TableCell>
-                            <div className="space-y-1">
-                              <div className="flex items-center text-sm text-gray-600">
-                                <Calendar className="h-4 w-4 mr-1" />
-                                {formatDate(event.date)}
-                              </div>
-                              <div className="flex items-center text-sm text-gray-600">
-                                <Clock className="h-4 w-4 mr-1" />
-                                {event.startTime} - {event.endTime}
-                              </div>
-                            </div>
-                          </TableCell>
-                          <TableCell>
-                            <div className="flex items-center text-sm text-gray-600">
-                              <MapPin className="h-4 w-4 mr-1" />
-                              {event.location}
-                            </div>
-                          </TableCell>
-                          <TableCell>
-                            <Badge variant={isUpcoming(event.date) ? "default" : "secondary"}>
-                              {isUpcoming(event.date) ? 'Upcoming' : 'Past'}
-                            </Badge>
-                          </TableCell>
-                          <TableCell>
-                            <div className="flex items-center space-x-2">
-                              {!isRecurring && (
+                        return (
+                          <React.Fragment key={event.id}>
+                            <TableRow className={isCancelled ? 'bg-red-50/50 text-gray-400' : ''}>
+                              <TableCell>
                                 <Button
                                   variant="ghost"
                                   size="sm"
-                                  onClick={() => handleEdit(event)}
+                                  onClick={() => toggleRowExpansion(event.id!)}
                                 >
-                                  <Edit className="h-4 w-4" />
+                                  {isExpanded ? (
+                                    <ChevronDown className="h-4 w-4" />
+                                  ) : (
+                                    <ChevronRight className="h-4 w-4" />
+                                  )}
                                 </Button>
-                              )}
-                              {isRecurring && (
-                                <>
-                                  <Button
-                                    variant="ghost"
-                                    size="sm"
-                                    onClick={() => {
-                                      const recurringEvent = recurringEvents.find(e => 
-                                        event.id?.includes(e.id!)
-                                      );
-                                      if (recurringEvent) handleEditRecurring(recurringEvent);
-                                    }}
-                                  >
-                                    <Edit className="h-4 w-4" />
-                                  </Button>
+                              </TableCell>
+                              <TableCell>
+                                <div className="flex items-center space-x-2">
+                                  <p className={`font-medium ${isCancelled ? 'text-gray-400 line-through' : 'text-gray-900'}`}>
+                                    {event.title}
+                                  </p>
+                                  {isRecurring && (
+                                    <Badge variant="outline" className="text-xs">
+                                      <Repeat className="h-3 w-3 mr-1" />
+                                      Recurring
+                                    </Badge>
+                                  )}
+                                  {event.registration?.enabled && (
+                                    <Badge variant="outline" className="text-xs">
+                                      <ClipboardList className="h-3 w-3 mr-1" />
+                                      RSVP{event.registration.capacity ? ` (${event.registration.capacity})` : ''}
+                                    </Badge>
+                                  )}
+                                  {isModified && (
+                                    <Badge variant="outline" className="text-xs border-orange-300 text-orange-700 bg-orange-50">
+                                      <PenLine className="h-3 w-3 mr-1" />
+                                      Modified
+                                    </Badge>
+                                  )}
+                                </div>
+                              </TableCell>
+                              <TableCell>
+                                <div className="space-y-1">
+                                  <div className="flex items-center text-sm text-gray-600">
+                                    <Calendar className="h-4 w-4 mr-1" />
+                                    {formatDate(event.date)}
+                                  </div>
+                                  <div className="flex items-center text-sm text-gray-600">
+                                    <Clock className="h-4 w-4 mr-1" />
+                                    {event.startTime} - {event.endTime}
+                                  </div>
+                                </div>
+                              </TableCell>
+                              <TableCell>
+                                <div className="flex items-center text-sm text-gray-600">
+                                  <MapPin className="h-4 w-4 mr-1" />
+                                  {event.location}
+                                </div>
+                              </TableCell>
+                              <TableCell>
+                                {isCancelled ? (
+                                  <Badge variant="destructive">Cancelled</Badge>
+                                ) : (
+                                  <Badge variant={isUpcoming(event.date) ? "default" : "secondary"}>
+                                    {isUpcoming(event.date) ? 'Upcoming' : 'Past'}
+                                  </Badge>
+                                )}
+                              </TableCell>
+                              <TableCell>
+                                <div className="flex items-center space-x-2">
+                                  {!isCancelled && (
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      onClick={() => handleDownloadEvent(event)}
+                                      title="Download .ics file"
+                                    >
+                                      <Download className="h-4 w-4" />
+                                    </Button>
+                                  )}
+                                  {!isRecurring && (
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      onClick={() => handleEdit(event)}
+                                    >
+                                      <Edit className="h-4 w-4" />
+                                    </Button>
+                                  )}
+                                  {isRecurring && (
+                                    <>
+                                      <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        onClick={() => {
+                                          const recurringEvent = findRecurringEvent(event);
+                                          if (recurringEvent) handleEditRecurring(recurringEvent);
+                                        }}
+                                        title="Edit series"
+                                      >
+                                        <Edit className="h-4 w-4" />
+                                      </Button>
+                                      {isCancelled ? (
+                                        <Button
+                                          variant="ghost"
+                                          size="sm"
+                                          onClick={() => handleRestoreOccurrence(event)}
+                                          title="Restore this occurrence"
+                                        >
+                                          <RotateCcw className="h-4 w-4" />
+                                        </Button>
+                                      ) : (
+                                        <>
+                                          <Button
+                                            variant="ghost"
+                                            size="sm"
+                                            onClick={() => setOverridingOccurrence(event)}
+                                            title="Edit this occurrence"
+                                          >
+                                            <PenLine className="h-4 w-4" />
+                                          </Button>
+                                          <Button
+                                            variant="ghost"
+                                            size="sm"
+                                            onClick={() => {
+                                              const recurringEvent = findRecurringEvent(event);
+                                              if (recurringEvent) handleSkipRecurring(recurringEvent, event.date);
+                                            }}
+                                            title="Skip this occurrence"
+                                          >
+                                            <SkipForward className="h-4 w-4" />
+                                          </Button>
+                                        </>
+                                      )}
+                                    </>
+                                  )}
                                   <Button
                                     variant="ghost"
                                     size="sm"
                                     onClick={() => {
-                                      const recurringEvent = recurringEvents.find(e => 
-                                        event.id?.includes(e.id!)
-                                      );
-                                      if (recurringEvent) handleSkipRecurring(recurringEvent);
+                                      if (isRecurring) {
+                                        const recurringEvent = findRecurringEvent(event);
+                                        if (recurringEvent) handleDeleteRecurring(recurringEvent);
+                                      } else {
+                                        handleDelete(event.id!);
+                                      }
                                     }}
-                                    title="Skip this occurrence"
                                   >
-                                    <SkipForward className="h-4 w-4" />
+                                    <Trash2 className="h-4 w-4" />
                                   </Button>
-                                </>
-                              )}
-                              <Button
-                                variant="ghost"
-                                size="sm"
-                                onClick={() => {
-                                  if (isRecurring) {
-                                    const recurringEvent = recurringEvents.find(e => 
-                                      event.id?.includes(e.id!)
-                                    );
-                                    if (recurringEvent) handleDeleteRecurring(recurringEvent);
-                                  } else {
-                                    handleDelete(event.id!);
-                                  }
-                                }}
-                              >
-                                <Trash2 className="h-4 w-4" />
-                              </Button>
-                            </div>
-                          </TableCell>
-                        </TableRow>
-                        {isExpanded && (
-                          <TableRow>
-                            <TableCell colSpan={6} className="bg-gray-50">
-                              <div className="p-4">
-                                <h4 className="font-medium text-gray-900 mb-2">Event Details</h4>
-                                <p className="text-gray-600 mb-3">{event.description}</p>
-                                {isRecurring && (
-                                  <div className="text-sm text-gray-500">
-                                    <p>This is a recurring event that occurs every {getDayOfWeekName(
-                                      recurringEvents.find(e => event.id?.includes(e.id!))?.dayOfWeek || 0
-                                    )}.</p>
+                                </div>
+                              </TableCell>
+                            </TableRow>
+                            {isExpanded && (
+                              <TableRow>
+                                <TableCell colSpan={6} className="bg-gray-50">
+                                  <div className="p-4">
+                                    <h4 className="font-medium text-gray-900 mb-2">Event Details</h4>
+                                    <p className="text-gray-600 mb-3">{event.description}</p>
+                                    {isRecurring && (
+                                      <div className="text-sm text-gray-500 space-y-1">
+                                        <p>This is a recurring event: {getRecurrenceDescription(findRecurringEvent(event))}.</p>
+                                        {isCancelled && (
+                                          <p className="text-red-600">
+                                            This occurrence is cancelled{event.occurrenceReason ? `: ${event.occurrenceReason}` : '.'}
+                                          </p>
+                                        )}
+                                        {isModified && (
+                                          <p className="text-orange-600">
+                                            This occurrence differs from the series{event.occurrenceReason ? `: ${event.occurrenceReason}` : '.'}
+                                          </p>
+                                        )}
+                                      </div>
+                                    )}
                                   </div>
-                                )}
-                              </div>
-                            </TableCell>
-                          </TableRow>
-                        )}
-                      </React.Fragment>
-                    );
-                  })}
-                </TableBody>
-              </Table>
-            )}
-          </CardContent>
-        </Card>
+                                </TableCell>
+                              </TableRow>
+                            )}
+                          </React.Fragment>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
       </div>
 
       {/* Form Dialogs */}
       {showForm && (
         <EventForm
           event={editingEvent}
+          timezone={timezone}
+          defaults={newEventDefaults}
           onSuccess={handleFormSuccess}
           onCancel={() => {
             setShowForm(false);
             setEditingEvent(null);
+            setNewEventDefaults(undefined);
           }}
         />
       )}
@@ -514,6 +773,7 @@ export default function EventsPage() {
       {showRecurringForm && (
         <RecurringEventForm
           event={editingRecurringEvent}
+          timezone={timezone}
           onSuccess={handleRecurringFormSuccess}
           onCancel={() => {
             setShowRecurringForm(false);
@@ -525,13 +785,43 @@ export default function EventsPage() {
       {showSkipForm && skippingRecurringEvent && (
         <SkipRecurringEventForm
           recurringEvent={skippingRecurringEvent}
+          occurrenceDate={skippingOccurrenceDate}
+          timezone={timezone}
           onSuccess={handleSkipSuccess}
           onCancel={() => {
             setShowSkipForm(false);
             setSkippingRecurringEvent(null);
+            setSkippingOccurrenceDate(undefined);
           }}
         />
       )}
+
+      {showExportDialog && (
+        <CalendarExportDialog
+          timezone={timezone}
+          churchName={churchName}
+          onCancel={() => setShowExportDialog(false)}
+        />
+      )}
+
+      {/* Exports the events shown by the current filter */}
+      {showListExport && (
+        <ExportModal
+          isOpen={showListExport}
+          onClose={() => setShowListExport(false)}
+          dataset="events"
+          items={filteredEvents}
+        />
+      )}
+
+      {overridingOccurrence && findRecurringEvent(overridingOccurrence) && (
+        <OccurrenceOverrideForm
+          recurringEvent={findRecurringEvent(overridingOccurrence)!}
+          occurrence={overridingOccurrence}
+          onSuccess={handleOverrideSuccess}
+          onCancel={() => setOverridingOccurrence(null)}
+        />
+      )}
     </DashboardLayout>
   );
 } 
\ No newline at end of file
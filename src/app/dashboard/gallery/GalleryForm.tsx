@@ -4,7 +4,6 @@ import { useState } from 'react';
 import Image from 'next/image';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -12,7 +11,8 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Upload, X } from 'lucide-react';
 import { toast } from 'sonner';
-import { GalleryItem, createDocument, updateDocument, galleryCollection } from '@/lib/firestore';
+import { GalleryItem, galleryRepository } from '@/lib/firestore';
+import { galleryItemFormSchema, GalleryItemFormData } from '@/lib/firestore/schemas';
 import { uploadImage } from '@/lib/storage';
 
 const categories = [
@@ -26,13 +26,6 @@ const categories = [
   'Other'
 ];
 
-const gallerySchema = z.object({
-  caption: z.string().min(1, 'Caption is required'),
-  category: z.string().min(1, 'Category is required'),
-});
-
-type GalleryFormData = z.infer<typeof gallerySchema>;
-
 interface GalleryFormProps {
   item?: GalleryItem | null;
   onSuccess: (item: GalleryItem) => void;
@@ -45,8 +38,8 @@ export default function GalleryForm({ item, onSuccess, onCancel }: GalleryFormPr
   const [imagePreview, setImagePreview] = useState<string>(item?.imageUrl || '');
   const [uploadProgress, setUploadProgress] = useState(0);
 
-  const form = useForm<GalleryFormData>({
-    resolver: zodResolver(gallerySchema),
+  const form = useForm<GalleryItemFormData>({
+    resolver: zodResolver(galleryItemFormSchema),
     defaultValues: {
       caption: item?.caption || '',
       category: item?.category || '',
@@ -70,7 +63,7 @@ export default function GalleryForm({ item, onSuccess, onCancel }: GalleryFormPr
     setImagePreview('');
   };
 
-  const onSubmit = async (data: GalleryFormData) => {
+  const onSubmit = async (data: GalleryItemFormData) => {
     if (!imagePreview && !item?.imageUrl) {
       toast.error('Please select an image');
       return;
@@ -96,11 +89,11 @@ export default function GalleryForm({ item, onSuccess, onCancel }: GalleryFormPr
 
       if (item?.id) {
         // Update existing item
-        await updateDocument(galleryCollection, item.id, galleryData);
+        await galleryRepository.update(item.id, galleryData);
         onSuccess({ ...item, ...galleryData });
       } else {
         // Create new item
-        const id = await createDocument(galleryCollection, galleryData);
+        const id = await galleryRepository.create(galleryData);
         onSuccess({ id, ...galleryData });
       }
     } catch {
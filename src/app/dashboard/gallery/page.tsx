@@ -7,10 +7,11 @@ import DashboardLayout from '@/components/layout/DashboardLayout';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Plus, Edit, Trash2, Image as ImageIcon, Eye } from 'lucide-react';
+import { Plus, Edit, Trash2, Image as ImageIcon, Eye, Download } from 'lucide-react';
 import { toast } from 'sonner';
-import { GalleryItem, getDocuments, deleteDocument, galleryCollection } from '@/lib/firestore';
+import { GalleryItem, galleryRepository } from '@/lib/firestore';
 import GalleryForm from './GalleryForm';
+import ExportModal from '@/components/ui/ExportModal';
 
 const categories = [
   'Food Drive',
@@ -24,17 +25,18 @@ const categories = [
 ];
 
 export default function GalleryPage() {
-  const { loading } = useProtectedRoute();
+  const { loading } = useProtectedRoute('gallery');
   const [galleryItems, setGalleryItems] = useState<GalleryItem[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [showForm, setShowForm] = useState(false);
   const [editingItem, setEditingItem] = useState<GalleryItem | null>(null);
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
+  const [showExportModal, setShowExportModal] = useState(false);
 
   useEffect(() => {
     const fetchGallery = async () => {
       try {
-        const data = await getDocuments<GalleryItem>(galleryCollection);
+        const data = await galleryRepository.list();
         setGalleryItems(data);
       } catch {
         toast.error('Failed to fetch gallery items');
@@ -54,7 +56,7 @@ export default function GalleryPage() {
   const handleDelete = async (id: string) => {
     if (confirm('Are you sure you want to delete this image?')) {
       try {
-        await deleteDocument(galleryCollection, id);
+        await galleryRepository.remove(id);
         setGalleryItems(galleryItems.filter(item => item.id !== id));
         toast.success('Image deleted successfully');
       } catch {
@@ -97,10 +99,16 @@ export default function GalleryPage() {
             <h1 className="text-3xl font-bold text-gray-900">Community Gallery</h1>
             <p className="text-gray-600 mt-2">Manage community photos and memories</p>
           </div>
-          <Button onClick={() => setShowForm(true)}>
-            <Plus className="h-4 w-4 mr-2" />
-            Upload Photo
-          </Button>
+          <div className="flex space-x-2">
+            <Button variant="outline" onClick={() => setShowExportModal(true)} disabled={filteredItems.length === 0}>
+              <Download className="h-4 w-4 mr-2" />
+              Export
+            </Button>
+            <Button onClick={() => setShowForm(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Upload Photo
+            </Button>
+          </div>
         </div>
 
         {/* Stats */}
@@ -241,6 +249,16 @@ export default function GalleryPage() {
           }}
         />
       )}
+
+      {/* Exports the photos in the selected category */}
+      {showExportModal && (
+        <ExportModal
+          isOpen={showExportModal}
+          onClose={() => setShowExportModal(false)}
+          dataset="gallery"
+          items={filteredItems}
+        />
+      )}
     </DashboardLayout>
   );
 } 
\ No newline at end of file
@@ -0,0 +1,113 @@
+'use client';
+
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { createInvitation, INVITATION_TTL_DAYS } from '@/lib/firestore';
+import { invitationFormSchema, InvitationFormData } from '@/lib/firestore/schemas';
+import { USER_ROLES, roleLabels, roleDescriptions } from '@/lib/auth/roles';
+import { logCreate } from '@/lib/firebase/logActivity';
+import { useAuth } from '@/contexts/AuthContext';
+
+interface InvitationFormProps {
+  onSuccess: (invitationId: string) => void;
+  onCancel: () => void;
+}
+
+export default function InvitationForm({ onSuccess, onCancel }: InvitationFormProps) {
+  const { user } = useAuth();
+  const [isLoading, setIsLoading] = useState(false);
+
+  const form = useForm<InvitationFormData>({
+    resolver: zodResolver(invitationFormSchema),
+    defaultValues: {
+      email: '',
+      role: 'read-only',
+    },
+  });
+
+  const onSubmit = async (data: InvitationFormData) => {
+    if (!user) return;
+    setIsLoading(true);
+    try {
+      const id = await createInvitation(data.email, data.role, user.uid, user.email || '');
+      await logCreate('invitations', data.email, user.uid, { role: data.role });
+      onSuccess(id);
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to create invitation');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const selectedRole = form.watch('role');
+
+  return (
+    <Dialog open onOpenChange={onCancel}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Invite Dashboard User</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+          {/* Email */}
+          <div className="space-y-2">
+            <Label htmlFor="email">Email</Label>
+            <Input
+              id="email"
+              type="email"
+              placeholder="name@example.com"
+              {...form.register('email')}
+            />
+            {form.formState.errors.email && (
+              <p className="text-sm text-red-500">
+                {form.formState.errors.email.message}
+              </p>
+            )}
+          </div>
+
+          {/* Role */}
+          <div className="space-y-2">
+            <Label htmlFor="role">Role</Label>
+            <Select
+              value={selectedRole}
+              onValueChange={(value) => form.setValue('role', value as InvitationFormData['role'])}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select a role" />
+              </SelectTrigger>
+              <SelectContent>
+                {USER_ROLES.map((role) => (
+                  <SelectItem key={role} value={role}>
+                    {roleLabels[role]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-gray-500">{roleDescriptions[selectedRole]}</p>
+          </div>
+
+          <p className="text-sm text-gray-500">
+            The invitation link expires after {INVITATION_TTL_DAYS} days.
+          </p>
+
+          {/* Actions */}
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isLoading}>
+              {isLoading ? 'Creating...' : 'Create Invitation'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,277 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useProtectedRoute } from '@/hooks/useProtectedRoute';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { UserPlus, Copy, Ban, Mail, Clock, CheckCircle, Send } from 'lucide-react';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import {
+  Invitation,
+  InvitationStatus,
+  subscribeToInvitations,
+  getEffectiveInvitationStatus,
+  expireStaleInvitations,
+  revokeInvitation,
+  queueMail,
+} from '@/lib/firestore';
+import { roleLabels } from '@/lib/auth/roles';
+import { logUpdate } from '@/lib/firebase/logActivity';
+import { runMailQueue } from '@/lib/utils/mailQueueUtils';
+import InvitationForm from './InvitationForm';
+
+const statusVariants: Record<InvitationStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'default',
+  accepted: 'secondary',
+  expired: 'outline',
+  revoked: 'destructive',
+};
+
+const getInvitationLink = (id: string) => `${window.location.origin}/invite/${id}`;
+
+export default function InvitationsPage() {
+  const { user, loading } = useProtectedRoute('users');
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+
+  useEffect(() => {
+    if (!user || loading) return;
+
+    const unsubscribe = subscribeToInvitations((data) => {
+      setInvitations(data);
+      setIsLoading(false);
+
+      expireStaleInvitations(data).catch((error) => {
+        console.error('Failed to expire stale invitations:', error);
+      });
+    });
+
+    return () => unsubscribe();
+  }, [user, loading]);
+
+  const handleCopyLink = async (id: string) => {
+    try {
+      await navigator.clipboard.writeText(getInvitationLink(id));
+      toast.success('Invitation link copied');
+    } catch {
+      toast.error('Failed to copy link');
+    }
+  };
+
+  // Queues the invitation email, then asks the server to send it straight away.
+  // If that fails the email stays in the outbox and is retried from there.
+  const handleEmailInvitation = async (invitation: Invitation) => {
+    if (!user || !invitation.id) return;
+
+    try {
+      const mailId = await queueMail('invitation', {
+        roleLabel: roleLabels[invitation.role],
+        inviteUrl: getInvitationLink(invitation.id),
+        expiresAt: format(invitation.expiresAt.toDate(), 'MMMM d, yyyy'),
+        invitedBy: user.email || invitation.invitedByEmail,
+      }, invitation.email, user.uid, { collection: 'invitations', id: invitation.id });
+      await logUpdate('invitations', invitation.email, user.uid, { action: 'email_invitation' });
+
+      const result = await runMailQueue(user, [mailId]).catch((error) => {
+        console.error('Failed to send queued invitation email:', error);
+        return null;
+      });
+      if (result?.sent) {
+        toast.success(`Invitation emailed to ${invitation.email}`);
+      } else {
+        toast.warning('The invitation email could not be sent yet. It will be retried from the outbox.');
+      }
+    } catch (error) {
+      console.error('Failed to email invitation:', error);
+      toast.error('Failed to email invitation');
+    }
+  };
+
+  const handleRevoke = async (invitation: Invitation) => {
+    if (!user || !invitation.id) return;
+    if (!confirm(`Revoke the invitation for ${invitation.email}?`)) return;
+
+    try {
+      await revokeInvitation(invitation.id, user.uid);
+      await logUpdate('invitations', invitation.email, user.uid, { action: 'revoke' });
+      toast.success('Invitation revoked');
+    } catch {
+      toast.error('Failed to revoke invitation');
+    }
+  };
+
+  const handleFormSuccess = async (id: string) => {
+    setShowForm(false);
+    await handleCopyLink(id);
+    toast.success('Invitation created. Send the copied link to the invitee, or email it from the list.');
+  };
+
+  const pendingCount = invitations.filter(i => getEffectiveInvitationStatus(i) === 'pending').length;
+  const acceptedCount = invitations.filter(i => i.status === 'accepted').length;
+
+  if (loading || isLoading) {
+    return (
+      <DashboardLayout>
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Invitations</h1>
+            <p className="text-gray-600 mt-2">Invite new dashboard users and track their onboarding</p>
+          </div>
+          <Button onClick={() => setShowForm(true)}>
+            <UserPlus className="h-4 w-4 mr-2" />
+            Invite User
+          </Button>
+        </div>
+
+        {/* Stats */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <Card>
+            <CardContent className="p-6">
+              <div className="flex items-center space-x-3">
+                <div className="p-2 bg-blue-100 rounded-lg">
+                  <Mail className="h-6 w-6 text-blue-600" />
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-gray-600">Total Invitations</p>
+                  <p className="text-2xl font-bold text-gray-900">{invitations.length}</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-6">
+              <div className="flex items-center space-x-3">
+                <div className="p-2 bg-orange-100 rounded-lg">
+                  <Clock className="h-6 w-6 text-orange-600" />
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-gray-600">Pending</p>
+                  <p className="text-2xl font-bold text-gray-900">{pendingCount}</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-6">
+              <div className="flex items-center space-x-3">
+                <div className="p-2 bg-green-100 rounded-lg">
+                  <CheckCircle className="h-6 w-6 text-green-600" />
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-gray-600">Accepted</p>
+                  <p className="text-2xl font-bold text-gray-900">{acceptedCount}</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Invitations Table */}
+        <Card>
+          <CardHeader>
+            <CardTitle>All Invitations</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {invitations.length === 0 ? (
+              <div className="text-center py-8">
+                <UserPlus className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                <h3 className="text-lg font-medium text-gray-900 mb-2">No invitations yet</h3>
+                <p className="text-gray-500 mb-4">Invite your team to help manage the dashboard.</p>
+                <Button onClick={() => setShowForm(true)}>
+                  <UserPlus className="h-4 w-4 mr-2" />
+                  Invite User
+                </Button>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Invited By</TableHead>
+                    <TableHead>Expires</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {invitations.map((invitation) => {
+                    const status = getEffectiveInvitationStatus(invitation);
+                    return (
+                      <TableRow key={invitation.id}>
+                        <TableCell className="font-medium text-gray-900">{invitation.email}</TableCell>
+                        <TableCell>{roleLabels[invitation.role]}</TableCell>
+                        <TableCell>
+                          <Badge variant={statusVariants[status]} className="capitalize">
+                            {status}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-sm text-gray-600">{invitation.invitedByEmail}</TableCell>
+                        <TableCell className="text-sm text-gray-600">
+                          {format(invitation.expiresAt.toDate(), 'MMM d, yyyy')}
+                        </TableCell>
+                        <TableCell>
+                          {status === 'pending' && (
+                            <div className="flex items-center space-x-2">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleCopyLink(invitation.id!)}
+                                title="Copy invitation link"
+                              >
+                                <Copy className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleEmailInvitation(invitation)}
+                                title="Email invitation link"
+                              >
+                                <Send className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleRevoke(invitation)}
+                                title="Revoke invitation"
+                              >
+                                <Ban className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {showForm && (
+        <InvitationForm
+          onSuccess={handleFormSuccess}
+          onCancel={() => setShowForm(false)}
+        />
+      )}
+    </DashboardLayout>
+  );
+}
@@ -3,7 +3,6 @@
 import { useState, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -15,19 +14,9 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Upload, X } from 'lucide-react';
 import { toast } from 'sonner';
 import { Leader, createLeader, updateLeader, getLeadersByCategory } from '@/lib/firestore';
+import { leaderFormSchema, LeaderFormData } from '@/lib/firestore/schemas';
 import { uploadImage } from '@/lib/storage';
 
-const leaderSchema = z.object({
-  customId: z.number().min(1, 'Custom ID must be at least 1').optional(),
-  name: z.string().min(1, 'Name is required'),
-  role: z.string().min(1, 'Role is required'),
-  bio: z.string().min(10, 'Bio must be at least 10 characters'),
-  category: z.enum(['pastor', 'teamLead']),
-  isActive: z.boolean(),
-});
-
-type LeaderFormData = z.infer<typeof leaderSchema>;
-
 interface LeaderFormProps {
   leader?: Leader | null;
   defaultCategory?: 'pastor' | 'teamLead';
@@ -62,7 +51,7 @@ export default function LeaderForm({ leader, defaultCategory = 'pastor', onSucce
   }, [leader?.category, defaultCategory]);
 
   const form = useForm<LeaderFormData>({
-    resolver: zodResolver(leaderSchema),
+    resolver: zodResolver(leaderFormSchema),
     defaultValues: {
       customId: leader?.customId || undefined,
       name: leader?.name || '',
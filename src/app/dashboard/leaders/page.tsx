@@ -21,7 +21,8 @@ import {
   EyeOff,
   Search,
   UserCheck,
-  UserX
+  UserX,
+  Download
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { 
@@ -29,10 +30,10 @@ import {
   getLeadersByCategory, 
   deleteLeader, 
   updateLeader, 
-  subscribeToLeadersByCategory,
-  migrateLeadersToNewStructure
+  subscribeToLeadersByCategory
 } from '@/lib/firestore';
 import LeaderForm from '@/app/dashboard/leaders/LeaderForm';
+import ExportModal from '@/components/ui/ExportModal';
 
 type LeaderCategory = 'pastor' | 'teamLead';
 
@@ -54,7 +55,7 @@ const categoryConfig = {
 };
 
 export default function LeadersPage() {
-  const { loading } = useProtectedRoute();
+  const { loading } = useProtectedRoute('leaders');
   const [pastors, setPastors] = useState<Leader[]>([]);
   const [teamLeads, setTeamLeads] = useState<Leader[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -62,7 +63,7 @@ export default function LeadersPage() {
   const [editingLeader, setEditingLeader] = useState<Leader | null>(null);
   const [activeCategory, setActiveCategory] = useState<LeaderCategory>('pastor');
   const [searchTerm, setSearchTerm] = useState('');
-  const [isMigrating, setIsMigrating] = useState(false);
+  const [showExportModal, setShowExportModal] = useState(false);
 
   // Fetch leaders on component mount
   useEffect(() => {
@@ -194,28 +195,6 @@ export default function LeadersPage() {
     setShowForm(true);
   };
 
-  const handleMigration = async () => {
-    if (confirm('This will migrate existing leaders from the old structure to the new one. Continue?')) {
-      setIsMigrating(true);
-      try {
-        await migrateLeadersToNewStructure();
-        toast.success('Migration completed successfully! Please refresh the page.');
-        // Refresh the data
-        const [pastorsData, teamLeadsData] = await Promise.all([
-          getLeadersByCategory('pastor'),
-          getLeadersByCategory('teamLead')
-        ]);
-        setPastors(pastorsData);
-        setTeamLeads(teamLeadsData);
-      } catch (error) {
-        console.error('Migration failed:', error);
-        toast.error('Migration failed. Please try again.');
-      } finally {
-        setIsMigrating(false);
-      }
-    }
-  };
-
   if (loading || isLoading) {
     return (
       <DashboardLayout>
@@ -236,12 +215,13 @@ export default function LeadersPage() {
             <p className="text-gray-600 mt-2">Manage pastors and team leads</p>
           </div>
           <div className="flex items-center space-x-2">
-            <Button 
-              variant="outline" 
-              onClick={handleMigration}
-              disabled={isMigrating}
+            <Button
+              variant="outline"
+              onClick={() => setShowExportModal(true)}
+              disabled={pastors.length + teamLeads.length === 0}
             >
-              {isMigrating ? 'Migrating...' : 'Migrate Data'}
+              <Download className="h-4 w-4 mr-2" />
+              Export
             </Button>
             <Button onClick={() => openNewLeaderForm()}>
               <Plus className="h-4 w-4 mr-2" />
@@ -499,6 +479,16 @@ export default function LeadersPage() {
           })}
         </Tabs>
 
+        {/* Export Modal */}
+        {showExportModal && (
+          <ExportModal
+            isOpen={showExportModal}
+            onClose={() => setShowExportModal(false)}
+            dataset="leaders"
+            items={[...pastors, ...teamLeads]}
+          />
+        )}
+
         {/* Leader Form Modal */}
         {showForm && (
           <LeaderForm
@@ -0,0 +1,194 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { useProtectedRoute } from '@/hooks/useProtectedRoute';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { DatabaseZap, Play, FlaskConical } from 'lucide-react';
+import { toast } from 'sonner';
+import { db } from '@/lib/firebase';
+import { migrations, runMigrations, getMigrationRecords, MigrationRecord } from '@/lib/migrations';
+
+const statusBadgeClass: Record<MigrationRecord['status'] | 'pending', string> = {
+  pending: 'border-gray-300 text-gray-600 bg-gray-50',
+  running: 'border-blue-300 text-blue-700 bg-blue-50',
+  completed: 'border-green-300 text-green-700 bg-green-50',
+  failed: 'border-red-300 text-red-700 bg-red-50',
+};
+
+const statusLabels: Record<MigrationRecord['status'] | 'pending', string> = {
+  pending: 'Pending',
+  running: 'Interrupted',
+  completed: 'Completed',
+  failed: 'Failed',
+};
+
+const sortedMigrations = [...migrations].sort((a, b) => a.id - b.id);
+
+export default function MigrationsPage() {
+  const { user, loading, canWrite } = useProtectedRoute('migrations');
+  const [records, setRecords] = useState<Map<number, MigrationRecord>>(new Map());
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRunning, setIsRunning] = useState(false);
+  const [output, setOutput] = useState<string[]>([]);
+
+  const loadRecords = useCallback(async () => {
+    try {
+      setRecords(await getMigrationRecords(db));
+    } catch (error) {
+      console.error('Failed to load migrations:', error);
+      toast.error('Failed to load migration history');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!user || loading) return;
+    loadRecords();
+  }, [user, loading, loadRecords]);
+
+  const pendingCount = sortedMigrations.filter(migration => records.get(migration.id)?.status !== 'completed').length;
+
+  const handleRun = async (dryRun: boolean) => {
+    if (!user) return;
+    if (!dryRun && !confirm(`Run ${pendingCount} pending migration(s)? Each one changes live data.`)) return;
+
+    setIsRunning(true);
+    setOutput([]);
+    try {
+      const results = await runMigrations({
+        db,
+        migrations,
+        ranBy: { uid: user.uid, name: user.email || user.uid },
+        dryRun,
+        log: message => setOutput(prev => [...prev, message]),
+      });
+      const failed = results.find(result => result.status === 'failed' || result.error);
+      if (failed) {
+        toast.error(`Migration ${failed.name} failed. Run again to resume it.`);
+      } else if (dryRun) {
+        toast.success('Dry run finished. Nothing was changed.');
+      } else {
+        toast.success(results.length ? `Ran ${results.length} migration(s)` : 'No pending migrations');
+      }
+    } catch (error) {
+      console.error('Failed to run migrations:', error);
+      toast.error((error as Error).message || 'Failed to run migrations');
+    } finally {
+      setIsRunning(false);
+      loadRecords();
+    }
+  };
+
+  if (loading || isLoading) {
+    return (
+      <DashboardLayout>
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Data Migrations</h1>
+            <p className="text-gray-600 mt-2">Versioned changes to stored data. Each migration runs once, in order.</p>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Button variant="outline" onClick={() => handleRun(true)} disabled={isRunning || pendingCount === 0}>
+              <FlaskConical className="h-4 w-4 mr-2" />
+              Dry Run
+            </Button>
+            <Button onClick={() => handleRun(false)} disabled={isRunning || pendingCount === 0 || !canWrite}>
+              <Play className="h-4 w-4 mr-2" />
+              {isRunning ? 'Running...' : `Run Pending (${pendingCount})`}
+            </Button>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Migrations ({sortedMigrations.length})</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>#</TableHead>
+                  <TableHead>Migration</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Last Run</TableHead>
+                  <TableHead>Documents</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sortedMigrations.map((migration) => {
+                  const record = records.get(migration.id);
+                  const status = record?.status ?? 'pending';
+                  const lastRunAt = record?.finishedAt || record?.startedAt;
+                  return (
+                    <TableRow key={migration.id}>
+                      <TableCell className="font-mono text-sm text-gray-600">{migration.id}</TableCell>
+                      <TableCell>
+                        <div className="font-medium text-gray-900">{migration.name}</div>
+                        <div className="text-sm text-gray-500">{migration.description}</div>
+                        {record?.error && (
+                          <div className="text-xs text-red-500 max-w-md truncate" title={record.error}>
+                            {record.error}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={statusBadgeClass[status]}>
+                          {statusLabels[status]}
+                        </Badge>
+                        {record && record.attempts > 1 && (
+                          <div className="text-xs text-gray-500 mt-1">{record.attempts} attempts</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-600">
+                        {lastRunAt ? (
+                          <>
+                            <div>{format(lastRunAt.toDate(), 'MMM d, yyyy h:mm a')}</div>
+                            <div className="text-xs text-gray-400">by {record?.ranByName}</div>
+                          </>
+                        ) : '—'}
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-600">
+                        {record ? `${record.documentsProcessed} read, ${record.writes} changed` : '—'}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        {output.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <DatabaseZap className="h-5 w-5" />
+                <span>Output</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <pre className="text-xs bg-gray-50 rounded-md p-4 overflow-x-auto whitespace-pre-wrap">{output.join('\n')}</pre>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,285 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { RichTextEditor } from '@/components/ui/RichTextEditor';
+import { Save, Send, CalendarClock, FlaskConical } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  Campaign,
+  CampaignAudience,
+  NewsletterSegment,
+  NewsletterSignup,
+  createCampaign,
+  updateCampaign,
+  scheduleCampaign,
+} from '@/lib/firestore';
+import { ChurchInfo, renderMailTemplate } from '@/lib/mail/templates';
+import { sendCampaignBatches, sendCampaignTestEmail } from '@/lib/utils/campaignUtils';
+import { describeSegment, getSignupStatus, matchesSegment } from '@/lib/utils/newsletterUtils';
+import {
+  zonedTimeToInstant,
+  getTodayInTimezone,
+  formatInTimezone,
+} from '@/lib/utils/timezoneUtils';
+import { useAuth } from '@/contexts/AuthContext';
+import { logCreate, logUpdate } from '@/lib/firebase/logActivity';
+
+interface CampaignEditorProps {
+  campaign: Campaign | null; // null for a new campaign
+  church: ChurchInfo;
+  timezone: string;
+  signups: NewsletterSignup[];
+  segments: NewsletterSegment[];
+  onClose: () => void;
+}
+
+// Tiptap's empty document
+const EMPTY_CONTENT = '<p></p>';
+
+const ALL_SUBSCRIBERS = 'all';
+
+export default function CampaignEditor({ campaign, church, timezone, signups, segments, onClose }: CampaignEditorProps) {
+  const { user } = useAuth();
+  const [campaignId, setCampaignId] = useState(campaign?.id || null);
+  const [subject, setSubject] = useState(campaign?.subject || '');
+  const [content, setContent] = useState(campaign?.content || '');
+  const [testEmail, setTestEmail] = useState(campaign?.lastTestSentTo || user?.email || '');
+  const [scheduleDate, setScheduleDate] = useState(getTodayInTimezone(timezone));
+  const [scheduleTime, setScheduleTime] = useState('09:00');
+  const [segmentId, setSegmentId] = useState(campaign?.audience?.segmentId || ALL_SUBSCRIBERS);
+  const [isBusy, setIsBusy] = useState(false);
+
+  // The chosen segment's current criteria, or the campaign's saved copy if the segment was deleted
+  const segment = segments.find(item => item.id === segmentId);
+  const audience: CampaignAudience | null = segment
+    ? { segmentId, name: segment.name, interests: segment.interests, sources: segment.sources, tags: segment.tags }
+    : campaign?.audience?.segmentId === segmentId ? campaign.audience : null;
+  const recipientCount = signups.filter(signup =>
+    getSignupStatus(signup) === 'confirmed' && (!audience || matchesSegment(signup, audience))
+  ).length;
+
+  const hasContent = subject.trim().length > 0 && content.trim().length > 0 && content !== EMPTY_CONTENT;
+  // Each subscriber gets their own unsubscribe link when the campaign is sent
+  const preview = renderMailTemplate('newsletter', { subject: subject || '(No subject)', contentHtml: content, unsubscribeUrl: '#' }, church);
+
+  // Saves the draft and returns its id, creating it on first save
+  const saveDraft = async (): Promise<string | null> => {
+    if (!user) return null;
+    if (campaignId) {
+      await updateCampaign(campaignId, { subject: subject.trim(), content, audience }, user.uid);
+      return campaignId;
+    }
+    const id = await createCampaign({ subject: subject.trim(), content, audience }, user.uid);
+    await logCreate('campaigns', subject.trim(), user.uid);
+    setCampaignId(id);
+    return id;
+  };
+
+  const handleSave = async () => {
+    if (!subject.trim()) {
+      toast.error('Give the campaign a subject');
+      return;
+    }
+    setIsBusy(true);
+    try {
+      await saveDraft();
+      toast.success('Draft saved');
+    } catch (error) {
+      console.error('Failed to save campaign:', error);
+      toast.error('Failed to save campaign');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSendTest = async () => {
+    if (!user || !hasContent || !testEmail.trim()) return;
+    setIsBusy(true);
+    try {
+      const id = await saveDraft();
+      if (!id) return;
+      await sendCampaignTestEmail(user, id, testEmail.trim());
+      toast.success(`Test sent to ${testEmail.trim()}`);
+    } catch (error) {
+      console.error('Failed to send test email:', error);
+      toast.error((error as Error).message || 'Failed to send test email');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSchedule = async () => {
+    if (!user || !hasContent) return;
+    const scheduledAt = zonedTimeToInstant(scheduleDate, scheduleTime, timezone);
+    if (scheduledAt <= new Date()) {
+      toast.error('Choose a time in the future, or use Send Now');
+      return;
+    }
+    setIsBusy(true);
+    try {
+      const id = await saveDraft();
+      if (!id) return;
+      await scheduleCampaign(id, scheduledAt, user.uid);
+      await logUpdate('campaigns', subject.trim(), user.uid, { action: 'schedule', scheduledAt: scheduledAt.toISOString() });
+      toast.success(`Scheduled for ${formatInTimezone(scheduledAt, timezone, { dateStyle: 'medium', timeStyle: 'short' })}`);
+      onClose();
+    } catch (error) {
+      console.error('Failed to schedule campaign:', error);
+      toast.error('Failed to schedule campaign');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSendNow = async () => {
+    if (!user || !hasContent) return;
+    if (!confirm(`Send "${subject.trim()}" to ${recipientCount} subscriber(s) now?`)) return;
+    setIsBusy(true);
+    try {
+      const id = await saveDraft();
+      if (!id) return;
+      await scheduleCampaign(id, new Date(), user.uid);
+      await logUpdate('campaigns', subject.trim(), user.uid, { action: 'send' });
+      onClose();
+
+      toast.info('Sending campaign...');
+      const result = await sendCampaignBatches(user, id);
+      if (result.remaining) {
+        toast.warning(`Sent ${result.sent} email(s). The rest will be retried while the newsletter page is open.`);
+      } else if (result.failed > 0) {
+        toast.warning(`Sent ${result.sent} email(s); ${result.failed} failed`);
+      } else {
+        toast.success(`Campaign sent to ${result.sent} subscriber(s)`);
+      }
+    } catch (error) {
+      console.error('Failed to send campaign:', error);
+      toast.error((error as Error).message || 'Failed to send campaign');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{campaign ? 'Edit Campaign' : 'New Campaign'}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-2">
+            <Label htmlFor="subject">Subject</Label>
+            <Input
+              id="subject"
+              value={subject}
+              onChange={(e) => setSubject(e.target.value)}
+              placeholder="e.g. This month at church"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Audience</Label>
+            <Select value={segmentId} onValueChange={setSegmentId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_SUBSCRIBERS}>All confirmed subscribers</SelectItem>
+                {segments.map((item) => (
+                  <SelectItem key={item.id} value={item.id!}>{item.name}</SelectItem>
+                ))}
+                {campaign?.audience && !segment && campaign.audience.segmentId === segmentId && (
+                  <SelectItem value={campaign.audience.segmentId}>{campaign.audience.name} (deleted segment)</SelectItem>
+                )}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-gray-500">
+              {audience ? `${describeSegment(audience)} · ` : ''}{recipientCount} subscriber(s) right now. The list is taken when sending starts.
+            </p>
+          </div>
+
+          <Tabs defaultValue="write">
+            <TabsList>
+              <TabsTrigger value="write">Write</TabsTrigger>
+              <TabsTrigger value="preview">Preview</TabsTrigger>
+            </TabsList>
+            <TabsContent value="write">
+              <RichTextEditor content={content} onChange={setContent} />
+            </TabsContent>
+            <TabsContent value="preview">
+              {/* Sandboxed so the rendered email cannot run scripts in the dashboard */}
+              <iframe
+                title="Campaign preview"
+                sandbox=""
+                srcDoc={preview.html}
+                className="w-full h-[50vh] rounded border"
+              />
+            </TabsContent>
+          </Tabs>
+
+          {/* Test Send */}
+          <div className="space-y-2">
+            <Label htmlFor="testEmail">Send a Test</Label>
+            <div className="flex gap-2">
+              <Input
+                id="testEmail"
+                type="email"
+                value={testEmail}
+                onChange={(e) => setTestEmail(e.target.value)}
+                placeholder="you@example.com"
+              />
+              <Button variant="outline" onClick={handleSendTest} disabled={isBusy || !hasContent || !testEmail.trim()}>
+                <FlaskConical className="h-4 w-4 mr-2" />
+                Send Test
+              </Button>
+            </div>
+          </div>
+
+          {/* Schedule */}
+          <div className="space-y-2">
+            <Label>Schedule ({timezone.replace(/_/g, ' ')})</Label>
+            <div className="flex flex-wrap gap-2">
+              <Input
+                type="date"
+                value={scheduleDate}
+                onChange={(e) => setScheduleDate(e.target.value)}
+                className="w-44"
+              />
+              <Input
+                type="time"
+                value={scheduleTime}
+                onChange={(e) => setScheduleTime(e.target.value)}
+                className="w-32"
+              />
+              <Button variant="outline" onClick={handleSchedule} disabled={isBusy || !hasContent}>
+                <CalendarClock className="h-4 w-4 mr-2" />
+                Schedule
+              </Button>
+            </div>
+          </div>
+
+          {/* Actions */}
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={onClose} disabled={isBusy}>
+              Cancel
+            </Button>
+            <Button variant="outline" onClick={handleSave} disabled={isBusy || !subject.trim()}>
+              <Save className="h-4 w-4 mr-2" />
+              Save Draft
+            </Button>
+            <Button onClick={handleSendNow} disabled={isBusy || !hasContent || recipientCount === 0}>
+              <Send className="h-4 w-4 mr-2" />
+              Send Now
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,159 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { RotateCcw } from 'lucide-react';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import {
+  Campaign,
+  CampaignRecipient,
+  CampaignRecipientStatus,
+  subscribeToCampaignRecipients,
+  retryFailedCampaignRecipients,
+} from '@/lib/firestore';
+import {
+  campaignStatusLabels,
+  campaignStatusBadgeClass,
+  recipientStatusLabels,
+  getRecipientCounts,
+  sendCampaignBatches,
+} from '@/lib/utils/campaignUtils';
+import { useAuth } from '@/contexts/AuthContext';
+import { logUpdate } from '@/lib/firebase/logActivity';
+
+type RecipientFilter = 'all' | CampaignRecipientStatus;
+
+interface CampaignRecipientsDialogProps {
+  campaign: Campaign;
+  canWrite: boolean;
+  onClose: () => void;
+}
+
+export default function CampaignRecipientsDialog({ campaign, canWrite, onClose }: CampaignRecipientsDialogProps) {
+  const { user } = useAuth();
+  const [recipients, setRecipients] = useState<CampaignRecipient[]>([]);
+  const [filter, setFilter] = useState<RecipientFilter>('all');
+  const [isRetrying, setIsRetrying] = useState(false);
+
+  useEffect(() => {
+    if (!campaign.id) return;
+    const unsubscribe = subscribeToCampaignRecipients(campaign.id, setRecipients);
+    return () => unsubscribe();
+  }, [campaign.id]);
+
+  const counts = getRecipientCounts(recipients);
+  const processed = counts.sent + counts.failed;
+  const filteredRecipients = filter === 'all' ? recipients : recipients.filter(recipient => recipient.status === filter);
+
+  const handleRetryFailed = async () => {
+    if (!user || !campaign.id) return;
+    setIsRetrying(true);
+    try {
+      const count = await retryFailedCampaignRecipients(campaign.id, recipients, user.uid);
+      await logUpdate('campaigns', campaign.subject, user.uid, { action: 'retry_failed', count });
+      const result = await sendCampaignBatches(user, campaign.id);
+      toast.success(`Resent to ${result.sent} of ${count} address(es)`);
+    } catch (error) {
+      console.error('Failed to retry campaign:', error);
+      toast.error('Failed to retry failed addresses');
+    } finally {
+      setIsRetrying(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {campaign.subject}
+            <Badge variant="outline" className={campaignStatusBadgeClass[campaign.status]}>
+              {campaignStatusLabels[campaign.status]}
+            </Badge>
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {/* Progress */}
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm text-gray-600">
+              <span>{processed} of {recipients.length} processed</span>
+              <span>
+                {counts.sent} sent · {counts.failed} failed · {counts.pending + counts.sending} waiting
+              </span>
+            </div>
+            <Progress value={recipients.length > 0 ? (processed / recipients.length) * 100 : 0} />
+            {campaign.sentAt && (
+              <p className="text-xs text-gray-500">Finished {format(campaign.sentAt.toDate(), 'MMM d, yyyy h:mm a')}</p>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between gap-2">
+            <Select value={filter} onValueChange={(value) => setFilter(value as RecipientFilter)}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Recipients</SelectItem>
+                {(Object.keys(recipientStatusLabels) as CampaignRecipientStatus[]).map((status) => (
+                  <SelectItem key={status} value={status}>
+                    {recipientStatusLabels[status]} ({counts[status]})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {canWrite && counts.failed > 0 && (
+              <Button variant="outline" onClick={handleRetryFailed} disabled={isRetrying}>
+                <RotateCcw className="h-4 w-4 mr-2" />
+                {isRetrying ? 'Retrying...' : `Retry ${counts.failed} Failed`}
+              </Button>
+            )}
+          </div>
+
+          {/* Recipients */}
+          {filteredRecipients.length === 0 ? (
+            <p className="text-center py-6 text-sm text-gray-500">
+              {recipients.length === 0 ? 'Recipients are added when sending starts.' : 'No recipients match this filter.'}
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Attempts</TableHead>
+                  <TableHead>Sent</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredRecipients.map((recipient) => (
+                  <TableRow key={recipient.id}>
+                    <TableCell>
+                      <div className="font-medium text-gray-900">{recipient.email}</div>
+                      {recipient.error && <div className="text-xs text-red-500">{recipient.error}</div>}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={recipient.status === 'failed' ? 'destructive' : recipient.status === 'sent' ? 'secondary' : 'outline'}>
+                        {recipientStatusLabels[recipient.status]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-600">{recipient.attempts}</TableCell>
+                    <TableCell className="text-sm text-gray-600">
+                      {recipient.sentAt ? format(recipient.sentAt.toDate(), 'MMM d, h:mm a') : '—'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,214 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Plus, Pencil, Users, CalendarX, Trash2, Send } from 'lucide-react';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import {
+  Campaign,
+  NewsletterSegment,
+  NewsletterSignup,
+  subscribeToCampaigns,
+  scheduleCampaign,
+  campaignsRepository,
+  getSiteSettings,
+} from '@/lib/firestore';
+import { ChurchInfo, getChurchInfo } from '@/lib/mail/templates';
+import { campaignStatusLabels, campaignStatusBadgeClass, runCampaignSends } from '@/lib/utils/campaignUtils';
+import { getSignupStatus } from '@/lib/utils/newsletterUtils';
+import { DEFAULT_TIMEZONE, formatInTimezone, isValidTimezone } from '@/lib/utils/timezoneUtils';
+import { useAuth } from '@/contexts/AuthContext';
+import { logDelete, logUpdate } from '@/lib/firebase/logActivity';
+import CampaignEditor from './CampaignEditor';
+import CampaignRecipientsDialog from './CampaignRecipientsDialog';
+
+// While the newsletter page is open it starts scheduled campaigns and resumes unfinished ones
+const CAMPAIGN_POLL_INTERVAL_MS = 60 * 1000;
+
+interface CampaignsPanelProps {
+  signups: NewsletterSignup[];
+  segments: NewsletterSegment[];
+  canWrite: boolean;
+}
+
+export default function CampaignsPanel({ signups, segments, canWrite }: CampaignsPanelProps) {
+  const { user } = useAuth();
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [church, setChurch] = useState<ChurchInfo>(getChurchInfo(null));
+  const [timezone, setTimezone] = useState(DEFAULT_TIMEZONE);
+  const [editingCampaign, setEditingCampaign] = useState<Campaign | null | undefined>(undefined);
+  const [viewingCampaignId, setViewingCampaignId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const unsubscribe = subscribeToCampaigns(setCampaigns);
+    getSiteSettings()
+      .then((settings) => {
+        setChurch(getChurchInfo(settings));
+        if (settings?.timezone && isValidTimezone(settings.timezone)) setTimezone(settings.timezone);
+      })
+      .catch((error) => console.error('Failed to load church settings:', error));
+
+    return () => unsubscribe();
+  }, [user]);
+
+  useEffect(() => {
+    if (!user || !canWrite) return;
+
+    const sendDueCampaigns = () => {
+      runCampaignSends(user).catch((error) => console.error('Failed to send scheduled campaigns:', error));
+    };
+    sendDueCampaigns();
+    const interval = setInterval(sendDueCampaigns, CAMPAIGN_POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [user, canWrite]);
+
+  const handleUnschedule = async (campaign: Campaign) => {
+    if (!user || !campaign.id) return;
+    try {
+      await scheduleCampaign(campaign.id, null, user.uid);
+      await logUpdate('campaigns', campaign.subject, user.uid, { action: 'unschedule' });
+      toast.success('Campaign moved back to drafts');
+    } catch (error) {
+      console.error('Failed to unschedule campaign:', error);
+      toast.error('Failed to unschedule campaign');
+    }
+  };
+
+  const handleDelete = async (campaign: Campaign) => {
+    if (!campaign.id) return;
+    if (!confirm(`Delete the draft "${campaign.subject}"?`)) return;
+    try {
+      await campaignsRepository.remove(campaign.id);
+      await logDelete('campaigns', campaign.subject, user?.uid);
+      toast.success('Draft deleted');
+    } catch (error) {
+      console.error('Failed to delete campaign:', error);
+      toast.error('Failed to delete campaign');
+    }
+  };
+
+  const formatTime = (date: Date) => formatInTimezone(date, timezone, { dateStyle: 'medium', timeStyle: 'short' });
+
+  const subscriberCount = signups.filter(signup => getSignupStatus(signup) === 'confirmed').length;
+  const viewingCampaign = viewingCampaignId ? campaigns.find(campaign => campaign.id === viewingCampaignId) : undefined;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Campaigns</CardTitle>
+          {canWrite && (
+            <Button onClick={() => setEditingCampaign(null)}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Campaign
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {campaigns.length === 0 ? (
+          <div className="text-center py-8">
+            <Send className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No campaigns yet</h3>
+            <p className="text-gray-500">Write a newsletter and send it to your {subscriberCount} subscriber(s).</p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Subject</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>When</TableHead>
+                <TableHead>Delivery</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {campaigns.map((campaign) => (
+                <TableRow key={campaign.id}>
+                  <TableCell>
+                    <div className="font-medium text-gray-900">{campaign.subject}</div>
+                    <div className="text-xs text-gray-500">{campaign.audience ? campaign.audience.name : 'All subscribers'}</div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className={campaignStatusBadgeClass[campaign.status]}>
+                      {campaignStatusLabels[campaign.status]}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-600">
+                    {campaign.status === 'sent' && campaign.sentAt && formatTime(campaign.sentAt.toDate())}
+                    {campaign.status === 'scheduled' && campaign.scheduledAt && formatTime(campaign.scheduledAt.toDate())}
+                    {campaign.status === 'sending' && campaign.startedAt && `Started ${formatTime(campaign.startedAt.toDate())}`}
+                    {campaign.status === 'draft' && campaign.updatedAt && `Edited ${format(campaign.updatedAt.toDate(), 'MMM d')}`}
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-600">
+                    {campaign.status === 'sent' ? (
+                      <>
+                        {campaign.sentCount ?? 0} sent
+                        {(campaign.failedCount ?? 0) > 0 && (
+                          <span className="text-red-600"> · {campaign.failedCount} failed</span>
+                        )}
+                      </>
+                    ) : campaign.status === 'sending' ? (
+                      `${campaign.recipientCount ?? '…'} recipients`
+                    ) : '—'}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center space-x-2">
+                      {campaign.status === 'draft' && canWrite && (
+                        <>
+                          <Button variant="ghost" size="sm" onClick={() => setEditingCampaign(campaign)} title="Edit">
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => handleDelete(campaign)} title="Delete draft">
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </>
+                      )}
+                      {campaign.status === 'scheduled' && canWrite && (
+                        <Button variant="ghost" size="sm" onClick={() => handleUnschedule(campaign)} title="Cancel schedule">
+                          <CalendarX className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {(campaign.status === 'sending' || campaign.status === 'sent') && (
+                        <Button variant="ghost" size="sm" onClick={() => setViewingCampaignId(campaign.id!)} title="Recipients">
+                          <Users className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      {editingCampaign !== undefined && (
+        <CampaignEditor
+          campaign={editingCampaign}
+          church={church}
+          timezone={timezone}
+          signups={signups}
+          segments={segments}
+          onClose={() => setEditingCampaign(undefined)}
+        />
+      )}
+
+      {viewingCampaign && (
+        <CampaignRecipientsDialog
+          campaign={viewingCampaign}
+          canWrite={canWrite}
+          onClose={() => setViewingCampaignId(null)}
+        />
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,233 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  NewsletterSignup,
+  NewsletterSuppression,
+  importNewsletterSignups,
+  newsletterSuppressionsRepository,
+} from '@/lib/firestore';
+import { parseCsv } from '@/lib/utils/csvUtils';
+import {
+  NewsletterImportColumns,
+  guessImportColumns,
+  parseTags,
+  planNewsletterImport,
+  resendConfirmation,
+} from '@/lib/utils/newsletterUtils';
+import { useAuth } from '@/contexts/AuthContext';
+import { logCreate } from '@/lib/firebase/logActivity';
+
+type ImportStatus = 'confirmed' | 'pending';
+
+const NO_COLUMN = 'none';
+
+const columnFields: { key: keyof NewsletterImportColumns; label: string }[] = [
+  { key: 'email', label: 'Email' },
+  { key: 'name', label: 'Name' },
+  { key: 'interests', label: 'Interests' },
+  { key: 'tags', label: 'Tags' },
+];
+
+interface NewsletterImportDialogProps {
+  signups: NewsletterSignup[];
+  onClose: () => void;
+}
+
+export default function NewsletterImportDialog({ signups, onClose }: NewsletterImportDialogProps) {
+  const { user } = useAuth();
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<string[][]>([]);
+  const [columns, setColumns] = useState<NewsletterImportColumns | null>(null);
+  const [status, setStatus] = useState<ImportStatus>('confirmed');
+  const [extraTags, setExtraTags] = useState('');
+  const [suppressions, setSuppressions] = useState<NewsletterSuppression[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
+
+  useEffect(() => {
+    newsletterSuppressionsRepository.list()
+      .then(setSuppressions)
+      .catch((error) => console.error('Failed to load suppression list:', error));
+  }, []);
+
+  const header = rows[0] || [];
+  const plan = useMemo(
+    () => columns ? planNewsletterImport(rows.slice(1), columns, parseTags(extraTags), signups, suppressions) : null,
+    [rows, columns, extraTags, signups, suppressions]
+  );
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const parsed = parseCsv(await file.text());
+    if (parsed.length < 2) {
+      toast.error('The file needs a header row and at least one subscriber');
+      return;
+    }
+    setFileName(file.name);
+    setRows(parsed);
+    setColumns(guessImportColumns(parsed[0]));
+  };
+
+  const setColumn = (key: keyof NewsletterImportColumns, value: string) => {
+    if (!columns) return;
+    setColumns({ ...columns, [key]: value === NO_COLUMN ? null : Number(value) });
+  };
+
+  const handleImport = async () => {
+    if (!user || !plan || plan.toImport.length === 0) return;
+    setIsImporting(true);
+    try {
+      const count = await importNewsletterSignups(plan.toImport, status);
+      await logCreate('newsletterSignups', `${count} subscriber(s) from ${fileName}`, user.uid, {
+        action: 'import',
+        count,
+        status,
+        skipped: plan.existing.length + plan.duplicates.length + plan.suppressed.length + plan.invalid.length,
+      });
+
+      if (status === 'confirmed') {
+        toast.success(`Imported ${count} subscriber(s)`);
+        onClose();
+        return;
+      }
+
+      // Pending subscribers get the same confirmation email as the public signup form, one at a time
+      let failed = 0;
+      for (const signup of plan.toImport) {
+        try {
+          await resendConfirmation(signup.email);
+        } catch (error) {
+          console.error(`Failed to send confirmation to ${signup.email}:`, error);
+          failed += 1;
+        }
+      }
+      if (failed > 0) {
+        toast.warning(`Imported ${count} subscriber(s); ${failed} confirmation email(s) could not be sent. Resend them from the list.`);
+      } else {
+        toast.success(`Imported ${count} subscriber(s) and sent their confirmation emails`);
+      }
+      onClose();
+    } catch (error) {
+      console.error('Failed to import subscribers:', error);
+      toast.error('Failed to import subscribers');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const skippedLines = plan ? [
+    { label: 'already on the list', emails: plan.existing },
+    { label: 'repeated in the file', emails: plan.duplicates },
+    { label: 'on the suppression list', emails: plan.suppressed },
+    { label: 'without a valid email', emails: plan.invalid },
+  ].filter(line => line.emails.length > 0) : [];
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Subscribers</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-2">
+            <Label htmlFor="importFile">CSV File</Label>
+            <Input id="importFile" type="file" accept=".csv,text/csv" onChange={handleFileChange} />
+            <p className="text-xs text-gray-500">
+              The first row must be column headings. Interests and tags can hold several values separated by semicolons.
+            </p>
+          </div>
+
+          {columns && (
+            <>
+              {/* Column Mapping */}
+              <div className="space-y-2">
+                <Label>Columns</Label>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  {columnFields.map(({ key, label }) => (
+                    <div key={key} className="space-y-1">
+                      <span className="text-sm text-gray-600">{label}</span>
+                      <Select
+                        value={columns[key] === null ? NO_COLUMN : String(columns[key])}
+                        onValueChange={(value) => setColumn(key, value)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {key !== 'email' && <SelectItem value={NO_COLUMN}>Not in file</SelectItem>}
+                          {header.map((heading, index) => (
+                            <SelectItem key={index} value={String(index)}>
+                              {heading.trim() || `Column ${index + 1}`}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label>Import As</Label>
+                  <Select value={status} onValueChange={(value) => setStatus(value as ImportStatus)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="confirmed">Confirmed (they already agreed)</SelectItem>
+                      <SelectItem value="pending">Pending (email a confirmation link)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="importTags">Tag Everyone With</Label>
+                  <Input
+                    id="importTags"
+                    value={extraTags}
+                    onChange={(e) => setExtraTags(e.target.value)}
+                    placeholder="e.g. harvest-2026"
+                  />
+                </div>
+              </div>
+
+              {/* Summary */}
+              {plan && (
+                <div className="rounded-md border p-4 text-sm space-y-1">
+                  <p className="font-medium text-gray-900">
+                    {plan.toImport.length} new subscriber(s) will be added from {fileName}
+                  </p>
+                  {skippedLines.map((line) => (
+                    <p key={line.label} className="text-gray-600" title={line.emails.slice(0, 20).join(', ')}>
+                      {line.emails.length} skipped: {line.label}
+                    </p>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={onClose} disabled={isImporting}>
+              Cancel
+            </Button>
+            <Button onClick={handleImport} disabled={isImporting || !plan || plan.toImport.length === 0}>
+              <Upload className="h-4 w-4 mr-2" />
+              {isImporting ? 'Importing...' : `Import ${plan?.toImport.length ?? 0}`}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
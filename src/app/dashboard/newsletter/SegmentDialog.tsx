@@ -0,0 +1,166 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import {
+  NewsletterInterest,
+  NewsletterSegment,
+  NewsletterSignup,
+  NewsletterSource,
+  createNewsletterSegment,
+  updateNewsletterSegment,
+} from '@/lib/firestore';
+import {
+  NEWSLETTER_INTERESTS,
+  NEWSLETTER_SOURCES,
+  interestLabels,
+  sourceLabels,
+  parseTags,
+  matchesSegment,
+  getSignupStatus,
+} from '@/lib/utils/newsletterUtils';
+import { useAuth } from '@/contexts/AuthContext';
+import { logCreate, logUpdate } from '@/lib/firebase/logActivity';
+
+interface SegmentDialogProps {
+  segment: NewsletterSegment | null; // null for a new segment
+  signups: NewsletterSignup[];
+  onClose: () => void;
+}
+
+const toggle = <T,>(values: T[], value: T, checked: boolean) =>
+  checked ? [...values, value] : values.filter(item => item !== value);
+
+export default function SegmentDialog({ segment, signups, onClose }: SegmentDialogProps) {
+  const { user } = useAuth();
+  const [name, setName] = useState(segment?.name || '');
+  const [description, setDescription] = useState(segment?.description || '');
+  const [interests, setInterests] = useState<NewsletterInterest[]>(segment?.interests || []);
+  const [sources, setSources] = useState<NewsletterSource[]>(segment?.sources || []);
+  const [tags, setTags] = useState((segment?.tags || []).join(', '));
+  const [isSaving, setIsSaving] = useState(false);
+
+  const criteria = { interests, sources, tags: parseTags(tags) };
+  const matchCount = signups.filter(signup =>
+    getSignupStatus(signup) === 'confirmed' && matchesSegment(signup, criteria)
+  ).length;
+
+  const handleSave = async () => {
+    if (!user) return;
+    if (!name.trim()) {
+      toast.error('Give the segment a name');
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const data = { name: name.trim(), description: description.trim() || null, ...criteria };
+      if (segment?.id) {
+        await updateNewsletterSegment(segment.id, data, user.uid);
+        await logUpdate('newsletterSegments', data.name, user.uid);
+      } else {
+        await createNewsletterSegment(data, user.uid);
+        await logCreate('newsletterSegments', data.name, user.uid);
+      }
+      toast.success('Segment saved');
+      onClose();
+    } catch (error) {
+      console.error('Failed to save segment:', error);
+      toast.error('Failed to save segment');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{segment ? 'Edit Segment' : 'New Segment'}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="segmentName">Name</Label>
+            <Input id="segmentName" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Youth parents" />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="segmentDescription">Description</Label>
+            <Textarea
+              id="segmentDescription"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={2}
+              placeholder="Optional"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Interested In Any Of</Label>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+              {NEWSLETTER_INTERESTS.map((interest) => (
+                <div key={interest} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`segment-interest-${interest}`}
+                    checked={interests.includes(interest)}
+                    onCheckedChange={(checked) => setInterests(toggle(interests, interest, checked === true))}
+                  />
+                  <Label htmlFor={`segment-interest-${interest}`} className="font-normal">
+                    {interestLabels[interest]}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Signed Up Via</Label>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+              {NEWSLETTER_SOURCES.map((source) => (
+                <div key={source} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`segment-source-${source}`}
+                    checked={sources.includes(source)}
+                    onCheckedChange={(checked) => setSources(toggle(sources, source, checked === true))}
+                  />
+                  <Label htmlFor={`segment-source-${source}`} className="font-normal">
+                    {sourceLabels[source]}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="segmentTags">Tagged With Any Of</Label>
+            <Input
+              id="segmentTags"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              placeholder="e.g. volunteers, choir"
+            />
+          </div>
+
+          <p className="text-sm text-gray-600">
+            Leave a section empty to include everyone. Matches <span className="font-medium">{matchCount}</span> confirmed subscriber(s).
+          </p>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={onClose} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving || !name.trim()}>
+              {isSaving ? 'Saving...' : 'Save Segment'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
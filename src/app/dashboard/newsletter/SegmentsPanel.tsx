@@ -0,0 +1,106 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Plus, Pencil, Trash2, Filter } from 'lucide-react';
+import { toast } from 'sonner';
+import { NewsletterSegment, NewsletterSignup, newsletterSegmentsRepository } from '@/lib/firestore';
+import { describeSegment, getSignupStatus, matchesSegment } from '@/lib/utils/newsletterUtils';
+import { useAuth } from '@/contexts/AuthContext';
+import { logDelete } from '@/lib/firebase/logActivity';
+import SegmentDialog from './SegmentDialog';
+
+interface SegmentsPanelProps {
+  segments: NewsletterSegment[];
+  signups: NewsletterSignup[];
+  canWrite: boolean;
+}
+
+export default function SegmentsPanel({ segments, signups, canWrite }: SegmentsPanelProps) {
+  const { user } = useAuth();
+  const [editingSegment, setEditingSegment] = useState<NewsletterSegment | null | undefined>(undefined);
+
+  const confirmed = signups.filter(signup => getSignupStatus(signup) === 'confirmed');
+
+  // Campaigns keep their own copy of the segment, so deleting it does not change them
+  const handleDelete = async (segment: NewsletterSegment) => {
+    if (!segment.id) return;
+    if (!confirm(`Delete the segment "${segment.name}"? Campaigns already using it are not affected.`)) return;
+    try {
+      await newsletterSegmentsRepository.remove(segment.id);
+      await logDelete('newsletterSegments', segment.name, user?.uid);
+      toast.success('Segment deleted');
+    } catch (error) {
+      console.error('Failed to delete segment:', error);
+      toast.error('Failed to delete segment');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Segments</CardTitle>
+          {canWrite && (
+            <Button onClick={() => setEditingSegment(null)}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Segment
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {segments.length === 0 ? (
+          <div className="text-center py-8">
+            <Filter className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No segments yet</h3>
+            <p className="text-gray-500">Group subscribers by interest, signup source or tag to send campaigns to just them.</p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Matches</TableHead>
+                <TableHead>Subscribers</TableHead>
+                {canWrite && <TableHead>Actions</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {segments.map((segment) => (
+                <TableRow key={segment.id}>
+                  <TableCell>
+                    <div className="font-medium text-gray-900">{segment.name}</div>
+                    {segment.description && <div className="text-xs text-gray-500">{segment.description}</div>}
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-600">{describeSegment(segment)}</TableCell>
+                  <TableCell className="text-sm text-gray-600">
+                    {confirmed.filter(signup => matchesSegment(signup, segment)).length}
+                  </TableCell>
+                  {canWrite && (
+                    <TableCell>
+                      <div className="flex items-center space-x-2">
+                        <Button variant="ghost" size="sm" onClick={() => setEditingSegment(segment)} title="Edit">
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => handleDelete(segment)} title="Delete">
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      {editingSegment !== undefined && (
+        <SegmentDialog segment={editingSegment} signups={signups} onClose={() => setEditingSegment(undefined)} />
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,104 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { NewsletterInterest, NewsletterSignup, updateNewsletterSignup } from '@/lib/firestore';
+import { NEWSLETTER_INTERESTS, interestLabels, parseTags, sourceLabels } from '@/lib/utils/newsletterUtils';
+import { useAuth } from '@/contexts/AuthContext';
+import { logUpdate } from '@/lib/firebase/logActivity';
+
+interface SubscriberProfileDialogProps {
+  signup: NewsletterSignup;
+  onClose: () => void;
+}
+
+export default function SubscriberProfileDialog({ signup, onClose }: SubscriberProfileDialogProps) {
+  const { user } = useAuth();
+  const [name, setName] = useState(signup.name || '');
+  const [interests, setInterests] = useState<NewsletterInterest[]>(signup.interests || []);
+  const [tags, setTags] = useState((signup.tags || []).join(', '));
+  const [isSaving, setIsSaving] = useState(false);
+
+  const toggleInterest = (interest: NewsletterInterest, checked: boolean) => {
+    setInterests(checked ? [...interests, interest] : interests.filter(item => item !== interest));
+  };
+
+  const handleSave = async () => {
+    if (!signup.id) return;
+    setIsSaving(true);
+    try {
+      await updateNewsletterSignup(signup.id, { name: name.trim() || null, interests, tags: parseTags(tags) });
+      await logUpdate('newsletterSignups', signup.email, user?.uid);
+      toast.success('Subscriber updated');
+      onClose();
+    } catch (error) {
+      console.error('Failed to update subscriber:', error);
+      toast.error('Failed to update subscriber');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{signup.email}</DialogTitle>
+          {signup.source && (
+            <p className="text-sm text-gray-500">Signed up via {sourceLabels[signup.source].toLowerCase()}</p>
+          )}
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="subscriberName">Name</Label>
+            <Input id="subscriberName" value={name} onChange={(e) => setName(e.target.value)} placeholder="Optional" />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Interests</Label>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+              {NEWSLETTER_INTERESTS.map((interest) => (
+                <div key={interest} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`interest-${interest}`}
+                    checked={interests.includes(interest)}
+                    onCheckedChange={(checked) => toggleInterest(interest, checked === true)}
+                  />
+                  <Label htmlFor={`interest-${interest}`} className="font-normal">
+                    {interestLabels[interest]}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="subscriberTags">Tags</Label>
+            <Input
+              id="subscriberTags"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              placeholder="e.g. volunteers, choir"
+            />
+            <p className="text-xs text-gray-500">Separate tags with commas.</p>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={onClose} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? 'Saving...' : 'Save'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
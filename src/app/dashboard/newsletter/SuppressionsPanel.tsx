@@ -0,0 +1,143 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Ban, Plus, Undo2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import {
+  NewsletterSuppression,
+  subscribeToNewsletterSuppressions,
+  suppressNewsletterEmail,
+  removeNewsletterSuppression,
+} from '@/lib/firestore';
+import { isValidNewsletterEmail, suppressionReasonLabels } from '@/lib/utils/newsletterUtils';
+import { useAuth } from '@/contexts/AuthContext';
+import { logCreate, logDelete } from '@/lib/firebase/logActivity';
+
+interface SuppressionsPanelProps {
+  canWrite: boolean;
+}
+
+export default function SuppressionsPanel({ canWrite }: SuppressionsPanelProps) {
+  const { user } = useAuth();
+  const [suppressions, setSuppressions] = useState<NewsletterSuppression[]>([]);
+  const [email, setEmail] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+    const unsubscribe = subscribeToNewsletterSuppressions(setSuppressions);
+    return () => unsubscribe();
+  }, [user]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+    if (!isValidNewsletterEmail(email)) {
+      toast.error('Enter a valid email address');
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await suppressNewsletterEmail(email, user.uid);
+      await logCreate('newsletterSuppressions', email.trim(), user.uid);
+      toast.success(`${email.trim()} will no longer receive the newsletter`);
+      setEmail('');
+    } catch (error) {
+      console.error('Failed to suppress address:', error);
+      toast.error('Failed to add address');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async (suppression: NewsletterSuppression) => {
+    if (!suppression.id) return;
+    if (!confirm(`Allow ${suppression.email} to sign up again? They will not be resubscribed automatically.`)) return;
+    try {
+      await removeNewsletterSuppression(suppression.id);
+      await logDelete('newsletterSuppressions', suppression.email, user?.uid);
+      toast.success('Address removed from the suppression list');
+    } catch (error) {
+      console.error('Failed to remove suppression:', error);
+      toast.error('Failed to remove address');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Suppression List</CardTitle>
+        <p className="text-sm text-gray-500">
+          Addresses that unsubscribed, bounced or were blocked. They are skipped by every campaign and cannot sign up again.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {canWrite && (
+          <form onSubmit={handleAdd} className="flex gap-2">
+            <Input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="address@example.com"
+              className="max-w-sm"
+            />
+            <Button type="submit" variant="outline" disabled={isSaving || !email.trim()}>
+              <Plus className="h-4 w-4 mr-2" />
+              Block Address
+            </Button>
+          </form>
+        )}
+
+        {suppressions.length === 0 ? (
+          <div className="text-center py-8">
+            <Ban className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No suppressed addresses</h3>
+            <p className="text-gray-500">Unsubscribes and bounced addresses will appear here.</p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Email</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Date</TableHead>
+                {canWrite && <TableHead>Actions</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {suppressions.map((suppression) => (
+                <TableRow key={suppression.id}>
+                  <TableCell>
+                    <div className="font-medium text-gray-900">{suppression.email}</div>
+                    {suppression.detail && <div className="text-xs text-gray-500">{suppression.detail}</div>}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={suppression.reason === 'bounced' ? 'destructive' : 'secondary'}>
+                      {suppressionReasonLabels[suppression.reason]}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-600">
+                    {suppression.createdAt ? format(suppression.createdAt.toDate(), 'MMM d, yyyy') : '—'}
+                  </TableCell>
+                  {canWrite && (
+                    <TableCell>
+                      <Button variant="ghost" size="sm" onClick={() => handleRemove(suppression)} title="Allow to sign up again">
+                        <Undo2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
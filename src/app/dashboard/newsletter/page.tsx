@@ -8,17 +8,45 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
-import { Mail, Trash2, Download, Eye } from 'lucide-react';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Mail, Trash2, Download, Upload, Eye, MailCheck, Clock, Send, Ban, Pencil } from 'lucide-react';
 import { toast } from 'sonner';
-import { NewsletterSignup, getNewsletterSignups, deleteNewsletterSignup, subscribeToNewsletterSignups } from '@/lib/firestore';
+import {
+  NewsletterSignup,
+  NewsletterSegment,
+  getNewsletterSignups,
+  deleteNewsletterSignup,
+  subscribeToNewsletterSignups,
+  suppressNewsletterEmail,
+  subscribeToNewsletterSegments,
+} from '@/lib/firestore';
 import { Timestamp } from 'firebase/firestore';
+import {
+  getSignupStatus,
+  signupStatusLabels,
+  signupStatusBadgeClass,
+  resendConfirmation,
+  interestLabels,
+  sourceLabels,
+} from '@/lib/utils/newsletterUtils';
+import { logUpdate } from '@/lib/firebase/logActivity';
+import CampaignsPanel from './CampaignsPanel';
+import SuppressionsPanel from './SuppressionsPanel';
+import SegmentsPanel from './SegmentsPanel';
+import SubscriberProfileDialog from './SubscriberProfileDialog';
+import NewsletterImportDialog from './NewsletterImportDialog';
+import ExportModal from '@/components/ui/ExportModal';
 
 export default function NewsletterPage() {
-  const { loading } = useProtectedRoute();
+  const { loading, canWrite } = useProtectedRoute('newsletter');
   const { user } = useAuth();
   const [signups, setSignups] = useState<NewsletterSignup[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [lastViewedTimestamp, setLastViewedTimestamp] = useState<number>(0);
+  const [segments, setSegments] = useState<NewsletterSegment[]>([]);
+  const [editingSignup, setEditingSignup] = useState<NewsletterSignup | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
 
   useEffect(() => {
     // Only set up listeners if user is authenticated
@@ -64,6 +92,12 @@ export default function NewsletterPage() {
     return () => unsubscribe();
   }, [user, lastViewedTimestamp]);
 
+  useEffect(() => {
+    if (!user) return;
+    const unsubscribe = subscribeToNewsletterSegments(setSegments);
+    return () => unsubscribe();
+  }, [user]);
+
   const handleDelete = async (id: string) => {
     if (confirm('Are you sure you want to delete this signup?')) {
       try {
@@ -76,6 +110,27 @@ export default function NewsletterPage() {
     }
   };
 
+  const handleResendConfirmation = async (signup: NewsletterSignup) => {
+    try {
+      await resendConfirmation(signup.email);
+      toast.success(`Confirmation email requested for ${signup.email}`);
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to send confirmation email');
+    }
+  };
+
+  const handleSuppress = async (signup: NewsletterSignup) => {
+    if (!user) return;
+    if (!confirm(`Unsubscribe ${signup.email} and block the address from signing up again?`)) return;
+    try {
+      await suppressNewsletterEmail(signup.email, user.uid);
+      await logUpdate('newsletterSignups', signup.email, user.uid, { action: 'suppress' });
+      toast.success(`${signup.email} unsubscribed`);
+    } catch {
+      toast.error('Failed to unsubscribe address');
+    }
+  };
+
   const handleMarkAsViewed = () => {
     const now = Date.now();
     setLastViewedTimestamp(now);
@@ -83,25 +138,6 @@ export default function NewsletterPage() {
     toast.success('Marked as viewed');
   };
 
-  const handleExportCSV = () => {
-    const csvContent = [
-      'Email,Signup Date',
-      ...signups.map(signup => 
-        `${signup.email},${signup.createdAt ? new Date(signup.createdAt.toMillis()).toLocaleDateString() : 'N/A'}`
-      )
-    ].join('\n');
-
-    const blob = new Blob([csvContent], { type: 'text/csv' });
-    const url = window.URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `newsletter-signups-${new Date().toISOString().split('T')[0]}.csv`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    window.URL.revokeObjectURL(url);
-  };
-
   const formatDate = (timestamp: Timestamp | null | undefined) => {
     if (!timestamp) return 'N/A';
     return new Date(timestamp.toMillis()).toLocaleDateString('en-US', {
@@ -113,6 +149,9 @@ export default function NewsletterPage() {
     });
   };
 
+  const confirmedCount = signups.filter(signup => getSignupStatus(signup) === 'confirmed').length;
+  const pendingCount = signups.filter(signup => getSignupStatus(signup) === 'pending').length;
+
   const getNewSignupsCount = () => {
     return signups.filter(signup => 
       signup.createdAt && signup.createdAt.toMillis() > lastViewedTimestamp
@@ -135,23 +174,29 @@ export default function NewsletterPage() {
         {/* Header */}
         <div className="flex items-center justify-between">
           <div>
-            <h1 className="text-3xl font-bold text-gray-900">Newsletter Signups</h1>
-            <p className="text-gray-600 mt-2">Manage newsletter subscriptions</p>
+            <h1 className="text-3xl font-bold text-gray-900">Newsletter</h1>
+            <p className="text-gray-600 mt-2">Manage newsletter subscriptions and send campaigns</p>
           </div>
           <div className="flex space-x-2">
             <Button variant="outline" onClick={handleMarkAsViewed}>
               <Eye className="h-4 w-4 mr-2" />
               Mark as Viewed
             </Button>
-            <Button variant="outline" onClick={handleExportCSV}>
+            {canWrite && (
+              <Button variant="outline" onClick={() => setIsImportOpen(true)}>
+                <Upload className="h-4 w-4 mr-2" />
+                Import CSV
+              </Button>
+            )}
+            <Button variant="outline" onClick={() => setIsExportOpen(true)} disabled={signups.length === 0}>
               <Download className="h-4 w-4 mr-2" />
-              Export CSV
+              Export
             </Button>
           </div>
         </div>
 
         {/* Stats */}
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
           <Card>
             <CardContent className="p-6">
               <div className="flex items-center space-x-3">
@@ -180,73 +225,192 @@ export default function NewsletterPage() {
               </div>
             </CardContent>
           </Card>
+          <Card>
+            <CardContent className="p-6">
+              <div className="flex items-center space-x-3">
+                <div className="p-2 bg-emerald-100 rounded-lg">
+                  <MailCheck className="h-6 w-6 text-emerald-600" />
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-gray-600">Confirmed</p>
+                  <p className="text-2xl font-bold text-gray-900">{confirmedCount}</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-6">
+              <div className="flex items-center space-x-3">
+                <div className="p-2 bg-yellow-100 rounded-lg">
+                  <Clock className="h-6 w-6 text-yellow-600" />
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-gray-600">Awaiting Confirmation</p>
+                  <p className="text-2xl font-bold text-gray-900">{pendingCount}</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
         </div>
 
-        {/* Signups Table */}
-        <Card>
-          <CardHeader>
-            <CardTitle>All Signups</CardTitle>
-          </CardHeader>
-          <CardContent>
-            {signups.length === 0 ? (
-              <div className="text-center py-8">
-                <Mail className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-                <h3 className="text-lg font-medium text-gray-900 mb-2">No signups yet</h3>
-                <p className="text-gray-500">Newsletter signups will appear here when people subscribe.</p>
-              </div>
-            ) : (
-              <Table>
-                <TableHeader>
-                  <TableRow>
-                    <TableHead>Email</TableHead>
-                    <TableHead>Signup Date</TableHead>
-                    <TableHead>Status</TableHead>
-                    <TableHead>Actions</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {signups.map((signup) => {
-                    const isNew = signup.createdAt && signup.createdAt.toMillis() > lastViewedTimestamp;
-                    return (
-                      <TableRow key={signup.id}>
-                        <TableCell>
-                          <div className="flex items-center space-x-2">
-                            <span className="font-medium text-gray-900">{signup.email}</span>
-                            {isNew && (
-                              <Badge variant="default" className="text-xs">
-                                New
-                              </Badge>
-                            )}
-                          </div>
-                        </TableCell>
-                        <TableCell>
-                          <span className="text-sm text-gray-600">
-                            {formatDate(signup.createdAt)}
-                          </span>
-                        </TableCell>
-                        <TableCell>
-                          <Badge variant={isNew ? "default" : "secondary"}>
-                            {isNew ? 'New' : 'Viewed'}
-                          </Badge>
-                        </TableCell>
-                        <TableCell>
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => handleDelete(signup.id!)}
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
-                        </TableCell>
+        <Tabs defaultValue="subscribers">
+          <TabsList>
+            <TabsTrigger value="subscribers">Subscribers</TabsTrigger>
+            <TabsTrigger value="segments">Segments</TabsTrigger>
+            <TabsTrigger value="campaigns">Campaigns</TabsTrigger>
+            <TabsTrigger value="suppressed">Suppressed</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="subscribers">
+            {/* Signups Table */}
+            <Card>
+              <CardHeader>
+                <CardTitle>All Signups</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {signups.length === 0 ? (
+                  <div className="text-center py-8">
+                    <Mail className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                    <h3 className="text-lg font-medium text-gray-900 mb-2">No signups yet</h3>
+                    <p className="text-gray-500">Newsletter signups will appear here when people subscribe.</p>
+                  </div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Email</TableHead>
+                        <TableHead>Profile</TableHead>
+                        <TableHead>Signup Date</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Actions</TableHead>
                       </TableRow>
-                    );
-                  })}
-                </TableBody>
-              </Table>
-            )}
-          </CardContent>
-        </Card>
+                    </TableHeader>
+                    <TableBody>
+                      {signups.map((signup) => {
+                        const isNew = signup.createdAt && signup.createdAt.toMillis() > lastViewedTimestamp;
+                        const status = getSignupStatus(signup);
+                        return (
+                          <TableRow key={signup.id}>
+                            <TableCell>
+                              <div className="flex items-center space-x-2">
+                                <span className="font-medium text-gray-900">{signup.email}</span>
+                                {isNew && (
+                                  <Badge variant="default" className="text-xs">
+                                    New
+                                  </Badge>
+                                )}
+                              </div>
+                              {signup.name && <div className="text-sm text-gray-600">{signup.name}</div>}
+                            </TableCell>
+                            <TableCell>
+                              <div className="flex flex-wrap gap-1">
+                                {(signup.interests || []).map((interest) => (
+                                  <Badge key={interest} variant="secondary" className="text-xs">
+                                    {interestLabels[interest]}
+                                  </Badge>
+                                ))}
+                                {(signup.tags || []).map((tag) => (
+                                  <Badge key={tag} variant="outline" className="text-xs">
+                                    {tag}
+                                  </Badge>
+                                ))}
+                              </div>
+                              {signup.source && (
+                                <div className="text-xs text-gray-500 mt-1">{sourceLabels[signup.source]}</div>
+                              )}
+                            </TableCell>
+                            <TableCell>
+                              <span className="text-sm text-gray-600">
+                                {formatDate(signup.createdAt)}
+                              </span>
+                            </TableCell>
+                            <TableCell>
+                              <Badge variant="outline" className={signupStatusBadgeClass[status]}>
+                                {signupStatusLabels[status]}
+                              </Badge>
+                            </TableCell>
+                            <TableCell>
+                              <div className="flex items-center space-x-2">
+                                {canWrite && (
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => setEditingSignup(signup)}
+                                    title="Edit profile"
+                                  >
+                                    <Pencil className="h-4 w-4" />
+                                  </Button>
+                                )}
+                                {canWrite && status === 'pending' && (
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => handleResendConfirmation(signup)}
+                                    title="Resend confirmation email"
+                                  >
+                                    <Send className="h-4 w-4" />
+                                  </Button>
+                                )}
+                                {canWrite && status !== 'unsubscribed' && (
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => handleSuppress(signup)}
+                                    title="Unsubscribe and block"
+                                  >
+                                    <Ban className="h-4 w-4" />
+                                  </Button>
+                                )}
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => handleDelete(signup.id!)}
+                                  title="Delete signup"
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="segments">
+            <SegmentsPanel segments={segments} signups={signups} canWrite={canWrite} />
+          </TabsContent>
+
+          <TabsContent value="campaigns">
+            <CampaignsPanel signups={signups} segments={segments} canWrite={canWrite} />
+          </TabsContent>
+
+          <TabsContent value="suppressed">
+            <SuppressionsPanel canWrite={canWrite} />
+          </TabsContent>
+        </Tabs>
       </div>
+
+      {editingSignup && (
+        <SubscriberProfileDialog signup={editingSignup} onClose={() => setEditingSignup(null)} />
+      )}
+
+      {isImportOpen && (
+        <NewsletterImportDialog signups={signups} onClose={() => setIsImportOpen(false)} />
+      )}
+
+      {isExportOpen && (
+        <ExportModal
+          isOpen={isExportOpen}
+          onClose={() => setIsExportOpen(false)}
+          dataset="newsletter"
+          items={signups}
+        />
+      )}
     </DashboardLayout>
   );
 }
@@ -0,0 +1,348 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useProtectedRoute } from '@/hooks/useProtectedRoute';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Send, Clock, CheckCircle, AlertTriangle, Eye, RotateCcw, Trash2, Search } from 'lucide-react';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import {
+  MailQueueItem,
+  MailQueueStatus,
+  subscribeToMailQueue,
+  retryMailQueueItem,
+  mailQueueRepository,
+} from '@/lib/firestore';
+import { mailTemplateLabels } from '@/lib/mail/templates';
+import { MAIL_QUEUE_STATUSES, mailStatusLabels, mailStatusBadgeClass, runMailQueue } from '@/lib/utils/mailQueueUtils';
+import { logDelete, logUpdate } from '@/lib/firebase/logActivity';
+
+// While the outbox is open it sends due emails, including scheduled retries
+const QUEUE_POLL_INTERVAL_MS = 60 * 1000;
+
+type StatusFilter = 'all' | MailQueueStatus;
+
+export default function OutboxPage() {
+  const { user, loading, canWrite } = useProtectedRoute('mail');
+  const [items, setItems] = useState<MailQueueItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRunning, setIsRunning] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [previewItem, setPreviewItem] = useState<MailQueueItem | null>(null);
+
+  useEffect(() => {
+    if (!user || loading) return;
+
+    const unsubscribe = subscribeToMailQueue((data) => {
+      setItems(data);
+      setIsLoading(false);
+    });
+
+    return () => unsubscribe();
+  }, [user, loading]);
+
+  useEffect(() => {
+    if (!user || loading || !canWrite) return;
+
+    const sendDueEmails = () => {
+      runMailQueue(user).catch((error) => console.error('Failed to process mail queue:', error));
+    };
+    sendDueEmails();
+    const interval = setInterval(sendDueEmails, QUEUE_POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [user, loading, canWrite]);
+
+  const handleRunQueue = async () => {
+    if (!user) return;
+    setIsRunning(true);
+    try {
+      const result = await runMailQueue(user);
+      const total = result.sent + result.retrying + result.failed;
+      if (total === 0) {
+        toast.success('No emails are due');
+      } else {
+        toast.success(`Sent ${result.sent} of ${total} due email(s)`);
+      }
+    } catch (error) {
+      console.error('Failed to process mail queue:', error);
+      toast.error((error as Error).message || 'Failed to send queued emails');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleRetry = async (item: MailQueueItem) => {
+    if (!user || !item.id) return;
+    try {
+      await retryMailQueueItem(item.id);
+      await logUpdate('mailQueue', item.subject || item.to, user.uid, { action: 'retry' });
+      const result = await runMailQueue(user, [item.id]);
+      if (result.sent > 0) {
+        toast.success(`Email sent to ${item.to}`);
+      } else {
+        toast.warning('The email could not be sent. It will be retried automatically.');
+      }
+    } catch (error) {
+      console.error('Failed to retry email:', error);
+      toast.error('Failed to retry email');
+    }
+  };
+
+  const handleDelete = async (item: MailQueueItem) => {
+    if (!item.id) return;
+    if (!confirm(`Delete the email to ${item.to} from the outbox?`)) return;
+    try {
+      await mailQueueRepository.remove(item.id);
+      await logDelete('mailQueue', item.subject || item.to, user?.uid);
+      toast.success('Email deleted');
+    } catch (error) {
+      console.error('Failed to delete email:', error);
+      toast.error('Failed to delete email');
+    }
+  };
+
+  const filteredItems = items.filter(item => {
+    if (statusFilter !== 'all' && item.status !== statusFilter) return false;
+    if (searchTerm) {
+      const term = searchTerm.toLowerCase();
+      return item.to.toLowerCase().includes(term) || (item.subject || '').toLowerCase().includes(term);
+    }
+    return true;
+  });
+
+  const queuedCount = items.filter(item => item.status === 'queued' || item.status === 'sending').length;
+  const sentCount = items.filter(item => item.status === 'sent').length;
+  const failedCount = items.filter(item => item.status === 'failed').length;
+
+  if (loading || isLoading) {
+    return (
+      <DashboardLayout>
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Outbox</h1>
+            <p className="text-gray-600 mt-2">Emails queued and sent by the dashboard</p>
+          </div>
+          <Button onClick={handleRunQueue} disabled={isRunning || !canWrite}>
+            <Send className="h-4 w-4 mr-2" />
+            {isRunning ? 'Sending...' : 'Send Due Emails'}
+          </Button>
+        </div>
+
+        {/* Stats */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <Card>
+            <CardContent className="p-6">
+              <div className="flex items-center space-x-3">
+                <div className="p-2 bg-blue-100 rounded-lg">
+                  <Clock className="h-6 w-6 text-blue-600" />
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-gray-600">Waiting</p>
+                  <p className="text-2xl font-bold text-gray-900">{queuedCount}</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-6">
+              <div className="flex items-center space-x-3">
+                <div className="p-2 bg-green-100 rounded-lg">
+                  <CheckCircle className="h-6 w-6 text-green-600" />
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-gray-600">Sent</p>
+                  <p className="text-2xl font-bold text-gray-900">{sentCount}</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-6">
+              <div className="flex items-center space-x-3">
+                <div className="p-2 bg-red-100 rounded-lg">
+                  <AlertTriangle className="h-6 w-6 text-red-600" />
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-gray-600">Failed</p>
+                  <p className="text-2xl font-bold text-gray-900">{failedCount}</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Emails Table */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Emails ({filteredItems.length})</CardTitle>
+            <div className="grid gap-4 md:grid-cols-2 pt-2">
+              <div className="space-y-2">
+                <Label htmlFor="search">Search</Label>
+                <div className="relative">
+                  <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    id="search"
+                    placeholder="Recipient or subject..."
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                    className="pl-8"
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="status">Status</Label>
+                <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as StatusFilter)}>
+                  <SelectTrigger id="status">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Emails</SelectItem>
+                    {MAIL_QUEUE_STATUSES.map((status) => (
+                      <SelectItem key={status} value={status}>
+                        {mailStatusLabels[status]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {filteredItems.length === 0 ? (
+              <div className="text-center py-8">
+                <Send className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                <h3 className="text-lg font-medium text-gray-900 mb-2">No emails found</h3>
+                <p className="text-gray-500">Emails sent from the dashboard, such as invitations, appear here.</p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>To</TableHead>
+                    <TableHead>Subject</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Attempts</TableHead>
+                    <TableHead>Queued</TableHead>
+                    <TableHead>Sent</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredItems.map((item) => (
+                    <TableRow key={item.id}>
+                      <TableCell className="font-medium text-gray-900">{item.to}</TableCell>
+                      <TableCell>
+                        <div>{item.subject || mailTemplateLabels[item.template] || item.template}</div>
+                        {item.lastError && (
+                          <div className="text-xs text-red-500 max-w-xs truncate" title={item.lastError}>
+                            {item.lastError}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={mailStatusBadgeClass[item.status]}>
+                          {mailStatusLabels[item.status]}
+                        </Badge>
+                        {item.status === 'queued' && item.attempts > 0 && (
+                          <div className="text-xs text-gray-500 mt-1">
+                            Retry at {format(item.nextAttemptAt.toDate(), 'h:mm a')}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-600">
+                        {item.attempts} / {item.maxAttempts}
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-600">
+                        {item.createdAt ? format(item.createdAt.toDate(), 'MMM d, h:mm a') : '—'}
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-600">
+                        {item.sentAt ? format(item.sentAt.toDate(), 'MMM d, h:mm a') : '—'}
+                        {item.transport && <div className="text-xs text-gray-400">via {item.transport}</div>}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center space-x-2">
+                          {item.html && (
+                            <Button variant="ghost" size="sm" onClick={() => setPreviewItem(item)} title="Preview">
+                              <Eye className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {canWrite && item.status !== 'sent' && item.status !== 'queued' && (
+                            <Button variant="ghost" size="sm" onClick={() => handleRetry(item)} title="Retry">
+                              <RotateCcw className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {canWrite && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleDelete(item)}
+                              className="text-red-600 hover:text-red-700"
+                              title="Delete"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {previewItem && (
+        <Dialog open onOpenChange={() => setPreviewItem(null)}>
+          <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{previewItem.subject}</DialogTitle>
+            </DialogHeader>
+            <p className="text-sm text-gray-600">To: {previewItem.to}</p>
+            <Tabs defaultValue="html">
+              <TabsList>
+                <TabsTrigger value="html">HTML</TabsTrigger>
+                <TabsTrigger value="text">Plain Text</TabsTrigger>
+              </TabsList>
+              <TabsContent value="html">
+                {/* Sandboxed so the rendered email cannot run scripts in the dashboard */}
+                <iframe
+                  title="Email preview"
+                  sandbox=""
+                  srcDoc={previewItem.html || ''}
+                  className="w-full h-[60vh] rounded border"
+                />
+              </TabsContent>
+              <TabsContent value="text">
+                <pre className="whitespace-pre-wrap rounded bg-gray-50 p-3 text-sm">{previewItem.text}</pre>
+              </TabsContent>
+            </Tabs>
+          </DialogContent>
+        </Dialog>
+      )}
+    </DashboardLayout>
+  );
+}
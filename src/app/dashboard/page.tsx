@@ -1,5 +1,6 @@
 'use client';
 
+import { useState } from 'react';
 import { useProtectedRoute } from '@/hooks/useProtectedRoute';
 import DashboardLayout from '@/components/layout/DashboardLayout';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -21,17 +22,39 @@ import {
   CheckCircle,
   Plus,
   Edit,
-  Trash2
+  Trash2,
+  Download
 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import ExportModal from '@/components/ui/ExportModal';
 import Link from 'next/link';
 import { useCollectionCounts } from '@/hooks/useCollectionCount';
-import { useRecentActivity } from '@/hooks/useRecentActivity';
+import { ActivityItem, getActivityLog, useRecentActivity } from '@/hooks/useRecentActivity';
 import { getRelativeTime } from '@/lib/utils/timeUtils';
+import { canRead } from '@/lib/auth/roles';
+
+const ACTIVITY_EXPORT_LIMIT = 1000;
 
 export default function DashboardPage() {
-  const { user, loading } = useProtectedRoute();
+  const { user, role, loading } = useProtectedRoute();
   const { counts, loading: countsLoading, error: countsError } = useCollectionCounts();
   const { activities, loading: activitiesLoading, error: activitiesError } = useRecentActivity(10);
+  const [activityExport, setActivityExport] = useState<ActivityItem[] | null>(null);
+  const [isLoadingActivityExport, setIsLoadingActivityExport] = useState(false);
+
+  // Exports go beyond the ten entries shown here
+  const handleExportActivity = async () => {
+    setIsLoadingActivityExport(true);
+    try {
+      setActivityExport(await getActivityLog(ACTIVITY_EXPORT_LIMIT));
+    } catch (error) {
+      console.error('Failed to load activity log:', error);
+      toast.error('Failed to load activity log');
+    } finally {
+      setIsLoadingActivityExport(false);
+    }
+  };
 
   if (loading) {
     return (
@@ -50,6 +73,7 @@ export default function DashboardPage() {
       description: 'Homepage slides',
       icon: Sliders,
       href: '/dashboard/carousel',
+      resource: 'carousel' as const,
       color: 'bg-blue-500',
       textColor: 'text-blue-500',
     },
@@ -59,6 +83,7 @@ export default function DashboardPage() {
       description: 'Pastors and leaders',
       icon: Users,
       href: '/dashboard/leaders',
+      resource: 'leaders' as const,
       color: 'bg-green-500',
       textColor: 'text-green-500',
     },
@@ -68,6 +93,7 @@ export default function DashboardPage() {
       description: 'Upcoming events',
       icon: Calendar,
       href: '/dashboard/events',
+      resource: 'events' as const,
       color: 'bg-purple-500',
       textColor: 'text-purple-500',
     },
@@ -77,6 +103,7 @@ export default function DashboardPage() {
       description: 'Community photos',
       icon: Image,
       href: '/dashboard/gallery',
+      resource: 'gallery' as const,
       color: 'bg-orange-500',
       textColor: 'text-orange-500',
     },
@@ -86,6 +113,7 @@ export default function DashboardPage() {
       description: 'Member stories',
       icon: MessageSquare,
       href: '/dashboard/testimonies',
+      resource: 'testimonies' as const,
       color: 'bg-indigo-500',
       textColor: 'text-indigo-500',
     },
@@ -95,6 +123,7 @@ export default function DashboardPage() {
       description: 'Prayer needs',
       icon: Heart,
       href: '/dashboard/prayer-requests',
+      resource: 'prayerRequests' as const,
       color: 'bg-red-500',
       textColor: 'text-red-500',
     },
@@ -104,6 +133,7 @@ export default function DashboardPage() {
       description: 'Subscribers',
       icon: Mail,
       href: '/dashboard/newsletter',
+      resource: 'newsletter' as const,
       color: 'bg-teal-500',
       textColor: 'text-teal-500',
     },
@@ -114,6 +144,7 @@ export default function DashboardPage() {
       title: 'Manage Carousel',
       description: 'Update homepage slides',
       href: '/dashboard/carousel',
+      resource: 'carousel' as const,
       icon: Sliders,
       color: 'bg-blue-100 text-blue-600',
     },
@@ -121,6 +152,7 @@ export default function DashboardPage() {
       title: 'Manage Leaders',
       description: 'Update church leadership',
       href: '/dashboard/leaders',
+      resource: 'leaders' as const,
       icon: Users,
       color: 'bg-green-100 text-green-600',
     },
@@ -128,6 +160,7 @@ export default function DashboardPage() {
       title: 'Manage Events',
       description: 'Schedule and update events',
       href: '/dashboard/events',
+      resource: 'events' as const,
       icon: Calendar,
       color: 'bg-purple-100 text-purple-600',
     },
@@ -135,6 +168,7 @@ export default function DashboardPage() {
       title: 'Manage Gallery',
       description: 'Upload and organize photos',
       href: '/dashboard/gallery',
+      resource: 'gallery' as const,
       icon: Image,
       color: 'bg-orange-100 text-orange-600',
     },
@@ -142,6 +176,7 @@ export default function DashboardPage() {
       title: 'View Testimonies',
       description: 'Read member stories',
       href: '/dashboard/testimonies',
+      resource: 'testimonies' as const,
       icon: MessageSquare,
       color: 'bg-indigo-100 text-indigo-600',
     },
@@ -149,6 +184,7 @@ export default function DashboardPage() {
       title: 'Prayer Requests',
       description: 'Review prayer needs',
       href: '/dashboard/prayer-requests',
+      resource: 'prayerRequests' as const,
       icon: Heart,
       color: 'bg-red-100 text-red-600',
     },
@@ -240,7 +276,7 @@ export default function DashboardPage() {
           </div>
           
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-            {stats.map((stat) => {
+            {stats.filter(stat => canRead(role, stat.resource)).map((stat) => {
               const Icon = stat.icon;
               return (
                 <Link key={stat.title} href={stat.href}>
@@ -278,7 +314,7 @@ export default function DashboardPage() {
           </div>
           
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {quickActions.map((action) => {
+            {quickActions.filter(action => canRead(role, action.resource)).map((action) => {
               const Icon = action.icon;
               return (
                 <Link key={action.title} href={action.href}>
@@ -306,9 +342,15 @@ export default function DashboardPage() {
 
         {/* Recent Activity */}
         <div>
-          <div className="flex items-center space-x-2 mb-6">
-            <Clock className="h-6 w-6 text-gray-600" />
-            <h2 className="text-2xl font-bold text-gray-900">Recent Activity</h2>
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center space-x-2">
+              <Clock className="h-6 w-6 text-gray-600" />
+              <h2 className="text-2xl font-bold text-gray-900">Recent Activity</h2>
+            </div>
+            <Button variant="outline" size="sm" onClick={handleExportActivity} disabled={isLoadingActivityExport}>
+              <Download className="h-4 w-4 mr-2" />
+              {isLoadingActivityExport ? 'Loading...' : 'Export Log'}
+            </Button>
           </div>
           
           <Card className="border-0 bg-white shadow-sm">
@@ -414,6 +456,15 @@ export default function DashboardPage() {
           </Card>
         </div>
       </div>
+
+      {activityExport && (
+        <ExportModal
+          isOpen
+          onClose={() => setActivityExport(null)}
+          dataset="activityLog"
+          items={activityExport}
+        />
+      )}
     </DashboardLayout>
   );
 } 
\ No newline at end of file
@@ -0,0 +1,75 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { startOfMonth, subMonths } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { TrendingUp } from 'lucide-react';
+import { PrayerRequest, subscribeToAnsweredPrayerRequests } from '@/lib/firestore';
+import { getAnsweredCountsByMonth } from '@/lib/utils/prayerCareUtils';
+
+const RANGE_OPTIONS = [6, 12, 24];
+
+// Listens only to requests answered within the chosen range, not the whole collection
+export default function AnsweredPrayersReport() {
+  const [months, setMonths] = useState(12);
+  const [prayerRequests, setPrayerRequests] = useState<PrayerRequest[]>([]);
+
+  useEffect(() => {
+    const since = subMonths(startOfMonth(new Date()), months - 1);
+    return subscribeToAnsweredPrayerRequests(since, setPrayerRequests);
+  }, [months]);
+
+  const answeredMonths = getAnsweredCountsByMonth(prayerRequests, months);
+  const totalInRange = answeredMonths.reduce((sum, month) => sum + month.count, 0);
+  const maxCount = Math.max(1, ...answeredMonths.map(month => month.count));
+  const testimoniesDrafted = prayerRequests.filter(request => request.answeredAt && request.testimonyId).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <TrendingUp className="h-5 w-5" />
+            Answered Prayers
+          </CardTitle>
+          <Select value={String(months)} onValueChange={(value) => setMonths(Number(value))}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RANGE_OPTIONS.map((option) => (
+                <SelectItem key={option} value={String(option)}>
+                  Last {option} months
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {totalInRange} answered in the last {months} months · {testimoniesDrafted} turned into testimonies
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div className="flex h-40 items-end gap-1">
+          {answeredMonths.map((month) => (
+            <div key={month.month} className="flex flex-1 flex-col items-center gap-1" title={`${month.label}: ${month.count}`}>
+              <span className="text-xs text-muted-foreground">{month.count > 0 ? month.count : ''}</span>
+              <div
+                className="w-full rounded-t bg-green-500"
+                style={{ height: `${(month.count / maxCount) * 100}px` }}
+              />
+            </div>
+          ))}
+        </div>
+        <div className="mt-2 flex gap-1">
+          {answeredMonths.map((month) => (
+            <span key={month.month} className="flex-1 text-center text-[10px] text-muted-foreground">
+              {month.label.slice(0, 3)}
+            </span>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,370 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Trash2, StickyNote, MessageSquare, ExternalLink } from 'lucide-react';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import Link from 'next/link';
+import {
+  PrayerRequest,
+  PrayerRequestNote,
+  PrayerRequestStatus,
+  User,
+  updatePrayerRequestCare,
+  addPrayerRequestNote,
+  deletePrayerRequestNote,
+  createTestimonyDraftFromPrayerRequest,
+} from '@/lib/firestore';
+import {
+  PRAYER_REQUEST_STATUSES,
+  prayerStatusLabels,
+  prayerStatusBadgeClass,
+  getPrayerRequestStatus,
+  getPrayerRequestTitle,
+} from '@/lib/utils/prayerCareUtils';
+import { useAuth } from '@/contexts/AuthContext';
+import { logCreate, logUpdate } from '@/lib/firebase/logActivity';
+
+const UNASSIGNED = 'unassigned';
+
+interface PrayerCareDialogProps {
+  prayerRequest: PrayerRequest | null;
+  teamMembers: User[];
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export default function PrayerCareDialog({
+  prayerRequest,
+  teamMembers,
+  isOpen,
+  onClose,
+}: PrayerCareDialogProps) {
+  const { user } = useAuth();
+  // The parent keys the dialog by request id, so the form starts from the request when another
+  // one is opened and live note updates don't discard edits
+  const [status, setStatus] = useState<PrayerRequestStatus>(() =>
+    prayerRequest ? getPrayerRequestStatus(prayerRequest) : 'new'
+  );
+  const [assignedTo, setAssignedTo] = useState(prayerRequest?.assignedTo || UNASSIGNED);
+  const [followUpDate, setFollowUpDate] = useState(prayerRequest?.followUpDate || '');
+  const [outcome, setOutcome] = useState(prayerRequest?.outcome || '');
+  const [testimonyConsent, setTestimonyConsent] = useState(prayerRequest?.testimonyConsent ?? false);
+  const [noteText, setNoteText] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [isAddingNote, setIsAddingNote] = useState(false);
+  const [isDrafting, setIsDrafting] = useState(false);
+
+  if (!prayerRequest) return null;
+
+  const title = getPrayerRequestTitle(prayerRequest);
+  const currentStatus = getPrayerRequestStatus(prayerRequest);
+  const currentAssignee = prayerRequest.assignedTo || UNASSIGNED;
+  const notes = [...(prayerRequest.notes || [])].sort((a, b) => b.createdAt.toMillis() - a.createdAt.toMillis());
+
+  const getMemberName = (member: User) => `${member.firstName} ${member.lastName}`.trim() || member.email;
+
+  // A previously assigned member may have lost the role; keep them selectable so the value still renders
+  const assigneeOptions = teamMembers.map(member => ({ id: member.id!, name: getMemberName(member) }));
+  if (prayerRequest.assignedTo && !assigneeOptions.some(option => option.id === prayerRequest.assignedTo)) {
+    assigneeOptions.push({ id: prayerRequest.assignedTo, name: prayerRequest.assignedToName || 'Former team member' });
+  }
+
+  const hasChanges = status !== currentStatus ||
+    assignedTo !== currentAssignee ||
+    followUpDate !== (prayerRequest.followUpDate || '') ||
+    outcome.trim() !== (prayerRequest.outcome || '') ||
+    testimonyConsent !== (prayerRequest.testimonyConsent ?? false);
+
+  const handleSave = async () => {
+    if (!user || !prayerRequest.id) return;
+
+    if (status === 'answered' && !outcome.trim()) {
+      toast.error('Describe how the prayer was answered');
+      return;
+    }
+
+    const changes: Parameters<typeof updatePrayerRequestCare>[1] = {};
+    let nextStatus = status;
+
+    if (assignedTo !== currentAssignee) {
+      const assignee = assigneeOptions.find(option => option.id === assignedTo);
+      changes.assignedTo = assignee ? assignee.id : null;
+      changes.assignedToName = assignee ? assignee.name : null;
+
+      // Assigning a new request moves it along; unassigning sends it back to the queue
+      if (status === currentStatus) {
+        if (assignee && currentStatus === 'new') nextStatus = 'assigned';
+        if (!assignee && currentStatus === 'assigned') nextStatus = 'new';
+      }
+    }
+    if (nextStatus !== currentStatus) changes.status = nextStatus;
+    if (followUpDate !== (prayerRequest.followUpDate || '')) changes.followUpDate = followUpDate || null;
+    if (outcome.trim() !== (prayerRequest.outcome || '')) changes.outcome = outcome.trim() || null;
+    if (testimonyConsent !== (prayerRequest.testimonyConsent ?? false)) changes.testimonyConsent = testimonyConsent;
+
+    setIsSaving(true);
+    try {
+      await updatePrayerRequestCare(prayerRequest.id, changes, user.uid);
+      await logUpdate('prayerRequests', title, user.uid, {
+        action: 'care_update',
+        ...(changes.status ? { fromStatus: currentStatus, toStatus: changes.status } : {}),
+        ...(changes.assignedTo !== undefined ? { assignedTo: changes.assignedToName || 'Unassigned' } : {}),
+        ...(changes.followUpDate !== undefined ? { followUpDate: changes.followUpDate || 'None' } : {}),
+        ...(changes.outcome !== undefined ? { outcomeUpdated: true } : {}),
+        ...(changes.testimonyConsent !== undefined ? { testimonyConsent: changes.testimonyConsent } : {}),
+      });
+      toast.success('Prayer care updated');
+      setStatus(nextStatus);
+    } catch (error) {
+      console.error('Failed to update prayer care:', error);
+      toast.error('Failed to update prayer care');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDraftTestimony = async () => {
+    if (!user) return;
+
+    setIsDrafting(true);
+    try {
+      await createTestimonyDraftFromPrayerRequest(prayerRequest);
+      await logCreate('testimonies', title, user.uid, {
+        action: 'draft_from_prayer_request',
+        prayerRequestId: prayerRequest.id,
+      });
+      toast.success('Draft testimony created');
+    } catch (error) {
+      console.error('Failed to draft testimony:', error);
+      toast.error('Failed to draft testimony');
+    } finally {
+      setIsDrafting(false);
+    }
+  };
+
+  const handleAddNote = async () => {
+    if (!user || !prayerRequest.id || !noteText.trim()) return;
+
+    const author = teamMembers.find(member => member.id === user.uid);
+    setIsAddingNote(true);
+    try {
+      await addPrayerRequestNote(prayerRequest.id, noteText.trim(), {
+        id: user.uid,
+        name: author ? getMemberName(author) : user.displayName || user.email || 'Unknown',
+      });
+      // The note text stays private to the request; the activity log only records that one was added
+      await logUpdate('prayerRequests', title, user.uid, { action: 'add_note' });
+      setNoteText('');
+    } catch (error) {
+      console.error('Failed to add note:', error);
+      toast.error('Failed to add note');
+    } finally {
+      setIsAddingNote(false);
+    }
+  };
+
+  const handleDeleteNote = async (note: PrayerRequestNote) => {
+    if (!user || !prayerRequest.id) return;
+    if (!confirm('Delete this note?')) return;
+
+    try {
+      await deletePrayerRequestNote(prayerRequest.id, note);
+      await logUpdate('prayerRequests', title, user.uid, { action: 'delete_note' });
+    } catch (error) {
+      console.error('Failed to delete note:', error);
+      toast.error('Failed to delete note');
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            Prayer Care
+            <Badge variant="outline" className={prayerStatusBadgeClass[currentStatus]}>
+              {prayerStatusLabels[currentStatus]}
+            </Badge>
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {/* Request */}
+          <div className="p-3 bg-gray-50 rounded text-sm space-y-1">
+            <p className="font-medium">
+              {prayerRequest.isAnonymous ? 'Anonymous' : prayerRequest.name || 'Unknown'}
+              {prayerRequest.createdAt && (
+                <span className="font-normal text-muted-foreground">
+                  {' '}· {format(prayerRequest.createdAt.toDate(), 'MMM d, yyyy')}
+                </span>
+              )}
+            </p>
+            <p className="whitespace-pre-wrap">{prayerRequest.request}</p>
+          </div>
+
+          {/* Status, Assignment and Follow-up */}
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="status">Status</Label>
+              <Select value={status} onValueChange={(value) => setStatus(value as PrayerRequestStatus)}>
+                <SelectTrigger id="status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PRAYER_REQUEST_STATUSES.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {prayerStatusLabels[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="assignedTo">Assigned To</Label>
+              <Select value={assignedTo} onValueChange={setAssignedTo}>
+                <SelectTrigger id="assignedTo">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                  {assigneeOptions.map((option) => (
+                    <SelectItem key={option.id} value={option.id}>
+                      {option.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="followUpDate">Follow-up Due</Label>
+              <Input
+                id="followUpDate"
+                type="date"
+                value={followUpDate}
+                onChange={(e) => setFollowUpDate(e.target.value)}
+              />
+            </div>
+          </div>
+
+          {/* Answered */}
+          {status === 'answered' && (
+            <div className="space-y-3 rounded-md border border-green-200 bg-green-50 p-3">
+              <div className="space-y-2">
+                <Label htmlFor="outcome">How was the prayer answered? *</Label>
+                <Textarea
+                  id="outcome"
+                  value={outcome}
+                  onChange={(e) => setOutcome(e.target.value)}
+                  placeholder="e.g. The surgery went well and she is back home with her family"
+                  rows={3}
+                  className="bg-white"
+                />
+              </div>
+              <div className="flex items-start space-x-2">
+                <Checkbox
+                  id="testimonyConsent"
+                  checked={testimonyConsent}
+                  onCheckedChange={(checked) => setTestimonyConsent(checked === true)}
+                  disabled={Boolean(prayerRequest.testimonyId)}
+                />
+                <div>
+                  <Label htmlFor="testimonyConsent" className="text-sm font-medium">
+                    The submitter agreed to share this as a testimony
+                  </Label>
+                  {prayerRequest.testimonyConsent && !prayerRequest.testimonyConsentRecordedBy && (
+                    <p className="text-xs text-muted-foreground">Given on the prayer request form.</p>
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            {prayerRequest.testimonyId ? (
+              <Button variant="outline" asChild>
+                <Link href={`/dashboard/testimonies?testimony=${prayerRequest.testimonyId}`}>
+                  <ExternalLink className="h-4 w-4 mr-2" />
+                  View Testimony
+                </Link>
+              </Button>
+            ) : currentStatus === 'answered' && prayerRequest.testimonyConsent && (
+              <Button
+                variant="outline"
+                onClick={handleDraftTestimony}
+                disabled={isDrafting || hasChanges}
+                title={hasChanges ? 'Save your changes first' : undefined}
+              >
+                <MessageSquare className="h-4 w-4 mr-2" />
+                {isDrafting ? 'Drafting...' : 'Draft Testimony'}
+              </Button>
+            )}
+            <Button onClick={handleSave} disabled={isSaving || !hasChanges}>
+              {isSaving ? 'Saving...' : 'Save Changes'}
+            </Button>
+          </div>
+
+          {/* Internal Notes */}
+          <div className="space-y-3 border-t pt-4">
+            <div>
+              <Label htmlFor="note">Internal Notes</Label>
+              <p className="text-sm text-muted-foreground">Only visible to the prayer team.</p>
+            </div>
+            <Textarea
+              id="note"
+              value={noteText}
+              onChange={(e) => setNoteText(e.target.value)}
+              placeholder="e.g. Called on Tuesday, will check in again after the surgery"
+              rows={3}
+            />
+            <div className="flex justify-end">
+              <Button variant="outline" onClick={handleAddNote} disabled={isAddingNote || !noteText.trim()}>
+                <StickyNote className="h-4 w-4 mr-2" />
+                {isAddingNote ? 'Adding...' : 'Add Note'}
+              </Button>
+            </div>
+
+            {notes.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No notes yet.</p>
+            ) : (
+              <div className="space-y-2">
+                {notes.map((note) => (
+                  <div key={note.id} className="rounded-md border p-3 text-sm">
+                    <div className="flex items-center justify-between">
+                      <p className="font-medium">
+                        {note.authorName}
+                        <span className="font-normal text-muted-foreground">
+                          {' '}· {format(note.createdAt.toDate(), 'MMM d, yyyy h:mm a')}
+                        </span>
+                      </p>
+                      {note.authorId === user?.uid && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDeleteNote(note)}
+                          className="h-7 w-7 p-0 text-red-600 hover:text-red-700"
+                          title="Delete note"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                    <p className="mt-1 whitespace-pre-wrap">{note.text}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
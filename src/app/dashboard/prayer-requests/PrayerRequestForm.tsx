@@ -9,7 +9,7 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { Switch } from '@/components/ui/switch';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { toast } from 'sonner';
-import { PrayerRequest, updateDocument, prayerRequestsCollection } from '@/lib/firestore';
+import { PrayerRequest, prayerRequestsRepository } from '@/lib/firestore';
 import { useAuth } from '@/contexts/AuthContext';
 
 interface PrayerRequestFormProps {
@@ -75,7 +75,7 @@ export default function PrayerRequestForm({
         updateData.email = null;
       }
 
-      await updateDocument(prayerRequestsCollection, prayerRequest.id, updateData);
+      await prayerRequestsRepository.update(prayerRequest.id, updateData);
       
       toast.success('Prayer request updated successfully');
       onSuccess();
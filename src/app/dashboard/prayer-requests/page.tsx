@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { useProtectedRoute } from '@/hooks/useProtectedRoute';
+import { useInboxWindow } from '@/hooks/useInboxWindow';
 import DashboardLayout from '@/components/layout/DashboardLayout';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -22,35 +23,61 @@ import {
   User,
   Users,
   Edit,
-  Heart
+  Heart,
+  HeartHandshake,
+  CalendarClock
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { format } from 'date-fns';
+import Link from 'next/link';
 import { 
   PrayerRequest, 
+  PrayerRequestStatus,
+  User as TeamMember,
   getPrayerRequestsWithFilters, 
-  deleteDocument, 
-  prayerRequestsCollection,
+  getPrayerRequestCounts,
+  getPrayerTeamMembers,
+  getChurchTimezone,
+  prayerRequestsRepository,
   markPrayerRequestAsRead,
   markMultiplePrayerRequestsAsRead,
   subscribeToPrayerRequests,
-  getUnreadPrayerRequestsCount
+  subscribeToDueFollowUps
 } from '@/lib/firestore';
 import { logDelete, logUpdate } from '@/lib/firebase/logActivity';
 import { useAuth } from '@/contexts/AuthContext';
 import ExportModal from '@/components/ui/ExportModal';
 import ExportHistory from '@/components/ui/ExportHistory';
+import {
+  PRAYER_REQUEST_STATUSES,
+  prayerStatusLabels,
+  prayerStatusBadgeClass,
+  getPrayerRequestStatus,
+  isPrayerRequestOpen,
+  getFollowUpState,
+} from '@/lib/utils/prayerCareUtils';
+import { DEFAULT_TIMEZONE, getTodayInTimezone, formatCalendarDate } from '@/lib/utils/timezoneUtils';
 import PrayerRequestForm from './PrayerRequestForm';
+import PrayerCareDialog from './PrayerCareDialog';
+import AnsweredPrayersReport from './AnsweredPrayersReport';
 
 type FilterType = 'all' | 'anonymous' | 'non-anonymous' | 'unread' | 'read';
+type CareFilter = 'all' | 'open' | 'mine' | 'follow-up-due' | PrayerRequestStatus;
+
+const followUpBadgeClass = {
+  overdue: 'border-red-300 text-red-700 bg-red-50',
+  due: 'border-orange-300 text-orange-700 bg-orange-50',
+  upcoming: 'border-gray-300 text-gray-600',
+};
 
 export default function PrayerRequestsPage() {
-  const { loading } = useProtectedRoute();
+  const { loading } = useProtectedRoute('prayerRequests');
   const { user } = useAuth();
   
-  const [prayerRequests, setPrayerRequests] = useState<PrayerRequest[]>([]);
   const [filteredPrayerRequests, setFilteredPrayerRequests] = useState<PrayerRequest[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
+  const [counts, setCounts] = useState({ total: 0, unread: 0, anonymous: 0, awaitingCare: 0 });
+  const [dueFollowUps, setDueFollowUps] = useState<PrayerRequest[]>([]);
+  const [linkedRequest, setLinkedRequest] = useState<PrayerRequest | null>(null);
   const [showExportModal, setShowExportModal] = useState(false);
   const [selectedRequests, setSelectedRequests] = useState<Set<string>>(new Set());
   const [searchTerm, setSearchTerm] = useState('');
@@ -60,43 +87,82 @@ export default function PrayerRequestsPage() {
   const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set());
   const [editingRequest, setEditingRequest] = useState<PrayerRequest | null>(null);
   const [showEditForm, setShowEditForm] = useState(false);
+  const [careFilter, setCareFilter] = useState<CareFilter>('all');
+  const [careRequestId, setCareRequestId] = useState<string | null>(null);
+  const [teamMembers, setTeamMembers] = useState<TeamMember[]>([]);
+  const [timezone, setTimezone] = useState(DEFAULT_TIMEZONE);
+
+  // Type and date filters run on the server; search and care status filter the loaded pages
+  const serverFilters = { filterType, dateFrom, dateTo, timezone };
+  const {
+    items: prayerRequests,
+    isLoading,
+    hasMore,
+    isLoadingMore,
+    loadMore,
+  } = useInboxWindow<PrayerRequest>({
+    enabled: Boolean(user),
+    filtersKey: JSON.stringify(serverFilters),
+    loadPage: (after) => getPrayerRequestsWithFilters(serverFilters, { after }),
+    subscribe: (until, callback) => subscribeToPrayerRequests(callback, serverFilters, { until }),
+    onError: (error) => {
+      console.error('Failed to fetch prayer requests:', error);
+      toast.error('Failed to fetch prayer requests');
+    },
+  });
 
   useEffect(() => {
-    // Only set up listeners if user is authenticated
-    if (!user) {
-      setPrayerRequests([]);
-      setFilteredPrayerRequests([]);
-      setIsLoading(false);
-      return;
-    }
+    if (!user) return;
 
-    const fetchData = async () => {
+    // Deleted requests can be restored for a while; clear out the ones past that
+    prayerRequestsRepository.purgeDeleted()
+      .catch(error => console.warn('Failed to purge deleted prayer requests:', error));
+  }, [user]);
+
+  // The loaded pages change whenever a request is added, edited or removed, so the totals follow them
+  useEffect(() => {
+    if (!user) return;
+
+    getPrayerRequestCounts()
+      .then(setCounts)
+      .catch(error => console.error('Failed to count prayer requests:', error));
+  }, [user, prayerRequests]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchCareSettings = async () => {
       try {
-        const data = await getPrayerRequestsWithFilters();
-        setPrayerRequests(data);
-        setFilteredPrayerRequests(data);
-        
-        // Get unread count
-        await getUnreadPrayerRequestsCount();
+        const [members, churchTimezone] = await Promise.all([getPrayerTeamMembers(), getChurchTimezone()]);
+        setTeamMembers(members);
+        setTimezone(churchTimezone);
       } catch (error) {
-        console.error('Failed to fetch prayer requests:', error);
-        toast.error('Failed to fetch prayer requests');
-      } finally {
-        setIsLoading(false);
+        console.error('Failed to fetch prayer team:', error);
       }
     };
 
-    fetchData();
-
-    // Set up real-time listener
-    const unsubscribe = subscribeToPrayerRequests((data) => {
-      setPrayerRequests(data);
-      setFilteredPrayerRequests(data);
-    });
+    fetchCareSettings();
+  }, [user]);
 
-    return () => unsubscribe();
+  // Testimonies link here with ?request=<id> to open the request they were drafted from
+  useEffect(() => {
+    const requestId = new URLSearchParams(window.location.search).get('request');
+    if (!user || !requestId) return;
+
+    setCareRequestId(requestId);
+    // The request may be older than the loaded pages
+    prayerRequestsRepository.get(requestId)
+      .then(setLinkedRequest)
+      .catch(error => console.error('Failed to load linked prayer request:', error));
   }, [user]);
 
+  const today = getTodayInTimezone(timezone);
+
+  useEffect(() => {
+    if (!user) return;
+    return subscribeToDueFollowUps(today, setDueFollowUps);
+  }, [user, today]);
+
   useEffect(() => {
     let filtered = prayerRequests;
 
@@ -109,41 +175,28 @@ export default function PrayerRequestsPage() {
       );
     }
 
-    // Apply type filter
-    if (filterType !== 'all') {
-      switch (filterType) {
-        case 'anonymous':
-          filtered = filtered.filter(request => request.isAnonymous);
-          break;
-        case 'non-anonymous':
-          filtered = filtered.filter(request => !request.isAnonymous);
+    // Apply care filter
+    if (careFilter !== 'all') {
+      switch (careFilter) {
+        case 'open':
+          filtered = filtered.filter(isPrayerRequestOpen);
           break;
-        case 'unread':
-          filtered = filtered.filter(request => !request.isRead);
+        case 'mine':
+          filtered = filtered.filter(request => request.assignedTo === user?.uid);
           break;
-        case 'read':
-          filtered = filtered.filter(request => request.isRead);
+        case 'follow-up-due':
+          filtered = filtered.filter(request => {
+            const state = getFollowUpState(request, today);
+            return state === 'overdue' || state === 'due';
+          });
           break;
+        default:
+          filtered = filtered.filter(request => getPrayerRequestStatus(request) === careFilter);
       }
     }
 
-    // Apply date filter
-    if (dateFrom || dateTo) {
-      filtered = filtered.filter(request => {
-        if (!request.createdAt) return false;
-        const requestDate = request.createdAt.toDate();
-        const fromDate = dateFrom ? new Date(dateFrom) : null;
-        const toDate = dateTo ? new Date(dateTo) : null;
-        
-        if (fromDate && requestDate < fromDate) return false;
-        if (toDate && requestDate > toDate) return false;
-        
-        return true;
-      });
-    }
-
     setFilteredPrayerRequests(filtered);
-  }, [prayerRequests, searchTerm, filterType, dateFrom, dateTo]);
+  }, [prayerRequests, searchTerm, careFilter, user, today]);
 
   const handleSelectAll = (checked: boolean) => {
     if (checked) {
@@ -215,12 +268,14 @@ export default function PrayerRequestsPage() {
       const request = prayerRequests.find(r => r.id === requestId);
       const title = request?.name || request?.request?.substring(0, 50) || 'Anonymous Request';
       
-      await deleteDocument(prayerRequestsCollection, requestId);
+      await prayerRequestsRepository.remove(requestId, user?.uid);
       
       // Log the deletion activity
       await logDelete('prayerRequests', title, user?.uid);
       
-      toast.success('Prayer request deleted');
+      toast.success('Prayer request deleted', {
+        action: { label: 'Undo', onClick: () => handleRestore([requestId]) },
+      });
     } catch (error) {
       console.error('Failed to delete:', error);
       toast.error('Failed to delete prayer request');
@@ -233,10 +288,8 @@ export default function PrayerRequestsPage() {
     if (!confirm(`Are you sure you want to delete ${selectedRequests.size} prayer request(s)?`)) return;
     
     try {
-      const promises = Array.from(selectedRequests).map(id => 
-        deleteDocument(prayerRequestsCollection, id)
-      );
-      await Promise.all(promises);
+      const ids = Array.from(selectedRequests);
+      await Promise.all(ids.map(id => prayerRequestsRepository.remove(id, user?.uid)));
       
       // Log the bulk deletion activity
       await logDelete('prayerRequests', `${selectedRequests.size} prayer requests`, user?.uid, {
@@ -244,7 +297,9 @@ export default function PrayerRequestsPage() {
         count: selectedRequests.size
       });
       
-      toast.success(`${selectedRequests.size} prayer request(s) deleted`);
+      toast.success(`${selectedRequests.size} prayer request(s) deleted`, {
+        action: { label: 'Undo', onClick: () => handleRestore(ids) },
+      });
       setSelectedRequests(new Set());
     } catch (error) {
       console.error('Failed to delete multiple:', error);
@@ -252,6 +307,16 @@ export default function PrayerRequestsPage() {
     }
   };
 
+  const handleRestore = async (ids: string[]) => {
+    try {
+      await Promise.all(ids.map(id => prayerRequestsRepository.restore(id)));
+      toast.success(ids.length === 1 ? 'Prayer request restored' : `${ids.length} prayer requests restored`);
+    } catch (error) {
+      console.error('Failed to restore:', error);
+      toast.error('Failed to restore prayer request');
+    }
+  };
+
   const handleEdit = (request: PrayerRequest) => {
     setEditingRequest(request);
     setShowEditForm(true);
@@ -274,15 +339,19 @@ export default function PrayerRequestsPage() {
   };
 
   const getStats = () => {
-    const total = prayerRequests.length;
-    const unread = prayerRequests.filter(r => !r.isRead).length;
-    const anonymous = prayerRequests.filter(r => r.isAnonymous).length;
-    const named = total - anonymous;
+    const named = counts.total - counts.anonymous;
+    const followUpsDue = dueFollowUps.filter(r => {
+      const state = getFollowUpState(r, today);
+      return state === 'overdue' || state === 'due';
+    });
     
-    return { total, unread, anonymous, named };
+    return { ...counts, named, followUpsDue };
   };
 
   const stats = getStats();
+  const careRequest = prayerRequests.find(r => r.id === careRequestId)
+    || dueFollowUps.find(r => r.id === careRequestId)
+    || (linkedRequest?.id === careRequestId ? linkedRequest : null);
 
   if (loading) {
     return (
@@ -337,7 +406,7 @@ export default function PrayerRequestsPage() {
         </div>
 
         {/* Stats Cards */}
-        <div className="grid gap-4 md:grid-cols-4">
+        <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-6">
           <Card>
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
               <CardTitle className="text-sm font-medium">Total Requests</CardTitle>
@@ -374,8 +443,66 @@ export default function PrayerRequestsPage() {
               <div className="text-2xl font-bold text-gray-600">{stats.anonymous}</div>
             </CardContent>
           </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Awaiting Care</CardTitle>
+              <HeartHandshake className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold text-purple-600">{stats.awaitingCare}</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Follow-ups Due</CardTitle>
+              <CalendarClock className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold text-red-600">{stats.followUpsDue.length}</div>
+            </CardContent>
+          </Card>
         </div>
 
+        {/* Follow-ups Due */}
+        {stats.followUpsDue.length > 0 && (
+          <Card className="border-red-200">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-red-700">
+                <CalendarClock className="h-5 w-5" />
+                Follow-ups Due ({stats.followUpsDue.length})
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {[...stats.followUpsDue]
+                .sort((a, b) => a.followUpDate!.localeCompare(b.followUpDate!))
+                .map((request) => (
+                  <div
+                    key={request.id}
+                    className="flex items-center justify-between gap-4 rounded-md border p-3 cursor-pointer hover:bg-gray-50"
+                    onClick={() => setCareRequestId(request.id!)}
+                  >
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{request.request}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {request.isAnonymous ? 'Anonymous' : request.name || 'Unknown'}
+                        {' · '}
+                        {request.assignedToName ? `Assigned to ${request.assignedToName}` : 'Unassigned'}
+                      </p>
+                    </div>
+                    <Badge variant="outline" className={followUpBadgeClass[getFollowUpState(request, today)!]}>
+                      {request.followUpDate === today
+                        ? 'Due today'
+                        : `Overdue since ${formatCalendarDate(request.followUpDate!, { month: 'short', day: 'numeric' })}`}
+                    </Badge>
+                  </div>
+                ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Answered Prayers Report */}
+        <AnsweredPrayersReport />
+
         {/* Filters */}
         <Card>
           <CardHeader>
@@ -385,7 +512,7 @@ export default function PrayerRequestsPage() {
             </CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
-            <div className="grid gap-4 md:grid-cols-4">
+            <div className="grid gap-4 md:grid-cols-5">
               <div className="space-y-2">
                 <Label htmlFor="search">Search</Label>
                 <div className="relative">
@@ -414,6 +541,25 @@ export default function PrayerRequestsPage() {
                   </SelectContent>
                 </Select>
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="careFilter">Care Status</Label>
+                <Select value={careFilter} onValueChange={(value: CareFilter) => setCareFilter(value)}>
+                  <SelectTrigger id="careFilter">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Statuses</SelectItem>
+                    <SelectItem value="open">Open (not answered or archived)</SelectItem>
+                    <SelectItem value="mine">Assigned to Me</SelectItem>
+                    <SelectItem value="follow-up-due">Follow-up Due</SelectItem>
+                    {PRAYER_REQUEST_STATUSES.map((status) => (
+                      <SelectItem key={status} value={status}>
+                        {prayerStatusLabels[status]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
               <div className="space-y-2">
                 <Label htmlFor="dateFrom">From Date</Label>
                 <Input
@@ -439,7 +585,9 @@ export default function PrayerRequestsPage() {
         {/* Prayer Requests Table */}
         <Card>
           <CardHeader>
-            <CardTitle>Prayer Requests ({filteredPrayerRequests.length})</CardTitle>
+            <CardTitle>
+              Prayer Requests ({filteredPrayerRequests.length}{hasMore ? ' loaded' : ''})
+            </CardTitle>
           </CardHeader>
           <CardContent>
             {isLoading ? (
@@ -477,7 +625,9 @@ export default function PrayerRequestsPage() {
                         <TableHead>Email</TableHead>
                         <TableHead>Created</TableHead>
                         <TableHead>Status</TableHead>
-                        <TableHead className="w-32">Actions</TableHead>
+                        <TableHead>Assigned To</TableHead>
+                        <TableHead>Follow-up</TableHead>
+                        <TableHead className="w-40">Actions</TableHead>
                       </TableRow>
                     </TableHeader>
                     <TableBody>
@@ -540,12 +690,52 @@ export default function PrayerRequestsPage() {
                             )}
                           </TableCell>
                           <TableCell>
-                            <Badge variant={request.isRead ? 'default' : 'destructive'}>
-                              {request.isRead ? 'Read' : 'Unread'}
-                            </Badge>
+                            <div className="flex flex-col items-start gap-1">
+                              <Badge variant="outline" className={prayerStatusBadgeClass[getPrayerRequestStatus(request)]}>
+                                {prayerStatusLabels[getPrayerRequestStatus(request)]}
+                              </Badge>
+                              <Badge variant={request.isRead ? 'default' : 'destructive'}>
+                                {request.isRead ? 'Read' : 'Unread'}
+                              </Badge>
+                              {request.testimonyId && (
+                                <Link href={`/dashboard/testimonies?testimony=${request.testimonyId}`}>
+                                  <Badge variant="secondary" className="hover:bg-gray-200">
+                                    Testimony
+                                  </Badge>
+                                </Link>
+                              )}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            {request.assignedToName ? (
+                              <span className="text-sm">{request.assignedToName}</span>
+                            ) : (
+                              <span className="text-sm text-muted-foreground">—</span>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {request.followUpDate ? (
+                              <Badge
+                                variant="outline"
+                                className={followUpBadgeClass[getFollowUpState(request, today) || 'upcoming']}
+                              >
+                                {formatCalendarDate(request.followUpDate, { month: 'short', day: 'numeric', year: 'numeric' })}
+                              </Badge>
+                            ) : (
+                              <span className="text-sm text-muted-foreground">—</span>
+                            )}
                           </TableCell>
                           <TableCell>
                             <div className="flex items-center gap-1">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setCareRequestId(request.id!)}
+                                className="h-8 w-8 p-0"
+                                title="Prayer care"
+                              >
+                                <HeartHandshake className="h-4 w-4" />
+                              </Button>
                               <Button
                                 variant="ghost"
                                 size="sm"
@@ -593,13 +783,20 @@ export default function PrayerRequestsPage() {
                 </div>
               </div>
             )}
+            {!isLoading && hasMore && (
+              <div className="flex justify-center pt-4">
+                <Button variant="outline" onClick={loadMore} disabled={isLoadingMore}>
+                  {isLoadingMore ? 'Loading...' : 'Load older requests'}
+                </Button>
+              </div>
+            )}
           </CardContent>
         </Card>
 
         {/* Export History */}
         <ExportHistory 
-          collection="prayer_requests_exports"
-          prayerRequests={prayerRequests}
+          dataset="prayerRequests"
+          items={prayerRequests}
         />
       </div>
 
@@ -611,7 +808,7 @@ export default function PrayerRequestsPage() {
           ? filteredPrayerRequests.filter(r => selectedRequests.has(r.id!))
           : filteredPrayerRequests
         }
-        exportType="prayer_requests"
+        dataset="prayerRequests"
         onExportSuccess={() => {
           setShowExportModal(false);
           setSelectedRequests(new Set());
@@ -628,6 +825,15 @@ export default function PrayerRequestsPage() {
         }}
         onSuccess={handleEditSuccess}
       />
+
+      {/* Prayer Care - keyed by request so opening another one starts a fresh form */}
+      <PrayerCareDialog
+        key={careRequest?.id ?? 'none'}
+        prayerRequest={careRequest}
+        teamMembers={teamMembers}
+        isOpen={careRequest !== null}
+        onClose={() => setCareRequestId(null)}
+      />
     </DashboardLayout>
   );
 }
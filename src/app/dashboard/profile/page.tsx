@@ -18,10 +18,11 @@ import {
 import { useAuth } from '@/contexts/AuthContext';
 import { Timestamp } from 'firebase/firestore';
 import { logUpdate } from '@/lib/firebase/logActivity';
+import { roleLabels } from '@/lib/auth/roles';
 
 export default function ProfilePage() {
   const { loading, profileComplete } = useProfileRedirect();
-  const { user, changePassword } = useAuth();
+  const { user, role, changePassword } = useAuth();
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [isChangingPassword, setIsChangingPassword] = useState(false);
@@ -32,7 +33,7 @@ export default function ProfilePage() {
     firstName: '',
     lastName: '',
     phone: '',
-    role: '',
+    title: '',
     email: '',
     createdAt: Timestamp.now(),
     updatedAt: Timestamp.now(),
@@ -61,7 +62,7 @@ export default function ProfilePage() {
             firstName: '',
             lastName: '',
             phone: '',
-            role: '',
+            title: '',
             email,
             createdAt: Timestamp.now(),
             updatedAt: Timestamp.now(),
@@ -74,7 +75,7 @@ export default function ProfilePage() {
           firstName: '',
           lastName: '',
           phone: '',
-          role: '',
+          title: '',
           email: user.email || '',
           createdAt: Timestamp.now(),
           updatedAt: Timestamp.now(),
@@ -102,7 +103,7 @@ export default function ProfilePage() {
         firstName: userProfile.firstName.trim(),
         lastName: userProfile.lastName.trim(),
         phone: userProfile.phone?.trim() || '',
-        role: userProfile.role?.trim() || '',
+        title: userProfile.title?.trim() || '',
         email: userProfile.email,
       };
 
@@ -236,15 +237,26 @@ export default function ProfilePage() {
                 <p className="text-xs text-gray-500">UK format recommended</p>
               </div>
               <div className="space-y-2">
-                <Label htmlFor="role">Role (Optional)</Label>
+                <Label htmlFor="title">Title (Optional)</Label>
                 <Input
-                  id="role"
+                  id="title"
                   placeholder="e.g., Administrator, Pastor, Staff"
-                  value={userProfile.role}
-                  onChange={(e) => setUserProfile(prev => ({ ...prev, role: e.target.value }))}
+                  value={userProfile.title}
+                  onChange={(e) => setUserProfile(prev => ({ ...prev, title: e.target.value }))}
                 />
               </div>
             </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="role">Dashboard Role</Label>
+              <Input
+                id="role"
+                value={role ? roleLabels[role] : ''}
+                disabled
+                className="bg-gray-50"
+              />
+              <p className="text-xs text-gray-500">Roles are assigned by a super admin</p>
+            </div>
             
             <div className="space-y-2">
               <Label htmlFor="email">Email</Label>
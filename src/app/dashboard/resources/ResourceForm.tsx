@@ -0,0 +1,183 @@
+'use client';
+
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { toast } from 'sonner';
+import {
+  BookableResource,
+  BookableResourceType,
+  createBookableResource,
+  updateBookableResource,
+} from '@/lib/firestore';
+import { bookableResourceFormSchema, BookableResourceFormData } from '@/lib/firestore/schemas';
+
+export const resourceTypeOptions: { value: BookableResourceType; label: string; capacityLabel?: string }[] = [
+  { value: 'room', label: 'Room', capacityLabel: 'Seats' },
+  { value: 'equipment', label: 'Equipment' },
+  { value: 'vehicle', label: 'Vehicle', capacityLabel: 'Passengers' },
+];
+
+interface ResourceFormProps {
+  resource?: BookableResource | null;
+  existingNames: string[];
+  onSuccess: (resource: BookableResource) => void;
+  onCancel: () => void;
+}
+
+export default function ResourceForm({ resource, existingNames, onSuccess, onCancel }: ResourceFormProps) {
+  const [isLoading, setIsLoading] = useState(false);
+
+  const form = useForm<BookableResourceFormData>({
+    resolver: zodResolver(bookableResourceFormSchema),
+    defaultValues: {
+      name: resource?.name || '',
+      type: resource?.type || 'room',
+      capacity: resource?.capacity ?? undefined,
+      description: resource?.description || '',
+      isActive: resource?.isActive ?? true,
+    },
+  });
+
+  const type = form.watch('type');
+  const capacityLabel = resourceTypeOptions.find(option => option.value === type)?.capacityLabel;
+
+  const onSubmit = async (data: BookableResourceFormData) => {
+    const name = data.name.trim();
+    if (existingNames.some(existing => existing.toLowerCase() === name.toLowerCase())) {
+      form.setError('name', { message: 'A resource with this name already exists' });
+      return;
+    }
+
+    // Firestore rejects undefined values, so a missing capacity is stored as null
+    const resourceData: Omit<BookableResource, 'id' | 'createdAt' | 'updatedAt'> = {
+      name,
+      type: data.type,
+      capacity: capacityLabel && data.capacity !== undefined && !Number.isNaN(data.capacity) ? data.capacity : null,
+      description: data.description?.trim() || '',
+      isActive: data.isActive,
+    };
+
+    setIsLoading(true);
+    try {
+      if (resource?.id) {
+        await updateBookableResource({ ...resource, ...resourceData });
+        onSuccess({ ...resource, ...resourceData });
+      } else {
+        const id = await createBookableResource(resourceData);
+        onSuccess({ id, ...resourceData });
+      }
+    } catch {
+      toast.error('Failed to save resource');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={onCancel}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>
+            {resource ? 'Edit Resource' : 'Add New Resource'}
+          </DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+          {/* Name */}
+          <div className="space-y-2">
+            <Label htmlFor="name">Name</Label>
+            <Input
+              id="name"
+              placeholder="e.g., Main Sanctuary, Projector, Church Van"
+              {...form.register('name')}
+            />
+            {form.formState.errors.name && (
+              <p className="text-sm text-red-500">
+                {form.formState.errors.name.message}
+              </p>
+            )}
+          </div>
+
+          {/* Type and Capacity */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="type">Type</Label>
+              <Select
+                value={type}
+                onValueChange={(value) => form.setValue('type', value as BookableResourceType)}
+              >
+                <SelectTrigger id="type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {resourceTypeOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {capacityLabel && (
+              <div className="space-y-2">
+                <Label htmlFor="capacity">Capacity ({capacityLabel})</Label>
+                <Input
+                  id="capacity"
+                  type="number"
+                  min={0}
+                  {...form.register('capacity', {
+                    setValueAs: (value) => (value === '' || value === null ? undefined : Number(value)),
+                  })}
+                />
+                {form.formState.errors.capacity && (
+                  <p className="text-sm text-red-500">
+                    {form.formState.errors.capacity.message}
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* Description */}
+          <div className="space-y-2">
+            <Label htmlFor="description">Description (Optional)</Label>
+            <Textarea
+              id="description"
+              placeholder="e.g., Ground floor, wheelchair accessible"
+              rows={3}
+              {...form.register('description')}
+            />
+          </div>
+
+          {/* Active Status */}
+          <div className="flex items-center space-x-2">
+            <Switch
+              id="isActive"
+              checked={form.watch('isActive')}
+              onCheckedChange={(checked) => form.setValue('isActive', checked)}
+            />
+            <Label htmlFor="isActive">Available for booking</Label>
+          </div>
+
+          {/* Actions */}
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isLoading}>
+              {isLoading ? 'Saving...' : (resource ? 'Update Resource' : 'Add Resource')}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,248 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useProtectedRoute } from '@/hooks/useProtectedRoute';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Plus, Edit, Trash2, Building2, Projector, Bus } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  BookableResource,
+  BookableResourceType,
+  Event,
+  subscribeToBookableResources,
+  deleteBookableResource,
+  getChurchTimezone,
+  getEventsInRange,
+} from '@/lib/firestore';
+import { getTodayInTimezone, addDaysToDateString } from '@/lib/utils/timezoneUtils';
+import { logCreate, logUpdate, logDelete } from '@/lib/firebase/logActivity';
+import ResourceForm, { resourceTypeOptions } from './ResourceForm';
+
+const UPCOMING_BOOKING_DAYS = 30;
+
+const typeConfig: Record<BookableResourceType, { icon: typeof Building2; color: string }> = {
+  room: { icon: Building2, color: 'bg-blue-100 text-blue-600' },
+  equipment: { icon: Projector, color: 'bg-green-100 text-green-600' },
+  vehicle: { icon: Bus, color: 'bg-orange-100 text-orange-600' },
+};
+
+export default function ResourcesPage() {
+  const { user, loading, canWrite } = useProtectedRoute('events');
+  const [resources, setResources] = useState<BookableResource[]>([]);
+  const [upcomingEvents, setUpcomingEvents] = useState<Event[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingResource, setEditingResource] = useState<BookableResource | null>(null);
+
+  useEffect(() => {
+    if (!user || loading) return;
+
+    const unsubscribe = subscribeToBookableResources((data) => {
+      setResources(data);
+      setIsLoading(false);
+    });
+
+    return () => unsubscribe();
+  }, [user, loading]);
+
+  useEffect(() => {
+    if (!user || loading) return;
+
+    const fetchUpcomingEvents = async () => {
+      try {
+        const timezone = await getChurchTimezone();
+        const today = getTodayInTimezone(timezone);
+        setUpcomingEvents(await getEventsInRange(today, addDaysToDateString(today, UPCOMING_BOOKING_DAYS), { timezone }));
+      } catch (error) {
+        console.error('Error fetching upcoming bookings:', error);
+      }
+    };
+
+    fetchUpcomingEvents();
+  }, [user, loading]);
+
+  const getBookingCount = (resource: BookableResource) => {
+    return upcomingEvents.filter(event =>
+      event.locationId === resource.id || event.resourceIds?.includes(resource.id!)
+    ).length;
+  };
+
+  const handleEdit = (resource: BookableResource) => {
+    setEditingResource(resource);
+    setShowForm(true);
+  };
+
+  const handleDelete = async (resource: BookableResource) => {
+    const bookings = getBookingCount(resource);
+    const message = bookings > 0
+      ? `${resource.name} is booked by ${bookings} upcoming events. Delete it anyway? Those events keep their location name but will no longer be checked for conflicts.`
+      : `Are you sure you want to delete ${resource.name}?`;
+
+    if (confirm(message)) {
+      try {
+        await deleteBookableResource(resource.id!);
+        await logDelete('resources', resource.name, user?.uid);
+        toast.success('Resource deleted successfully');
+      } catch {
+        toast.error('Failed to delete resource');
+      }
+    }
+  };
+
+  const handleFormSuccess = async (resource: BookableResource) => {
+    if (editingResource) {
+      await logUpdate('resources', resource.name, user?.uid);
+    } else {
+      await logCreate('resources', resource.name, user?.uid, { type: resource.type });
+    }
+    toast.success(editingResource ? 'Resource updated successfully' : 'Resource added successfully');
+    setShowForm(false);
+    setEditingResource(null);
+  };
+
+  if (loading || isLoading) {
+    return (
+      <DashboardLayout>
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Rooms & Resources</h1>
+            <p className="text-gray-600 mt-2">Rooms, equipment and vehicles that events can book</p>
+          </div>
+          {canWrite && (
+            <Button onClick={() => setShowForm(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Resource
+            </Button>
+          )}
+        </div>
+
+        {/* Stats */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          {resourceTypeOptions.map((option) => {
+            const { icon: Icon, color } = typeConfig[option.value];
+            return (
+              <Card key={option.value}>
+                <CardContent className="p-6">
+                  <div className="flex items-center space-x-3">
+                    <div className={`p-2 rounded-lg ${color}`}>
+                      <Icon className="h-6 w-6" />
+                    </div>
+                    <div>
+                      <p className="text-sm font-medium text-gray-600">{option.label}s</p>
+                      <p className="text-2xl font-bold text-gray-900">
+                        {resources.filter(resource => resource.type === option.value).length}
+                      </p>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+
+        {/* Resources Table */}
+        <Card>
+          <CardHeader>
+            <CardTitle>All Resources</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {resources.length === 0 ? (
+              <div className="text-center py-8">
+                <Building2 className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                <h3 className="text-lg font-medium text-gray-900 mb-2">No resources yet</h3>
+                <p className="text-gray-500 mb-4">
+                  Add rooms, equipment and vehicles so events can book them and double bookings are caught.
+                </p>
+                {canWrite && (
+                  <Button onClick={() => setShowForm(true)}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Resource
+                  </Button>
+                )}
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Capacity</TableHead>
+                    <TableHead>Upcoming Bookings</TableHead>
+                    <TableHead>Status</TableHead>
+                    {canWrite && <TableHead>Actions</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {resources.map((resource) => (
+                    <TableRow key={resource.id}>
+                      <TableCell>
+                        <p className="font-medium text-gray-900">{resource.name}</p>
+                        {resource.description && (
+                          <p className="text-sm text-gray-500">{resource.description}</p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">
+                          {resourceTypeOptions.find(option => option.value === resource.type)?.label}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-600">{resource.capacity ?? '—'}</TableCell>
+                      <TableCell className="text-sm text-gray-600">
+                        {getBookingCount(resource)} in the next {UPCOMING_BOOKING_DAYS} days
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={resource.isActive ? 'default' : 'secondary'}>
+                          {resource.isActive ? 'Available' : 'Unavailable'}
+                        </Badge>
+                      </TableCell>
+                      {canWrite && (
+                        <TableCell>
+                          <div className="flex items-center space-x-2">
+                            <Button variant="ghost" size="sm" onClick={() => handleEdit(resource)}>
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => handleDelete(resource)}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Form Dialog */}
+      {showForm && (
+        <ResourceForm
+          resource={editingResource}
+          existingNames={resources.filter(r => r.id !== editingResource?.id).map(r => r.name)}
+          onSuccess={handleFormSuccess}
+          onCancel={() => {
+            setShowForm(false);
+            setEditingResource(null);
+          }}
+        />
+      )}
+    </DashboardLayout>
+  );
+}
@@ -8,23 +8,31 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
-import { Save, Globe, Phone, MessageSquare } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ImageUpload } from '@/components/ui/ImageUpload';
+import { Save, Globe, Phone, MessageSquare, Clock, Archive } from 'lucide-react';
 import { toast } from 'sonner';
 import { 
   SiteSettings, 
-  getDocument, 
-  updateDocument, 
-  settingsCollection
+  getSiteSettings, 
+  updateSiteSettings, 
+  recomputeEventInstants,
+  DEFAULT_EXPORT_RETENTION_DAYS,
+  EXPORT_RETENTION_OPTIONS
 } from '@/lib/firestore';
+import { DEFAULT_TIMEZONE, TIMEZONE_OPTIONS } from '@/lib/utils/timezoneUtils';
+import { DEFAULT_CHURCH_NAME } from '@/lib/mail/templates';
 
 export default function SettingsPage() {
-  const { loading } = useProtectedRoute();
+  const { loading, canWrite } = useProtectedRoute('settings');
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
+  const [savedTimezone, setSavedTimezone] = useState<string | undefined>(undefined);
   
   const [settings, setSettings] = useState<SiteSettings>({
     homeHeroText: '',
     contactPhone: '',
+    timezone: DEFAULT_TIMEZONE,
     socialLinks: {
       facebook: '',
       instagram: '',
@@ -37,9 +45,10 @@ export default function SettingsPage() {
     const fetchSettings = async () => {
       try {
         // Try to get existing settings, create default if none exist
-        const existingSettings = await getDocument<SiteSettings>(settingsCollection, 'main');
+        const existingSettings = await getSiteSettings();
         if (existingSettings) {
-          setSettings(existingSettings);
+          setSettings({ ...existingSettings, timezone: existingSettings.timezone || DEFAULT_TIMEZONE });
+          setSavedTimezone(existingSettings.timezone);
         }
       } catch (error) {
         console.error('Error fetching settings:', error);
@@ -57,7 +66,15 @@ export default function SettingsPage() {
   const handleSave = async () => {
     setIsSaving(true);
     try {
-      await updateDocument(settingsCollection, 'main', settings);
+      await updateSiteSettings(settings);
+
+      // Stored event instants were computed in the old timezone
+      if (settings.timezone && settings.timezone !== savedTimezone) {
+        const count = await recomputeEventInstants(settings.timezone);
+        setSavedTimezone(settings.timezone);
+        if (count > 0) toast.success(`Updated ${count} events to ${settings.timezone}`);
+      }
+
       toast.success('Settings saved successfully');
     } catch {
       toast.error('Failed to save settings');
@@ -129,15 +146,120 @@ export default function SettingsPage() {
           </CardHeader>
           <CardContent className="space-y-4">
             <div className="space-y-2">
-              <Label htmlFor="contactPhone">Contact Phone</Label>
+              <Label htmlFor="churchName">Church Name</Label>
+              <Input
+                id="churchName"
+                placeholder={DEFAULT_CHURCH_NAME}
+                value={settings.churchName || ''}
+                onChange={(e) => setSettings(prev => ({ ...prev, churchName: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Church Logo</Label>
+              <ImageUpload
+                onUploadComplete={(url) => setSettings(prev => ({ ...prev, logoUrl: url }))}
+                currentImageUrl={settings.logoUrl}
+                folder="branding"
+              />
+              <p className="text-sm text-gray-500">Printed at the top of PDF and Word exports.</p>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="contactPhone">Contact Phone</Label>
+                <Input
+                  id="contactPhone"
+                  type="tel"
+                  placeholder="+1 (555) 123-4567"
+                  value={settings.contactPhone}
+                  onChange={(e) => setSettings(prev => ({ ...prev, contactPhone: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="contactEmail">Contact Email</Label>
+                <Input
+                  id="contactEmail"
+                  type="email"
+                  placeholder="office@yourchurch.org"
+                  value={settings.contactEmail || ''}
+                  onChange={(e) => setSettings(prev => ({ ...prev, contactEmail: e.target.value }))}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="address">Address</Label>
               <Input
-                id="contactPhone"
-                type="tel"
-                placeholder="+1 (555) 123-4567"
-                value={settings.contactPhone}
-                onChange={(e) => setSettings(prev => ({ ...prev, contactPhone: e.target.value }))}
+                id="address"
+                placeholder="123 Church Street, City"
+                value={settings.address || ''}
+                onChange={(e) => setSettings(prev => ({ ...prev, address: e.target.value }))}
               />
             </div>
+            <p className="text-sm text-gray-500">
+              The church name and contact details appear in the footer of every email the dashboard sends.
+            </p>
+          </CardContent>
+        </Card>
+
+        {/* Timezone */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <Clock className="h-5 w-5" />
+              <span>Church Timezone</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <Label htmlFor="timezone">Timezone</Label>
+            <Select
+              value={settings.timezone || DEFAULT_TIMEZONE}
+              onValueChange={(value) => setSettings(prev => ({ ...prev, timezone: value }))}
+            >
+              <SelectTrigger id="timezone" className="md:w-80">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {[...new Set([settings.timezone || DEFAULT_TIMEZONE, ...TIMEZONE_OPTIONS])].map((timezone) => (
+                  <SelectItem key={timezone} value={timezone}>
+                    {timezone.replace(/_/g, ' ')}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-gray-500">
+              Event dates and times are entered and shown in this timezone, whatever timezone your device is in.
+            </p>
+          </CardContent>
+        </Card>
+
+        {/* Export Retention */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <Archive className="h-5 w-5" />
+              <span>Export Files</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <Label htmlFor="exportRetention">Keep exported files for</Label>
+            <Select
+              value={String(settings.exportRetentionDays || DEFAULT_EXPORT_RETENTION_DAYS)}
+              onValueChange={(value) => setSettings(prev => ({ ...prev, exportRetentionDays: Number(value) }))}
+            >
+              <SelectTrigger id="exportRetention" className="md:w-80">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPORT_RETENTION_OPTIONS.map((days) => (
+                  <SelectItem key={days} value={String(days)}>
+                    {days} days
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-gray-500">
+              A copy of every export can be downloaded again from its Export History for this long, then it is deleted.
+              Changing this applies to new exports.
+            </p>
           </CardContent>
         </Card>
 
@@ -197,7 +319,7 @@ export default function SettingsPage() {
 
         {/* Save Button */}
         <div className="flex justify-end">
-          <Button onClick={handleSave} disabled={isSaving} size="lg">
+          <Button onClick={handleSave} disabled={isSaving || !canWrite} size="lg">
             <Save className="h-4 w-4 mr-2" />
             {isSaving ? 'Saving...' : 'Save All Settings'}
           </Button>
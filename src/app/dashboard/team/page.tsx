@@ -0,0 +1,265 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useProtectedRoute } from '@/hooks/useProtectedRoute';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { UserCog, UserPlus, UserCheck, UserX, ShieldCheck } from 'lucide-react';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import {
+  User,
+  subscribeToUsers,
+  updateUserRole,
+  setUserActive,
+  getUserActivityCount,
+} from '@/lib/firestore';
+import { USER_ROLES, UserRole, roleLabels, normalizeRole } from '@/lib/auth/roles';
+import { logUpdate } from '@/lib/firebase/logActivity';
+
+const getDisplayName = (member: User) =>
+  `${member.firstName || ''} ${member.lastName || ''}`.trim() || member.email;
+
+export default function TeamPage() {
+  const { user, loading } = useProtectedRoute('users');
+  const [members, setMembers] = useState<User[]>([]);
+  const [activityCounts, setActivityCounts] = useState<Record<string, number>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user || loading) return;
+
+    const unsubscribe = subscribeToUsers((data) => {
+      setMembers(data);
+      setIsLoading(false);
+    });
+
+    return () => unsubscribe();
+  }, [user, loading]);
+
+  const memberIds = members.map(m => m.id).join(',');
+
+  useEffect(() => {
+    if (!memberIds) return;
+
+    const fetchActivityCounts = async () => {
+      const ids = memberIds.split(',');
+      const results = await Promise.allSettled(ids.map(id => getUserActivityCount(id)));
+      const counts: Record<string, number> = {};
+      results.forEach((result, index) => {
+        counts[ids[index]] = result.status === 'fulfilled' ? result.value : 0;
+      });
+      setActivityCounts(counts);
+    };
+
+    fetchActivityCounts();
+  }, [memberIds]);
+
+  const handleRoleChange = async (member: User, role: UserRole) => {
+    if (!user || !member.id) return;
+    const previousRole = normalizeRole(member.role);
+    if (previousRole === role) return;
+
+    setUpdatingId(member.id);
+    try {
+      await updateUserRole(member.id, role);
+      await logUpdate('users', getDisplayName(member), user.uid, {
+        action: 'role_change',
+        from: previousRole,
+        to: role,
+      });
+      toast.success(`${getDisplayName(member)} is now ${roleLabels[role]}`);
+    } catch {
+      toast.error('Failed to update role');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleToggleActive = async (member: User) => {
+    if (!user || !member.id) return;
+    const isActive = member.isActive !== false;
+    const name = getDisplayName(member);
+
+    if (isActive && !confirm(`Deactivate ${name}? They will be signed out and lose dashboard access.`)) return;
+
+    setUpdatingId(member.id);
+    try {
+      await setUserActive(member.id, !isActive, user.uid);
+      await logUpdate('users', name, user.uid, { action: isActive ? 'deactivate' : 'reactivate' });
+      toast.success(isActive ? `${name} has been deactivated` : `${name} has been reactivated`);
+    } catch {
+      toast.error('Failed to update account status');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const activeCount = members.filter(m => m.isActive !== false).length;
+  const superAdminCount = members.filter(m => m.isActive !== false && normalizeRole(m.role) === 'super-admin').length;
+
+  if (loading || isLoading) {
+    return (
+      <DashboardLayout>
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Team</h1>
+            <p className="text-gray-600 mt-2">Manage dashboard users, their roles and account access</p>
+          </div>
+          <Button asChild>
+            <Link href="/dashboard/invitations">
+              <UserPlus className="h-4 w-4 mr-2" />
+              Invite User
+            </Link>
+          </Button>
+        </div>
+
+        {/* Stats */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <Card>
+            <CardContent className="p-6">
+              <div className="flex items-center space-x-3">
+                <div className="p-2 bg-blue-100 rounded-lg">
+                  <UserCog className="h-6 w-6 text-blue-600" />
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-gray-600">Total Users</p>
+                  <p className="text-2xl font-bold text-gray-900">{members.length}</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-6">
+              <div className="flex items-center space-x-3">
+                <div className="p-2 bg-green-100 rounded-lg">
+                  <UserCheck className="h-6 w-6 text-green-600" />
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-gray-600">Active</p>
+                  <p className="text-2xl font-bold text-gray-900">{activeCount}</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-6">
+              <div className="flex items-center space-x-3">
+                <div className="p-2 bg-purple-100 rounded-lg">
+                  <ShieldCheck className="h-6 w-6 text-purple-600" />
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-gray-600">Super Admins</p>
+                  <p className="text-2xl font-bold text-gray-900">{superAdminCount}</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Team Table */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Dashboard Users</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Last Sign-in</TableHead>
+                  <TableHead>Activity</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {members.map((member) => {
+                  const isSelf = member.id === user?.uid;
+                  const isActive = member.isActive !== false;
+                  const isUpdating = updatingId === member.id;
+                  return (
+                    <TableRow key={member.id} className={isActive ? '' : 'opacity-60'}>
+                      <TableCell>
+                        <div className="font-medium text-gray-900">
+                          {getDisplayName(member)}
+                          {isSelf && <span className="ml-2 text-xs text-gray-500">(you)</span>}
+                        </div>
+                        <div className="text-sm text-gray-500">{member.email}</div>
+                        {member.title && <div className="text-xs text-gray-400">{member.title}</div>}
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={normalizeRole(member.role)}
+                          onValueChange={(value) => handleRoleChange(member, value as UserRole)}
+                          disabled={isSelf || isUpdating || !isActive}
+                        >
+                          <SelectTrigger className="w-44">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {USER_ROLES.map((role) => (
+                              <SelectItem key={role} value={role}>
+                                {roleLabels[role]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-600">
+                        {member.lastSignInAt
+                          ? format(member.lastSignInAt.toDate(), 'MMM d, yyyy h:mm a')
+                          : 'Never'}
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-600">
+                        {member.id && activityCounts[member.id] !== undefined
+                          ? `${activityCounts[member.id]} actions`
+                          : '—'}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={isActive ? 'secondary' : 'destructive'}>
+                          {isActive ? 'Active' : 'Deactivated'}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        {!isSelf && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleToggleActive(member)}
+                            disabled={isUpdating}
+                            title={isActive ? 'Deactivate account' : 'Reactivate account'}
+                          >
+                            {isActive ? <UserX className="h-4 w-4" /> : <UserCheck className="h-4 w-4" />}
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+}
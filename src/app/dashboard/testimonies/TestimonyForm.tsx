@@ -3,7 +3,6 @@
 import { useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -12,18 +11,10 @@ import { Textarea } from '@/components/ui/textarea';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Upload, X } from 'lucide-react';
 import { toast } from 'sonner';
-import { Testimony, createDocument, updateDocument, testimoniesCollection } from '@/lib/firestore';
+import { Testimony, testimoniesRepository, syncPublicTestimony } from '@/lib/firestore';
+import { testimonyFormSchema, TestimonyFormData } from '@/lib/firestore/schemas';
 import { uploadImage } from '@/lib/storage';
 
-const testimonySchema = z.object({
-  name: z.string().min(1, 'Name is required'),
-  testimony: z.string().min(20, 'Testimony must be at least 20 characters'),
-  isAnonymous: z.boolean(),
-  allowSharing: z.boolean(),
-});
-
-type TestimonyFormData = z.infer<typeof testimonySchema>;
-
 interface TestimonyFormProps {
   testimony?: Testimony | null;
   onSuccess: (testimony: Testimony) => void;
@@ -37,12 +28,13 @@ export default function TestimonyForm({ testimony, onSuccess, onCancel }: Testim
   const [uploadProgress, setUploadProgress] = useState(0);
 
   const form = useForm<TestimonyFormData>({
-    resolver: zodResolver(testimonySchema),
+    resolver: zodResolver(testimonyFormSchema),
     defaultValues: {
       name: testimony?.name || '',
-      testimony: testimony?.testimony || testimony?.story || '',
+      testimony: testimony?.testimony || '',
       isAnonymous: testimony?.isAnonymous ?? false,
       allowSharing: testimony?.allowSharing ?? true,
+      isDraft: testimony?.isDraft ?? false,
     },
   });
 
@@ -88,12 +80,15 @@ export default function TestimonyForm({ testimony, onSuccess, onCancel }: Testim
 
       if (testimony?.id) {
         // Update existing testimony
-        await updateDocument(testimoniesCollection, testimony.id, testimonyData);
+        await testimoniesRepository.update(testimony.id, testimonyData);
+        // The name, photo, anonymity and sharing choice all show on the website
+        await syncPublicTestimony(testimony.id);
         onSuccess({ ...testimony, ...testimonyData });
       } else {
         // Create new testimony
-        const id = await createDocument(testimoniesCollection, testimonyData);
-        onSuccess({ id, ...testimonyData });
+        // The review status filter only finds testimonies that store their status
+        const id = await testimoniesRepository.create({ ...testimonyData, status: 'submitted' });
+        onSuccess({ id, ...testimonyData, status: 'submitted' });
       }
     } catch {
       toast.error('Failed to save testimony');
@@ -215,6 +210,21 @@ export default function TestimonyForm({ testimony, onSuccess, onCancel }: Testim
             </div>
           </div>
 
+          {/* Draft Status */}
+          {testimony?.isDraft && (
+            <div className="flex items-center space-x-2 rounded-md border border-orange-200 bg-orange-50 p-3">
+              <input
+                type="checkbox"
+                id="isDraft"
+                {...form.register('isDraft')}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+              <Label htmlFor="isDraft" className="text-sm font-normal">
+                Still a draft. Untick once the testimony has been written up.
+              </Label>
+            </div>
+          )}
+
           {/* Testimony */}
           <div className="space-y-2">
             <Label htmlFor="testimony">Testimony</Label>
@@ -0,0 +1,201 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle } from 'lucide-react';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { Timestamp } from 'firebase/firestore';
+import { Testimony, TestimonyStatus, updateTestimonyModeration } from '@/lib/firestore';
+import {
+  PUBLIC_EXCERPT_MAX_LENGTH,
+  TESTIMONY_STATUSES,
+  testimonyStatusLabels,
+  testimonyStatusBadgeClass,
+  getTestimonyStatus,
+  getModerationError,
+} from '@/lib/utils/testimonyUtils';
+import { useAuth } from '@/contexts/AuthContext';
+import { logUpdate } from '@/lib/firebase/logActivity';
+
+const toDateTimeInput = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm");
+
+interface TestimonyReviewDialogProps {
+  testimony: Testimony;
+  onClose: () => void;
+}
+
+export default function TestimonyReviewDialog({ testimony, onClose }: TestimonyReviewDialogProps) {
+  const { user } = useAuth();
+  const [status, setStatus] = useState<TestimonyStatus>(getTestimonyStatus(testimony));
+  const [publicExcerpt, setPublicExcerpt] = useState(testimony.publicExcerpt || '');
+  const [publishAt, setPublishAt] = useState(toDateTimeInput(testimony.publishAt?.toDate() || new Date()));
+  const [rejectionReason, setRejectionReason] = useState(testimony.rejectionReason || '');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const originalText = testimony.testimony || '';
+  const currentStatus = getTestimonyStatus(testimony);
+  const title = testimony.name || originalText.substring(0, 50) || 'Untitled';
+  const moderationError = getModerationError(testimony, status, publicExcerpt);
+
+  const handleSave = async () => {
+    if (!user || !testimony.id) return;
+
+    if (moderationError) {
+      toast.error(moderationError);
+      return;
+    }
+    if (status === 'published' && !publishAt) {
+      toast.error('Choose when the testimony should appear');
+      return;
+    }
+    if (status === 'rejected' && !rejectionReason.trim()) {
+      toast.error('Give a reason for rejecting the testimony');
+      return;
+    }
+
+    const changes: Parameters<typeof updateTestimonyModeration>[1] = {
+      publicExcerpt: publicExcerpt.trim() || null,
+      rejectionReason: status === 'rejected' ? rejectionReason.trim() : null,
+    };
+    if (status !== currentStatus) changes.status = status;
+    if (status === 'published') changes.publishAt = Timestamp.fromDate(new Date(publishAt));
+
+    setIsSaving(true);
+    try {
+      await updateTestimonyModeration(testimony.id, changes, user.uid);
+      await logUpdate('testimonies', title, user.uid, {
+        action: 'moderation',
+        ...(changes.status ? { fromStatus: currentStatus, toStatus: changes.status } : {}),
+        ...(changes.publishAt ? { publishAt: changes.publishAt.toDate().toISOString() } : {}),
+      });
+      toast.success('Testimony review saved');
+      onClose();
+    } catch (error) {
+      console.error('Failed to save testimony review:', error);
+      toast.error('Failed to save testimony review');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            Review Testimony
+            <Badge variant="outline" className={testimonyStatusBadgeClass[currentStatus]}>
+              {testimonyStatusLabels[currentStatus]}
+            </Badge>
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {!testimony.allowSharing && (
+            <div className="flex items-start gap-2 rounded-md border border-orange-200 bg-orange-50 p-3 text-sm text-orange-800">
+              <AlertTriangle className="h-4 w-4 mt-0.5" />
+              The member has not allowed this testimony to be shared, so it cannot be published.
+            </div>
+          )}
+
+          {/* Original */}
+          <div className="space-y-2">
+            <Label>Original Testimony ({originalText.length} characters)</Label>
+            <div className="max-h-48 overflow-y-auto rounded bg-gray-50 p-3 text-sm whitespace-pre-wrap">
+              {originalText || 'No testimony text'}
+            </div>
+          </div>
+
+          {/* Public Excerpt */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="publicExcerpt">Public Excerpt</Label>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setPublicExcerpt(originalText.slice(0, PUBLIC_EXCERPT_MAX_LENGTH))}
+              >
+                Start from original
+              </Button>
+            </div>
+            <Textarea
+              id="publicExcerpt"
+              value={publicExcerpt}
+              onChange={(e) => setPublicExcerpt(e.target.value)}
+              placeholder="The edited text that will appear on the website"
+              rows={6}
+            />
+            <p className={`text-xs ${publicExcerpt.length > PUBLIC_EXCERPT_MAX_LENGTH ? 'text-red-500' : 'text-muted-foreground'}`}>
+              {publicExcerpt.length} / {PUBLIC_EXCERPT_MAX_LENGTH} characters. Only this text is published; the original is never shown publicly.
+            </p>
+          </div>
+
+          {/* Status and Publish Date */}
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="status">Status</Label>
+              <Select value={status} onValueChange={(value) => setStatus(value as TestimonyStatus)}>
+                <SelectTrigger id="status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TESTIMONY_STATUSES.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {testimonyStatusLabels[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {status === 'published' && (
+              <div className="space-y-2">
+                <Label htmlFor="publishAt">Publish From</Label>
+                <Input
+                  id="publishAt"
+                  type="datetime-local"
+                  value={publishAt}
+                  onChange={(e) => setPublishAt(e.target.value)}
+                />
+              </div>
+            )}
+          </div>
+
+          {status === 'rejected' && (
+            <div className="space-y-2">
+              <Label htmlFor="rejectionReason">Reason for Rejecting</Label>
+              <Textarea
+                id="rejectionReason"
+                value={rejectionReason}
+                onChange={(e) => setRejectionReason(e.target.value)}
+                placeholder="Internal note, e.g. Contains personal details about another member"
+                rows={2}
+              />
+            </div>
+          )}
+
+          {moderationError && (
+            <p className="text-sm text-red-500">{moderationError}</p>
+          )}
+
+          {/* Actions */}
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={onClose} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving || Boolean(moderationError)}>
+              {isSaving ? 'Saving...' : 'Save Review'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
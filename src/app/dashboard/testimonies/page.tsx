@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { useProtectedRoute } from '@/hooks/useProtectedRoute';
+import { useInboxWindow } from '@/hooks/useInboxWindow';
 import DashboardLayout from '@/components/layout/DashboardLayout';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -22,29 +23,60 @@ import {
   Eye,
   EyeOff,
   User,
-  Users
+  Users,
+  Edit,
+  HeartHandshake,
+  ClipboardCheck,
+  Globe
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { format } from 'date-fns';
+import Link from 'next/link';
 import { 
   Testimony, 
+  TestimonyStatus,
+  TestimonyFilters,
   getTestimoniesWithFilters, 
-  deleteDocument, 
-  testimoniesCollection,
+  getTestimonyCounts,
+  getChurchTimezone,
+  deleteTestimony,
   markTestimonyAsRead,
   markMultipleTestimoniesAsRead,
-  subscribeToTestimonies,
-  getUnreadTestimoniesCount
+  subscribeToTestimonies
 } from '@/lib/firestore';
 import { logDelete, logUpdate } from '@/lib/firebase/logActivity';
 import { useAuth } from '@/contexts/AuthContext';
 import ExportModal from '@/components/ui/ExportModal';
 import ExportHistory from '@/components/ui/ExportHistory';
-
-type FilterType = 'all' | 'anonymous' | 'non-anonymous' | 'unread' | 'read' | 'allow-sharing' | 'no-sharing';
+import { canRead } from '@/lib/auth/roles';
+import {
+  TESTIMONY_STATUSES,
+  testimonyStatusLabels,
+  testimonyStatusBadgeClass,
+  getTestimonyStatus,
+  isTestimonyScheduled,
+} from '@/lib/utils/testimonyUtils';
+import { DEFAULT_TIMEZONE } from '@/lib/utils/timezoneUtils';
+import TestimonyForm from './TestimonyForm';
+import TestimonyReviewDialog from './TestimonyReviewDialog';
+
+type FilterType = 'all' | 'anonymous' | 'non-anonymous' | 'unread' | 'read' | 'allow-sharing' | 'no-sharing' | 'drafts';
+type StatusFilter = 'all' | 'awaiting-review' | TestimonyStatus;
+
+// Filter types and review status run on the server; search filters the loaded pages
+const serverFilters: Record<FilterType, TestimonyFilters> = {
+  all: {},
+  anonymous: { isAnonymous: true },
+  'non-anonymous': { isAnonymous: false },
+  unread: { isRead: false },
+  read: { isRead: true },
+  'allow-sharing': { allowSharing: true },
+  'no-sharing': { allowSharing: false },
+  drafts: { isDraft: true },
+};
 
 export default function TestimoniesPage() {
-  const { loading } = useProtectedRoute();
+  const { role, loading, canWrite } = useProtectedRoute('testimonies');
   const { user } = useAuth();
   
   // Debug authentication state
@@ -54,9 +86,8 @@ export default function TestimoniesPage() {
     email: user?.email,
     loading
   });
-  const [testimonies, setTestimonies] = useState<Testimony[]>([]);
   const [filteredTestimonies, setFilteredTestimonies] = useState<Testimony[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
+  const [stats, setStats] = useState({ total: 0, anonymous: 0, unread: 0, allowSharing: 0, awaitingReview: 0, live: 0 });
   const [showExportModal, setShowExportModal] = useState(false);
   const [selectedTestimonies, setSelectedTestimonies] = useState<Set<string>>(new Set());
   const [searchTerm, setSearchTerm] = useState('');
@@ -64,105 +95,75 @@ export default function TestimoniesPage() {
   const [dateFrom, setDateFrom] = useState('');
   const [dateTo, setDateTo] = useState('');
   const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set());
+  const [editingTestimony, setEditingTestimony] = useState<Testimony | null>(null);
+  const [reviewingTestimony, setReviewingTestimony] = useState<Testimony | null>(null);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [timezone, setTimezone] = useState(DEFAULT_TIMEZONE);
+  const canViewPrayerRequests = canRead(role, 'prayerRequests');
 
+  // Answered prayer requests link here with ?testimony=<id> to open the drafted testimony
   useEffect(() => {
-    // Only set up listeners if user is authenticated
-    if (!user) {
-      console.log('🔐 TestimoniesPage: No user, clearing data and skipping listeners');
-      setTestimonies([]);
-      setFilteredTestimonies([]);
-      setIsLoading(false);
-      return;
-    }
-
-    const fetchData = async () => {
-      try {
-        console.log('🔍 Fetching testimonies...');
-        const data = await getTestimoniesWithFilters();
-        console.log('✅ Testimonies fetched successfully:', data.length);
-        setTestimonies(data);
-        setFilteredTestimonies(data);
-        
-        // Get unread count
-        console.log('🔍 Getting unread count...');
-        await getUnreadTestimoniesCount();
-        console.log('✅ Unread count retrieved');
-      } catch (error) {
-        console.error('❌ Failed to fetch testimonies:', error);
-        console.error('Error details:', {
-          message: error instanceof Error ? error.message : 'Unknown error',
-          code: (error as { code?: string })?.code,
-          stack: error instanceof Error ? error.stack : undefined
-        });
-        toast.error('Failed to fetch testimonies');
-      } finally {
-        setIsLoading(false);
-      }
-    };
-
-    fetchData();
+    const testimonyId = new URLSearchParams(window.location.search).get('testimony');
+    if (testimonyId) setExpandedRows(new Set([testimonyId]));
+  }, []);
+
+  const filters: TestimonyFilters = {
+    ...serverFilters[filterType],
+    ...(statusFilter !== 'all' ? { status: statusFilter } : {}),
+    dateFrom,
+    dateTo,
+    timezone,
+  };
+  const {
+    items: testimonies,
+    isLoading,
+    hasMore,
+    isLoadingMore,
+    loadMore,
+  } = useInboxWindow<Testimony>({
+    enabled: Boolean(user),
+    filtersKey: JSON.stringify(filters),
+    loadPage: (after) => getTestimoniesWithFilters(filters, { after }),
+    subscribe: (until, callback) => subscribeToTestimonies(callback, filters, { until }),
+    onError: (error) => {
+      console.error('❌ Failed to fetch testimonies:', error);
+      console.error('Error details:', {
+        message: error instanceof Error ? error.message : 'Unknown error',
+        code: (error as { code?: string })?.code,
+        stack: error instanceof Error ? error.stack : undefined
+      });
+      toast.error('Failed to fetch testimonies');
+    },
+  });
 
-    // Set up real-time listener
-    console.log('🔍 Setting up testimonies listener...');
-    const unsubscribe = subscribeToTestimonies((data) => {
-      console.log('📡 Testimonies listener update:', data.length);
-      setTestimonies(data);
-      setFilteredTestimonies(data);
-      
-      // Update unread count - no action needed
-    });
+  // The date filters are days in the church timezone
+  useEffect(() => {
+    if (!user) return;
 
-    return () => unsubscribe();
+    getChurchTimezone()
+      .then(setTimezone)
+      .catch(error => console.error('Failed to load church timezone:', error));
   }, [user]);
 
-  // Apply filters and search
+  // The loaded pages change whenever a testimony is added, edited or removed, so the totals follow them
   useEffect(() => {
-    let filtered = [...testimonies];
+    if (!user) return;
 
-    // Apply filter type
-    switch (filterType) {
-      case 'anonymous':
-        filtered = filtered.filter(t => t.isAnonymous);
-        break;
-      case 'non-anonymous':
-        filtered = filtered.filter(t => !t.isAnonymous);
-        break;
-      case 'unread':
-        filtered = filtered.filter(t => !(t.isRead ?? false));
-        break;
-      case 'read':
-        filtered = filtered.filter(t => t.isRead ?? false);
-        break;
-      case 'allow-sharing':
-        filtered = filtered.filter(t => t.allowSharing ?? false);
-        break;
-      case 'no-sharing':
-        filtered = filtered.filter(t => !(t.allowSharing ?? false));
-        break;
-    }
+    getTestimonyCounts()
+      .then(setStats)
+      .catch(error => console.error('Failed to count testimonies:', error));
+  }, [user, testimonies]);
 
-    // Apply date range filter
-    if (dateFrom || dateTo) {
-      filtered = filtered.filter(testimony => {
-        if (!testimony.createdAt) return false;
-        
-        const testimonyDate = testimony.createdAt.toDate();
-        const fromDate = dateFrom ? new Date(dateFrom) : null;
-        const toDate = dateTo ? new Date(dateTo) : null;
-        
-        if (fromDate && testimonyDate < fromDate) return false;
-        if (toDate && testimonyDate > toDate) return false;
-        
-        return true;
-      });
-    }
+  // Apply search
+  useEffect(() => {
+    let filtered = [...testimonies];
 
     // Apply search
     if (searchTerm) {
       filtered = filtered.filter(testimony => {
         const searchLower = searchTerm.toLowerCase();
         const name = testimony.isAnonymous ? 'Anonymous' : testimony.name;
-        const testimonyText = testimony.testimony || testimony.story || '';
+        const testimonyText = testimony.testimony || '';
         return (
           name.toLowerCase().includes(searchLower) ||
           testimonyText.toLowerCase().includes(searchLower)
@@ -171,7 +172,7 @@ export default function TestimoniesPage() {
     }
 
     setFilteredTestimonies(filtered);
-  }, [testimonies, filterType, dateFrom, dateTo, searchTerm]);
+  }, [testimonies, searchTerm]);
 
   const handleDelete = async (id: string) => {
     if (confirm('Are you sure you want to delete this testimony?')) {
@@ -180,7 +181,7 @@ export default function TestimoniesPage() {
         const testimony = testimonies.find(t => t.id === id);
         const title = testimony?.name || testimony?.testimony?.substring(0, 50) || 'Untitled';
         
-        await deleteDocument(testimoniesCollection, id);
+        await deleteTestimony(id);
         
         // Log the deletion activity
         await logDelete('testimonies', title, user?.uid);
@@ -193,6 +194,14 @@ export default function TestimoniesPage() {
     }
   };
 
+  const handleEditSuccess = async (testimony: Testimony) => {
+    await logUpdate('testimonies', testimony.name || 'Untitled', user?.uid, {
+      ...(editingTestimony?.isDraft && !testimony.isDraft ? { action: 'draft_completed' } : {}),
+    });
+    toast.success('Testimony updated successfully');
+    setEditingTestimony(null);
+  };
+
   const handleMarkAsRead = async (testimonyId: string) => {
     if (!user) return;
     
@@ -261,18 +270,9 @@ export default function TestimoniesPage() {
     setExpandedRows(newExpanded);
   };
 
-  const getFilteredStats = () => {
-    const total = filteredTestimonies.length;
-    const anonymous = filteredTestimonies.filter(t => t.isAnonymous).length;
-    const unread = filteredTestimonies.filter(t => !(t.isRead ?? false)).length;
-    const allowSharing = filteredTestimonies.filter(t => t.allowSharing ?? false).length;
+  const noTestimoniesYet = testimonies.length === 0 && filterType === 'all' && statusFilter === 'all' && !dateFrom && !dateTo;
 
-    return { total, anonymous, unread, allowSharing };
-  };
-
-  const stats = getFilteredStats();
-
-  if (loading || isLoading) {
+  if (loading) {
     return (
       <DashboardLayout>
         <div className="flex items-center justify-center h-64">
@@ -304,7 +304,7 @@ export default function TestimoniesPage() {
         </div>
 
         {/* Stats */}
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-6">
           <Card>
             <CardContent className="p-6">
               <div className="flex items-center space-x-3">
@@ -360,6 +360,34 @@ export default function TestimoniesPage() {
               </div>
             </CardContent>
           </Card>
+          
+          <Card>
+            <CardContent className="p-6">
+              <div className="flex items-center space-x-3">
+                <div className="p-2 bg-orange-100 rounded-lg">
+                  <ClipboardCheck className="h-6 w-6 text-orange-600" />
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-gray-600">Awaiting Review</p>
+                  <p className="text-2xl font-bold text-gray-900">{stats.awaitingReview}</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+          
+          <Card>
+            <CardContent className="p-6">
+              <div className="flex items-center space-x-3">
+                <div className="p-2 bg-green-100 rounded-lg">
+                  <Globe className="h-6 w-6 text-green-600" />
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-gray-600">On Website</p>
+                  <p className="text-2xl font-bold text-gray-900">{stats.live}</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
         </div>
 
         {/* Filters and Search */}
@@ -371,7 +399,7 @@ export default function TestimoniesPage() {
             </CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
-            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
               {/* Search */}
               <div className="space-y-2">
                 <Label htmlFor="search">Search</Label>
@@ -402,6 +430,26 @@ export default function TestimoniesPage() {
                     <SelectItem value="read">Read Only</SelectItem>
                     <SelectItem value="allow-sharing">Shareable Only</SelectItem>
                     <SelectItem value="no-sharing">Non-Shareable Only</SelectItem>
+                    <SelectItem value="drafts">Drafts Only</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {/* Moderation Status */}
+              <div className="space-y-2">
+                <Label htmlFor="status-filter">Review Status</Label>
+                <Select value={statusFilter} onValueChange={(value: StatusFilter) => setStatusFilter(value)}>
+                  <SelectTrigger id="status-filter">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Statuses</SelectItem>
+                    <SelectItem value="awaiting-review">Awaiting Review</SelectItem>
+                    {TESTIMONY_STATUSES.map((status) => (
+                      <SelectItem key={status} value={status}>
+                        {testimonyStatusLabels[status]}
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
@@ -430,12 +478,13 @@ export default function TestimoniesPage() {
             </div>
 
             {/* Clear Filters */}
-            {(filterType !== 'all' || dateFrom || dateTo || searchTerm) && (
+            {(filterType !== 'all' || statusFilter !== 'all' || dateFrom || dateTo || searchTerm) && (
               <Button
                 variant="outline"
                 size="sm"
                 onClick={() => {
                   setFilterType('all');
+                  setStatusFilter('all');
                   setDateFrom('');
                   setDateTo('');
                   setSearchTerm('');
@@ -492,14 +541,18 @@ export default function TestimoniesPage() {
                 <CardTitle>All Testimonies</CardTitle>
               </CardHeader>
               <CardContent>
-                {filteredTestimonies.length === 0 ? (
+                {isLoading ? (
+                  <div className="flex items-center justify-center py-8">
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+                  </div>
+                ) : filteredTestimonies.length === 0 ? (
                   <div className="text-center py-8">
                     <MessageSquare className="h-12 w-12 text-gray-400 mx-auto mb-4" />
                     <h3 className="text-lg font-medium text-gray-900 mb-2">
-                      {testimonies.length === 0 ? 'No testimonies yet' : 'No testimonies match your filters'}
+                      {noTestimoniesYet ? 'No testimonies yet' : 'No testimonies match your filters'}
                     </h3>
                     <p className="text-gray-500 mb-4">
-                      {testimonies.length === 0 
+                      {noTestimoniesYet
                         ? 'Testimonies will appear here once they are submitted through the client app.'
                         : 'Try adjusting your search or filter criteria.'
                       }
@@ -561,6 +614,17 @@ export default function TestimoniesPage() {
                                         Shareable
                                       </Badge>
                                     )}
+                                    {testimony.isDraft && (
+                                      <Badge variant="outline" className="text-xs border-orange-300 text-orange-700 bg-orange-50">
+                                        Draft
+                                      </Badge>
+                                    )}
+                                    {testimony.prayerRequestId && (
+                                      <Badge variant="outline" className="text-xs border-green-300 text-green-700 bg-green-50">
+                                        <HeartHandshake className="h-3 w-3 mr-1" />
+                                        Answered Prayer
+                                      </Badge>
+                                    )}
                                   </div>
                                 </div>
                               </div>
@@ -568,7 +632,7 @@ export default function TestimoniesPage() {
                             <TableCell>
                               <div className="max-w-md">
                                 <p className="text-sm text-gray-600 truncate">
-                                  {testimony.testimony || testimony.story || 'No testimony text'}
+                                  {testimony.testimony || 'No testimony text'}
                                 </p>
                                 <Button
                                   variant="ghost"
@@ -581,7 +645,12 @@ export default function TestimoniesPage() {
                               </div>
                             </TableCell>
                             <TableCell>
-                              <div className="flex items-center space-x-2">
+                              <div className="flex flex-wrap items-center gap-2">
+                                <Badge variant="outline" className={`text-xs ${testimonyStatusBadgeClass[getTestimonyStatus(testimony)]}`}>
+                                  {isTestimonyScheduled(testimony)
+                                    ? `Scheduled ${format(testimony.publishAt!.toDate(), 'MMM d')}`
+                                    : testimonyStatusLabels[getTestimonyStatus(testimony)]}
+                                </Badge>
                                 {(testimony.isRead ?? false) ? (
                                   <Badge variant="secondary" className="text-xs">
                                     <Eye className="h-3 w-3 mr-1" />
@@ -621,6 +690,26 @@ export default function TestimoniesPage() {
                                     <Eye className="h-4 w-4" />
                                   </Button>
                                 )}
+                                {canWrite && (
+                                  <>
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      onClick={() => setReviewingTestimony(testimony)}
+                                      title="Review"
+                                    >
+                                      <ClipboardCheck className="h-4 w-4" />
+                                    </Button>
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      onClick={() => setEditingTestimony(testimony)}
+                                      title="Edit"
+                                    >
+                                      <Edit className="h-4 w-4" />
+                                    </Button>
+                                  </>
+                                )}
                                 <Button
                                   variant="ghost"
                                   size="sm"
@@ -644,7 +733,7 @@ export default function TestimoniesPage() {
                       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                         <div>
                           <h4 className="font-medium text-gray-900 mb-2">Full Testimony</h4>
-                          <p className="text-gray-700 whitespace-pre-wrap">{testimony.testimony || testimony.story || 'No testimony text'}</p>
+                          <p className="text-gray-700 whitespace-pre-wrap">{testimony.testimony || 'No testimony text'}</p>
                         </div>
                         <div>
                           <h4 className="font-medium text-gray-900 mb-2">Details</h4>
@@ -665,6 +754,40 @@ export default function TestimoniesPage() {
                               <span className="font-medium">Status:</span>{' '}
                               {(testimony.isRead ?? false) ? 'Read' : 'Unread'}
                             </div>
+                            <div>
+                              <span className="font-medium">Review:</span>{' '}
+                              {testimonyStatusLabels[getTestimonyStatus(testimony)]}
+                              {testimony.publishAt && getTestimonyStatus(testimony) === 'published' && (
+                                <> from {format(testimony.publishAt.toDate(), 'MMM d, yyyy HH:mm')}</>
+                              )}
+                            </div>
+                            {testimony.rejectionReason && (
+                              <div>
+                                <span className="font-medium">Rejected because:</span>{' '}
+                                {testimony.rejectionReason}
+                              </div>
+                            )}
+                            {testimony.publicExcerpt && (
+                              <div>
+                                <span className="font-medium">Public excerpt:</span>
+                                <p className="mt-1 text-gray-700 whitespace-pre-wrap">{testimony.publicExcerpt}</p>
+                              </div>
+                            )}
+                            {testimony.prayerRequestId && (
+                              <div>
+                                <span className="font-medium">Drafted from:</span>{' '}
+                                {canViewPrayerRequests ? (
+                                  <Link
+                                    href={`/dashboard/prayer-requests?request=${testimony.prayerRequestId}`}
+                                    className="text-blue-600 hover:underline"
+                                  >
+                                    Answered prayer request
+                                  </Link>
+                                ) : (
+                                  'An answered prayer request'
+                                )}
+                              </div>
+                            )}
                             {testimony.photo && (
                               <div>
                                 <span className="font-medium">Photo:</span>{' '}
@@ -684,16 +807,41 @@ export default function TestimoniesPage() {
                     </div>
                   )
                 )}
+
+                {!isLoading && hasMore && (
+                  <div className="flex justify-center pt-4">
+                    <Button variant="outline" onClick={loadMore} disabled={isLoadingMore}>
+                      {isLoadingMore ? 'Loading...' : 'Load older testimonies'}
+                    </Button>
+                  </div>
+                )}
               </CardContent>
             </Card>
           </TabsContent>
 
           <TabsContent value="export-history">
-            <ExportHistory testimonies={testimonies} />
+            <ExportHistory dataset="testimonies" items={testimonies} />
           </TabsContent>
         </Tabs>
       </div>
 
+      {/* Edit Form */}
+      {editingTestimony && (
+        <TestimonyForm
+          testimony={editingTestimony}
+          onSuccess={handleEditSuccess}
+          onCancel={() => setEditingTestimony(null)}
+        />
+      )}
+
+      {/* Review Dialog */}
+      {reviewingTestimony && (
+        <TestimonyReviewDialog
+          testimony={reviewingTestimony}
+          onClose={() => setReviewingTestimony(null)}
+        />
+      )}
+
       {/* Export Modal */}
       {showExportModal && (
         <ExportModal
@@ -703,7 +851,7 @@ export default function TestimoniesPage() {
             ? filteredTestimonies.filter(t => selectedTestimonies.has(t.id!))
             : filteredTestimonies
           }
-          exportType="testimonies"
+          dataset="testimonies"
           onExportSuccess={() => {
             setShowExportModal(false);
             setSelectedTestimonies(new Set());
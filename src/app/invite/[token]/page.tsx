@@ -0,0 +1,391 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { sendEmailVerification } from 'firebase/auth';
+import { auth } from '@/lib/firebase';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { toast } from 'sonner';
+import { Mail, Lock, User, AlertCircle, MailCheck } from 'lucide-react';
+import {
+  Invitation,
+  getInvitation,
+  getEffectiveInvitationStatus,
+  acceptInvitation,
+} from '@/lib/firestore';
+import { signInWithGoogle } from '@/lib/auth/signInWithGoogle';
+import { logCreate } from '@/lib/firebase/logActivity';
+import { roleLabels } from '@/lib/auth/roles';
+
+const accountSchema = z.object({
+  password: z.string().min(6, 'Password must be at least 6 characters'),
+  confirmPassword: z.string(),
+}).refine(data => data.password === data.confirmPassword, {
+  message: 'Passwords do not match',
+  path: ['confirmPassword'],
+});
+
+const profileSchema = z.object({
+  firstName: z.string().trim().min(1, 'First name is required'),
+  lastName: z.string().trim().min(1, 'Last name is required'),
+  phone: z.string().optional(),
+  title: z.string().optional(),
+});
+
+type AccountForm = z.infer<typeof accountSchema>;
+type ProfileForm = z.infer<typeof profileSchema>;
+
+const statusMessages = {
+  accepted: 'This invitation has already been accepted. Sign in to continue.',
+  expired: 'This invitation has expired. Ask an administrator to send a new one.',
+  revoked: 'This invitation has been revoked. Ask an administrator if you think this is a mistake.',
+};
+
+export default function InvitePage() {
+  const { token } = useParams<{ token: string }>();
+  const { user, loading: authLoading, signIn, signUp, logout } = useAuth();
+  const [invitation, setInvitation] = useState<Invitation | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [hasExistingAccount, setHasExistingAccount] = useState(false);
+  const [emailVerified, setEmailVerified] = useState(false);
+
+  const accountForm = useForm<AccountForm>({
+    resolver: zodResolver(accountSchema),
+  });
+
+  const profileForm = useForm<ProfileForm>({
+    resolver: zodResolver(profileSchema),
+    defaultValues: { firstName: '', lastName: '', phone: '', title: '' },
+  });
+
+  useEffect(() => {
+    const fetchInvitation = async () => {
+      try {
+        setInvitation(await getInvitation(token));
+      } catch (error) {
+        console.error('Failed to load invitation:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchInvitation();
+  }, [token]);
+
+  useEffect(() => {
+    setEmailVerified(Boolean(user?.emailVerified));
+  }, [user]);
+
+  const onCreateAccount = async (data: AccountForm) => {
+    if (!invitation) return;
+    setIsSubmitting(true);
+    try {
+      if (hasExistingAccount) {
+        await signIn(invitation.email, data.password);
+      } else {
+        await signUp(invitation.email, data.password);
+      }
+      // The invitation can only be accepted from a verified address
+      if (auth.currentUser && !auth.currentUser.emailVerified) {
+        await sendEmailVerification(auth.currentUser);
+      }
+    } catch (error) {
+      const code = (error as { code?: string }).code;
+      if (code === 'auth/email-already-in-use') {
+        setHasExistingAccount(true);
+        toast.error('An account already exists for this email. Enter its password to continue.');
+      } else {
+        toast.error((error as Error).message || 'Failed to create account');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const onCheckVerification = async () => {
+    if (!user) return;
+    setIsSubmitting(true);
+    try {
+      await user.reload();
+      if (!user.emailVerified) {
+        toast.error('Your email is not verified yet. Open the link in the email we sent you.');
+        return;
+      }
+      // Refresh the token so the security rules see the verified address
+      await user.getIdToken(true);
+      setEmailVerified(true);
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to check your email');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const onResendVerification = async () => {
+    if (!user) return;
+    try {
+      await sendEmailVerification(user);
+      toast.success(`Verification email sent to ${user.email}`);
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to send the verification email');
+    }
+  };
+
+  const onGoogleSignIn = async () => {
+    setIsSubmitting(true);
+    try {
+      await signInWithGoogle();
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const onCompleteProfile = async (data: ProfileForm) => {
+    if (!invitation || !user) return;
+    setIsSubmitting(true);
+    try {
+      await acceptInvitation(invitation, user.uid, {
+        firstName: data.firstName.trim(),
+        lastName: data.lastName.trim(),
+        phone: data.phone?.trim() || '',
+        title: data.title?.trim() || '',
+        email: invitation.email,
+      });
+
+      await logCreate('users', `${data.firstName.trim()} ${data.lastName.trim()}`, user.uid, {
+        action: 'invitation_accepted',
+        invitationId: invitation.id,
+        role: invitation.role,
+      });
+
+      toast.success('Welcome to the dashboard!');
+      // Full reload so the auth context picks up the newly assigned role
+      window.location.href = '/dashboard';
+    } catch (error) {
+      console.error('Failed to accept invitation:', error);
+      toast.error('Failed to complete your profile');
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading || authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  const status = invitation ? getEffectiveInvitationStatus(invitation) : null;
+  const emailMismatch = Boolean(user && invitation && user.email?.toLowerCase() !== invitation.email);
+
+  const renderContent = () => {
+    if (!invitation || !status) {
+      return (
+        <div className="text-center space-y-4">
+          <AlertCircle className="h-12 w-12 text-gray-400 mx-auto" />
+          <p className="text-gray-600">This invitation link is not valid.</p>
+          <Button asChild variant="outline">
+            <Link href="/login">Go to Sign In</Link>
+          </Button>
+        </div>
+      );
+    }
+
+    if (status !== 'pending') {
+      return (
+        <div className="text-center space-y-4">
+          <AlertCircle className="h-12 w-12 text-gray-400 mx-auto" />
+          <p className="text-gray-600">{statusMessages[status]}</p>
+          <Button asChild variant="outline">
+            <Link href="/login">Go to Sign In</Link>
+          </Button>
+        </div>
+      );
+    }
+
+    if (emailMismatch) {
+      return (
+        <div className="text-center space-y-4">
+          <AlertCircle className="h-12 w-12 text-orange-400 mx-auto" />
+          <p className="text-gray-600">
+            You are signed in as <strong>{user?.email}</strong>, but this invitation was sent to{' '}
+            <strong>{invitation.email}</strong>.
+          </p>
+          <Button variant="outline" onClick={() => logout()}>
+            Sign out and switch account
+          </Button>
+        </div>
+      );
+    }
+
+    if (!user) {
+      return (
+        <div className="space-y-6">
+          <p className="text-sm font-medium text-gray-500">Step 1 of 2 — Create your account</p>
+          <form onSubmit={accountForm.handleSubmit(onCreateAccount)} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="email">Email</Label>
+              <div className="relative">
+                <Mail className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                <Input id="email" value={invitation.email} disabled className="pl-10 bg-gray-50" />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="password">{hasExistingAccount ? 'Existing Password' : 'Password'}</Label>
+              <div className="relative">
+                <Lock className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                <Input
+                  id="password"
+                  type="password"
+                  placeholder={hasExistingAccount ? 'Enter your password' : 'Choose a password'}
+                  className="pl-10"
+                  {...accountForm.register('password')}
+                />
+              </div>
+              {accountForm.formState.errors.password && (
+                <p className="text-sm text-red-500">
+                  {accountForm.formState.errors.password.message}
+                </p>
+              )}
+            </div>
+
+            {!hasExistingAccount && (
+              <div className="space-y-2">
+                <Label htmlFor="confirmPassword">Confirm Password</Label>
+                <div className="relative">
+                  <Lock className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                  <Input
+                    id="confirmPassword"
+                    type="password"
+                    placeholder="Confirm your password"
+                    className="pl-10"
+                    {...accountForm.register('confirmPassword')}
+                  />
+                </div>
+                {accountForm.formState.errors.confirmPassword && (
+                  <p className="text-sm text-red-500">
+                    {accountForm.formState.errors.confirmPassword.message}
+                  </p>
+                )}
+              </div>
+            )}
+
+            <Button type="submit" className="w-full" disabled={isSubmitting}>
+              {isSubmitting ? 'Please wait...' : (hasExistingAccount ? 'Sign In' : 'Create Account')}
+            </Button>
+          </form>
+
+          <div className="relative text-center text-xs text-gray-400">
+            <span className="bg-white px-2">or</span>
+          </div>
+
+          <Button variant="outline" className="w-full" onClick={onGoogleSignIn} disabled={isSubmitting}>
+            Continue with Google
+          </Button>
+        </div>
+      );
+    }
+
+    if (!emailVerified) {
+      return (
+        <div className="text-center space-y-4">
+          <MailCheck className="h-12 w-12 text-blue-500 mx-auto" />
+          <p className="text-gray-600">
+            We sent a verification link to <strong>{invitation.email}</strong>. Open it, then come back here to
+            finish setting up your account.
+          </p>
+          <div className="flex justify-center gap-2">
+            <Button onClick={onCheckVerification} disabled={isSubmitting}>
+              {isSubmitting ? 'Checking...' : 'I have verified my email'}
+            </Button>
+            <Button variant="outline" onClick={onResendVerification} disabled={isSubmitting}>
+              Resend email
+            </Button>
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-6">
+        <p className="text-sm font-medium text-gray-500">Step 2 of 2 — Complete your profile</p>
+        <form onSubmit={profileForm.handleSubmit(onCompleteProfile)} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="firstName">First Name *</Label>
+              <Input id="firstName" placeholder="Enter your first name" {...profileForm.register('firstName')} />
+              {profileForm.formState.errors.firstName && (
+                <p className="text-sm text-red-500">
+                  {profileForm.formState.errors.firstName.message}
+                </p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="lastName">Last Name *</Label>
+              <Input id="lastName" placeholder="Enter your last name" {...profileForm.register('lastName')} />
+              {profileForm.formState.errors.lastName && (
+                <p className="text-sm text-red-500">
+                  {profileForm.formState.errors.lastName.message}
+                </p>
+              )}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="phone">Phone (Optional)</Label>
+              <Input id="phone" type="tel" placeholder="+44 7700 900123" {...profileForm.register('phone')} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="title">Title (Optional)</Label>
+              <Input id="title" placeholder="e.g., Pastor, Staff" {...profileForm.register('title')} />
+            </div>
+          </div>
+
+          <Button type="submit" className="w-full" disabled={isSubmitting}>
+            <User className="h-4 w-4 mr-2" />
+            {isSubmitting ? 'Saving...' : 'Finish Setup'}
+          </Button>
+        </form>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 p-4">
+      <Card className="w-full max-w-lg">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl font-bold text-gray-900">
+            Join RCCG Place of Victory
+          </CardTitle>
+          <CardDescription>
+            {invitation && status === 'pending' ? (
+              <span className="flex items-center justify-center gap-2">
+                You have been invited as <Badge variant="secondary">{roleLabels[invitation.role]}</Badge>
+              </span>
+            ) : (
+              'Admin Dashboard Invitation'
+            )}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {renderContent()}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
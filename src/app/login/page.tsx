@@ -12,6 +12,7 @@ import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { toast } from 'sonner';
 import { Mail, Lock } from 'lucide-react';
+import { signInWithGoogle } from '@/lib/auth/signInWithGoogle';
 
 const loginSchema = z.object({
   email: z.string().email('Invalid email address'),
@@ -42,7 +43,18 @@ export default function LoginPage() {
     }
   };
 
-
+  const onGoogleLogin = async () => {
+    setIsLoading(true);
+    try {
+      await signInWithGoogle();
+      toast.success('Welcome back!');
+      router.push('/dashboard');
+    } catch (error) {
+      toast.error((error as Error).message || 'Login failed');
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
   return (
     <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 p-4">
@@ -99,6 +111,17 @@ export default function LoginPage() {
                   {isLoading ? 'Signing in...' : 'Sign In'}
                 </Button>
               </form>
+          <div className="mt-4 space-y-4">
+            <div className="relative text-center text-xs text-gray-400">
+              <span className="bg-white px-2">or</span>
+            </div>
+            <Button variant="outline" className="w-full" onClick={onGoogleLogin} disabled={isLoading}>
+              Continue with Google
+            </Button>
+            <p className="text-center text-xs text-gray-500">
+              New here? Access is by invitation only.
+            </p>
+          </div>
         </CardContent>
       </Card>
     </div>
@@ -24,16 +24,24 @@ import {
   Mail,
   Bell,
   Heart,
-  Layout
+  Layout,
+  UserPlus,
+  UserCog,
+  Building2,
+  Send,
+  ShieldCheck,
+  DatabaseZap
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { NewsletterSignup, subscribeToNewsletterSignups, subscribeToTestimonies, subscribeToPrayerRequests, subscribeToContactMessages } from '@/lib/firestore';
+import { Resource, canRead, roleLabels } from '@/lib/auth/roles';
 
 interface SidebarItem {
   title: string;
   href: string;
   icon: React.ComponentType<{ className?: string }>;
   badge?: number;
+  resource?: Resource; // hidden from roles that cannot read it
 }
 
 export default function DashboardLayout({ children }: { children: React.ReactNode }) {
@@ -44,7 +52,7 @@ export default function DashboardLayout({ children }: { children: React.ReactNod
   const [unreadPrayerRequestsCount, setUnreadPrayerRequestsCount] = useState<number>(0);
   const [unreadContactMessagesCount, setUnreadContactMessagesCount] = useState<number>(0);
   const pathname = usePathname();
-  const { user, logout } = useAuth();
+  const { user, role, logout } = useAuth();
   const { canAccess, loading: dashboardAccessLoading } = useDashboardAccess();
 
   useEffect(() => {
@@ -64,8 +72,11 @@ export default function DashboardLayout({ children }: { children: React.ReactNod
       setLastViewedNewsletterTimestamp(parseInt(stored));
     }
 
+    // Only listen to collections this role is allowed to read; the rules reject the rest
+    const unsubscribers: (() => void)[] = [];
+
     // Set up real-time listener for newsletter signups
-    const unsubscribe = subscribeToNewsletterSignups((data) => {
+    if (canRead(role, 'newsletter')) unsubscribers.push(subscribeToNewsletterSignups((data) => {
       setNewsletterSignups(data);
       
       // Check for new signups and show notification
@@ -76,39 +87,25 @@ export default function DashboardLayout({ children }: { children: React.ReactNod
       if (newSignups.length > 0 && lastViewedNewsletterTimestamp > 0) {
         toast.success(`${newSignups.length} new newsletter signup${newSignups.length > 1 ? 's' : ''}!`);
       }
-    });
+    }));
 
-    // Set up real-time listener for testimonies
-    const unsubscribeTestimonies = subscribeToTestimonies((data) => {
-      const unreadCount = data.filter(testimony => !testimony.isRead).length;
-      setUnreadTestimoniesCount(unreadCount);
-    });
+    // Real-time listeners on the unread documents only, for the sidebar badges
+    if (canRead(role, 'testimonies')) unsubscribers.push(subscribeToTestimonies((data) => {
+      setUnreadTestimoniesCount(data.length);
+    }, { isRead: false }));
 
-    // Set up real-time listener for prayer requests
-    const unsubscribePrayerRequests = subscribeToPrayerRequests((data) => {
-      const unreadCount = data.filter(request => !request.isRead).length;
-      setUnreadPrayerRequestsCount(unreadCount);
-    });
+    if (canRead(role, 'prayerRequests')) unsubscribers.push(subscribeToPrayerRequests((data) => {
+      setUnreadPrayerRequestsCount(data.length);
+    }, { filterType: 'unread' }));
 
-    // Set up real-time listener for contact messages
-    const unsubscribeContactMessages = subscribeToContactMessages((data) => {
-      try {
-        const unreadCount = data.filter(message => message.status === 'new').length;
-        setUnreadContactMessagesCount(unreadCount);
-      } catch (error) {
-        console.error('Error in contact messages listener:', error);
-        // Don't crash the app, just set count to 0
-        setUnreadContactMessagesCount(0);
-      }
-    });
+    if (canRead(role, 'contactMessages')) unsubscribers.push(subscribeToContactMessages((data) => {
+      setUnreadContactMessagesCount(data.length);
+    }, { filterType: 'new' }));
 
     return () => {
-      unsubscribe();
-      unsubscribeTestimonies();
-      unsubscribePrayerRequests();
-      unsubscribeContactMessages();
+      unsubscribers.forEach(unsubscribe => unsubscribe());
     };
-  }, [user, lastViewedNewsletterTimestamp]);
+  }, [user, role, lastViewedNewsletterTimestamp]);
 
   const getNewSignupsCount = () => {
     return newsletterSignups.filter(signup => 
@@ -118,37 +115,49 @@ export default function DashboardLayout({ children }: { children: React.ReactNod
 
   const sidebarItems: SidebarItem[] = [
     { title: 'Dashboard', href: '/dashboard', icon: Layout },
-    { title: 'Carousel', href: '/dashboard/carousel', icon: Sliders },
-    { title: 'Leaders', href: '/dashboard/leaders', icon: Users },
-    { title: 'Events', href: '/dashboard/events', icon: Calendar },
-    { title: 'Gallery', href: '/dashboard/gallery', icon: Image },
+    { title: 'Carousel', href: '/dashboard/carousel', icon: Sliders, resource: 'carousel' },
+    { title: 'Leaders', href: '/dashboard/leaders', icon: Users, resource: 'leaders' },
+    { title: 'Events', href: '/dashboard/events', icon: Calendar, resource: 'events' },
+    { title: 'Rooms & Resources', href: '/dashboard/resources', icon: Building2, resource: 'events' },
+    { title: 'Gallery', href: '/dashboard/gallery', icon: Image, resource: 'gallery' },
     { 
       title: 'Testimonies', 
       href: '/dashboard/testimonies', 
       icon: MessageSquare,
-      badge: unreadTestimoniesCount
+      badge: unreadTestimoniesCount,
+      resource: 'testimonies'
     },
     { 
       title: 'Prayer Requests', 
       href: '/dashboard/prayer-requests', 
       icon: Heart,
-      badge: unreadPrayerRequestsCount
+      badge: unreadPrayerRequestsCount,
+      resource: 'prayerRequests'
     },
     { 
       title: 'Contact Messages', 
       href: '/dashboard/contact-messages', 
       icon: MessageSquare,
-      badge: unreadContactMessagesCount
+      badge: unreadContactMessagesCount,
+      resource: 'contactMessages'
     },
     { 
       title: 'Newsletter', 
       href: '/dashboard/newsletter', 
       icon: Mail,
-      badge: getNewSignupsCount()
+      badge: getNewSignupsCount(),
+      resource: 'newsletter'
     },
-    { title: 'Settings', href: '/dashboard/settings', icon: Settings },
+    { title: 'Outbox', href: '/dashboard/outbox', icon: Send, resource: 'mail' },
+    { title: 'Team', href: '/dashboard/team', icon: UserCog, resource: 'users' },
+    { title: 'Invitations', href: '/dashboard/invitations', icon: UserPlus, resource: 'users' },
+    { title: 'Data Validation', href: '/dashboard/data-validation', icon: ShieldCheck, resource: 'settings' },
+    { title: 'Migrations', href: '/dashboard/migrations', icon: DatabaseZap, resource: 'migrations' },
+    { title: 'Settings', href: '/dashboard/settings', icon: Settings, resource: 'settings' },
   ];
 
+  const visibleSidebarItems = sidebarItems.filter(item => !item.resource || canRead(role, item.resource));
+
   const handleLogout = async () => {
     try {
       await logout();
@@ -203,7 +212,7 @@ export default function DashboardLayout({ children }: { children: React.ReactNod
 
       {/* Navigation */}
       <nav className="flex-1 px-4 py-6 space-y-2">
-        {sidebarItems.map((item) => {
+        {visibleSidebarItems.map((item) => {
           const Icon = item.icon;
           const isActive = pathname === item.href;
           
@@ -250,6 +259,11 @@ export default function DashboardLayout({ children }: { children: React.ReactNod
                 <p className="text-xs text-muted-foreground">
                   {user?.email}
                 </p>
+                {role && (
+                  <p className="text-xs text-muted-foreground">
+                    {roleLabels[role]}
+                  </p>
+                )}
               </div>
               <ChevronDown className="h-4 w-4" />
             </Button>
@@ -1,45 +1,77 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { FileText, FileDown, Download } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FileText, FileDown, FileSpreadsheet, FileJson, Table2, Download, RotateCcw, Loader2 } from 'lucide-react';
 import { toast } from 'sonner';
-import { TestimonyExport, getTestimonyExports, PrayerRequestExport, getPrayerRequestExports, ContactMessageExport, getContactMessageExports } from '@/lib/firestore';
-import { format } from 'date-fns';
+import {
+  ExportDataset,
+  ExportFormat,
+  ExportRecord,
+  getExportHistory,
+  isExportArchiveAvailable,
+  purgeExpiredExportArchives
+} from '@/lib/firestore';
+import { ExportItem, exportDatasetLabels, exportFormatDetails, exportItemTitles, reportTemplateDetails } from '@/lib/export';
+import { getExportArchive } from '@/lib/storage';
+import { toCsvRow } from '@/lib/utils/csvUtils';
+import { downloadFile } from '@/lib/utils/exportUtils';
+import { endOfDay, format, parseISO, startOfDay } from 'date-fns';
 
-interface ExportHistoryProps {
-  testimonies?: Array<{ id?: string; name?: string; isAnonymous?: boolean }>; // Type for testimonies lookup
-  prayerRequests?: Array<{ id?: string; name?: string | null; isAnonymous?: boolean }>; // Type for prayer requests lookup
-  contactMessages?: Array<{ id?: string; name?: string; subject?: string }>; // Type for contact messages lookup
-  collection?: 'testimonies_exports' | 'prayer_requests_exports' | 'contact_messages_exports';
+interface ExportHistoryProps<D extends ExportDataset> {
+  dataset: D;
+  items?: ExportItem<D>[]; // used to show names instead of ids
 }
 
-export default function ExportHistory({ testimonies, prayerRequests, contactMessages, collection }: ExportHistoryProps) {
-  const [exports, setExports] = useState<(TestimonyExport | PrayerRequestExport | ContactMessageExport)[]>([]);
+const formatIcons: Record<ExportFormat, typeof FileText> = {
+  csv: Table2,
+  xlsx: FileSpreadsheet,
+  json: FileJson,
+  pdf: FileText,
+  word: FileDown,
+};
+
+const formatBadgeVariants: Record<ExportFormat, "default" | "secondary" | "destructive" | "outline"> = {
+  csv: 'outline',
+  xlsx: 'outline',
+  json: 'outline',
+  pdf: 'default',
+  word: 'secondary',
+};
+
+export default function ExportHistory<D extends ExportDataset>({ dataset, items }: ExportHistoryProps<D>) {
+  const [exports, setExports] = useState<ExportRecord[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [adminFilter, setAdminFilter] = useState('all');
+  const [formatFilter, setFormatFilter] = useState<'all' | ExportFormat>('all');
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+
+  const datasetLabel = exportDatasetLabels[dataset];
 
   useEffect(() => {
     const fetchExports = async () => {
       try {
-        let data;
-        if (collection === 'prayer_requests_exports') {
-          data = await getPrayerRequestExports();
-        } else if (collection === 'contact_messages_exports') {
-          data = await getContactMessageExports();
-        } else {
-          data = await getTestimonyExports();
-        }
-        setExports(data);
+        const records = await getExportHistory(dataset);
+        setExports(records);
+
+        // Expired copies are deleted in the background; the entries stay in the history
+        purgeExpiredExportArchives(records)
+          .catch((error) => console.warn('Failed to delete expired export files:', error));
       } catch (error) {
-        console.error(`Failed to fetch exports for collection '${collection}':`, error);
-        
+        console.error(`Failed to fetch export history for '${dataset}':`, error);
+
         // Provide more specific error messages
         if (error instanceof Error) {
           if (error.message.includes('permission')) {
-            toast.error(`Permission denied: Cannot access ${collection} collection`);
+            toast.error(`Permission denied: Cannot access ${datasetLabel.toLowerCase()} export history`);
           } else if (error.message.includes('network')) {
             toast.error('Network error: Please check your connection');
           } else {
@@ -54,112 +86,117 @@ export default function ExportHistory({ testimonies, prayerRequests, contactMess
     };
 
     fetchExports();
-  }, [collection]);
+  }, [dataset, datasetLabel]);
 
-  const getExportTypeIcon = (type: string) => {
-    switch (type) {
-      case 'pdf':
-        return <FileText className="h-4 w-4" />;
-      case 'word':
-        return <FileDown className="h-4 w-4" />;
+  const admins = useMemo(() => [...new Set(exports.map(exp => exp.adminEmail))].sort(), [exports]);
 
-      default:
-        return <FileText className="h-4 w-4" />;
+  const filteredExports = useMemo(() => {
+    const from = dateFrom ? startOfDay(parseISO(dateFrom)).getTime() : null;
+    const to = dateTo ? endOfDay(parseISO(dateTo)).getTime() : null;
+    return exports.filter(exp => {
+      if (adminFilter !== 'all' && exp.adminEmail !== adminFilter) return false;
+      if (formatFilter !== 'all' && exp.format !== formatFilter) return false;
+      if (from !== null || to !== null) {
+        const exportedAt = exp.exportedAt?.toMillis();
+        if (exportedAt === undefined) return false;
+        if (from !== null && exportedAt < from) return false;
+        if (to !== null && exportedAt > to) return false;
+      }
+      return true;
+    });
+  }, [exports, adminFilter, formatFilter, dateFrom, dateTo]);
+
+  const hasFilters = adminFilter !== 'all' || formatFilter !== 'all' || Boolean(dateFrom) || Boolean(dateTo);
+
+  const clearFilters = () => {
+    setAdminFilter('all');
+    setFormatFilter('all');
+    setDateFrom('');
+    setDateTo('');
+  };
+
+  const downloadAgain = async (exp: ExportRecord) => {
+    if (!exp.archivePath || !exp.id) return;
+    setDownloadingId(exp.id);
+    try {
+      downloadFile(await getExportArchive(exp.archivePath), exp.fileName);
+    } catch (error) {
+      console.error('Failed to download archived export:', error);
+      toast.error('The archived file could not be downloaded');
+    } finally {
+      setDownloadingId(null);
     }
   };
 
-  const getExportTypeBadge = (type: string) => {
-    const variants: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
-      pdf: 'default',
-      word: 'secondary'
-    };
+  const getArchiveCell = (exp: ExportRecord) => {
+    if (isExportArchiveAvailable(exp)) {
+      return (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => downloadAgain(exp)}
+          disabled={downloadingId === exp.id}
+          title={`Available until ${format(exp.archiveExpiresAt!.toDate(), 'MMM dd, yyyy')}`}
+        >
+          {downloadingId === exp.id ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <Download className="h-4 w-4" />
+          )}
+        </Button>
+      );
+    }
+    return (
+      <span className="text-xs text-gray-500">
+        {exp.archiveExpiresAt ? 'Expired' : 'Not kept'}
+      </span>
+    );
+  };
 
+  const getExportTypeBadge = (type: ExportFormat) => {
+    const Icon = formatIcons[type] || FileText;
     return (
-      <Badge variant={variants[type] || 'outline'} className="flex items-center space-x-1">
-        {getExportTypeIcon(type)}
-        <span className="capitalize">{type.replace('_', ' ')}</span>
+      <Badge variant={formatBadgeVariants[type] || 'outline'} className="flex items-center space-x-1">
+        <Icon className="h-4 w-4" />
+        <span>{exportFormatDetails[type]?.label || type}</span>
       </Badge>
     );
   };
 
-  const getItemNames = (itemIds: (string | undefined)[]) => {
-    const validIds = itemIds.filter((id): id is string => id !== undefined);
-    
-    if (collection === 'prayer_requests_exports' && prayerRequests) {
-      const names = validIds.map(id => {
-        const request = prayerRequests.find(r => r.id === id);
-        return request ? (request.isAnonymous ? 'Anonymous' : (request.name || 'Unknown')) : 'Unknown';
-      });
-      
-      if (names.length <= 3) {
-        return names.join(', ');
-      }
-      return `${names.slice(0, 3).join(', ')} +${names.length - 3} more`;
-    } else if (collection === 'contact_messages_exports' && contactMessages) {
-      const names = validIds.map(id => {
-        const message = contactMessages.find(m => m.id === id);
-        return message ? `${message.name} (${message.subject})` : 'Unknown';
-      });
-      
-      if (names.length <= 3) {
-        return names.join(', ');
-      }
-      return `${names.slice(0, 3).join(', ')} +${names.length - 3} more`;
-    } else if (testimonies) {
-      const names = validIds.map(id => {
-        const testimony = testimonies.find(t => t.id === id);
-        return testimony ? (testimony.isAnonymous ? 'Anonymous' : testimony.name) : 'Unknown';
-      });
-      
-      if (names.length <= 3) {
-        return names.join(', ');
-      }
-      return `${names.slice(0, 3).join(', ')} +${names.length - 3} more`;
+  const getItemTitles = (itemIds: string[]) => {
+    const getTitle = exportItemTitles[dataset] as (item: ExportItem<D>) => string;
+    return itemIds.map(id => {
+      const item = items?.find(candidate => candidate.id === id);
+      return item ? getTitle(item) : 'Unknown';
+    });
+  };
+
+  const getItemNames = (itemIds: string[]) => {
+    if (!items) return `${itemIds.length} item${itemIds.length !== 1 ? 's' : ''}`;
+    if (itemIds.length === 0) return 'No items';
+    const names = getItemTitles(itemIds);
+    if (names.length <= 3) {
+      return names.join(', ');
     }
-    
-    return 'No items';
+    return `${names.slice(0, 3).join(', ')} +${names.length - 3} more`;
   };
 
   const downloadExportLog = () => {
-    let itemType = 'Testimonies';
-    if (collection === 'prayer_requests_exports') {
-      itemType = 'Prayer Requests';
-    } else if (collection === 'contact_messages_exports') {
-      itemType = 'Contact Messages';
-    }
-    
     const csvContent = [
-      ['Export Date', 'Admin Email', 'Export Type', `${itemType} Count`, `${itemType} IDs`].join(','),
-      ...exports.map(exp => {
-        let itemIds: string[] = [];
-        if ('testimonyIds' in exp) {
-          itemIds = exp.testimonyIds;
-        } else if ('prayerRequestIds' in exp) {
-          itemIds = exp.prayerRequestIds;
-        } else if ('contactMessageIds' in exp) {
-          itemIds = exp.contactMessageIds;
-        }
-        
-        return [
-          exp.exportedAt ? format(exp.exportedAt.toDate(), 'yyyy-MM-dd HH:mm:ss') : 'N/A',
-          exp.adminEmail,
-          exp.exportType,
-          itemIds.length.toString(),
-          itemIds.join(';')
-        ].join(',');
-      })
-    ].join('\n');
+      toCsvRow(['Export Date', 'Admin Email', 'Format', 'Template', 'File Name', 'Available Until', `${datasetLabel} Count`, `${datasetLabel} IDs`]),
+      ...filteredExports.map(exp => toCsvRow([
+        exp.exportedAt ? format(exp.exportedAt.toDate(), 'yyyy-MM-dd HH:mm:ss') : 'N/A',
+        exp.adminEmail,
+        exp.format,
+        exp.template ? reportTemplateDetails[exp.template].label : '',
+        exp.fileName,
+        isExportArchiveAvailable(exp) ? format(exp.archiveExpiresAt!.toDate(), 'yyyy-MM-dd') : '',
+        exp.itemCount,
+        exp.itemIds.join(';')
+      ]))
+    ].join('\r\n');
 
-    const blob = new Blob([csvContent], { type: 'text/csv' });
-    const url = window.URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `export_history_${format(new Date(), 'yyyy-MM-dd')}.csv`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    window.URL.revokeObjectURL(url);
-    
+    downloadFile(new Blob([csvContent], { type: 'text/csv' }), `export_history_${format(new Date(), 'yyyy-MM-dd')}.csv`);
     toast.success('Export history downloaded');
   };
 
@@ -183,7 +220,7 @@ export default function ExportHistory({ testimonies, prayerRequests, contactMess
       <CardHeader>
         <div className="flex items-center justify-between">
           <CardTitle>Export History</CardTitle>
-          <Button onClick={downloadExportLog} variant="outline" size="sm">
+          <Button onClick={downloadExportLog} variant="outline" size="sm" disabled={filteredExports.length === 0}>
             <Download className="h-4 w-4 mr-2" />
             Download CSV
           </Button>
@@ -195,99 +232,119 @@ export default function ExportHistory({ testimonies, prayerRequests, contactMess
             <FileText className="h-12 w-12 text-gray-400 mx-auto mb-4" />
             <h3 className="text-lg font-medium text-gray-900 mb-2">No exports yet</h3>
             <p className="text-gray-500">
-              Export history will appear here once you export {
-                collection === 'prayer_requests_exports' ? 'prayer requests' : 
-                collection === 'contact_messages_exports' ? 'contact messages' : 
-                'testimonies'
-              }.
+              Export history will appear here once you export {datasetLabel.toLowerCase()}.
             </p>
           </div>
         ) : (
-          <div className="overflow-x-auto">
-            <Table>
-              <TableHeader>
-                <TableRow>
-                  <TableHead>Date</TableHead>
-                  <TableHead>Admin</TableHead>
-                  <TableHead>Type</TableHead>
-                  <TableHead>{
-                    collection === 'prayer_requests_exports' ? 'Prayer Requests' : 
-                    collection === 'contact_messages_exports' ? 'Contact Messages' : 
-                    'Testimonies'
-                  }</TableHead>
-                  <TableHead>Count</TableHead>
-                </TableRow>
-              </TableHeader>
-              <TableBody>
-                {exports.map((exp) => (
-                  <TableRow key={exp.id}>
-                    <TableCell className="whitespace-nowrap">
-                      {exp.exportedAt ? format(exp.exportedAt.toDate(), 'MMM dd, yyyy HH:mm') : 'N/A'}
-                    </TableCell>
-                    <TableCell className="max-w-[200px] truncate">
-                      {exp.adminEmail}
-                    </TableCell>
-                    <TableCell>
-                      {getExportTypeBadge(exp.exportType)}
-                    </TableCell>
-                    <TableCell className="max-w-[300px]">
-                      <div className="group relative">
-                        <span className="truncate block">
-                          {getItemNames((() => {
-                            if ('testimonyIds' in exp) {
-                              return exp.testimonyIds;
-                            } else if ('prayerRequestIds' in exp) {
-                              return exp.prayerRequestIds;
-                            } else if ('contactMessageIds' in exp) {
-                              return exp.contactMessageIds;
-                            }
-                            return [];
-                          })())}
-                        </span>
-                        <div className="absolute bottom-full left-0 mb-2 hidden group-hover:block bg-gray-900 text-white text-xs rounded py-1 px-2 z-10 max-w-xs">
-                          {(() => {
-                            let itemIds: string[] = [];
-                            if ('testimonyIds' in exp) {
-                              itemIds = exp.testimonyIds;
-                            } else if ('prayerRequestIds' in exp) {
-                              itemIds = exp.prayerRequestIds;
-                            } else if ('contactMessageIds' in exp) {
-                              itemIds = exp.contactMessageIds;
-                            }
-                            
-                            return itemIds.map(id => {
-                              if (collection === 'prayer_requests_exports' && prayerRequests) {
-                                const request = prayerRequests.find(r => r.id === id);
-                                return request ? (request.isAnonymous ? 'Anonymous' : (request.name || 'Unknown')) : 'Unknown';
-                              } else if (collection === 'contact_messages_exports' && contactMessages) {
-                                const message = contactMessages.find(m => m.id === id);
-                                return message ? `${message.name} (${message.subject})` : 'Unknown';
-                              } else if (testimonies) {
-                                const testimony = testimonies.find(t => t.id === id);
-                                return testimony ? (testimony.isAnonymous ? 'Anonymous' : testimony.name) : 'Unknown';
-                              }
-                              return 'Unknown';
-                            }).join(', ');
-                          })()}
-                        </div>
-                      </div>
-                    </TableCell>
-                    <TableCell>
-                      <Badge variant="outline">{(() => {
-                        if ('testimonyIds' in exp) {
-                          return exp.testimonyIds.length;
-                        } else if ('prayerRequestIds' in exp) {
-                          return exp.prayerRequestIds.length;
-                        } else if ('contactMessageIds' in exp) {
-                          return exp.contactMessageIds.length;
-                        }
-                        return 0;
-                      })()}</Badge>
-                    </TableCell>
-                  </TableRow>
-                ))}
-              </TableBody>
-            </Table>
+          <div className="space-y-4">
+            {/* Filters */}
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor={`export-history-admin-${dataset}`}>Admin</Label>
+                <Select value={adminFilter} onValueChange={setAdminFilter}>
+                  <SelectTrigger id={`export-history-admin-${dataset}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All admins</SelectItem>
+                    {admins.map((admin) => (
+                      <SelectItem key={admin} value={admin}>{admin}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor={`export-history-format-${dataset}`}>Format</Label>
+                <Select value={formatFilter} onValueChange={(value) => setFormatFilter(value as 'all' | ExportFormat)}>
+                  <SelectTrigger id={`export-history-format-${dataset}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All formats</SelectItem>
+                    {(Object.keys(exportFormatDetails) as ExportFormat[]).map((value) => (
+                      <SelectItem key={value} value={value}>{exportFormatDetails[value].label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor={`export-history-from-${dataset}`}>From Date</Label>
+                <Input
+                  id={`export-history-from-${dataset}`}
+                  type="date"
+                  value={dateFrom}
+                  onChange={(e) => setDateFrom(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor={`export-history-to-${dataset}`}>To Date</Label>
+                <Input
+                  id={`export-history-to-${dataset}`}
+                  type="date"
+                  value={dateTo}
+                  onChange={(e) => setDateTo(e.target.value)}
+                />
+              </div>
+            </div>
+
+            {filteredExports.length === 0 ? (
+              <div className="text-center py-8">
+                <p className="text-gray-500 mb-2">No exports match these filters.</p>
+                <Button variant="outline" size="sm" onClick={clearFilters}>
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  Clear filters
+                </Button>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Admin</TableHead>
+                      <TableHead>Format</TableHead>
+                      <TableHead>{datasetLabel}</TableHead>
+                      <TableHead>Count</TableHead>
+                      <TableHead>File</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filteredExports.map((exp) => (
+                      <TableRow key={exp.id}>
+                        <TableCell className="whitespace-nowrap">
+                          {exp.exportedAt ? format(exp.exportedAt.toDate(), 'MMM dd, yyyy HH:mm') : 'N/A'}
+                        </TableCell>
+                        <TableCell className="max-w-[200px] truncate">
+                          {exp.adminEmail}
+                        </TableCell>
+                        <TableCell>
+                          {getExportTypeBadge(exp.format)}
+                          {exp.template && (
+                            <span className="block text-xs text-gray-500 mt-1">{reportTemplateDetails[exp.template].label}</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="max-w-[300px]">
+                          <span className="truncate block" title={items ? getItemTitles(exp.itemIds).join(', ') : undefined}>
+                            {getItemNames(exp.itemIds)}
+                          </span>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{exp.itemCount}</Badge>
+                        </TableCell>
+                        <TableCell>
+                          {getArchiveCell(exp)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+            {hasFilters && filteredExports.length > 0 && (
+              <p className="text-xs text-gray-500">
+                Showing {filteredExports.length} of {exports.length} exports
+              </p>
+            )}
           </div>
         )}
       </CardContent>
@@ -6,40 +6,68 @@ import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
 import { Input } from '@/components/ui/input';
-import { FileText, FileDown, Loader2 } from 'lucide-react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FileText, FileDown, FileSpreadsheet, FileJson, Table2, Loader2 } from 'lucide-react';
 import { toast } from 'sonner';
-import { Testimony, PrayerRequest, ContactMessage } from '@/lib/firestore';
-import { 
-  exportToPDF, 
-  exportToWord, 
-  exportPrayerRequestsToPDF,
-  exportPrayerRequestsToWord,
-  exportContactMessagesToPDF,
-  exportContactMessagesToWord,
-  downloadFile, 
-  generateFileName,
-  ExportOptions 
-} from '@/lib/utils/exportUtils';
-import { logTestimonyExport, logPrayerRequestExport, logContactMessageExport } from '@/lib/firestore';
+import {
+  DEFAULT_EXPORT_RETENTION_DAYS,
+  Event,
+  ExportDataset,
+  ExportFormat,
+  ReportTemplate,
+  getSiteSettings,
+  logExport
+} from '@/lib/firestore';
+import { downloadFile, ExportOptions } from '@/lib/utils/exportUtils';
+import {
+  ExportColumn,
+  ExportItem,
+  createExportFile,
+  exportColumns,
+  exportDatasetLabels,
+  exportFormatDetails,
+  getReportTemplates,
+  hasReportPhotos,
+  reportTemplateDetails,
+} from '@/lib/export';
+import { DEFAULT_CHURCH_NAME, getChurchInfo } from '@/lib/mail/templates';
 import { useAuth } from '@/contexts/AuthContext';
 
-interface ExportModalProps {
+interface ExportModalProps<D extends ExportDataset> {
   isOpen: boolean;
   onClose: () => void;
-  items: (Testimony | PrayerRequest | ContactMessage)[];
-  exportType?: 'testimonies' | 'prayer_requests' | 'contact_messages';
+  dataset: D;
+  items: ExportItem<D>[];
+  columns?: ExportColumn<ExportItem<D>>[]; // defaults to the dataset's standard columns
+  event?: Event; // event registrations: named in the title and the report subtitle
   onExportSuccess?: () => void;
 }
 
-export default function ExportModal({ 
-  isOpen, 
-  onClose, 
-  items, 
-  exportType: contentType = 'testimonies',
+const formatIcons: Record<ExportFormat, typeof FileText> = {
+  csv: Table2,
+  xlsx: FileSpreadsheet,
+  json: FileJson,
+  pdf: FileText,
+  word: FileDown,
+};
+
+const EXPORT_FORMATS: ExportFormat[] = ['csv', 'xlsx', 'json', 'pdf', 'word'];
+
+export default function ExportModal<D extends ExportDataset>({
+  isOpen,
+  onClose,
+  dataset,
+  items,
+  columns: columnsProp,
+  event,
   onExportSuccess
-}: ExportModalProps) {
+}: ExportModalProps<D>) {
   const { user } = useAuth();
-  const [exportType, setExportType] = useState<'pdf' | 'word'>('word');
+  const columns = columnsProp || (exportColumns[dataset] as ExportColumn<ExportItem<D>>[]);
+  const [exportType, setExportType] = useState<ExportFormat>('csv');
+  const [template, setTemplate] = useState<ReportTemplate>('table');
+  const [selectedColumns, setSelectedColumns] = useState<string[]>(() => columns.map(column => column.key));
   const [isExporting, setIsExporting] = useState(false);
   const [isPdfLoading, setIsPdfLoading] = useState(false);
   const [pdfAvailable, setPdfAvailable] = useState(true);
@@ -47,9 +75,24 @@ export default function ExportModal({
   const [exportOptions, setExportOptions] = useState<ExportOptions>({
     includePhotos: false,
     includeMetadata: true,
-    churchName: 'RCCG POV',
+    churchName: DEFAULT_CHURCH_NAME,
     churchLogo: ''
   });
+  const [retentionDays, setRetentionDays] = useState(DEFAULT_EXPORT_RETENTION_DAYS);
+
+  // Reports are branded with the church name and logo from the site settings
+  useEffect(() => {
+    getSiteSettings()
+      .then((settings) => {
+        setExportOptions(prev => ({
+          ...prev,
+          churchName: getChurchInfo(settings).name,
+          churchLogo: settings?.logoUrl || ''
+        }));
+        if (settings?.exportRetentionDays) setRetentionDays(settings.exportRetentionDays);
+      })
+      .catch((error) => console.error('Failed to load church settings:', error));
+  }, []);
 
   // Check PDF availability on mount
   useEffect(() => {
@@ -73,11 +116,14 @@ export default function ExportModal({
     checkPdfAvailability();
   }, [exportType]);
 
+  const datasetLabel = exportDatasetLabels[dataset];
+  const isDocument = exportType === 'pdf' || exportType === 'word';
+  const isPrayerList = isDocument && template === 'prayer-list';
+  const chosenColumns = columns.filter(column => selectedColumns.includes(column.key));
 
-
-  const itemsToExport = items;
-
-
+  const toggleColumn = (key: string, checked: boolean) => {
+    setSelectedColumns(checked ? [...selectedColumns, key] : selectedColumns.filter(selected => selected !== key));
+  };
 
   const handleExport = async () => {
     if (!user) {
@@ -90,260 +136,242 @@ export default function ExportModal({
       let file: Blob;
       let fileName: string;
 
-      switch (exportType) {
-        case 'pdf':
-          try {
-            setIsPdfLoading(true);
-            if (contentType === 'testimonies') {
-              file = await exportToPDF(itemsToExport as Testimony[], exportOptions);
-            } else if (contentType === 'prayer_requests') {
-              file = await exportPrayerRequestsToPDF(itemsToExport as PrayerRequest[], exportOptions);
-            } else if (contentType === 'contact_messages') {
-              file = await exportContactMessagesToPDF(itemsToExport as ContactMessage[], exportOptions);
-            } else {
-              toast.error('PDF export not supported for this content type.');
-              return;
-            }
-            fileName = generateFileName(contentType, 'pdf');
-            downloadFile(file, fileName);
-          } catch (error) {
-            console.error('PDF export error:', error);
-            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-            toast.error(`PDF export failed: ${errorMessage}. Please try Word export instead.`);
-            return;
-          } finally {
-            setIsPdfLoading(false);
-          }
-          break;
-
-        case 'word':
-          if (contentType === 'testimonies') {
-            file = await exportToWord(itemsToExport as Testimony[], exportOptions);
-          } else if (contentType === 'prayer_requests') {
-            file = await exportPrayerRequestsToWord(itemsToExport as PrayerRequest[], exportOptions);
-          } else if (contentType === 'contact_messages') {
-            file = await exportContactMessagesToWord(itemsToExport as ContactMessage[], exportOptions);
-          } else {
-            toast.error('Word export not supported for this content type.');
-            return;
-          }
-          fileName = generateFileName(contentType, 'docx');
-          downloadFile(file, fileName);
-          break;
-
-
+      try {
+        setIsPdfLoading(exportType === 'pdf');
+        ({ blob: file, fileName } = await createExportFile({
+          dataset,
+          format: exportType,
+          items,
+          columns: chosenColumns,
+          title: event ? `${datasetLabel} - ${event.title}` : datasetLabel,
+          subtitle: event ? `${event.date} ${event.startTime}${event.location ? ` · ${event.location}` : ''}` : undefined,
+          template,
+          options: exportOptions,
+        }));
+      } catch (error) {
+        if (exportType !== 'pdf') throw error;
+        console.error('PDF export error:', error);
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        toast.error(`PDF export failed: ${errorMessage}. Please try Word export instead.`);
+        return;
+      } finally {
+        setIsPdfLoading(false);
       }
 
+      downloadFile(file, fileName);
+
       // Log the export (optional - don't block export if logging fails)
-      console.log('🔍 About to log export, user state:', {
-        uid: user?.uid,
-        email: user?.email,
-        isAuthenticated: !!user
-      });
-      
-      // Only attempt to log if user is still authenticated
-      if (user?.uid && user?.email) {
+      if (user.email) {
         try {
-          if (contentType === 'testimonies') {
-            await logTestimonyExport({
-              adminId: user.uid,
-              adminEmail: user.email,
-              exportType,
-              testimonyIds: itemsToExport.map(t => t.id!)
-            });
-          } else if (contentType === 'prayer_requests') {
-            await logPrayerRequestExport({
-              adminId: user.uid,
-              adminEmail: user.email,
-              exportType: exportType,
-              prayerRequestIds: itemsToExport.map(t => t.id!)
-            });
-          } else if (contentType === 'contact_messages') {
-            await logContactMessageExport({
-              adminId: user.uid,
-              adminEmail: user.email,
-              exportType: exportType,
-              contactMessageIds: itemsToExport.map(t => t.id!)
-            });
-          }
-          console.log('✅ Export logged successfully');
+          await logExport({
+            dataset,
+            format: exportType,
+            itemIds: items.map(item => item.id).filter((id): id is string => Boolean(id)),
+            columns: isPrayerList ? [] : chosenColumns.map(column => column.key),
+            template: isDocument ? template : null,
+            fileName,
+            eventId: event?.id ?? null,
+            adminId: user.uid,
+            adminEmail: user.email,
+          }, { file, retentionDays });
         } catch (loggingError) {
           console.warn('⚠️ Export logging failed (export still successful):', loggingError);
-          console.warn('⚠️ Logging error details:', {
-            error: loggingError,
-            userState: { uid: user?.uid, email: user?.email },
-            exportType,
-            itemCount: itemsToExport.length
-          });
           // Don't show error to user since export succeeded
         }
-      } else {
-        console.warn('⚠️ Skipping export logging - user not authenticated:', {
-          uid: user?.uid,
-          email: user?.email
-        });
       }
 
-      const contentTypeText = contentType === 'testimonies' ? 'Testimonies' : 
-                             contentType === 'prayer_requests' ? 'Prayer requests' : 
-                             'Contact messages';
-      toast.success(`${contentTypeText} exported successfully as ${exportType.toUpperCase()}`);
-      
+      toast.success(`${datasetLabel} exported successfully as ${exportFormatDetails[exportType].label}`);
+
       // Call the success callback if provided
       if (onExportSuccess) {
         onExportSuccess();
       }
-      
+
       onClose();
     } catch (error) {
       console.error('Export error:', error);
-      const contentTypeText = contentType === 'testimonies' ? 'testimonies' : 
-                             contentType === 'prayer_requests' ? 'prayer requests' : 
-                             'contact messages';
-      toast.error(`Failed to export ${contentTypeText}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      toast.error(`Failed to export ${datasetLabel.toLowerCase()}: ${error instanceof Error ? error.message : 'Unknown error'}`);
     } finally {
       setIsExporting(false);
     }
   };
 
-  const getExportIcon = () => {
-    switch (exportType) {
-      case 'pdf':
-        return <FileText className="h-5 w-5" />;
-      case 'word':
-        return <FileDown className="h-5 w-5" />;
-      default:
-        return <FileText className="h-5 w-5" />;
-    }
-  };
+  const ExportIcon = formatIcons[exportType];
 
   const getExportButtonText = () => {
     if (isExporting) return 'Exporting...';
     if (exportType === 'pdf' && isPdfLoading) return 'Generating PDF...';
-    switch (exportType) {
-      case 'pdf':
-        return 'Download PDF';
-      case 'word':
-        return 'Download Word Document';
-      
-      default:
-        return 'Export';
-    }
+    return `Download ${exportFormatDetails[exportType].label}`;
   };
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent className="max-w-md">
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
         <DialogHeader>
-          <DialogTitle>Export {contentType === 'testimonies' ? 'Testimonies' : 
-                               contentType === 'prayer_requests' ? 'Prayer Requests' : 
-                               'Contact Messages'}</DialogTitle>
+          <DialogTitle>Export {datasetLabel}</DialogTitle>
         </DialogHeader>
 
         <div className="space-y-6">
           {/* Export Type Selection */}
           <div className="space-y-3">
             <Label>Export Format</Label>
-            <div className="grid grid-cols-3 gap-2">
-              {[
-                { value: 'pdf' as const, label: 'PDF', icon: FileText, disabled: !pdfAvailable || isCheckingPdf },
-                { value: 'word' as const, label: 'Word', icon: FileDown, disabled: false }
-              ].map(({ value, label, icon: Icon, disabled }) => (
+            <div className="grid grid-cols-5 gap-2">
+              {EXPORT_FORMATS.map((value) => {
+                const Icon = formatIcons[value];
+                const disabled = value === 'pdf' && (!pdfAvailable || isCheckingPdf);
+                return (
+                  <Button
+                    key={value}
+                    variant={exportType === value ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => {
+                      if (value === 'pdf' && !pdfAvailable) {
+                        toast.error('PDF export is not available. Please use Word export instead.');
+                        return;
+                      }
+                      setExportType(value);
+                    }}
+                    disabled={disabled}
+                    className="flex flex-col items-center space-y-1 h-auto py-3"
+                  >
+                    <Icon className="h-4 w-4" />
+                    <span className="text-xs">
+                      {exportFormatDetails[value].label}
+                      {value === 'pdf' && isCheckingPdf && (
+                        <span className="inline-flex items-center ml-1">
+                          <Loader2 className="h-3 w-3 animate-spin" />
+                        </span>
+                      )}
+                    </span>
+                  </Button>
+                );
+              })}
+            </div>
+            {!pdfAvailable && !isCheckingPdf && (
+              <p className="text-xs text-gray-500">PDF export is not available. Please use another format.</p>
+            )}
+          </div>
+
+          {/* Report Template */}
+          {isDocument && (
+            <div className="space-y-2">
+              <Label htmlFor="report-template">Report Template</Label>
+              <Select value={template} onValueChange={(value) => setTemplate(value as ReportTemplate)}>
+                <SelectTrigger id="report-template">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {getReportTemplates(dataset).map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {reportTemplateDetails[value].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-gray-500">{reportTemplateDetails[template].description}</p>
+            </div>
+          )}
+
+          {/* Column Selection */}
+          {isPrayerList ? (
+            <p className="text-sm text-gray-600">
+              The prayer list shows names and requests only, so it can be read out in church.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label>Columns</Label>
                 <Button
-                  key={value}
-                  variant={exportType === value ? 'default' : 'outline'}
+                  variant="link"
                   size="sm"
-                  onClick={() => {
-                    if (value === 'pdf' && !pdfAvailable) {
-                      toast.error('PDF export is not available. Please use Word export instead.');
-                      return;
-                    }
-                    setExportType(value);
-                  }}
-                  disabled={disabled}
-                  className="flex flex-col items-center space-y-1 h-auto py-3"
+                  className="h-auto p-0"
+                  onClick={() => setSelectedColumns(
+                    chosenColumns.length === columns.length ? [] : columns.map(column => column.key)
+                  )}
                 >
-                  <Icon className="h-4 w-4" />
-                  <span className="text-xs">
-                    {label}
-                    {value === 'pdf' && isCheckingPdf && (
-                      <span className="inline-flex items-center ml-1">
-                        <Loader2 className="h-3 w-3 animate-spin" />
-                      </span>
-                    )}
-                  </span>
+                  {chosenColumns.length === columns.length ? 'Clear all' : 'Select all'}
                 </Button>
-              ))}
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                {columns.map((column) => (
+                  <div key={column.key} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`export-column-${column.key}`}
+                      checked={selectedColumns.includes(column.key)}
+                      onCheckedChange={(checked) => toggleColumn(column.key, checked === true)}
+                    />
+                    <Label htmlFor={`export-column-${column.key}`} className="text-sm font-normal">
+                      {column.header}
+                    </Label>
+                  </div>
+                ))}
+              </div>
             </div>
-            <p className="text-xs text-gray-500">
-              {isCheckingPdf 
-                ? 'Checking PDF export availability...'
-                : pdfAvailable 
-                  ? 'PDF export is available and ready to use'
-                  : 'PDF export is not available. Please use Word export instead.'
-              }
-            </p>
-          </div>
+          )}
 
           {/* Export Options */}
-          <div className="space-y-4">
-            <Label>Export Options</Label>
-            
-            <div className="flex items-center justify-between">
-              <Label htmlFor="include-metadata" className="text-sm">
-                Include metadata
-              </Label>
-              <Switch
-                id="include-metadata"
-                checked={exportOptions.includeMetadata}
-                onCheckedChange={(checked) => 
-                  setExportOptions(prev => ({ ...prev, includeMetadata: checked }))
-                }
-              />
-            </div>
+          {isDocument && (
+            <div className="space-y-4">
+              <Label>Export Options</Label>
 
-            <div className="flex items-center justify-between">
-              <Label htmlFor="include-photos" className="text-sm">
-                Include photos
-              </Label>
-              <Switch
-                id="include-photos"
-                checked={exportOptions.includePhotos}
-                onCheckedChange={(checked) => 
-                  setExportOptions(prev => ({ ...prev, includePhotos: checked }))
-                }
-              />
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="church-name" className="text-sm">
-                Church Name
-              </Label>
-              <Input
-                id="church-name"
-                value={exportOptions.churchName}
-                onChange={(e) => 
-                  setExportOptions(prev => ({ ...prev, churchName: e.target.value }))
-                }
-                placeholder="Enter church name"
-              />
-            </div>
-          </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="include-metadata" className="text-sm">
+                  Include metadata
+                </Label>
+                <Switch
+                  id="include-metadata"
+                  checked={exportOptions.includeMetadata}
+                  onCheckedChange={(checked) =>
+                    setExportOptions(prev => ({ ...prev, includeMetadata: checked }))
+                  }
+                />
+              </div>
 
+              {hasReportPhotos(dataset) && !isPrayerList && (
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="include-photos" className="text-sm">
+                    Include photos
+                  </Label>
+                  <Switch
+                    id="include-photos"
+                    checked={exportOptions.includePhotos}
+                    onCheckedChange={(checked) =>
+                      setExportOptions(prev => ({ ...prev, includePhotos: checked }))
+                    }
+                  />
+                </div>
+              )}
 
+              <div className="space-y-2">
+                <Label htmlFor="church-name" className="text-sm">
+                  Church Name
+                </Label>
+                <Input
+                  id="church-name"
+                  value={exportOptions.churchName}
+                  onChange={(e) =>
+                    setExportOptions(prev => ({ ...prev, churchName: e.target.value }))
+                  }
+                  placeholder="Enter church name"
+                />
+                <p className="text-xs text-gray-500">
+                  {exportOptions.churchLogo
+                    ? 'The church logo from Settings is printed at the top of the report.'
+                    : 'Upload a church logo in Settings to print it at the top of the report.'}
+                </p>
+              </div>
+            </div>
+          )}
 
           {/* Export Summary */}
           <div className="bg-gray-50 p-3 rounded-lg">
             <p className="text-sm text-gray-600">
-              Exporting {itemsToExport.length} {contentType === 'testimonies' ? 'testimonie' : 
-                                               contentType === 'prayer_requests' ? 'prayer request' : 
-                                               'contact message'}{itemsToExport.length !== 1 ? 's' : ''}
+              Exporting {items.length} {items.length !== 1 ? 'rows' : 'row'}
+              {!isPrayerList && ` with ${chosenColumns.length} of ${columns.length} columns`}
+            </p>
+            <p className="text-xs text-gray-500 mt-1">
+              A copy is kept in the export history for {retentionDays} days.
             </p>
-            {exportType === 'pdf' && !pdfAvailable && (
-              <p className="text-xs text-red-600 mt-1">
-                ❌ PDF export is not available
-              </p>
-            )}
           </div>
 
           {/* Actions */}
@@ -351,15 +379,15 @@ export default function ExportModal({
             <Button variant="outline" onClick={onClose} disabled={isExporting}>
               Cancel
             </Button>
-            <Button 
-              onClick={handleExport} 
-              disabled={isExporting || isPdfLoading}
+            <Button
+              onClick={handleExport}
+              disabled={isExporting || isPdfLoading || items.length === 0 || (!isPrayerList && chosenColumns.length === 0)}
               className="min-w-[120px]"
             >
               {isExporting || isPdfLoading ? (
                 <Loader2 className="h-4 w-4 animate-spin mr-2" />
               ) : (
-                getExportIcon()
+                <ExportIcon className="h-5 w-5" />
               )}
               {getExportButtonText()}
             </Button>
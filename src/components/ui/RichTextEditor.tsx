@@ -27,8 +27,11 @@ interface RichTextEditorProps {
 
 export function RichTextEditor({ content, onChange, placeholder, className }: RichTextEditorProps) {
   const editor = useEditor({
+    // Render on the client only; rendering during SSR causes hydration mismatches
+    immediatelyRender: false,
     extensions: [
-      StarterKit,
+      // StarterKit bundles Link in v3; the configured Link below replaces it
+      StarterKit.configure({ link: false }),
       Link.configure({
         openOnClick: false,
         HTMLAttributes: {
@@ -1,13 +1,19 @@
 'use client';
 
 import { createContext, useContext, useEffect, useState } from 'react';
-import { User, onAuthStateChanged, signInWithEmailAndPassword, signOut, updatePassword } from 'firebase/auth';
+import { User, onAuthStateChanged, signInWithEmailAndPassword, createUserWithEmailAndPassword, signOut, updatePassword } from 'firebase/auth';
 import { auth } from '@/lib/firebase';
+import { Timestamp } from 'firebase/firestore';
+import { toast } from 'sonner';
+import { getUserProfile, updateUserProfile } from '@/lib/firestore';
+import { UserRole, normalizeRole } from '@/lib/auth/roles';
 
 interface AuthContextType {
   user: User | null;
+  role: UserRole | null;
   loading: boolean;
   signIn: (email: string, password: string) => Promise<void>;
+  signUp: (email: string, password: string) => Promise<void>;
   changePassword: (newPassword: string) => Promise<void>;
   logout: () => Promise<void>;
 }
@@ -16,15 +22,51 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
+  const [role, setRole] = useState<UserRole | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     console.log('🔐 AuthProvider: Initializing auth state listener...');
     
     console.log('🔄 AuthProvider: Setting up auth state listener...');
-    const unsubscribe = onAuthStateChanged(auth, (user) => {
+    const unsubscribe = onAuthStateChanged(auth, async (user) => {
       console.log('👤 AuthProvider: Auth state changed:', user ? 'User logged in' : 'No user');
+      setLoading(true);
+
+      let resolvedRole: UserRole | null = null;
+      if (user) {
+        try {
+          const profile = await getUserProfile(user.uid);
+
+          if (profile?.isActive === false) {
+            console.warn('🚫 AuthProvider: Account is deactivated, signing out');
+            toast.error('Your account has been deactivated. Contact an administrator for access.');
+            // Signing out fires this listener again with no user
+            await signOut(auth);
+            return;
+          }
+
+          // Users without a profile yet still get the default role so they can finish onboarding
+          resolvedRole = normalizeRole(profile?.role);
+
+          // Mirror the Firebase Auth sign-in time so super admins can see it on the team page
+          const lastSignInTime = user.metadata.lastSignInTime;
+          if (profile && lastSignInTime) {
+            const lastSignInAt = Timestamp.fromDate(new Date(lastSignInTime));
+            if (!profile.lastSignInAt || profile.lastSignInAt.toMillis() !== lastSignInAt.toMillis()) {
+              updateUserProfile(user.uid, { lastSignInAt }).catch((error) => {
+                console.warn('⚠️ AuthProvider: Failed to record last sign-in:', error);
+              });
+            }
+          }
+        } catch (error) {
+          console.error('❌ AuthProvider: Failed to load user role:', error);
+          resolvedRole = normalizeRole(undefined);
+        }
+      }
+
       setUser(user);
+      setRole(resolvedRole);
       setLoading(false);
     });
 
@@ -42,6 +84,17 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
+  const signUp = async (email: string, password: string) => {
+    console.log('🔐 AuthProvider: Attempting email/password sign-up...');
+    try {
+      await createUserWithEmailAndPassword(auth, email, password);
+      console.log('✅ AuthProvider: Email/password sign-up successful');
+    } catch (error) {
+      console.error('❌ AuthProvider: Email/password sign-up failed:', error);
+      throw error;
+    }
+  };
+
   const changePassword = async (newPassword: string) => {
     console.log('🔐 AuthProvider: Attempting password change...');
     try {
@@ -67,8 +120,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
   const value = {
     user,
+    role,
     loading,
     signIn,
+    signUp,
     changePassword,
     logout,
   };
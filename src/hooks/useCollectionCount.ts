@@ -1,8 +1,16 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { collection, getCountFromServer, query, where } from 'firebase/firestore';
-import { db } from '@/lib/firebase';
+import { where } from 'firebase/firestore';
+import {
+  eventsRepository,
+  galleryRepository,
+  newsletterSignupsRepository,
+  pastorsRepository,
+  prayerRequestsRepository,
+  testimoniesRepository,
+} from '@/lib/firestore';
+import { carouselRepository } from '@/lib/firestore/content';
 
 interface CollectionCounts {
   carousel: number;
@@ -33,7 +41,17 @@ export function useCollectionCounts() {
         setLoading(true);
         setError(null);
 
-        // Fetch counts for all collections
+        // Fetch counts for all collections. Roles without read access to a
+        // collection get a permission error for it, which is reported as 0.
+        const results = await Promise.allSettled([
+          carouselRepository.count(),
+          pastorsRepository.count([where('category', '==', 'pastor')]),
+          eventsRepository.count(),
+          galleryRepository.count(),
+          testimoniesRepository.count(),
+          prayerRequestsRepository.count(),
+          newsletterSignupsRepository.count(),
+        ]);
         const [
           carouselCount,
           pastorsCount,
@@ -42,24 +60,16 @@ export function useCollectionCounts() {
           testimoniesCount,
           prayerRequestsCount,
           newsletterSignupsCount,
-        ] = await Promise.all([
-          getCountFromServer(collection(db, 'carousel')),
-          getCountFromServer(query(collection(db, 'pastors'), where('category', '==', 'pastor'))),
-          getCountFromServer(collection(db, 'events')),
-          getCountFromServer(collection(db, 'gallery')),
-          getCountFromServer(collection(db, 'testimonies')),
-          getCountFromServer(collection(db, 'prayerRequests')),
-          getCountFromServer(collection(db, 'newsletterSignups')),
-        ]);
+        ] = results.map(result => result.status === 'fulfilled' ? result.value : 0);
 
         setCounts({
-          carousel: carouselCount.data().count,
-          leaders: pastorsCount.data().count,
-          events: eventsCount.data().count,
-          gallery: galleryCount.data().count,
-          testimonies: testimoniesCount.data().count,
-          prayerRequests: prayerRequestsCount.data().count,
-          newsletterSignups: newsletterSignupsCount.data().count,
+          carousel: carouselCount,
+          leaders: pastorsCount,
+          events: eventsCount,
+          gallery: galleryCount,
+          testimonies: testimoniesCount,
+          prayerRequests: prayerRequestsCount,
+          newsletterSignups: newsletterSignupsCount,
         });
       } catch (err) {
         console.error('Error fetching collection counts:', err);
@@ -0,0 +1,94 @@
+'use client';
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { QueryDocumentSnapshot, Unsubscribe } from 'firebase/firestore';
+import type { Page } from '@/lib/firestore/repository';
+
+interface InboxWindowOptions<T> {
+  enabled: boolean;
+  filtersKey: string; // changes whenever the server-side filters change, to start again from the first page
+  loadPage: (after: QueryDocumentSnapshot | null) => Promise<Page<T>>;
+  subscribe: (until: QueryDocumentSnapshot | null, callback: (items: T[]) => void) => Unsubscribe;
+  onError: (error: unknown) => void;
+}
+
+// Pages through an inbox collection, newest first. One listener keeps every page loaded so far
+// live: it runs from the newest document down to the last loaded one, so new submissions appear
+// at the top while older pages stay unread until loadMore is called.
+export function useInboxWindow<T>({ enabled, filtersKey, loadPage, subscribe, onError }: InboxWindowOptions<T>) {
+  const [items, setItems] = useState<T[]>([]);
+  const [cursor, setCursor] = useState<QueryDocumentSnapshot | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+
+  // The callers pass new functions on every render; the filters they close over are tracked by filtersKey
+  const loadPageRef = useRef(loadPage);
+  const subscribeRef = useRef(subscribe);
+  const onErrorRef = useRef(onError);
+  loadPageRef.current = loadPage;
+  subscribeRef.current = subscribe;
+  onErrorRef.current = onError;
+
+  // Bumped whenever the first page is reloaded, so a loadMore started for the old filters is dropped
+  const generationRef = useRef(0);
+
+  useEffect(() => {
+    generationRef.current++;
+    setIsLoadingMore(false);
+
+    if (!enabled) {
+      setItems([]);
+      setCursor(null);
+      setHasMore(false);
+      setIsLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    loadPageRef.current(null)
+      .then(page => {
+        if (cancelled) return;
+        setItems(page.items);
+        setCursor(page.cursor);
+        setHasMore(page.hasMore);
+      })
+      .catch(error => {
+        if (!cancelled) onErrorRef.current(error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, filtersKey]);
+
+  useEffect(() => {
+    if (!enabled || isLoading) return;
+    return subscribeRef.current(cursor, setItems);
+  }, [enabled, isLoading, cursor]);
+
+  const loadMore = useCallback(async () => {
+    if (!cursor || isLoadingMore) return;
+
+    const generation = generationRef.current;
+    setIsLoadingMore(true);
+    try {
+      const page = await loadPageRef.current(cursor);
+      if (generation !== generationRef.current) return;
+      // Show the page straight away; the listener then moves its end down to the new cursor
+      setItems(prev => [...prev, ...page.items]);
+      setCursor(page.cursor ?? cursor);
+      setHasMore(page.hasMore);
+    } catch (error) {
+      if (generation === generationRef.current) onErrorRef.current(error);
+    } finally {
+      if (generation === generationRef.current) setIsLoadingMore(false);
+    }
+  }, [cursor, isLoadingMore]);
+
+  return { items, isLoading, hasMore, isLoadingMore, loadMore };
+}
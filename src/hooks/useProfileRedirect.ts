@@ -2,8 +2,11 @@
 
 import { useEffect, useState } from 'react';
 import { useRouter, usePathname } from 'next/navigation';
+import { signOut } from 'firebase/auth';
+import { toast } from 'sonner';
+import { auth } from '@/lib/firebase';
 import { useAuth } from '@/contexts/AuthContext';
-import { checkUserProfileExists, getUserProfile } from '@/lib/firestore';
+import { checkUserProfileExists, getUserProfile, findPendingInvitationByEmail } from '@/lib/firestore';
 
 export function useProfileRedirect() {
   const { user, loading: authLoading } = useAuth();
@@ -104,8 +107,16 @@ export function useDashboardAccess() {
         
         if (!profileExists) {
           setCanAccess(false);
-          if (pathname !== '/dashboard/profile') {
-            router.push('/dashboard/profile');
+
+          // Accounts without a profile must finish onboarding through their invitation.
+          // Invitations are only found for verified addresses (see firestore.rules).
+          const invitation = user.email && user.emailVerified ? await findPendingInvitationByEmail(user.email) : null;
+          if (invitation) {
+            router.push(`/invite/${invitation.id}`);
+          } else {
+            toast.error('Your account has not been invited to the dashboard');
+            await signOut(auth);
+            router.push('/login');
           }
           return;
         }
@@ -2,17 +2,34 @@
 
 import { useEffect } from 'react';
 import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
 import { useAuth } from '@/contexts/AuthContext';
+import { Resource, canRead, canWrite } from '@/lib/auth/roles';
 
-export function useProtectedRoute() {
-  const { user, loading } = useAuth();
+export function useProtectedRoute(resource?: Resource) {
+  const { user, role, loading } = useAuth();
   const router = useRouter();
+  const hasAccess = !resource || canRead(role, resource);
 
   useEffect(() => {
-    if (!loading && !user) {
+    if (loading) return;
+
+    if (!user) {
       router.push('/login');
+      return;
+    }
+
+    if (!hasAccess) {
+      toast.error('You do not have permission to view this page');
+      router.push('/dashboard');
     }
-  }, [user, loading, router]);
+  }, [user, loading, hasAccess, router]);
 
-  return { user, loading };
-} 
\ No newline at end of file
+  return {
+    user,
+    role,
+    // Keep pages in their loading state until an unauthorised visitor has been redirected
+    loading: loading || !user || !hasAccess,
+    canWrite: resource ? canWrite(role, resource) : false,
+  };
+}
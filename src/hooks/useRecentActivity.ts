@@ -1,8 +1,9 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { collection, query, orderBy, limit, onSnapshot, Timestamp } from 'firebase/firestore';
+import { Timestamp } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
+import { activityLogRepository } from '@/lib/firestore';
 
 export interface ActivityItem {
   id: string;
@@ -15,6 +16,11 @@ export interface ActivityItem {
   metadata?: Record<string, unknown>;
 }
 
+// One-off read of the newest entries, e.g. for exporting the activity log
+export async function getActivityLog(limitCount: number = 1000): Promise<ActivityItem[]> {
+  return activityLogRepository.list({ limit: limitCount });
+}
+
 export function useRecentActivity(limitCount: number = 20) {
   const [activities, setActivities] = useState<ActivityItem[]>([]);
   const [loading, setLoading] = useState(true);
@@ -31,38 +37,13 @@ export function useRecentActivity(limitCount: number = 20) {
     setError(null);
 
     try {
-      // Query the centralized activityLog collection
-      const q = query(
-        collection(db, 'activityLog'),
-        orderBy('timestamp', 'desc'),
-        limit(limitCount)
-      );
-
-      // Set up real-time listener
-      const unsubscribe = onSnapshot(
-        q,
-        (snapshot) => {
-          const activityData: ActivityItem[] = [];
-          
-          snapshot.forEach((doc) => {
-            const data = doc.data();
-            if (data.timestamp) {
-              activityData.push({
-                id: doc.id,
-                collection: data.collection || 'unknown',
-                action: data.action || 'create',
-                title: data.title || 'Untitled',
-                description: data.description || 'No description',
-                timestamp: data.timestamp,
-                userId: data.userId || null,
-                metadata: data.metadata || {}
-              });
-            }
-          });
-
+      // Real-time listener on the centralized activityLog collection
+      const unsubscribe = activityLogRepository.subscribe(
+        (activityData) => {
           setActivities(activityData);
           setLoading(false);
         },
+        { limit: limitCount },
         (err) => {
           console.error('Error listening to activity log:', err);
           setError(err.message);
@@ -0,0 +1,140 @@
+// Dashboard roles and the per-resource permissions they grant.
+// Keep this matrix in sync with the role lists in firestore.rules.
+
+export const USER_ROLES = [
+  'super-admin',
+  'content-editor',
+  'pastoral-care',
+  'events-coordinator',
+  'read-only',
+] as const;
+
+export type UserRole = typeof USER_ROLES[number];
+
+export const DEFAULT_USER_ROLE: UserRole = 'read-only';
+
+export const roleLabels: Record<UserRole, string> = {
+  'super-admin': 'Super Admin',
+  'content-editor': 'Content Editor',
+  'pastoral-care': 'Pastoral Care',
+  'events-coordinator': 'Events Coordinator',
+  'read-only': 'Read Only',
+};
+
+export const roleDescriptions: Record<UserRole, string> = {
+  'super-admin': 'Full access to every module, settings and user management',
+  'content-editor': 'Manages carousel, leaders, gallery, testimonies and newsletter',
+  'pastoral-care': 'Handles prayer requests, testimonies and contact messages',
+  'events-coordinator': 'Manages one-time and recurring events, rooms and resources',
+  'read-only': 'Can view public content modules but cannot make changes',
+};
+
+// A resource groups the Firestore collections behind one dashboard module:
+//   leaders  -> pastors, teamLeads, leaders
+//   events   -> events, recurringEvents, skippedRecurringEvents, recurringEventOverrides, resources
+//   content  -> mission_vision, service_times, about, community_service
+//   eventRegistrations -> eventRegistrations (RSVPs hold personal details, so fewer roles see them)
+//   newsletter -> newsletterSignups, campaigns (and their recipients)
+//   mail     -> mailQueue (the outbox; any editing role may queue mail it sends itself)
+//   migrations -> _migrations (data migrations and the record of their runs)
+// Export history (exports, and the older *_exports collections) follows the read permission
+// of the exported resource; see exportDatasetResources in src/lib/export/datasets.ts.
+export type Resource =
+  | 'carousel'
+  | 'leaders'
+  | 'events'
+  | 'eventRegistrations'
+  | 'gallery'
+  | 'testimonies'
+  | 'prayerRequests'
+  | 'contactMessages'
+  | 'newsletter'
+  | 'content'
+  | 'settings'
+  | 'mail'
+  | 'migrations'
+  | 'users';
+
+interface ResourcePermissions {
+  read: readonly UserRole[];
+  write: readonly UserRole[];
+}
+
+export const resourcePermissions: Record<Resource, ResourcePermissions> = {
+  carousel: {
+    read: ['super-admin', 'content-editor', 'read-only'],
+    write: ['super-admin', 'content-editor'],
+  },
+  leaders: {
+    read: ['super-admin', 'content-editor', 'read-only'],
+    write: ['super-admin', 'content-editor'],
+  },
+  events: {
+    read: ['super-admin', 'content-editor', 'events-coordinator', 'read-only'],
+    write: ['super-admin', 'events-coordinator'],
+  },
+  eventRegistrations: {
+    read: ['super-admin', 'events-coordinator'],
+    write: ['super-admin', 'events-coordinator'],
+  },
+  gallery: {
+    read: ['super-admin', 'content-editor', 'read-only'],
+    write: ['super-admin', 'content-editor'],
+  },
+  testimonies: {
+    read: ['super-admin', 'content-editor', 'pastoral-care', 'read-only'],
+    write: ['super-admin', 'content-editor', 'pastoral-care'],
+  },
+  prayerRequests: {
+    read: ['super-admin', 'pastoral-care'],
+    write: ['super-admin', 'pastoral-care'],
+  },
+  contactMessages: {
+    read: ['super-admin', 'pastoral-care'],
+    write: ['super-admin', 'pastoral-care'],
+  },
+  newsletter: {
+    read: ['super-admin', 'content-editor', 'read-only'],
+    write: ['super-admin', 'content-editor'],
+  },
+  content: {
+    read: USER_ROLES,
+    write: ['super-admin', 'content-editor'],
+  },
+  settings: {
+    read: USER_ROLES,
+    write: ['super-admin'],
+  },
+  mail: {
+    read: ['super-admin'],
+    write: ['super-admin'],
+  },
+  migrations: {
+    read: ['super-admin'],
+    write: ['super-admin'],
+  },
+  users: {
+    read: ['super-admin'],
+    write: ['super-admin'],
+  },
+};
+
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === 'string' && (USER_ROLES as readonly string[]).includes(value);
+}
+
+// Profiles created before roles existed hold free-form titles in `role`.
+// Anything unrecognised is treated as the least privileged role.
+export function normalizeRole(value: unknown): UserRole {
+  return isUserRole(value) ? value : DEFAULT_USER_ROLE;
+}
+
+export function canRead(role: UserRole | null | undefined, resource: Resource): boolean {
+  if (!role) return false;
+  return resourcePermissions[resource].read.includes(role);
+}
+
+export function canWrite(role: UserRole | null | undefined, resource: Resource): boolean {
+  if (!role) return false;
+  return resourcePermissions[resource].write.includes(role);
+}
@@ -1,9 +1,11 @@
-import { signInWithPopup, GoogleAuthProvider } from 'firebase/auth';
+import { signInWithPopup, GoogleAuthProvider, getAdditionalUserInfo, deleteUser, signOut, UserCredential } from 'firebase/auth';
 import { auth } from '../firebase';
+import { checkUserProfileExists, findPendingInvitationByEmail } from '../firestore';
 
 export async function signInWithGoogle() {
   console.log('🔐 Starting Google sign-in process...');
   
+  let result: UserCredential;
   try {
     console.log('🚀 Creating Google Auth provider...');
     const provider = new GoogleAuthProvider();
@@ -14,9 +16,8 @@ export async function signInWithGoogle() {
     });
 
     console.log('🔄 Attempting sign-in with popup...');
-    const result = await signInWithPopup(auth, provider);
+    result = await signInWithPopup(auth, provider);
     console.log('✅ Google sign-in successful');
-    return result;
   } catch (error) {
     console.error('❌ Google sign-in failed:', error);
     // Handle specific Firebase auth errors
@@ -34,4 +35,28 @@ export async function signInWithGoogle() {
         throw new Error(`Sign-in failed: ${firebaseError.message}`);
     }
   }
-} 
\ No newline at end of file
+
+  // Only existing dashboard users and people with an open invitation may sign in
+  console.log('🔍 Checking dashboard access for Google account...');
+  const hasProfile = await checkUserProfileExists(result.user.uid);
+  if (!hasProfile) {
+    const invitation = result.user.email
+      ? await findPendingInvitationByEmail(result.user.email)
+      : null;
+
+    if (!invitation) {
+      console.warn('🚫 Google account has not been invited, rejecting sign-in');
+      if (getAdditionalUserInfo(result)?.isNewUser) {
+        try {
+          await deleteUser(result.user);
+        } catch (error) {
+          console.error('❌ Failed to remove uninvited account:', error);
+        }
+      }
+      await signOut(auth);
+      throw new Error('This Google account has not been invited to the dashboard. Please ask an administrator for an invitation.');
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,180 @@
+// Column definitions for every exportable dashboard table. The export dialog offers these
+// columns, in this order, for every format.
+
+import { format } from 'date-fns';
+import { Timestamp } from 'firebase/firestore';
+import { Event, EventRegistration, ExportDataset } from '../firestore';
+import { Resource } from '../auth/roles';
+import { getTestimonyStatus, testimonyStatusLabels } from '../utils/testimonyUtils';
+import { getPrayerRequestStatus, prayerStatusLabels } from '../utils/prayerCareUtils';
+import { contactStatusLabels } from '../utils/contactMessageUtils';
+import { formatRegistrationAnswer, getRegistrationPlacements, placementLabels } from '../utils/registrationUtils';
+import { getSignupStatus, interestLabels, signupStatusLabels, sourceLabels } from '../utils/newsletterUtils';
+import { ExportColumn, ExportDatasetItems, ExportItem } from './types';
+
+export const exportDatasetLabels: Record<ExportDataset, string> = {
+  testimonies: 'Testimonies',
+  prayerRequests: 'Prayer Requests',
+  contactMessages: 'Contact Messages',
+  eventRegistrations: 'Event Registrations',
+  events: 'Events',
+  leaders: 'Leaders',
+  gallery: 'Gallery',
+  newsletter: 'Newsletter Subscribers',
+  activityLog: 'Activity Log',
+};
+
+// File name prefix, e.g. prayer_requests_2026-10-19_09-30-00.csv
+export const exportFilePrefixes: Record<ExportDataset, string> = {
+  testimonies: 'testimonies',
+  prayerRequests: 'prayer_requests',
+  contactMessages: 'contact_messages',
+  eventRegistrations: 'event_registrations',
+  events: 'events',
+  leaders: 'leaders',
+  gallery: 'gallery',
+  newsletter: 'newsletter_subscribers',
+  activityLog: 'activity_log',
+};
+
+// Dashboard module whose read permission covers the dataset; null means any dashboard user.
+// Mirrored by the exports rules in firestore.rules.
+export const exportDatasetResources: Record<ExportDataset, Resource | null> = {
+  testimonies: 'testimonies',
+  prayerRequests: 'prayerRequests',
+  contactMessages: 'contactMessages',
+  eventRegistrations: 'eventRegistrations',
+  events: 'events',
+  leaders: 'leaders',
+  gallery: 'gallery',
+  newsletter: 'newsletter',
+  activityLog: null,
+};
+
+const formatTimestamp = (timestamp: Timestamp | null | undefined) =>
+  timestamp ? format(timestamp.toDate(), 'yyyy-MM-dd HH:mm') : '';
+
+type DatasetColumns = { [D in ExportDataset]: ExportColumn<ExportDatasetItems[D]>[] };
+
+export const exportColumns: DatasetColumns = {
+  testimonies: [
+    { key: 'name', header: 'Name', value: t => (t.isAnonymous ? 'Anonymous' : t.name) },
+    { key: 'status', header: 'Status', value: t => testimonyStatusLabels[getTestimonyStatus(t)] },
+    { key: 'testimony', header: 'Testimony', value: t => t.testimony },
+    { key: 'publicExcerpt', header: 'Public Excerpt', value: t => t.publicExcerpt },
+    { key: 'allowSharing', header: 'Sharing Allowed', value: t => t.allowSharing ?? false },
+    { key: 'isRead', header: 'Read', value: t => t.isRead ?? false },
+    { key: 'createdAt', header: 'Submitted', value: t => formatTimestamp(t.createdAt) },
+    { key: 'publishAt', header: 'Publish At', value: t => formatTimestamp(t.publishAt) },
+  ],
+  prayerRequests: [
+    { key: 'name', header: 'Name', value: r => (r.isAnonymous ? 'Anonymous' : r.name) },
+    { key: 'email', header: 'Email', value: r => (r.isAnonymous ? '' : r.email) },
+    { key: 'request', header: 'Request', value: r => r.request },
+    { key: 'status', header: 'Status', value: r => prayerStatusLabels[getPrayerRequestStatus(r)] },
+    { key: 'assignedTo', header: 'Assigned To', value: r => r.assignedToName },
+    { key: 'followUpDate', header: 'Follow-up Date', value: r => r.followUpDate },
+    { key: 'outcome', header: 'Outcome', value: r => r.outcome },
+    { key: 'answeredAt', header: 'Answered', value: r => formatTimestamp(r.answeredAt) },
+    { key: 'createdAt', header: 'Submitted', value: r => formatTimestamp(r.createdAt) },
+  ],
+  contactMessages: [
+    { key: 'name', header: 'Name', value: m => m.name },
+    { key: 'email', header: 'Email', value: m => m.email },
+    { key: 'phone', header: 'Phone', value: m => m.phone },
+    { key: 'subject', header: 'Subject', value: m => m.subject },
+    { key: 'message', header: 'Message', value: m => m.message },
+    { key: 'preferredContactMethod', header: 'Preferred Contact', value: m => m.preferredContactMethod },
+    { key: 'status', header: 'Status', value: m => contactStatusLabels[m.status] },
+    { key: 'repliedAt', header: 'Last Reply', value: m => formatTimestamp(m.repliedAt) },
+    { key: 'createdAt', header: 'Received', value: m => formatTimestamp(m.createdAt) },
+  ],
+  eventRegistrations: [
+    { key: 'name', header: 'Name', value: r => r.name },
+    { key: 'email', header: 'Email', value: r => r.email },
+    { key: 'phone', header: 'Phone', value: r => r.phone },
+    { key: 'checkedIn', header: 'Checked In', value: r => r.checkedIn },
+    { key: 'createdAt', header: 'Registered', value: r => formatTimestamp(r.createdAt) },
+  ],
+  events: [
+    { key: 'title', header: 'Title', value: e => e.title },
+    { key: 'date', header: 'Date', value: e => e.date },
+    { key: 'startTime', header: 'Start', value: e => e.startTime },
+    { key: 'endTime', header: 'End', value: e => e.endTime },
+    { key: 'location', header: 'Location', value: e => e.location },
+    { key: 'description', header: 'Description', value: e => e.description },
+    { key: 'recurring', header: 'Recurring', value: e => Boolean(e.recurringEventId) },
+    { key: 'occurrenceStatus', header: 'Occurrence Status', value: e => e.occurrenceStatus },
+    { key: 'registration', header: 'Registration Open', value: e => e.registration?.enabled ?? false },
+    { key: 'capacity', header: 'Capacity', value: e => e.registration?.capacity },
+  ],
+  leaders: [
+    { key: 'customId', header: 'Rank', value: l => l.customId },
+    { key: 'name', header: 'Name', value: l => l.name },
+    { key: 'role', header: 'Role', value: l => l.role },
+    { key: 'category', header: 'Category', value: l => (l.category === 'pastor' ? 'Pastor' : 'Team Lead') },
+    { key: 'bio', header: 'Bio', value: l => l.bio },
+    { key: 'isActive', header: 'Active', value: l => l.isActive },
+    { key: 'image', header: 'Image URL', value: l => l.image },
+  ],
+  gallery: [
+    { key: 'caption', header: 'Caption', value: g => g.caption },
+    { key: 'category', header: 'Category', value: g => g.category },
+    { key: 'imageUrl', header: 'Image URL', value: g => g.imageUrl },
+    { key: 'createdAt', header: 'Uploaded', value: g => formatTimestamp(g.createdAt) },
+  ],
+  newsletter: [
+    { key: 'email', header: 'Email', value: s => s.email },
+    { key: 'name', header: 'Name', value: s => s.name },
+    { key: 'status', header: 'Status', value: s => signupStatusLabels[getSignupStatus(s)] },
+    { key: 'interests', header: 'Interests', value: s => (s.interests || []).map(interest => interestLabels[interest]).join('; ') },
+    { key: 'source', header: 'Source', value: s => (s.source ? sourceLabels[s.source] : '') },
+    { key: 'tags', header: 'Tags', value: s => (s.tags || []).join('; ') },
+    { key: 'createdAt', header: 'Signup Date', value: s => formatTimestamp(s.createdAt) },
+    { key: 'confirmedAt', header: 'Confirmed', value: s => formatTimestamp(s.confirmedAt) },
+  ],
+  activityLog: [
+    { key: 'timestamp', header: 'Time', value: a => formatTimestamp(a.timestamp) },
+    { key: 'action', header: 'Action', value: a => a.action },
+    { key: 'collection', header: 'Collection', value: a => a.collection },
+    { key: 'title', header: 'Title', value: a => a.title },
+    { key: 'description', header: 'Description', value: a => a.description },
+    { key: 'user', header: 'User', value: a => a.userId },
+  ],
+};
+
+// Registration columns for one event: the confirmed/waitlisted place (which depends on
+// every registration for the event) and an answer column per registration question
+export function getEventRegistrationColumns(
+  event: Event,
+  registrations: EventRegistration[]
+): ExportColumn<EventRegistration>[] {
+  const placements = getRegistrationPlacements(registrations, event.registration?.capacity);
+  const [name, email, phone, ...rest] = exportColumns.eventRegistrations;
+
+  return [
+    name,
+    email,
+    phone,
+    { key: 'placement', header: 'Status', value: r => placementLabels[placements.get(r.id!) || 'confirmed'] },
+    ...rest,
+    ...(event.registration?.questions || []).map(question => ({
+      key: `answers.${question.id}`,
+      header: question.label,
+      value: (r: EventRegistration) => formatRegistrationAnswer(question, r.answers?.[question.id]),
+    })),
+  ];
+}
+
+// Short label for an item in the export history, e.g. a person's name or an event title
+export const exportItemTitles: { [D in ExportDataset]: (item: ExportItem<D>) => string } = {
+  testimonies: t => (t.isAnonymous ? 'Anonymous' : t.name),
+  prayerRequests: r => (r.isAnonymous ? 'Anonymous' : r.name || 'Unknown'),
+  contactMessages: m => `${m.name} (${m.subject})`,
+  eventRegistrations: r => r.name,
+  events: e => `${e.title} (${e.date})`,
+  leaders: l => l.name,
+  gallery: g => g.caption || 'Untitled',
+  newsletter: s => s.email,
+  activityLog: a => a.title,
+};
@@ -0,0 +1,143 @@
+// Tabular file builders for CSV, XLSX and JSON exports. Every builder takes the same
+// columns and items, so a table exports identically in each format.
+
+import { ExportFormat } from '../firestore';
+import { toCsvRow } from '../utils/csvUtils';
+import { ExportColumn, ExportValue } from './types';
+
+export const exportFormatDetails: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  csv: { label: 'CSV', extension: 'csv', mimeType: 'text/csv;charset=utf-8' },
+  xlsx: { label: 'Excel', extension: 'xlsx', mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' },
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  pdf: { label: 'PDF', extension: 'pdf', mimeType: 'application/pdf' },
+  word: { label: 'Word', extension: 'docx', mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' },
+};
+
+// Spreadsheet apps run cells starting with these characters as formulas. Form submissions
+// end up in exports, so such text is prefixed with an apostrophe to keep it literal.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Cell text for CSV and document exports; booleans read as Yes/No
+export const toCellText = (value: ExportValue): string => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+};
+
+export function buildCsv<T>(columns: ExportColumn<T>[], items: T[]): Blob {
+  const rows = [
+    toCsvRow(columns.map(column => column.header)),
+    ...items.map(item => toCsvRow(columns.map(column => {
+      const value = column.value(item);
+      if (typeof value === 'number') return value;
+      const text = toCellText(value);
+      return FORMULA_PREFIX.test(text) ? `'${text}` : text;
+    }))),
+  ];
+  // The byte order mark makes Excel read the file as UTF-8
+  return new Blob(['\uFEFF' + rows.join('\r\n')], { type: exportFormatDetails.csv.mimeType });
+}
+
+export function buildJson<T>(columns: ExportColumn<T>[], items: T[]): Blob {
+  const records = items.map(item =>
+    Object.fromEntries(columns.map(column => [column.key, column.value(item) ?? null]))
+  );
+  return new Blob([JSON.stringify(records, null, 2)], { type: exportFormatDetails.json.mimeType });
+}
+
+// Characters XML 1.0 does not allow, even escaped
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g;
+
+const escapeXml = (text: string) =>
+  text
+    .replace(INVALID_XML_CHARS, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// 0 -> A, 25 -> Z, 26 -> AA
+const getColumnName = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+const toXlsxCell = (value: ExportValue, ref: string, style = 0): string => {
+  const styleAttr = style ? ` s="${style}"` : '';
+  if (typeof value === 'number' && Number.isFinite(value)) return `<c r="${ref}"${styleAttr}><v>${value}</v></c>`;
+  const text = toCellText(value);
+  if (!text) return '';
+  return `<c r="${ref}" t="inlineStr"${styleAttr}><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`;
+};
+
+const XLSX_CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+</Types>`;
+
+const XLSX_ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`;
+
+const XLSX_WORKBOOK_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+
+// Style 1 is the bold header row
+const XLSX_STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>
+</styleSheet>`;
+
+// Sheet names are limited to 31 characters and may not contain []:*?/\
+const toSheetName = (name: string) => name.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || 'Sheet1';
+
+// Writes a single-sheet workbook. jszip is loaded on demand, like pdfmake.
+export async function buildXlsx<T>(columns: ExportColumn<T>[], items: T[], sheetName: string): Promise<Blob> {
+  const { default: JSZip } = await import('jszip');
+
+  const headerRow = `<row r="1">${columns.map((column, index) => toXlsxCell(column.header, `${getColumnName(index)}1`, 1)).join('')}</row>`;
+  const dataRows = items.map((item, rowIndex) => {
+    const rowNumber = rowIndex + 2;
+    const cells = columns.map((column, index) => toXlsxCell(column.value(item), `${getColumnName(index)}${rowNumber}`));
+    return `<row r="${rowNumber}">${cells.join('')}</row>`;
+  });
+
+  const sheet = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>
+<sheetData>${headerRow}${dataRows.join('')}</sheetData>
+</worksheet>`;
+
+  const workbook = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets><sheet name="${escapeXml(toSheetName(sheetName))}" sheetId="1" r:id="rId1"/></sheets>
+</workbook>`;
+
+  const zip = new JSZip();
+  const parts: Record<string, string> = {
+    '[Content_Types].xml': XLSX_CONTENT_TYPES,
+    '_rels/.rels': XLSX_ROOT_RELS,
+    'xl/workbook.xml': workbook,
+    'xl/_rels/workbook.xml.rels': XLSX_WORKBOOK_RELS,
+    'xl/styles.xml': XLSX_STYLES,
+    'xl/worksheets/sheet1.xml': sheet,
+  };
+  Object.entries(parts).forEach(([path, content]) => zip.file(path, content, { createFolders: false }));
+
+  return zip.generateAsync({ type: 'blob', mimeType: exportFormatDetails.xlsx.mimeType, compression: 'DEFLATE' });
+}
@@ -0,0 +1,77 @@
+// Column-based export engine. Any dashboard table can be exported by passing its items and
+// columns (see datasets.ts); the result is logged to the exports collection by the caller.
+//   csv   RFC 4180, UTF-8 with a byte order mark, formula-looking text neutralised
+//   xlsx  single sheet with a bold, frozen header row
+//   json  array of objects keyed by column key
+//   pdf / word  a branded report in one of the templates in reports.ts
+
+import { format as formatDate } from 'date-fns';
+import { ExportDataset, ExportFormat, ReportTemplate } from '../firestore';
+import { ExportOptions, exportReportToPDF, exportReportToWord } from '../utils/exportUtils';
+import { buildCsv, buildJson, buildXlsx, exportFormatDetails } from './formats';
+import { exportDatasetLabels, exportFilePrefixes } from './datasets';
+import { buildReport } from './reports';
+import { ExportColumn } from './types';
+
+export * from './types';
+export * from './formats';
+export * from './datasets';
+export * from './reports';
+
+export interface ExportFileRequest<T> {
+  dataset: ExportDataset;
+  format: ExportFormat;
+  items: T[];
+  columns: ExportColumn<T>[];
+  title?: string; // report title and sheet name; defaults to the dataset label
+  subtitle?: string; // PDF and Word only, like the rest below
+  template?: ReportTemplate;
+  options?: ExportOptions;
+}
+
+export interface ExportFile {
+  blob: Blob;
+  fileName: string;
+}
+
+export const getExportFileName = (dataset: ExportDataset, format: ExportFormat, date: Date = new Date()) =>
+  `${exportFilePrefixes[dataset]}_${formatDate(date, 'yyyy-MM-dd_HH-mm-ss')}.${exportFormatDetails[format].extension}`;
+
+export async function createExportFile<T>({
+  dataset,
+  format,
+  items,
+  columns,
+  title = exportDatasetLabels[dataset],
+  subtitle,
+  template = 'table',
+  options,
+}: ExportFileRequest<T>): Promise<ExportFile> {
+  const isReport = format === 'pdf' || format === 'word';
+  if (columns.length === 0 && !(isReport && template === 'prayer-list')) {
+    throw new Error('Choose at least one column to export');
+  }
+
+  let blob: Blob;
+  switch (format) {
+    case 'csv':
+      blob = buildCsv(columns, items);
+      break;
+    case 'xlsx':
+      blob = await buildXlsx(columns, items, title);
+      break;
+    case 'json':
+      blob = buildJson(columns, items);
+      break;
+    case 'pdf':
+    case 'word': {
+      const report = buildReport({ dataset, template, items, columns, title, subtitle });
+      blob = format === 'pdf'
+        ? await exportReportToPDF(report, template, options)
+        : await exportReportToWord(report, template, options);
+      break;
+    }
+  }
+
+  return { blob, fileName: getExportFileName(dataset, format) };
+}
@@ -0,0 +1,108 @@
+// Report content for PDF and Word exports. Items show the selected columns; the dataset's
+// long text column becomes the item body, printed in full, and its image the item photo.
+
+import { ExportDataset, PrayerRequest, ReportTemplate } from '../firestore';
+import { Report } from '../utils/exportUtils';
+import { getAnsweredCountsByMonth, getPrayerRequestStatus } from '../utils/prayerCareUtils';
+import { toCellText } from './formats';
+import { exportItemTitles } from './datasets';
+import { ExportColumn, ExportItem } from './types';
+
+export const reportTemplateDetails: Record<ReportTemplate, { label: string; description: string }> = {
+  table: { label: 'Table summary', description: 'One row per item, long text in full' },
+  booklet: { label: 'Booklet', description: 'A cover page, then one item per page with its photo' },
+  'prayer-list': { label: 'Prayer list', description: 'Numbered names and requests for Sunday intercession, without contact details' },
+};
+
+export const getReportTemplates = (dataset: ExportDataset): ReportTemplate[] =>
+  dataset === 'prayerRequests' ? ['table', 'booklet', 'prayer-list'] : ['table', 'booklet'];
+
+// Column printed as the item body rather than as a field
+const reportBodyColumns: Partial<Record<ExportDataset, string>> = {
+  testimonies: 'testimony',
+  prayerRequests: 'request',
+  contactMessages: 'message',
+  events: 'description',
+  leaders: 'bio',
+};
+
+const reportPhotos: { [D in ExportDataset]?: (item: ExportItem<D>) => string | null | undefined } = {
+  testimonies: t => t.photo,
+  leaders: l => l.image,
+  gallery: g => g.imageUrl,
+};
+
+export const hasReportPhotos = (dataset: ExportDataset) => Boolean(reportPhotos[dataset]);
+
+const PRAYER_LIST_SECTIONS = {
+  needs: 'Prayer Needs',
+  answered: 'Answered Prayers - Give Thanks',
+};
+
+export interface ReportRequest<T> {
+  dataset: ExportDataset;
+  template: ReportTemplate;
+  items: T[];
+  columns: ExportColumn<T>[]; // ignored by the prayer list
+  title: string;
+  subtitle?: string;
+}
+
+// Months in the past year with at least one answered prayer among the exported requests
+const getAnsweredSummary = (requests: PrayerRequest[]): Report['summary'] => {
+  const months = getAnsweredCountsByMonth(requests, 12).filter(month => month.count > 0);
+  if (months.length === 0) return undefined;
+  return {
+    title: 'Answered Prayers (last 12 months)',
+    headers: ['Month', 'Answered'],
+    rows: months.map(month => [month.label, String(month.count)]),
+  };
+};
+
+// Open requests first, then answered ones with how they were answered. Names only: the
+// list is read out in church, so emails and other contact details are never included.
+const buildPrayerList = (requests: PrayerRequest[], title: string, subtitle?: string): Report => {
+  const isAnswered = (request: PrayerRequest) => getPrayerRequestStatus(request) === 'answered';
+  const toItem = (request: PrayerRequest, group: string) => ({
+    title: exportItemTitles.prayerRequests(request),
+    fields: [],
+    body: isAnswered(request) && request.outcome ? `${request.request}\nAnswered: ${request.outcome}` : request.request,
+    group,
+  });
+
+  return {
+    title,
+    subtitle,
+    fieldLabels: [],
+    items: [
+      ...requests.filter(request => !isAnswered(request)).map(request => toItem(request, PRAYER_LIST_SECTIONS.needs)),
+      ...requests.filter(isAnswered).map(request => toItem(request, PRAYER_LIST_SECTIONS.answered)),
+    ],
+  };
+};
+
+export function buildReport<T>({ dataset, template, items, columns, title, subtitle }: ReportRequest<T>): Report {
+  if (template === 'prayer-list') {
+    if (dataset !== 'prayerRequests') throw new Error('The prayer list is only available for prayer requests');
+    return buildPrayerList(items as PrayerRequest[], title, subtitle);
+  }
+
+  const getTitle = exportItemTitles[dataset] as (item: T) => string;
+  const getPhoto = reportPhotos[dataset] as ((item: T) => string | null | undefined) | undefined;
+  const bodyColumn = columns.find(column => column.key === reportBodyColumns[dataset]);
+  const fieldColumns = columns.filter(column => column !== bodyColumn);
+
+  return {
+    title,
+    subtitle,
+    fieldLabels: fieldColumns.map(column => column.header),
+    bodyLabel: bodyColumn?.header,
+    items: items.map(item => ({
+      title: getTitle(item),
+      fields: fieldColumns.map(column => toCellText(column.value(item))),
+      body: bodyColumn ? toCellText(bodyColumn.value(item)) : undefined,
+      photoUrl: getPhoto?.(item),
+    })),
+    summary: dataset === 'prayerRequests' ? getAnsweredSummary(items as PrayerRequest[]) : undefined,
+  };
+}
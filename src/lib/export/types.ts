@@ -0,0 +1,40 @@
+// Types shared by the export engine and the dashboard export dialogs.
+
+import type {
+  ExportDataset,
+  Testimony,
+  PrayerRequest,
+  ContactMessage,
+  EventRegistration,
+  Event,
+  Leader,
+  GalleryItem,
+  NewsletterSignup,
+} from '../firestore';
+import type { ActivityItem } from '../../hooks/useRecentActivity';
+
+export type { ExportDataset, ExportFormat, ExportRecord, ReportTemplate } from '../firestore';
+
+export type ExportValue = string | number | boolean | null | undefined;
+
+// One column of an export. `value` returns what goes in the cell; numbers stay numeric
+// in XLSX and JSON, everything else is written as text.
+export interface ExportColumn<T> {
+  key: string;
+  header: string;
+  value: (item: T) => ExportValue;
+}
+
+export interface ExportDatasetItems {
+  testimonies: Testimony;
+  prayerRequests: PrayerRequest;
+  contactMessages: ContactMessage;
+  eventRegistrations: EventRegistration;
+  events: Event;
+  leaders: Leader;
+  gallery: GalleryItem;
+  newsletter: NewsletterSignup;
+  activityLog: ActivityItem;
+}
+
+export type ExportItem<D extends ExportDataset> = ExportDatasetItems[D];
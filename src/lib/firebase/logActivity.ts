@@ -1,5 +1,5 @@
 import { collection, addDoc, serverTimestamp } from "firebase/firestore";
-import { db } from "../firebase";
+import { auth, db } from "../firebase";
 import { getUserProfile } from "../firestore";
 
 export interface ActivityLogData {
@@ -41,6 +41,8 @@ export async function logActivity({
       description,
       timestamp: serverTimestamp(),
       userId: userName, // Now contains full name instead of UID
+      // Stable UID for per-user activity counts; the security rules only accept the signed-in user's own
+      actorUid: userId || auth.currentUser?.uid || null,
       metadata
     });
     
@@ -1,20 +1,58 @@
 import {
-  collection,
-  doc,
-  getDocs,
-  getDoc,
-  addDoc,
-  updateDoc,
-  deleteDoc,
-  setDoc,
-  query,
   orderBy,
-  onSnapshot,
+  QueryConstraint,
+  QueryDocumentSnapshot,
   Timestamp,
   where,
   writeBatch,
+  deleteField,
+  arrayUnion,
+  arrayRemove,
+  serverTimestamp,
 } from 'firebase/firestore';
 import { db } from './firebase';
+import { deleteExportArchive, uploadExportArchive } from './storage';
+import { createRepository, InvalidDocument, Page, Repository, SoftDeleteFields } from './firestore/repository';
+import { aboutRepository, carouselRepository, communityServiceRepository, missionVisionRepository, serviceTimesRepository } from './firestore/content';
+import {
+  activityLogSchema,
+  bookableResourceSchema,
+  campaignRecipientSchema,
+  campaignSchema,
+  contactMessageReplySchema,
+  contactMessageSchema,
+  eventRegistrationSchema,
+  eventSchema,
+  exportRecordSchema,
+  galleryItemSchema,
+  invitationSchema,
+  leaderSchema,
+  legacyExportSchema,
+  mailQueueItemSchema,
+  newsletterSegmentSchema,
+  newsletterSignupSchema,
+  newsletterSuppressionSchema,
+  prayerRequestSchema,
+  publishedTestimonySchema,
+  recurringEventOverrideSchema,
+  recurringEventSchema,
+  siteSettingsSchema,
+  skippedRecurringEventSchema,
+  testimonySchema,
+  userSchema,
+} from './firestore/schemas';
+import { Resource, UserRole, resourcePermissions } from './auth/roles';
+import { RecurrenceRule, parseRRule, expandRecurrence } from './utils/recurrenceUtils';
+import { BookingConflict, findBookingConflicts } from './utils/eventConflicts';
+import { MailTemplateName, MailTemplateData } from './mail/templates';
+import type { ActivityItem } from '../hooks/useRecentActivity';
+import {
+  DEFAULT_TIMEZONE,
+  isValidTimezone,
+  getTodayInTimezone,
+  addDaysToDateString,
+  zonedTimeToInstant,
+} from './utils/timezoneUtils';
 
 // Types
 export interface Leader {
@@ -31,18 +69,50 @@ export interface Leader {
   updatedAt?: Timestamp;
 }
 
+export type OccurrenceStatus = 'scheduled' | 'cancelled' | 'modified';
+
 export interface Event {
   id?: string;
   title: string;
   date: string;
   startTime: string;
   endTime: string;
-  location: string;
+  location: string; // display name; matches the booked room's name when locationId is set
+  locationId?: string | null; // bookable room from the resources collection, null for free-text locations
+  resourceIds?: string[]; // booked equipment and vehicles
   description: string;
+  registration?: EventRegistrationSettings; // one-time events only
+  // date/startTime/endTime are wall-clock values in the church timezone;
+  // startAt/endAt are the matching instants, so every client reads the same moment
+  startAt?: Timestamp;
+  endAt?: Timestamp;
+  timezone?: string; // IANA zone the instants were computed in
+  // Only set on occurrences generated from a RecurringEvent
+  recurringEventId?: string;
+  occurrenceStatus?: OccurrenceStatus;
+  occurrenceReason?: string; // skip or override reason
   createdAt?: Timestamp;
   updatedAt?: Timestamp;
 }
 
+export type RegistrationQuestionType = 'text' | 'select' | 'checkbox';
+
+export interface RegistrationQuestion {
+  id: string; // key of the answer in EventRegistration.answers
+  label: string;
+  type: RegistrationQuestionType;
+  required: boolean;
+  options?: string[]; // choices for select questions
+}
+
+export interface EventRegistrationSettings {
+  enabled: boolean;
+  capacity: number | null; // null means unlimited; registrations beyond it join the waitlist
+  deadline: string | null; // church-local "YYYY-MM-DDTHH:mm"
+  deadlineAt: Timestamp | null; // instant of the deadline, enforced by firestore.rules
+  questions: RegistrationQuestion[];
+}
+
 export interface GalleryItem {
   id?: string;
   caption: string;
@@ -55,19 +125,50 @@ export interface GalleryItem {
 export interface Testimony {
   id?: string;
   name: string;
-  testimony: string; // Changed from 'story' to 'testimony' to match actual data
-  story?: string; // Keep for backward compatibility
+  testimony: string; // older documents only have story, which is read into this field
+  story?: string; // legacy name, still written alongside testimony for backward compatibility
   photo?: string;
   isAnonymous: boolean;
   allowSharing?: boolean; // Made optional since your data might not have this
   isRead?: boolean; // Made optional since your data might not have this
   readBy?: string; // admin userId
   readAt?: Timestamp;
+  isDraft?: boolean; // drafted from an answered prayer request and not yet written up
+  prayerRequestId?: string | null; // prayer request this testimony was drafted from
+  status?: TestimonyStatus; // missing means 'submitted' (testimonies from before moderation)
+  publicExcerpt?: string | null; // editor-approved text for the website; the original is never published
+  publishAt?: Timestamp | null; // published testimonies appear on the website from this time
+  rejectionReason?: string | null;
+  reviewedBy?: string | null; // admin userId of the last status change
+  reviewedAt?: Timestamp | null;
+  createdAt?: Timestamp;
+  updatedAt?: Timestamp;
+}
+
+export type TestimonyStatus = 'submitted' | 'in-review' | 'approved' | 'published' | 'rejected';
+
+// Copy of a published testimony in publicTestimonies/{testimonyId}, the only testimony data the
+// security rules let the public website read
+export interface PublishedTestimony {
+  id?: string;
+  name: string; // 'Anonymous' for anonymous testimonies
+  excerpt: string;
+  photo: string | null;
+  publishAt: Timestamp;
   createdAt?: Timestamp;
   updatedAt?: Timestamp;
 }
 
-export interface PrayerRequest {
+// Shape served to the public website; never includes the original text or private fields
+export interface PublicTestimony {
+  id: string;
+  name: string;
+  excerpt: string;
+  photo: string | null;
+  publishedAt: string; // ISO timestamp
+}
+
+export interface PrayerRequest extends SoftDeleteFields {
   id?: string;
   name: string | null; // null if anonymous
   email: string | null; // null if anonymous
@@ -76,16 +177,45 @@ export interface PrayerRequest {
   isRead: boolean; // default false
   readBy?: string; // admin userId who marked as read
   readAt?: Timestamp;
+  status?: PrayerRequestStatus; // missing means 'new' (requests submitted before the care workflow)
+  assignedTo?: string | null; // prayer team member userId
+  assignedToName?: string | null; // kept alongside the id so the list doesn't need user lookups
+  assignedAt?: Timestamp | null;
+  followUpDate?: string | null; // "YYYY-MM-DD" in the church timezone
+  notes?: PrayerRequestNote[]; // internal only, never shown to the requester
+  outcome?: string | null; // how the prayer was answered
+  answeredAt?: Timestamp | null;
+  answeredBy?: string | null; // admin userId
+  testimonyConsent?: boolean; // submitter agreed to share the answer as a testimony
+  testimonyConsentRecordedBy?: string | null; // admin userId; missing when given on the public form
+  testimonyConsentRecordedAt?: Timestamp | null;
+  testimonyId?: string | null; // draft testimony created from this request
+  statusUpdatedBy?: string; // admin userId
+  statusUpdatedAt?: Timestamp;
   createdAt?: Timestamp;
   updatedAt?: Timestamp;
 }
 
+export type PrayerRequestStatus = 'new' | 'assigned' | 'praying' | 'followed-up' | 'answered' | 'archived';
+
+export interface PrayerRequestNote {
+  id: string;
+  text: string;
+  authorId: string;
+  authorName: string;
+  createdAt: Timestamp;
+}
+
 export interface RecurringEvent {
   id?: string;
   title: string;
   description: string;
   location: string;
-  dayOfWeek: number; // 0 = Sunday, 1 = Monday, etc.
+  locationId?: string | null;
+  resourceIds?: string[];
+  dayOfWeek: number; // 0 = Sunday, 1 = Monday, etc. (first weekday of the rule, used for ordering)
+  rrule?: string; // RFC 5545 subset, e.g. "FREQ=MONTHLY;BYDAY=SU;BYSETPOS=1"; missing means weekly on dayOfWeek
+  startDate?: string; // YYYY-MM-DD (DTSTART); anchors intervals and COUNT
   startTime: string; // e.g. "09:30"
   endTime: string;   // e.g. "11:00"
   isActive: boolean;
@@ -93,10 +223,102 @@ export interface RecurringEvent {
   updatedAt?: Timestamp;
 }
 
+// Signups made before double opt-in have no status and count as confirmed
+export type NewsletterSignupStatus = 'pending' | 'confirmed' | 'unsubscribed';
+
+export type NewsletterInterest = 'youth' | 'outreach' | 'womens-ministry';
+export type NewsletterSource = 'website-footer' | 'event-registration' | 'manual-import';
+
+// New signups are keyed by the lowercased email, so the same address cannot sign up twice
 export interface NewsletterSignup {
   id?: string;
   email: string;
+  name?: string | null;
+  interests?: NewsletterInterest[];
+  source?: NewsletterSource | null; // missing on signups from before sources were tracked
+  tags?: string[]; // free-form labels added by admins, stored lowercase
+  status?: NewsletterSignupStatus;
+  confirmationSentAt?: Timestamp | null;
+  confirmedAt?: Timestamp | null;
+  unsubscribedAt?: Timestamp | null;
+  createdAt?: Timestamp;
+  updatedAt?: Timestamp;
+}
+
+// Which subscribers a segment matches. Each non-empty list must match at least one value;
+// empty lists match everyone.
+export interface NewsletterSegmentCriteria {
+  interests: NewsletterInterest[];
+  sources: NewsletterSource[];
+  tags: string[];
+}
+
+export interface NewsletterSegment extends NewsletterSegmentCriteria {
+  id?: string;
+  name: string;
+  description?: string | null;
+  createdBy: string; // admin userId
+  updatedBy?: string;
+  createdAt?: Timestamp;
+  updatedAt?: Timestamp;
+}
+
+// A campaign's copy of the segment it targets, refreshed every time the campaign is saved,
+// so the campaign still sends to the intended audience if the segment is later edited or deleted
+export interface CampaignAudience extends NewsletterSegmentCriteria {
+  segmentId: string;
+  name: string;
+}
+
+export type NewsletterSuppressionReason = 'unsubscribed' | 'bounced' | 'manual';
+
+// Addresses that must never be (re-)added to the newsletter. Keyed by the lowercased email.
+export interface NewsletterSuppression {
+  id?: string;
+  email: string;
+  reason: NewsletterSuppressionReason;
+  detail?: string | null; // e.g. the bounce message
+  createdBy?: string | null; // admin userId for manual entries
+  createdAt?: Timestamp;
+}
+
+export type CampaignStatus = 'draft' | 'scheduled' | 'sending' | 'sent';
+
+// A newsletter campaign. Recipients are copied from newsletterSignups into
+// campaigns/{id}/recipients when sending starts, and each records its own delivery status.
+export interface Campaign {
+  id?: string;
+  subject: string;
+  content: string; // HTML from the rich text editor
+  audience?: CampaignAudience | null; // null sends to every confirmed subscriber
+  status: CampaignStatus;
+  scheduledAt?: Timestamp | null; // when sending should start
+  startedAt?: Timestamp | null;
+  recipientsPreparingAt?: Timestamp | null; // when a worker started copying the recipients
+  recipientsPreparedAt?: Timestamp | null;
+  sentAt?: Timestamp | null; // when the last recipient was processed
+  recipientCount?: number;
+  sentCount?: number;
+  failedCount?: number;
+  lastTestSentTo?: string;
+  lastTestSentAt?: Timestamp;
+  createdBy: string; // admin userId
+  updatedBy?: string;
   createdAt?: Timestamp;
+  updatedAt?: Timestamp;
+}
+
+export type CampaignRecipientStatus = 'pending' | 'sending' | 'sent' | 'failed';
+
+export interface CampaignRecipient {
+  id?: string; // the newsletter signup id
+  email: string;
+  status: CampaignRecipientStatus;
+  attempts: number;
+  error?: string | null;
+  providerMessageId?: string | null;
+  claimedAt?: Timestamp; // when a worker started sending
+  sentAt?: Timestamp | null;
 }
 
 export interface SkippedRecurringEvent {
@@ -107,21 +329,81 @@ export interface SkippedRecurringEvent {
   createdAt?: Timestamp;
 }
 
+// Changes a single occurrence of a recurring event without touching the series
+export interface RecurringEventOverride {
+  id?: string;
+  recurringEventId: string;
+  occurrenceDate: string; // YYYY-MM-DD format
+  startTime?: string;
+  endTime?: string;
+  location?: string;
+  locationId?: string | null;
+  description?: string;
+  reason?: string;
+  createdAt?: Timestamp;
+  updatedAt?: Timestamp;
+}
+
+export type BookableResourceType = 'room' | 'equipment' | 'vehicle';
+
+// Rooms, equipment and vehicles that events can book; overlapping bookings are flagged as conflicts
+export interface BookableResource {
+  id?: string;
+  name: string;
+  type: BookableResourceType;
+  capacity?: number | null; // seats for rooms, passengers for vehicles; null for equipment
+  description?: string;
+  isActive: boolean;
+  createdAt?: Timestamp;
+  updatedAt?: Timestamp;
+}
+
 export interface User {
   id?: string;
   firstName: string;
   lastName: string;
   phone?: string;
-  role?: string;
+  title?: string; // free-form job title, e.g. "Youth Pastor"
+  role?: UserRole; // assigned by a super-admin; see src/lib/auth/roles.ts
   email: string;
+  invitationId?: string; // invitation the profile was created from
+  isActive?: boolean; // missing means active; deactivated users are locked out
+  deactivatedBy?: string; // admin userId
+  deactivatedAt?: Timestamp;
+  lastSignInAt?: Timestamp; // mirrored from Firebase Auth metadata on sign-in
   createdAt: Timestamp;
   updatedAt: Timestamp;
 }
 
+export type InvitationStatus = 'pending' | 'accepted' | 'expired' | 'revoked';
+
+export interface Invitation {
+  id?: string; // doubles as the token in the invite link
+  email: string; // stored lowercase
+  role: UserRole;
+  status: InvitationStatus;
+  invitedBy: string; // admin userId
+  invitedByEmail: string;
+  expiresAt: Timestamp;
+  acceptedBy?: string; // userId of the invitee
+  acceptedAt?: Timestamp;
+  revokedBy?: string;
+  revokedAt?: Timestamp;
+  createdAt?: Timestamp;
+  updatedAt?: Timestamp;
+}
+
 export interface SiteSettings {
   id?: string;
   homeHeroText: string;
+  churchName?: string; // used in email templates and exports
+  logoUrl?: string; // printed at the top of PDF and Word exports
+  exportRetentionDays?: number; // how long generated export files can be downloaded again
   contactPhone: string;
+  contactEmail?: string;
+  address?: string;
+  timezone?: string; // IANA zone all event dates and times are in, e.g. "Europe/London"
+
   socialLinks: {
     facebook?: string;
     instagram?: string;
@@ -131,6 +413,35 @@ export interface SiteSettings {
   updatedAt?: Timestamp;
 }
 
+export type RegistrationStatus = 'registered' | 'cancelled';
+
+// Created by the public site; confirmed or waitlisted is derived from sign-up order and capacity
+export interface EventRegistration {
+  id?: string;
+  eventId: string;
+  name: string;
+  email: string;
+  phone?: string | null;
+  answers: Record<string, string | boolean>; // keyed by RegistrationQuestion.id
+  status: RegistrationStatus;
+  checkedIn: boolean;
+  checkedInAt?: Timestamp | null;
+  checkedInBy?: string | null;
+  cancelledAt?: Timestamp | null;
+  createdAt?: Timestamp;
+  updatedAt?: Timestamp;
+}
+
+export interface EventRegistrationExport {
+  id?: string;
+  adminId: string;
+  adminEmail: string;
+  exportType: 'pdf' | 'word';
+  eventId: string;
+  registrationIds: string[];
+  exportedAt?: Timestamp;
+}
+
 export interface TestimonyExport {
   id?: string;
   adminId: string;
@@ -149,7 +460,7 @@ export interface PrayerRequestExport {
   exportedAt?: Timestamp;
 }
 
-export interface ContactMessage {
+export interface ContactMessage extends SoftDeleteFields {
   id?: string;
   name: string;
   email: string;
@@ -158,11 +469,65 @@ export interface ContactMessage {
   message: string;
   preferredContactMethod: 'email' | 'phone' | 'either';
   userAgent?: string;
-  status: 'new' | 'read';
+  status: ContactMessageStatus;
   readBy?: string; // admin userId
   readAt?: Timestamp;
+  repliedAt?: Timestamp; // last email sent or call logged
+  closedBy?: string; // admin userId
+  closedAt?: Timestamp;
+  createdAt?: Timestamp;
+  updatedAt?: Timestamp;
+}
+
+export type ContactMessageStatus = 'new' | 'read' | 'replied' | 'closed';
+
+// One entry in a contact message's reply thread (contactMessages/{id}/replies).
+// Email replies are saved as 'sending' and updated once the mail transport responds;
+// phone calls are recorded directly as 'logged'.
+export interface ContactMessageReply {
+  id?: string;
+  channel: 'email' | 'phone';
+  to: string; // email address or phone number
+  subject?: string; // email only
+  body: string; // email text or call notes
+  status: 'sending' | 'sent' | 'failed' | 'logged';
+  error?: string | null;
+  transport?: string | null; // mail transport that sent the email
+  providerMessageId?: string | null;
+  callOutcome?: 'spoke' | 'voicemail' | 'no-answer'; // phone only
+  sentBy: string; // admin userId
+  sentByName: string;
+  createdAt?: Timestamp;
+  sentAt?: Timestamp | null;
+  claimedAt?: Timestamp | null; // set by the reply API before it sends, so an email reply goes out once
+}
+
+export type MailQueueStatus = 'queued' | 'sending' | 'sent' | 'failed';
+
+// One email waiting in (or sent from) the mail queue. The template is rendered on the server
+// at the first attempt, and the rendered subject and bodies are kept for the outbox view.
+export interface MailQueueItem {
+  id?: string;
+  to: string;
+  template: MailTemplateName;
+  data: MailTemplateData[MailTemplateName];
+  status: MailQueueStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: Timestamp;
+  lastError?: string | null;
+  subject?: string | null;
+  text?: string | null;
+  html?: string | null;
+  transport?: string | null; // mail transport that sent the email
+  providerMessageId?: string | null;
+  claimedAt?: Timestamp | null; // when a worker started sending it
+  relatedCollection?: string; // what the email is about, e.g. invitations
+  relatedId?: string;
+  createdBy: string; // admin userId
   createdAt?: Timestamp;
   updatedAt?: Timestamp;
+  sentAt?: Timestamp | null;
 }
 
 export interface ContactMessageExport {
@@ -174,111 +539,195 @@ export interface ContactMessageExport {
   exportedAt?: Timestamp;
 }
 
-// Generic CRUD operations
-export const createDocument = async <T>(
-  collectionName: string,
-  data: Omit<T, 'id' | 'createdAt' | 'updatedAt'>
-): Promise<string> => {
-  if (!db) throw new Error('Firestore is not initialized');
-  const docRef = await addDoc(collection(db, collectionName), {
-    ...data,
-    createdAt: Timestamp.now(),
-    updatedAt: Timestamp.now(),
-  });
-  return docRef.id;
+// Dashboard tables that can be exported. Each one follows the read permission of its module;
+// the activity log is readable by every dashboard user.
+export type ExportDataset =
+  | 'testimonies'
+  | 'prayerRequests'
+  | 'contactMessages'
+  | 'eventRegistrations'
+  | 'events'
+  | 'leaders'
+  | 'gallery'
+  | 'newsletter'
+  | 'activityLog';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json' | 'pdf' | 'word';
+
+// Layout of a PDF or Word export; the prayer list is only offered for prayer requests
+export type ReportTemplate = 'table' | 'booklet' | 'prayer-list';
+
+// One entry in the export history (exports collection). The *_exports collections
+// hold history from before exports were unified and are only read now.
+export interface ExportRecord {
+  id?: string;
+  dataset: ExportDataset;
+  format: ExportFormat;
+  itemIds: string[];
+  itemCount: number;
+  columns: string[]; // keys of the exported columns, in order; empty for legacy entries and prayer lists
+  template?: ReportTemplate | null; // PDF and Word only
+  fileName: string;
+  eventId?: string | null; // event registrations only
+  archivePath?: string | null; // Storage path of the generated file; cleared once it is deleted
+  archiveExpiresAt?: Timestamp | null; // the file can be downloaded again until then
+  adminId: string;
+  adminEmail: string;
+  exportedAt?: Timestamp;
+}
+
+// User management functions
+export const getUserProfile = async (uid: string): Promise<User | null> => {
+  return usersRepository.get(uid);
 };
 
-export const updateDocument = async <T>(
-  collectionName: string,
-  id: string,
-  data: Partial<Omit<T, 'id' | 'createdAt'>>
-): Promise<void> => {
-  if (!db) throw new Error('Firestore is not initialized');
-  const docRef = doc(db, collectionName, id);
-  await updateDoc(docRef, {
-    ...data,
-    updatedAt: Timestamp.now(),
-  });
+export const createUserProfile = async (uid: string, userData: Omit<User, 'id' | 'createdAt' | 'updatedAt'>): Promise<void> => {
+  await usersRepository.set(uid, userData);
 };
 
-export const deleteDocument = async (
-  collectionName: string,
-  id: string
-): Promise<void> => {
-  if (!db) throw new Error('Firestore is not initialized');
-  const docRef = doc(db, collectionName, id);
-  await deleteDoc(docRef);
+export const updateUserProfile = async (uid: string, userData: Partial<Omit<User, 'id' | 'createdAt'>>): Promise<void> => {
+  await usersRepository.update(uid, userData);
 };
 
-export const getDocument = async <T>(
-  collectionName: string,
-  id: string
-): Promise<T | null> => {
-  if (!db) throw new Error('Firestore is not initialized');
-  const docRef = doc(db, collectionName, id);
-  const docSnap = await getDoc(docRef);
-  
-  if (docSnap.exists()) {
-    return { id: docSnap.id, ...docSnap.data() } as T;
+export const checkUserProfileExists = async (uid: string): Promise<boolean> => {
+  return usersRepository.exists(uid);
+};
+
+// Team management utilities (super admins only)
+export const subscribeToUsers = (
+  callback: (data: User[]) => void
+) => {
+  return usersRepository.subscribe(callback);
+};
+
+export const updateUserRole = async (uid: string, role: UserRole): Promise<void> => {
+  await usersRepository.update(uid, { role });
+};
+
+export const setUserActive = async (uid: string, isActive: boolean, adminId: string): Promise<void> => {
+  await usersRepository.update(uid, isActive
+    ? {
+        isActive: true,
+        deactivatedBy: deleteField(),
+        deactivatedAt: deleteField(),
+      }
+    : {
+        isActive: false,
+        deactivatedBy: adminId,
+        deactivatedAt: Timestamp.now(),
+      });
+};
+
+export const getUserActivityCount = async (uid: string): Promise<number> => {
+  return activityLogRepository.count([where('actorUid', '==', uid)]);
+};
+
+// Invitation utilities
+export const getInvitation = async (id: string): Promise<Invitation | null> => {
+  return invitationsRepository.get(id);
+};
+
+// A pending invitation past its expiry date is treated as expired even before it is persisted
+export const getEffectiveInvitationStatus = (invitation: Invitation): InvitationStatus => {
+  if (invitation.status === 'pending' && invitation.expiresAt.toMillis() < Date.now()) {
+    return 'expired';
   }
-  return null;
+  return invitation.status;
 };
 
-export const getDocuments = async <T>(
-  collectionName: string
-): Promise<T[]> => {
-  if (!db) throw new Error('Firestore is not initialized');
-  const q = query(collection(db, collectionName), orderBy('createdAt', 'desc'));
-  const querySnapshot = await getDocs(q);
-  
-  return querySnapshot.docs.map(doc => ({
-    id: doc.id,
-    ...doc.data()
-  })) as T[];
+export const findPendingInvitationByEmail = async (email: string): Promise<Invitation | null> => {
+  const invitations = await invitationsRepository.list({
+    where: [where('email', '==', email.trim().toLowerCase()), where('status', '==', 'pending')],
+    orderBy: false,
+  });
+
+  return invitations.find(invitation => getEffectiveInvitationStatus(invitation) === 'pending') || null;
 };
 
-// User management functions
-export const getUserProfile = async (uid: string): Promise<User | null> => {
+export const createInvitation = async (
+  email: string,
+  role: UserRole,
+  invitedBy: string,
+  invitedByEmail: string
+): Promise<string> => {
   if (!db) throw new Error('Firestore is not initialized');
-  return getDocument<User>(usersCollection, uid);
+
+  const normalizedEmail = email.trim().toLowerCase();
+
+  const existingInvitation = await findPendingInvitationByEmail(normalizedEmail);
+  if (existingInvitation) {
+    throw new Error(`${normalizedEmail} already has a pending invitation`);
+  }
+
+  const existingUsers = await usersRepository.count([where('email', '==', normalizedEmail)]);
+  if (existingUsers > 0) {
+    throw new Error(`${normalizedEmail} already has a dashboard account`);
+  }
+
+  const expiresAt = new Date();
+  expiresAt.setDate(expiresAt.getDate() + INVITATION_TTL_DAYS);
+
+  return invitationsRepository.create({
+    email: normalizedEmail,
+    role,
+    status: 'pending',
+    invitedBy,
+    invitedByEmail,
+    expiresAt: Timestamp.fromDate(expiresAt),
+  });
 };
 
-export const createUserProfile = async (uid: string, userData: Omit<User, 'id' | 'createdAt' | 'updatedAt'>): Promise<void> => {
-  if (!db) throw new Error('Firestore is not initialized');
-  const docRef = doc(db, usersCollection, uid);
-  await setDoc(docRef, {
-    ...userData,
-    createdAt: Timestamp.now(),
-    updatedAt: Timestamp.now(),
+export const revokeInvitation = async (id: string, revokedBy: string): Promise<void> => {
+  await invitationsRepository.update(id, {
+    status: 'revoked',
+    revokedBy,
+    revokedAt: Timestamp.now(),
   });
 };
 
-export const updateUserProfile = async (uid: string, userData: Partial<Omit<User, 'id' | 'createdAt'>>): Promise<void> => {
-  if (!db) throw new Error('Firestore is not initialized');
-  await updateDocument<User>(usersCollection, uid, userData);
+// Persist the expired state for pending invitations whose expiry date has passed
+export const expireStaleInvitations = async (invitations: Invitation[]): Promise<void> => {
+  const stale = invitations.filter(invitation =>
+    invitation.id && invitation.status === 'pending' && getEffectiveInvitationStatus(invitation) === 'expired'
+  );
+  if (stale.length === 0) return;
+
+  await invitationsRepository.updateMany(stale.map(invitation => invitation.id!), { status: 'expired' });
 };
 
-export const checkUserProfileExists = async (uid: string): Promise<boolean> => {
+// Creates the invitee's profile with the invited role and closes the invitation in one write
+export const acceptInvitation = async (
+  invitation: Invitation,
+  uid: string,
+  profile: Pick<User, 'firstName' | 'lastName' | 'phone' | 'title' | 'email'>
+): Promise<void> => {
   if (!db) throw new Error('Firestore is not initialized');
-  const docRef = doc(db, usersCollection, uid);
-  const docSnap = await getDoc(docRef);
-  return docSnap.exists();
+  if (!invitation.id) throw new Error('Invitation is missing an id');
+  if (getEffectiveInvitationStatus(invitation) !== 'pending') {
+    throw new Error('This invitation is no longer valid');
+  }
+
+  const batch = writeBatch(db);
+  batch.set(usersRepository.doc(uid), {
+    ...profile,
+    role: invitation.role,
+    invitationId: invitation.id,
+    createdAt: Timestamp.now(),
+    updatedAt: Timestamp.now(),
+  });
+  batch.update(invitationsRepository.doc(invitation.id), {
+    status: 'accepted',
+    acceptedBy: uid,
+    acceptedAt: Timestamp.now(),
+    updatedAt: Timestamp.now(),
+  });
+  await batch.commit();
 };
 
-// Real-time listeners
-export const subscribeToCollection = <T>(
-  collectionName: string,
-  callback: (data: T[]) => void
+export const subscribeToInvitations = (
+  callback: (data: Invitation[]) => void
 ) => {
-  if (!db) throw new Error('Firestore is not initialized');
-  const q = query(collection(db, collectionName), orderBy('createdAt', 'desc'));
-  return onSnapshot(q, (querySnapshot) => {
-    const data = querySnapshot.docs.map(doc => ({
-      id: doc.id,
-      ...doc.data()
-    })) as T[];
-    callback(data);
-  });
+  return invitationsRepository.subscribe(callback);
 };
 
 // Specific collection helpers
@@ -289,60 +738,248 @@ export const eventsCollection = 'events';
 export const recurringEventsCollection = 'recurringEvents';
 export const newsletterSignupsCollection = 'newsletterSignups';
 export const skippedRecurringEventsCollection = 'skippedRecurringEvents';
+export const recurringEventOverridesCollection = 'recurringEventOverrides';
+export const resourcesCollection = 'resources';
+export const eventRegistrationsCollection = 'eventRegistrations';
+export const eventRegistrationsExportsCollection = 'event_registrations_exports';
 export const galleryCollection = 'gallery';
 export const testimoniesCollection = 'testimonies';
 export const testimoniesExportsCollection = 'testimonies_exports';
+export const publicTestimoniesCollection = 'publicTestimonies';
 export const prayerRequestsCollection = 'prayerRequests';
 export const prayerRequestsExportsCollection = 'prayer_requests_exports';
 export const contactMessagesCollection = 'contactMessages';
 export const contactMessagesExportsCollection = 'contact_messages_exports';
 export const settingsCollection = 'settings';
 export const usersCollection = 'users';
+export const invitationsCollection = 'invitations';
+export const activityLogCollection = 'activityLog';
+export const mailQueueCollection = 'mailQueue';
+export const campaignsCollection = 'campaigns';
+export const newsletterSuppressionsCollection = 'newsletterSuppressions';
+export const newsletterSegmentsCollection = 'newsletterSegments';
+export const exportsCollection = 'exports';
+
+// Repositories: typed, validated access to each collection (see ./firestore/repository.ts).
+// Prayer requests and contact messages are soft-deleted so a removal can be undone; testimonies
+// are not, because the public website reads them without knowing about deletedAt.
+export const usersRepository = createRepository<User>({
+  collection: usersCollection,
+  schema: userSchema,
+  orderBy: [orderBy('createdAt', 'desc')],
+});
+export const invitationsRepository = createRepository<Invitation>({
+  collection: invitationsCollection,
+  schema: invitationSchema,
+  orderBy: [orderBy('createdAt', 'desc')],
+});
+export const settingsRepository = createRepository<SiteSettings>({
+  collection: settingsCollection,
+  schema: siteSettingsSchema,
+});
+export const leadersRepository = createRepository<Leader>({
+  collection: leadersCollection,
+  schema: leaderSchema,
+});
+export const pastorsRepository = createRepository<Leader>({
+  collection: pastorsCollection,
+  schema: leaderSchema,
+  orderBy: [orderBy('customId', 'asc')],
+});
+export const teamLeadsRepository = createRepository<Leader>({
+  collection: teamLeadsCollection,
+  schema: leaderSchema,
+  orderBy: [orderBy('customId', 'asc')],
+});
+export const eventsRepository = createRepository<Event>({
+  collection: eventsCollection,
+  schema: eventSchema,
+  orderBy: [orderBy('createdAt', 'desc')],
+});
+export const recurringEventsRepository = createRepository<RecurringEvent>({
+  collection: recurringEventsCollection,
+  schema: recurringEventSchema,
+  orderBy: [orderBy('dayOfWeek', 'asc')],
+});
+export const skippedRecurringEventsRepository = createRepository<SkippedRecurringEvent>({
+  collection: skippedRecurringEventsCollection,
+  schema: skippedRecurringEventSchema,
+  orderBy: [orderBy('skipDate', 'desc')],
+  timestamps: false,
+});
+export const recurringEventOverridesRepository = createRepository<RecurringEventOverride>({
+  collection: recurringEventOverridesCollection,
+  schema: recurringEventOverrideSchema,
+  orderBy: [orderBy('occurrenceDate', 'desc')],
+});
+export const resourcesRepository = createRepository<BookableResource>({
+  collection: resourcesCollection,
+  schema: bookableResourceSchema,
+  orderBy: [orderBy('name', 'asc')],
+});
+export const eventRegistrationsRepository = createRepository<EventRegistration>({
+  collection: eventRegistrationsCollection,
+  schema: eventRegistrationSchema,
+  orderBy: [orderBy('createdAt', 'asc')],
+});
+export const galleryRepository = createRepository<GalleryItem>({
+  collection: galleryCollection,
+  schema: galleryItemSchema,
+  orderBy: [orderBy('createdAt', 'desc')],
+});
+export const testimoniesRepository = createRepository<Testimony>({
+  collection: testimoniesCollection,
+  schema: testimonySchema,
+  orderBy: [orderBy('createdAt', 'desc')],
+});
+export const publicTestimoniesRepository = createRepository<PublishedTestimony>({
+  collection: publicTestimoniesCollection,
+  schema: publishedTestimonySchema,
+  orderBy: [orderBy('publishAt', 'desc')],
+});
+export const prayerRequestsRepository = createRepository<PrayerRequest>({
+  collection: prayerRequestsCollection,
+  schema: prayerRequestSchema,
+  orderBy: [orderBy('createdAt', 'desc')],
+  softDelete: true,
+});
+export const contactMessagesRepository = createRepository<ContactMessage>({
+  collection: contactMessagesCollection,
+  schema: contactMessageSchema,
+  orderBy: [orderBy('createdAt', 'desc')],
+  softDelete: true,
+});
+export const contactMessageRepliesRepository = (messageId: string) => createRepository<ContactMessageReply>({
+  collection: `${contactMessagesCollection}/${messageId}/replies`,
+  schema: contactMessageReplySchema,
+  orderBy: [orderBy('createdAt', 'asc')],
+  timestamps: false,
+});
+export const newsletterSignupsRepository = createRepository<NewsletterSignup>({
+  collection: newsletterSignupsCollection,
+  schema: newsletterSignupSchema,
+  orderBy: [orderBy('createdAt', 'desc')],
+  timestamps: false,
+});
+export const newsletterSuppressionsRepository = createRepository<NewsletterSuppression>({
+  collection: newsletterSuppressionsCollection,
+  schema: newsletterSuppressionSchema,
+  orderBy: [orderBy('createdAt', 'desc')],
+  timestamps: false,
+});
+export const newsletterSegmentsRepository = createRepository<NewsletterSegment>({
+  collection: newsletterSegmentsCollection,
+  schema: newsletterSegmentSchema,
+  orderBy: [orderBy('name')],
+});
+export const campaignsRepository = createRepository<Campaign>({
+  collection: campaignsCollection,
+  schema: campaignSchema,
+  orderBy: [orderBy('createdAt', 'desc')],
+});
+export const campaignRecipientsRepository = (campaignId: string) => createRepository<CampaignRecipient>({
+  collection: `${campaignsCollection}/${campaignId}/recipients`,
+  schema: campaignRecipientSchema,
+  orderBy: [orderBy('email', 'asc')],
+  timestamps: false,
+});
+export const mailQueueRepository = createRepository<MailQueueItem>({
+  collection: mailQueueCollection,
+  schema: mailQueueItemSchema,
+  orderBy: [orderBy('createdAt', 'desc')],
+});
+export const exportsRepository = createRepository<ExportRecord>({
+  collection: exportsCollection,
+  schema: exportRecordSchema,
+  orderBy: [orderBy('exportedAt', 'desc')],
+  timestamps: false,
+});
+export const activityLogRepository = createRepository<ActivityItem>({
+  collection: activityLogCollection,
+  schema: activityLogSchema,
+  orderBy: [orderBy('timestamp', 'desc')],
+  timestamps: false,
+});
+
+// Collections checked by the data validation report, each with the module whose read permission
+// covers it and the page where its documents are edited. Export history and the activity log are
+// left out because their entries cannot be changed, and so are the per-document subcollections.
+export interface ValidatedCollection {
+  label: string;
+  repository: Pick<Repository<{ id?: string }>, 'collectionName' | 'findInvalid'>;
+  resource: Resource;
+  href?: string;
+}
+
+export const validatedCollections: ValidatedCollection[] = [
+  { label: 'Carousel', repository: carouselRepository, resource: 'carousel', href: '/dashboard/carousel' },
+  { label: 'Pastors', repository: pastorsRepository, resource: 'leaders', href: '/dashboard/leaders' },
+  { label: 'Team Leads', repository: teamLeadsRepository, resource: 'leaders', href: '/dashboard/leaders' },
+  { label: 'Leaders (legacy)', repository: leadersRepository, resource: 'leaders', href: '/dashboard/leaders' },
+  { label: 'Events', repository: eventsRepository, resource: 'events', href: '/dashboard/events' },
+  { label: 'Recurring Events', repository: recurringEventsRepository, resource: 'events', href: '/dashboard/events' },
+  { label: 'Skipped Occurrences', repository: skippedRecurringEventsRepository, resource: 'events', href: '/dashboard/events' },
+  { label: 'Occurrence Changes', repository: recurringEventOverridesRepository, resource: 'events', href: '/dashboard/events' },
+  { label: 'Rooms & Resources', repository: resourcesRepository, resource: 'events', href: '/dashboard/resources' },
+  { label: 'Event Registrations', repository: eventRegistrationsRepository, resource: 'eventRegistrations', href: '/dashboard/events' },
+  { label: 'Gallery', repository: galleryRepository, resource: 'gallery', href: '/dashboard/gallery' },
+  { label: 'Testimonies', repository: testimoniesRepository, resource: 'testimonies', href: '/dashboard/testimonies' },
+  { label: 'Prayer Requests', repository: prayerRequestsRepository, resource: 'prayerRequests', href: '/dashboard/prayer-requests' },
+  { label: 'Contact Messages', repository: contactMessagesRepository, resource: 'contactMessages', href: '/dashboard/contact-messages' },
+  { label: 'Newsletter Subscribers', repository: newsletterSignupsRepository, resource: 'newsletter', href: '/dashboard/newsletter' },
+  { label: 'Newsletter Segments', repository: newsletterSegmentsRepository, resource: 'newsletter', href: '/dashboard/newsletter' },
+  { label: 'Suppression List', repository: newsletterSuppressionsRepository, resource: 'newsletter', href: '/dashboard/newsletter' },
+  { label: 'Campaigns', repository: campaignsRepository, resource: 'newsletter', href: '/dashboard/newsletter' },
+  { label: 'Mission & Vision', repository: missionVisionRepository, resource: 'content' },
+  { label: 'Service Times', repository: serviceTimesRepository, resource: 'content' },
+  { label: 'About', repository: aboutRepository, resource: 'content' },
+  { label: 'Community Service', repository: communityServiceRepository, resource: 'content' },
+  { label: 'Outbox', repository: mailQueueRepository, resource: 'mail', href: '/dashboard/outbox' },
+  { label: 'Team', repository: usersRepository, resource: 'users', href: '/dashboard/team' },
+  { label: 'Invitations', repository: invitationsRepository, resource: 'users', href: '/dashboard/invitations' },
+  { label: 'Site Settings', repository: settingsRepository, resource: 'settings', href: '/dashboard/settings' },
+];
+
+export interface CollectionValidationResult {
+  collection: ValidatedCollection;
+  invalid: InvalidDocument[];
+  error?: string; // the collection could not be read
+}
+
+// Checks every document of the given collections against its schema, one collection at a time
+export const validateCollections = async (collections: ValidatedCollection[]): Promise<CollectionValidationResult[]> => {
+  const results: CollectionValidationResult[] = [];
+  for (const collection of collections) {
+    try {
+      results.push({ collection, invalid: await collection.repository.findInvalid() });
+    } catch (error) {
+      results.push({ collection, invalid: [], error: (error as Error).message });
+    }
+  }
+  return results;
+};
+
+export const INVITATION_TTL_DAYS = 7;
 
 // Leader-specific utilities
+const getLeadersRepository = (category: Leader['category']) =>
+  category === 'pastor' ? pastorsRepository : teamLeadsRepository;
+
 export const getLeadersByCategory = async (category: 'pastor' | 'teamLead'): Promise<Leader[]> => {
-  if (!db) throw new Error('Firestore is not initialized');
-  
-  const collectionName = category === 'pastor' ? pastorsCollection : teamLeadsCollection;
-  const q = query(collection(db, collectionName), orderBy('customId', 'asc'));
-  const querySnapshot = await getDocs(q);
-  
-  return querySnapshot.docs.map(doc => ({
-    id: doc.id,
-    ...doc.data(),
-    category // Ensure category is set correctly
-  })) as Leader[];
+  const leaders = await getLeadersRepository(category).list();
+  return leaders.map(leader => ({ ...leader, category })); // Ensure category is set correctly
 };
 
 export const createLeader = async (leaderData: Omit<Leader, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> => {
-  if (!db) throw new Error('Firestore is not initialized');
-  
-  const collectionName = leaderData.category === 'pastor' ? pastorsCollection : teamLeadsCollection;
-  const docRef = await addDoc(collection(db, collectionName), {
-    ...leaderData,
-    createdAt: Timestamp.now(),
-    updatedAt: Timestamp.now(),
-  });
-  return docRef.id;
+  return getLeadersRepository(leaderData.category).create(leaderData);
 };
 
 export const updateLeader = async (leader: Leader): Promise<void> => {
-  if (!db) throw new Error('Firestore is not initialized');
-  
-  const collectionName = leader.category === 'pastor' ? pastorsCollection : teamLeadsCollection;
-  const docRef = doc(db, collectionName, leader.id!);
-  await updateDoc(docRef, {
-    ...leader,
-    updatedAt: Timestamp.now(),
-  });
+  await getLeadersRepository(leader.category).update(leader.id!, leader);
 };
 
 export const deleteLeader = async (leader: Leader): Promise<void> => {
-  if (!db) throw new Error('Firestore is not initialized');
-  
-  const collectionName = leader.category === 'pastor' ? pastorsCollection : teamLeadsCollection;
-  const docRef = doc(db, collectionName, leader.id!);
-  await deleteDoc(docRef);
+  await getLeadersRepository(leader.category).remove(leader.id!);
 };
 
 // Real-time listeners for leaders
@@ -350,107 +987,22 @@ export const subscribeToLeadersByCategory = (
   category: 'pastor' | 'teamLead',
   callback: (data: Leader[]) => void
 ) => {
-  if (!db) throw new Error('Firestore is not initialized');
-  
-  const collectionName = category === 'pastor' ? pastorsCollection : teamLeadsCollection;
-  const q = query(collection(db, collectionName), orderBy('customId', 'asc'));
-  
-  return onSnapshot(q, (querySnapshot) => {
-    const data = querySnapshot.docs.map(doc => ({
-      id: doc.id,
-      ...doc.data(),
-      category // Ensure category is set correctly
-    })) as Leader[];
-    callback(data);
-  });
-}; 
-
-// Migration utility to move existing leaders to new structure
-export const migrateLeadersToNewStructure = async (): Promise<void> => {
-  if (!db) throw new Error('Firestore is not initialized');
-  
-  try {
-    // Get all leaders from the old collection
-    const oldLeadersQuery = query(collection(db, leadersCollection));
-    const oldLeadersSnapshot = await getDocs(oldLeadersQuery);
-    
-    if (oldLeadersSnapshot.empty) {
-      console.log('No leaders to migrate');
-      return;
-    }
-
-    console.log(`Found ${oldLeadersSnapshot.docs.length} leaders to migrate`);
-
-    // Process each leader
-    for (const doc of oldLeadersSnapshot.docs) {
-      const leaderData = doc.data() as Record<string, unknown>;
-      
-      // Determine the new category based on the old category
-      let newCategory: 'pastor' | 'teamLead';
-      if (leaderData.category === 'pastoral') {
-        newCategory = 'pastor';
-      } else {
-        newCategory = 'teamLead'; // department, ministry, board all become teamLead
-      }
-
-      // Create the leader in the new collection
-      const newLeaderData = {
-        ...leaderData,
-        category: newCategory,
-        createdAt: leaderData.createdAt || Timestamp.now(),
-        updatedAt: Timestamp.now(),
-      };
-
-      const collectionName = newCategory === 'pastor' ? pastorsCollection : teamLeadsCollection;
-      await addDoc(collection(db, collectionName), newLeaderData);
-      
-      console.log(`Migrated ${leaderData.name} to ${newCategory} collection`);
-    }
-
-    console.log('Migration completed successfully');
-  } catch (error) {
-    console.error('Migration failed:', error);
-    throw error;
-  }
-}; 
+  return getLeadersRepository(category).subscribe(leaders =>
+    callback(leaders.map(leader => ({ ...leader, category }))) // Ensure category is set correctly
+  );
+};
 
 // Find leader by custom ID
 export const findLeaderByCustomId = async (customId: number): Promise<Leader | null> => {
-  if (!db) throw new Error('Firestore is not initialized');
-  
   try {
-    // Search in pastors collection
-    const pastorsQuery = query(
-      collection(db, pastorsCollection),
-      where('customId', '==', customId)
-    );
-    const pastorsSnapshot = await getDocs(pastorsQuery);
-    
-    if (!pastorsSnapshot.empty) {
-      const doc = pastorsSnapshot.docs[0];
-      return {
-        id: doc.id,
-        ...doc.data(),
-        category: 'pastor'
-      } as Leader;
-    }
-    
-    // Search in team leads collection
-    const teamLeadsQuery = query(
-      collection(db, teamLeadsCollection),
-      where('customId', '==', customId)
-    );
-    const teamLeadsSnapshot = await getDocs(teamLeadsQuery);
-    
-    if (!teamLeadsSnapshot.empty) {
-      const doc = teamLeadsSnapshot.docs[0];
-      return {
-        id: doc.id,
-        ...doc.data(),
-        category: 'teamLead'
-      } as Leader;
+    for (const category of ['pastor', 'teamLead'] as const) {
+      const [leader] = await getLeadersRepository(category).list({
+        where: [where('customId', '==', customId)],
+        orderBy: false,
+        limit: 1,
+      });
+      if (leader) return { ...leader, category };
     }
-    
     return null;
   } catch (error) {
     console.error('Error finding leader by custom ID:', error);
@@ -460,209 +1012,518 @@ export const findLeaderByCustomId = async (customId: number): Promise<Leader | n
 
 // Recurring Events utilities
 export const getRecurringEvents = async (): Promise<RecurringEvent[]> => {
-  if (!db) throw new Error('Firestore is not initialized');
-  const q = query(collection(db, recurringEventsCollection), orderBy('dayOfWeek', 'asc'));
-  const querySnapshot = await getDocs(q);
-  
-  return querySnapshot.docs.map(doc => ({
-    id: doc.id,
-    ...doc.data()
-  })) as RecurringEvent[];
+  return recurringEventsRepository.list();
 };
 
 export const createRecurringEvent = async (eventData: Omit<RecurringEvent, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> => {
-  if (!db) throw new Error('Firestore is not initialized');
-  const docRef = await addDoc(collection(db, recurringEventsCollection), {
-    ...eventData,
-    createdAt: Timestamp.now(),
-    updatedAt: Timestamp.now(),
-  });
-  return docRef.id;
+  return recurringEventsRepository.create(eventData);
 };
 
 export const updateRecurringEvent = async (event: RecurringEvent): Promise<void> => {
-  if (!db) throw new Error('Firestore is not initialized');
-  const docRef = doc(db, recurringEventsCollection, event.id!);
-  await updateDoc(docRef, {
-    ...event,
-    updatedAt: Timestamp.now(),
-  });
+  await recurringEventsRepository.update(event.id!, event);
+};
+
+// Series saved before rrule existed repeat every week on dayOfWeek
+export const getRecurrenceRule = (event: RecurringEvent): RecurrenceRule => {
+  if (event.rrule) return parseRRule(event.rrule);
+  return { freq: 'WEEKLY', interval: 1, byDay: [event.dayOfWeek] };
 };
 
 export const deleteRecurringEvent = async (event: RecurringEvent): Promise<void> => {
   if (!db) throw new Error('Firestore is not initialized');
-  const docRef = doc(db, recurringEventsCollection, event.id!);
-  await deleteDoc(docRef);
+  const bySeries = { where: [where('recurringEventId', '==', event.id)], orderBy: false as const };
+  const [skips, overrides] = await Promise.all([
+    skippedRecurringEventsRepository.list(bySeries),
+    recurringEventOverridesRepository.list(bySeries),
+  ]);
+
+  // Remove the series together with its per-occurrence skips and overrides
+  const batch = writeBatch(db);
+  batch.delete(recurringEventsRepository.doc(event.id!));
+  skips.forEach(skip => batch.delete(skippedRecurringEventsRepository.doc(skip.id!)));
+  overrides.forEach(override => batch.delete(recurringEventOverridesRepository.doc(override.id!)));
+  await batch.commit();
+};
+
+// Bookable resource utilities
+export const getBookableResources = async (): Promise<BookableResource[]> => {
+  return resourcesRepository.list();
+};
+
+export const createBookableResource = async (resourceData: Omit<BookableResource, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> => {
+  return resourcesRepository.create(resourceData);
+};
+
+export const updateBookableResource = async (resource: BookableResource): Promise<void> => {
+  await resourcesRepository.update(resource.id!, resource);
+};
+
+// Events keep their location name, so deleting a resource only removes it from future conflict checks
+export const deleteBookableResource = async (id: string): Promise<void> => {
+  await resourcesRepository.remove(id);
+};
+
+export const subscribeToBookableResources = (
+  callback: (resources: BookableResource[]) => void
+) => {
+  return resourcesRepository.subscribe(callback);
 };
 
 // Newsletter Signups utilities
 export const getNewsletterSignups = async (): Promise<NewsletterSignup[]> => {
-  if (!db) throw new Error('Firestore is not initialized');
-  const q = query(collection(db, newsletterSignupsCollection), orderBy('createdAt', 'desc'));
-  const querySnapshot = await getDocs(q);
-  
-  return querySnapshot.docs.map(doc => ({
-    id: doc.id,
-    ...doc.data()
-  })) as NewsletterSignup[];
+  return newsletterSignupsRepository.list();
 };
 
+// Creates a pending signup, the only kind the public may create. Fails if the address
+// already signed up or is suppressed. The confirmation email comes from /api/newsletter/subscribe.
 export const createNewsletterSignup = async (email: string): Promise<string> => {
-  if (!db) throw new Error('Firestore is not initialized');
-  const docRef = await addDoc(collection(db, newsletterSignupsCollection), {
-    email,
-    createdAt: Timestamp.now(),
+  const id = email.trim().toLowerCase();
+  await newsletterSignupsRepository.set(id, {
+    email: email.trim(),
+    status: 'pending',
+    createdAt: serverTimestamp(),
   });
-  return docRef.id;
+  return id;
 };
 
 export const deleteNewsletterSignup = async (id: string): Promise<void> => {
-  if (!db) throw new Error('Firestore is not initialized');
-  const docRef = doc(db, newsletterSignupsCollection, id);
-  await deleteDoc(docRef);
+  await newsletterSignupsRepository.remove(id);
 };
 
-// Real-time listeners for newsletter signups
-export const subscribeToNewsletterSignups = (
-  callback: (data: NewsletterSignup[]) => void
-) => {
-  if (!db) throw new Error('Firestore is not initialized');
-  const q = query(collection(db, newsletterSignupsCollection), orderBy('createdAt', 'desc'));
-  
-  return onSnapshot(q, (querySnapshot) => {
-    const data = querySnapshot.docs.map(doc => ({
-      id: doc.id,
-      ...doc.data()
-    })) as NewsletterSignup[];
-    callback(data);
+export const updateNewsletterSignup = async (
+  id: string,
+  changes: Partial<Pick<NewsletterSignup, 'name' | 'interests' | 'tags'>>
+): Promise<void> => {
+  await newsletterSignupsRepository.update(id, {
+    ...changes,
+    updatedAt: Timestamp.now(),
   });
 };
 
-// Skipped Recurring Events utilities
-export const getSkippedRecurringEvents = async (): Promise<SkippedRecurringEvent[]> => {
+// Adds imported subscribers, keyed by their lowercased email. The caller removes addresses
+// that are already on the list or suppressed (see planNewsletterImport).
+export const importNewsletterSignups = async (
+  signups: Pick<NewsletterSignup, 'email' | 'name' | 'interests' | 'tags'>[],
+  status: Extract<NewsletterSignupStatus, 'pending' | 'confirmed'>
+): Promise<number> => {
   if (!db) throw new Error('Firestore is not initialized');
-  const q = query(collection(db, skippedRecurringEventsCollection), orderBy('skipDate', 'desc'));
-  const querySnapshot = await getDocs(q);
-  
-  return querySnapshot.docs.map(doc => ({
-    id: doc.id,
-    ...doc.data()
-  })) as SkippedRecurringEvent[];
+  const BATCH_SIZE = 400;
+
+  for (let i = 0; i < signups.length; i += BATCH_SIZE) {
+    const batch = writeBatch(db);
+    signups.slice(i, i + BATCH_SIZE).forEach(signup => {
+      batch.set(newsletterSignupsRepository.doc(signup.email.trim().toLowerCase()), {
+        email: signup.email.trim(),
+        name: signup.name || null,
+        interests: signup.interests || [],
+        tags: signup.tags || [],
+        source: 'manual-import',
+        status,
+        confirmedAt: status === 'confirmed' ? Timestamp.now() : null,
+        createdAt: Timestamp.now(),
+      });
+    });
+    await batch.commit();
+  }
+  return signups.length;
 };
 
-export const createSkippedRecurringEvent = async (skipData: Omit<SkippedRecurringEvent, 'id' | 'createdAt'>): Promise<string> => {
+// Adds an address to the suppression list and marks its signup unsubscribed, if there is one
+export const suppressNewsletterEmail = async (email: string, adminId: string): Promise<void> => {
   if (!db) throw new Error('Firestore is not initialized');
-  const docRef = await addDoc(collection(db, skippedRecurringEventsCollection), {
-    ...skipData,
+  const id = email.trim().toLowerCase();
+  const batch = writeBatch(db);
+  batch.set(newsletterSuppressionsRepository.doc(id), {
+    email: email.trim(),
+    reason: 'manual',
+    detail: null,
+    createdBy: adminId,
     createdAt: Timestamp.now(),
   });
-  return docRef.id;
-};
+  if (await newsletterSignupsRepository.exists(id)) {
+    batch.update(newsletterSignupsRepository.doc(id), { status: 'unsubscribed', unsubscribedAt: Timestamp.now() });
+  }
+  await batch.commit();
+};
+
+// Lets the address sign up again. It does not resubscribe anyone.
+export const removeNewsletterSuppression = async (id: string): Promise<void> => {
+  await newsletterSuppressionsRepository.remove(id);
+};
+
+export const createNewsletterSegment = async (
+  segment: Pick<NewsletterSegment, 'name' | 'description' | 'interests' | 'sources' | 'tags'>,
+  adminId: string
+): Promise<string> => {
+  return newsletterSegmentsRepository.create({
+    ...segment,
+    createdBy: adminId,
+    updatedBy: adminId,
+  });
+};
+
+export const updateNewsletterSegment = async (
+  id: string,
+  changes: Pick<NewsletterSegment, 'name' | 'description' | 'interests' | 'sources' | 'tags'>,
+  adminId: string
+): Promise<void> => {
+  await newsletterSegmentsRepository.update(id, {
+    ...changes,
+    updatedBy: adminId,
+  });
+};
+
+export const subscribeToNewsletterSegments = (
+  callback: (data: NewsletterSegment[]) => void
+) => {
+  return newsletterSegmentsRepository.subscribe(callback);
+};
+
+export const subscribeToNewsletterSuppressions = (
+  callback: (data: NewsletterSuppression[]) => void
+) => {
+  return newsletterSuppressionsRepository.subscribe(callback);
+};
+
+// Real-time listeners for newsletter signups
+export const subscribeToNewsletterSignups = (
+  callback: (data: NewsletterSignup[]) => void
+) => {
+  return newsletterSignupsRepository.subscribe(callback);
+};
+
+// Site settings live in a single document
+export const SITE_SETTINGS_ID = 'main';
+
+export const getSiteSettings = async (): Promise<SiteSettings | null> => {
+  return settingsRepository.get(SITE_SETTINGS_ID);
+};
+
+export const updateSiteSettings = async (settings: Partial<Omit<SiteSettings, 'id'>>): Promise<void> => {
+  await settingsRepository.update(SITE_SETTINGS_ID, settings);
+};
+
+// Church timezone utilities
+export const getChurchTimezone = async (): Promise<string> => {
+  const settings = await getSiteSettings();
+  return settings?.timezone && isValidTimezone(settings.timezone) ? settings.timezone : DEFAULT_TIMEZONE;
+};
+
+// Instants for a wall-clock event; an end time before the start time runs past midnight
+export const getEventInstants = (
+  date: string,
+  startTime: string,
+  endTime: string,
+  timezone: string
+): Pick<Event, 'startAt' | 'endAt' | 'timezone'> => {
+  const endDate = endTime && endTime < startTime ? addDaysToDateString(date, 1) : date;
+  return {
+    startAt: Timestamp.fromDate(zonedTimeToInstant(date, startTime, timezone)),
+    endAt: Timestamp.fromDate(zonedTimeToInstant(endDate, endTime || startTime, timezone)),
+    timezone,
+  };
+};
+
+// Registration deadlines are church-local "YYYY-MM-DDTHH:mm" values
+export const getRegistrationDeadlineAt = (deadline: string, timezone: string): Timestamp => {
+  const [date, time] = deadline.split('T');
+  return Timestamp.fromDate(zonedTimeToInstant(date, time || '23:59', timezone));
+};
+
+// Recomputes startAt/endAt (and registration deadlines) for every stored one-time event, e.g. after the church timezone changes
+export const recomputeEventInstants = async (timezone: string): Promise<number> => {
+  if (!db) throw new Error('Firestore is not initialized');
+  const events = await eventsRepository.list();
+  const BATCH_SIZE = 400;
+
+  for (let i = 0; i < events.length; i += BATCH_SIZE) {
+    const batch = writeBatch(db);
+    events.slice(i, i + BATCH_SIZE).forEach(event => {
+      if (!event.id || !event.date) return;
+      const updates: Record<string, unknown> = getEventInstants(event.date, event.startTime, event.endTime, timezone);
+      if (event.registration?.deadline) {
+        updates['registration.deadlineAt'] = getRegistrationDeadlineAt(event.registration.deadline, timezone);
+      }
+      batch.update(eventsRepository.doc(event.id), updates);
+    });
+    await batch.commit();
+  }
+
+  return events.length;
+};
+
+// Skipped Recurring Events utilities
+export const getSkippedRecurringEvents = async (): Promise<SkippedRecurringEvent[]> => {
+  return skippedRecurringEventsRepository.list();
+};
+
+// Skips and overrides are keyed by series and date so each occurrence has at most one of each
+export const getOccurrenceKey = (recurringEventId: string, date: string): string => {
+  return `${recurringEventId}_${date}`;
+};
+
+export const createSkippedRecurringEvent = async (skipData: Omit<SkippedRecurringEvent, 'id' | 'createdAt'>): Promise<string> => {
+  const id = getOccurrenceKey(skipData.recurringEventId, skipData.skipDate);
+  await skippedRecurringEventsRepository.set(id, {
+    recurringEventId: skipData.recurringEventId,
+    skipDate: skipData.skipDate,
+    ...(skipData.reason ? { reason: skipData.reason } : {}),
+    createdAt: Timestamp.now(),
+  });
+  return id;
+};
 
 export const deleteSkippedRecurringEvent = async (id: string): Promise<void> => {
+  await skippedRecurringEventsRepository.remove(id);
+};
+
+// Removes every skip for one occurrence, including older skips stored under random ids
+export const restoreRecurringEventOccurrence = async (recurringEventId: string, date: string): Promise<void> => {
   if (!db) throw new Error('Firestore is not initialized');
-  const docRef = doc(db, skippedRecurringEventsCollection, id);
-  await deleteDoc(docRef);
+  const skips = await skippedRecurringEventsRepository.list({
+    where: [where('recurringEventId', '==', recurringEventId), where('skipDate', '==', date)],
+    orderBy: false,
+  });
+
+  const batch = writeBatch(db);
+  skips.forEach(skip => batch.delete(skippedRecurringEventsRepository.doc(skip.id!)));
+  await batch.commit();
 };
 
-// Utility function to generate upcoming events from recurring events
-export const generateUpcomingRecurringEvents = async (recurringEvents: RecurringEvent[], weeksAhead: number = 4): Promise<Event[]> => {
-  const upcomingEvents: Event[] = [];
-  const today = new Date();
-  const endDate = new Date();
-  endDate.setDate(today.getDate() + (weeksAhead * 7));
+// Recurring Event Overrides utilities
+export const getRecurringEventOverrides = async (): Promise<RecurringEventOverride[]> => {
+  return recurringEventOverridesRepository.list();
+};
+
+export const saveRecurringEventOverride = async (overrideData: Omit<RecurringEventOverride, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> => {
+  const id = getOccurrenceKey(overrideData.recurringEventId, overrideData.occurrenceDate);
+  const existing = await recurringEventOverridesRepository.get(id);
+
+  // Only store the fields that were overridden
+  const fields = Object.fromEntries(
+    Object.entries(overrideData).filter(([, value]) => value !== '')
+  );
 
-  // Get skipped events to exclude them
-  const skippedEvents = await getSkippedRecurringEvents();
-  const skippedDates = new Set(skippedEvents.map(skip => skip.skipDate));
+  await recurringEventOverridesRepository.set(id, {
+    ...fields,
+    ...(existing?.createdAt ? { createdAt: existing.createdAt } : {}),
+  });
+  return id;
+};
+
+export const deleteRecurringEventOverride = async (id: string): Promise<void> => {
+  await recurringEventOverridesRepository.remove(id);
+};
+
+// Utility function to generate upcoming events from recurring events.
+// Cancelled occurrences are dropped unless includeCancelled is set (the dashboard shows them).
+export const generateUpcomingRecurringEvents = async (
+  recurringEvents: RecurringEvent[],
+  weeksAhead: number = 4,
+  options: { includeCancelled?: boolean; timezone?: string } = {}
+): Promise<Event[]> => {
+  // "Today" is the church's date, not the date on the admin's device
+  const timezone = options.timezone || await getChurchTimezone();
+  const rangeStart = getTodayInTimezone(timezone);
+  const rangeEnd = addDaysToDateString(rangeStart, weeksAhead * 7);
+
+  return generateRecurringEventOccurrences(recurringEvents, rangeStart, rangeEnd, { ...options, timezone });
+};
+
+// Expands recurring events into occurrences between two church-local dates (YYYY-MM-DD, inclusive)
+export const generateRecurringEventOccurrences = async (
+  recurringEvents: RecurringEvent[],
+  rangeStart: string,
+  rangeEnd: string,
+  options: { includeCancelled?: boolean; timezone?: string } = {}
+): Promise<Event[]> => {
+  const upcomingEvents: Event[] = [];
+  const timezone = options.timezone || await getChurchTimezone();
+
+  // Skips and overrides only apply to the series they were created for
+  const [skippedEvents, overrides] = await Promise.all([
+    getSkippedRecurringEvents(),
+    getRecurringEventOverrides(),
+  ]);
+  const skipsByOccurrence = new Map(
+    skippedEvents.map(skip => [getOccurrenceKey(skip.recurringEventId, skip.skipDate), skip])
+  );
+  const overridesByOccurrence = new Map(
+    overrides.map(override => [getOccurrenceKey(override.recurringEventId, override.occurrenceDate), override])
+  );
 
   recurringEvents.forEach(recurringEvent => {
     if (!recurringEvent.isActive) return;
 
-    const currentDate = new Date(today);
-    
-    // Find the next occurrence of this day of week
-    while (currentDate.getDay() !== recurringEvent.dayOfWeek) {
-      currentDate.setDate(currentDate.getDate() + 1);
+    let occurrenceDates: string[];
+    try {
+      const rule = getRecurrenceRule(recurringEvent);
+      occurrenceDates = expandRecurrence(rule, recurringEvent.startDate || rangeStart, rangeStart, rangeEnd);
+    } catch (error) {
+      console.error(`Invalid recurrence rule for ${recurringEvent.title}:`, error);
+      return;
     }
 
-    // Generate events for the next few weeks
-    while (currentDate <= endDate) {
-      const eventDate = currentDate.toISOString().split('T')[0];
-      
-      // Skip this event if it's in the skipped dates
-      if (!skippedDates.has(eventDate)) {
+    occurrenceDates.forEach(eventDate => {
+      const occurrenceKey = getOccurrenceKey(recurringEvent.id!, eventDate);
+      const skip = skipsByOccurrence.get(occurrenceKey);
+      const override = overridesByOccurrence.get(occurrenceKey);
+
+      if (!skip || options.includeCancelled) {
+        const startTime = override?.startTime ?? recurringEvent.startTime;
+        const endTime = override?.endTime ?? recurringEvent.endTime;
+
         upcomingEvents.push({
           id: `recurring-${recurringEvent.id}-${eventDate}`,
           title: recurringEvent.title,
-          description: recurringEvent.description,
-          location: recurringEvent.location,
+          description: override?.description ?? recurringEvent.description,
+          location: override?.location ?? recurringEvent.location,
+          locationId: override?.location !== undefined ? override.locationId ?? null : recurringEvent.locationId ?? null,
+          resourceIds: recurringEvent.resourceIds || [],
           date: eventDate,
-          startTime: recurringEvent.startTime,
-          endTime: recurringEvent.endTime,
+          startTime,
+          endTime,
+          ...getEventInstants(eventDate, startTime, endTime, timezone),
+          recurringEventId: recurringEvent.id,
+          occurrenceStatus: skip ? 'cancelled' : override ? 'modified' : 'scheduled',
+          occurrenceReason: skip?.reason ?? override?.reason,
           createdAt: recurringEvent.createdAt,
-          updatedAt: recurringEvent.updatedAt,
+          updatedAt: override?.updatedAt ?? recurringEvent.updatedAt,
         });
       }
-
-      // Move to next week
-      currentDate.setDate(currentDate.getDate() + 7);
-    }
+    });
   });
 
   return upcomingEvents;
 };
 
+// One-time events and recurring occurrences between two church-local dates, sorted by start
+export const getEventsInRange = async (
+  rangeStart: string,
+  rangeEnd: string,
+  options: { includeCancelled?: boolean; timezone?: string } = {}
+): Promise<Event[]> => {
+  const timezone = options.timezone || await getChurchTimezone();
+  const [events, recurringEvents] = await Promise.all([
+    eventsRepository.list(),
+    getRecurringEvents(),
+  ]);
+  const occurrences = await generateRecurringEventOccurrences(recurringEvents, rangeStart, rangeEnd, { ...options, timezone });
+
+  return [
+    ...events.filter(event => event.date >= rangeStart && event.date <= rangeEnd),
+    ...occurrences,
+  ].sort((a, b) => `${a.date} ${a.startTime}`.localeCompare(`${b.date} ${b.startTime}`));
+};
+
+// Event registration utilities
+export const subscribeToEventRegistrations = (
+  eventId: string,
+  callback: (registrations: EventRegistration[]) => void
+) => {
+  return eventRegistrationsRepository.subscribe(callback, { where: [where('eventId', '==', eventId)] });
+};
+
+export const setEventRegistrationCheckedIn = async (id: string, checkedIn: boolean, adminId: string): Promise<void> => {
+  await eventRegistrationsRepository.update(id, {
+    checkedIn,
+    checkedInAt: checkedIn ? Timestamp.now() : null,
+    checkedInBy: checkedIn ? adminId : null,
+  });
+};
+
+// Cancelling frees the seat, so the first waitlisted registration is promoted automatically
+export const setEventRegistrationStatus = async (id: string, status: RegistrationStatus): Promise<void> => {
+  await eventRegistrationsRepository.update(id, {
+    status,
+    cancelledAt: status === 'cancelled' ? Timestamp.now() : null,
+  });
+};
+
+export const deleteEventRegistration = async (id: string): Promise<void> => {
+  await eventRegistrationsRepository.remove(id);
+};
+
+// Existing bookings that clash with the proposed events (one-time events or a series' occurrences).
+// Pass the id being edited so an event never conflicts with itself.
+export const getBookingConflicts = async (
+  candidates: Event[],
+  options: { excludeEventId?: string; excludeRecurringEventId?: string; timezone?: string } = {}
+): Promise<BookingConflict[]> => {
+  if (candidates.length === 0) return [];
+
+  const dates = candidates.map(candidate => candidate.date).sort();
+  const existing = await getEventsInRange(dates[0], dates[dates.length - 1], { timezone: options.timezone });
+
+  return findBookingConflicts(
+    candidates,
+    existing.filter(event =>
+      event.id !== options.excludeEventId &&
+      (!options.excludeRecurringEventId || event.recurringEventId !== options.excludeRecurringEventId)
+    )
+  );
+};
+
+// Inbox queries shared by testimonies, prayer requests and contact messages. The tables load
+// INBOX_PAGE_SIZE documents at a time, newest first, and listen only to the pages loaded so far:
+// pass the cursor of the last loaded page as `until` to subscribe to that window.
+export const INBOX_PAGE_SIZE = 25;
+
+export interface InboxPageOptions {
+  pageSize?: number;
+  after?: QueryDocumentSnapshot | null;
+}
+
+export interface InboxWindow {
+  until?: QueryDocumentSnapshot | null; // omit to listen to every matching document
+}
+
+export interface InboxDateRange {
+  dateFrom?: string;
+  dateTo?: string;
+  timezone?: string; // church timezone the dates are in; DEFAULT_TIMEZONE when omitted
+}
+
+// Documents created between two calendar dates in the church timezone, both included, whatever
+// the timezone of the admin's device. Every filter combined with the range needs a composite
+// index with createdAt (see firestore.indexes.json).
+const createdBetween = ({ dateFrom, dateTo, timezone = DEFAULT_TIMEZONE }: InboxDateRange): QueryConstraint[] => [
+  ...(dateFrom ? [where('createdAt', '>=', Timestamp.fromDate(zonedTimeToInstant(dateFrom, '00:00', timezone)))] : []),
+  ...(dateTo ? [where('createdAt', '<', Timestamp.fromDate(zonedTimeToInstant(addDaysToDateString(dateTo, 1), '00:00', timezone)))] : []),
+];
+
+const readReceipt = (adminId: string) => ({
+  readBy: adminId,
+  readAt: Timestamp.now(),
+});
+
 // Enhanced Testimonies Management Functions
+export interface TestimonyFilters extends InboxDateRange {
+  isAnonymous?: boolean;
+  isRead?: boolean;
+  allowSharing?: boolean;
+  isDraft?: boolean;
+  status?: TestimonyStatus | 'awaiting-review'; // awaiting review is submitted or in review
+}
+
+const AWAITING_REVIEW_STATUSES: TestimonyStatus[] = ['submitted', 'in-review'];
+
+const testimonyConditions = (filters: TestimonyFilters) => {
+  const conditions = createdBetween(filters);
+  if (filters.isAnonymous !== undefined) conditions.push(where('isAnonymous', '==', filters.isAnonymous));
+  if (filters.isRead !== undefined) conditions.push(where('isRead', '==', filters.isRead));
+  if (filters.allowSharing !== undefined) conditions.push(where('allowSharing', '==', filters.allowSharing));
+  if (filters.isDraft !== undefined) conditions.push(where('isDraft', '==', filters.isDraft));
+  if (filters.status === 'awaiting-review') conditions.push(where('status', 'in', AWAITING_REVIEW_STATUSES));
+  else if (filters.status) conditions.push(where('status', '==', filters.status));
+  return conditions;
+};
+
 export const getTestimoniesWithFilters = async (
-  filters: {
-    isAnonymous?: boolean;
-    isRead?: boolean;
-    allowSharing?: boolean;
-    dateFrom?: string;
-    dateTo?: string;
-  } = {}
-): Promise<Testimony[]> => {
-  if (!db) throw new Error('Firestore is not initialized');
-  
-  let q = query(collection(db, testimoniesCollection), orderBy('createdAt', 'desc'));
-  
-  // Apply filters
-  if (filters.isAnonymous !== undefined) {
-    q = query(q, where('isAnonymous', '==', filters.isAnonymous));
-  }
-  
-  if (filters.isRead !== undefined) {
-    q = query(q, where('isRead', '==', filters.isRead));
-  }
-  
-  if (filters.allowSharing !== undefined) {
-    q = query(q, where('allowSharing', '==', filters.allowSharing));
-  }
-  
-  const querySnapshot = await getDocs(q);
-  let testimonies = querySnapshot.docs.map(doc => ({
-    id: doc.id,
-    ...doc.data()
-  })) as Testimony[];
-  
-  // Apply date range filter (client-side for better performance)
-  if (filters.dateFrom || filters.dateTo) {
-    testimonies = testimonies.filter(testimony => {
-      if (!testimony.createdAt) return false;
-      
-      const testimonyDate = testimony.createdAt.toDate();
-      const fromDate = filters.dateFrom ? new Date(filters.dateFrom) : null;
-      const toDate = filters.dateTo ? new Date(filters.dateTo) : null;
-      
-      if (fromDate && testimonyDate < fromDate) return false;
-      if (toDate && testimonyDate > toDate) return false;
-      
-      return true;
-    });
-  }
-  
-  return testimonies;
+  filters: TestimonyFilters = {},
+  { pageSize = INBOX_PAGE_SIZE, after }: InboxPageOptions = {}
+): Promise<Page<Testimony>> => {
+  return testimoniesRepository.page({ where: testimonyConditions(filters), pageSize, after });
 };
 
 export const markTestimonyAsRead = async (
@@ -671,15 +1532,7 @@ export const markTestimonyAsRead = async (
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   adminEmail: string
 ): Promise<void> => {
-  if (!db) throw new Error('Firestore is not initialized');
-  
-  const docRef = doc(db, testimoniesCollection, testimonyId);
-  await updateDoc(docRef, {
-    isRead: true,
-    readBy: adminId,
-    readAt: Timestamp.now(),
-    updatedAt: Timestamp.now(),
-  });
+  await testimoniesRepository.update(testimonyId, { isRead: true, ...readReceipt(adminId) });
 };
 
 export const markMultipleTestimoniesAsRead = async (
@@ -688,170 +1541,121 @@ export const markMultipleTestimoniesAsRead = async (
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   adminEmail: string
 ): Promise<void> => {
-  if (!db) throw new Error('Firestore is not initialized');
-  
-  const batch = writeBatch(db);
-  
-  testimonyIds.forEach(testimonyId => {
-    const docRef = doc(db, testimoniesCollection, testimonyId);
-    batch.update(docRef, {
-      isRead: true,
-      readBy: adminId,
-      readAt: Timestamp.now(),
-      updatedAt: Timestamp.now(),
-    });
-  });
-  
-  await batch.commit();
+  await testimoniesRepository.updateMany(testimonyIds, { isRead: true, ...readReceipt(adminId) });
 };
 
 export const subscribeToTestimonies = (
-  callback: (data: Testimony[]) => void
+  callback: (data: Testimony[]) => void,
+  filters: TestimonyFilters = {},
+  { until }: InboxWindow = {}
 ) => {
-  if (!db) throw new Error('Firestore is not initialized');
-  const q = query(collection(db, testimoniesCollection), orderBy('createdAt', 'desc'));
-  
-  return onSnapshot(q, (querySnapshot) => {
-    const data = querySnapshot.docs.map(doc => ({
-      id: doc.id,
-      ...doc.data()
-    })) as Testimony[];
-    callback(data);
-  });
+  return testimoniesRepository.subscribe(callback, { where: testimonyConditions(filters), until });
 };
 
-export const getUnreadTestimoniesCount = async (): Promise<number> => {
-  if (!db) throw new Error('Firestore is not initialized');
-  const q = query(collection(db, testimoniesCollection), where('isRead', '==', false));
-  const querySnapshot = await getDocs(q);
-  return querySnapshot.size;
+export const updateTestimonyModeration = async (
+  testimonyId: string,
+  changes: Partial<Pick<Testimony, 'status' | 'publicExcerpt' | 'publishAt' | 'rejectionReason'>>,
+  adminId: string
+): Promise<void> => {
+  await testimoniesRepository.update(testimonyId, {
+    ...changes,
+    ...(changes.status ? { reviewedBy: adminId, reviewedAt: Timestamp.now() } : {}),
+  });
+  await syncPublicTestimony(testimonyId);
 };
 
-// Export Logging Functions
-export const logTestimonyExport = async (
-  exportData: Omit<TestimonyExport, 'id' | 'exportedAt'>
-): Promise<string> => {
-  console.log('🔍 logTestimonyExport called with:', exportData);
-  
-  if (!db) {
-    console.error('❌ Firestore database not initialized');
-    throw new Error('Firestore is not initialized');
+// Rewrites the public copy of a testimony after it changes, or removes it once the testimony
+// is no longer published. Call it after every write that can change what the website shows.
+export const syncPublicTestimony = async (testimonyId: string): Promise<void> => {
+  const testimony = await testimoniesRepository.get(testimonyId);
+  const isPublished = testimony &&
+    testimony.status === 'published' &&
+    testimony.allowSharing === true &&
+    !testimony.isDraft &&
+    testimony.publicExcerpt &&
+    testimony.publishAt;
+
+  if (!isPublished) {
+    await publicTestimoniesRepository.remove(testimonyId);
+    return;
   }
-  
-  console.log('🔍 Database connection status:', {
-    dbExists: !!db,
-    dbType: typeof db,
-    collectionExists: !!collection(db, testimoniesExportsCollection)
+
+  await publicTestimoniesRepository.set(testimonyId, {
+    name: testimony.isAnonymous ? 'Anonymous' : testimony.name,
+    excerpt: testimony.publicExcerpt!,
+    photo: testimony.isAnonymous ? null : testimony.photo || null,
+    publishAt: testimony.publishAt!,
   });
-  
-  // Validate export data
-  if (!exportData.adminId || !exportData.adminEmail) {
-    console.error('❌ Invalid export data:', exportData);
-    throw new Error('Invalid export data: missing admin information');
-  }
-  
-  console.log('🔍 Logging testimony export:', {
-    collection: testimoniesExportsCollection,
-    adminId: exportData.adminId,
-    adminEmail: exportData.adminEmail,
-    exportType: exportData.exportType,
-    testimonyCount: exportData.testimonyIds.length
+};
+
+export const deleteTestimony = async (testimonyId: string): Promise<void> => {
+  await testimoniesRepository.remove(testimonyId);
+  await publicTestimoniesRepository.remove(testimonyId);
+};
+
+// The security rules only let the public read copies whose publish time has passed, so the
+// query must say so. The bound is a minute behind this clock in case it runs ahead of the server's.
+const PUBLISH_CLOCK_MARGIN_MS = 60 * 1000;
+
+// Public read used by /api/testimonies
+export const getPublishedTestimonies = async (maxResults?: number): Promise<PublicTestimony[]> => {
+  const published = await publicTestimoniesRepository.list({
+    where: [where('publishAt', '<=', Timestamp.fromMillis(Date.now() - PUBLISH_CLOCK_MARGIN_MS))],
+    limit: maxResults,
   });
-  
-  try {
-    console.log('🔍 Attempting to add document to collection...');
-    const docRef = await addDoc(collection(db, testimoniesExportsCollection), {
-      ...exportData,
-      exportedAt: Timestamp.now(),
-    });
-    
-    console.log('✅ Export logged successfully with ID:', docRef.id);
-    return docRef.id;
-  } catch (error) {
-    console.error('❌ Failed to log export:', error);
-    console.error('Error details:', {
-      message: error instanceof Error ? error.message : 'Unknown error',
-      code: (error as { code?: string })?.code,
-      collection: testimoniesExportsCollection,
-      adminId: exportData.adminId,
-      adminEmail: exportData.adminEmail,
-      errorType: error?.constructor?.name,
-      errorStack: error instanceof Error ? error.stack : 'No stack trace'
-    });
-    throw error;
-  }
+
+  return published.map(testimony => ({
+    id: testimony.id!,
+    name: testimony.name,
+    excerpt: testimony.excerpt,
+    photo: testimony.photo || null,
+    publishedAt: testimony.publishAt.toDate().toISOString(),
+  }));
 };
 
-export const getTestimonyExports = async (): Promise<TestimonyExport[]> => {
-  if (!db) throw new Error('Firestore is not initialized');
-  const q = query(collection(db, testimoniesExportsCollection), orderBy('exportedAt', 'desc'));
-  const querySnapshot = await getDocs(q);
-  
-  return querySnapshot.docs.map(doc => ({
-    id: doc.id,
-    ...doc.data()
-  })) as TestimonyExport[];
-}; 
+export const getUnreadTestimoniesCount = async (): Promise<number> => {
+  return testimoniesRepository.count([where('isRead', '==', false)]);
+};
+
+// Totals for the whole collection, not just the loaded pages. Testimonies on the website are
+// the public copies whose publish time has passed.
+export const getTestimonyCounts = async () => {
+  const [total, anonymous, unread, allowSharing, awaitingReview, live] = await Promise.all([
+    testimoniesRepository.count(),
+    testimoniesRepository.count([where('isAnonymous', '==', true)]),
+    getUnreadTestimoniesCount(),
+    testimoniesRepository.count([where('allowSharing', '==', true)]),
+    testimoniesRepository.count([where('status', 'in', AWAITING_REVIEW_STATUSES)]),
+    publicTestimoniesRepository.count([where('publishAt', '<=', Timestamp.now())]),
+  ]);
+  return { total, anonymous, unread, allowSharing, awaitingReview, live };
+};
 
 // Prayer Request Management Functions
-export const getPrayerRequestsWithFilters = async (
-  filters: {
-    searchTerm?: string;
-    filterType?: 'all' | 'anonymous' | 'non-anonymous' | 'unread' | 'read';
-    dateFrom?: string;
-    dateTo?: string;
-  } = {}
-): Promise<PrayerRequest[]> => {
-  if (!db) throw new Error('Firestore is not initialized');
-  
-  const q = query(collection(db, prayerRequestsCollection), orderBy('createdAt', 'desc'));
-  const querySnapshot = await getDocs(q);
-  let prayerRequests = querySnapshot.docs.map(doc => ({
-    id: doc.id,
-    ...doc.data()
-  })) as PrayerRequest[];
-  
-  // Apply filters
-  if (filters.searchTerm) {
-    prayerRequests = prayerRequests.filter(request => 
-      (request.name && request.name.toLowerCase().includes(filters.searchTerm!.toLowerCase())) ||
-      request.request.toLowerCase().includes(filters.searchTerm!.toLowerCase()) ||
-      (request.email && request.email.toLowerCase().includes(filters.searchTerm!.toLowerCase()))
-    );
-  }
-  
-  if (filters.filterType && filters.filterType !== 'all') {
-    switch (filters.filterType) {
-      case 'anonymous':
-        prayerRequests = prayerRequests.filter(request => request.isAnonymous);
-        break;
-      case 'non-anonymous':
-        prayerRequests = prayerRequests.filter(request => !request.isAnonymous);
-        break;
-      case 'unread':
-        prayerRequests = prayerRequests.filter(request => !request.isRead);
-        break;
-      case 'read':
-        prayerRequests = prayerRequests.filter(request => request.isRead);
-        break;
-    }
-  }
-  
-  if (filters.dateFrom || filters.dateTo) {
-    prayerRequests = prayerRequests.filter(request => {
-      if (!request.createdAt) return false;
-      const requestDate = request.createdAt.toDate();
-      const fromDate = filters.dateFrom ? new Date(filters.dateFrom) : null;
-      const toDate = filters.dateTo ? new Date(filters.dateTo) : null;
-      
-      if (fromDate && requestDate < fromDate) return false;
-      if (toDate && requestDate > toDate) return false;
-      
-      return true;
-    });
+export interface PrayerRequestFilters extends InboxDateRange {
+  filterType?: 'all' | 'anonymous' | 'non-anonymous' | 'unread' | 'read';
+}
+
+const prayerRequestConditions = (filters: PrayerRequestFilters) => {
+  const conditions = createdBetween(filters);
+  switch (filters.filterType) {
+    case 'anonymous':
+    case 'non-anonymous':
+      conditions.push(where('isAnonymous', '==', filters.filterType === 'anonymous'));
+      break;
+    case 'unread':
+    case 'read':
+      conditions.push(where('isRead', '==', filters.filterType === 'read'));
+      break;
   }
-  
-  return prayerRequests;
+  return conditions;
+};
+
+export const getPrayerRequestsWithFilters = async (
+  filters: PrayerRequestFilters = {},
+  { pageSize = INBOX_PAGE_SIZE, after }: InboxPageOptions = {}
+): Promise<Page<PrayerRequest>> => {
+  return prayerRequestsRepository.page({ where: prayerRequestConditions(filters), pageSize, after });
 };
 
 export const markPrayerRequestAsRead = async (
@@ -860,15 +1664,7 @@ export const markPrayerRequestAsRead = async (
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   adminEmail: string
 ): Promise<void> => {
-  if (!db) throw new Error('Firestore is not initialized');
-  
-  const docRef = doc(db, prayerRequestsCollection, requestId);
-  await updateDoc(docRef, {
-    isRead: true,
-    readBy: adminId,
-    readAt: Timestamp.now(),
-    updatedAt: Timestamp.now(),
-  });
+  await prayerRequestsRepository.update(requestId, { isRead: true, ...readReceipt(adminId) });
 };
 
 export const markMultiplePrayerRequestsAsRead = async (
@@ -877,135 +1673,161 @@ export const markMultiplePrayerRequestsAsRead = async (
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   adminEmail: string
 ): Promise<void> => {
-  if (!db) throw new Error('Firestore is not initialized');
-  
-  const batch = writeBatch(db);
-  
-  requestIds.forEach(requestId => {
-    const docRef = doc(db, prayerRequestsCollection, requestId);
-    batch.update(docRef, {
-      isRead: true,
-      readBy: adminId,
-      readAt: Timestamp.now(),
-      updatedAt: Timestamp.now(),
-    });
-  });
-  
-  await batch.commit();
+  await prayerRequestsRepository.updateMany(requestIds, { isRead: true, ...readReceipt(adminId) });
 };
 
 export const subscribeToPrayerRequests = (
+  callback: (data: PrayerRequest[]) => void,
+  filters: PrayerRequestFilters = {},
+  { until }: InboxWindow = {}
+) => {
+  return prayerRequestsRepository.subscribe(callback, { where: prayerRequestConditions(filters), until });
+};
+
+export const getUnreadPrayerRequestsCount = async (): Promise<number> => {
+  return prayerRequestsRepository.count([where('isRead', '==', false)]);
+};
+
+// Totals for the whole collection, not just the loaded pages
+export const getPrayerRequestCounts = async () => {
+  const [total, unread, anonymous, inCare] = await Promise.all([
+    prayerRequestsRepository.count(),
+    getUnreadPrayerRequestsCount(),
+    prayerRequestsRepository.count([where('isAnonymous', '==', true)]),
+    // Requests without a status are new, so new ones are counted as everything else
+    prayerRequestsRepository.count([where('status', 'in', ['assigned', 'praying', 'followed-up', 'answered', 'archived'])]),
+  ]);
+  return { total, unread, anonymous, awaitingCare: total - inCare };
+};
+
+// Requests with a follow-up date up to today. Closed requests keep theirs, so callers still check getFollowUpState.
+export const subscribeToDueFollowUps = (
+  today: string,
   callback: (data: PrayerRequest[]) => void
 ) => {
-  if (!db) throw new Error('Firestore is not initialized');
-  const q = query(collection(db, prayerRequestsCollection), orderBy('createdAt', 'desc'));
-  
-  return onSnapshot(q, (querySnapshot) => {
-    const data = querySnapshot.docs.map(doc => ({
-      id: doc.id,
-      ...doc.data()
-    })) as PrayerRequest[];
-    callback(data);
+  return prayerRequestsRepository.subscribe(callback, {
+    where: [where('followUpDate', '<=', today)],
+    orderBy: [orderBy('followUpDate')],
   });
 };
 
-export const getUnreadPrayerRequestsCount = async (): Promise<number> => {
-  if (!db) throw new Error('Firestore is not initialized');
-  
-  const q = query(collection(db, prayerRequestsCollection), where('isRead', '==', false));
-  const querySnapshot = await getDocs(q);
-  return querySnapshot.size;
+export const subscribeToAnsweredPrayerRequests = (
+  since: Date,
+  callback: (data: PrayerRequest[]) => void
+) => {
+  return prayerRequestsRepository.subscribe(callback, {
+    where: [where('answeredAt', '>=', Timestamp.fromDate(since))],
+    orderBy: [orderBy('answeredAt')],
+  });
 };
 
-export const logPrayerRequestExport = async (
-  exportData: Omit<PrayerRequestExport, 'id' | 'exportedAt'>
-): Promise<string> => {
-  if (!db) throw new Error('Firestore is not initialized');
-  
-  // Validate export data
-  if (!exportData.adminId || !exportData.adminEmail) {
-    throw new Error('Invalid export data: missing admin information');
-  }
-  
-  try {
-    const docRef = await addDoc(collection(db, prayerRequestsExportsCollection), {
-      ...exportData,
-      exportedAt: Timestamp.now(),
-    });
-    
-    return docRef.id;
-  } catch (error) {
-    console.error('Failed to log prayer request export:', error);
-    throw error;
-  }
+// Prayer care workflow
+export const getPrayerTeamMembers = async (): Promise<User[]> => {
+  // Pastoral roles may only list profiles of the roles that can handle prayer requests,
+  // so the query has to carry the same role filter as the security rule
+  const members = await usersRepository.list({
+    where: [where('role', 'in', [...resourcePermissions.prayerRequests.write])],
+    orderBy: false,
+  });
+  return members
+    .filter(member => member.isActive !== false)
+    .sort((a, b) => `${a.firstName} ${a.lastName}`.localeCompare(`${b.firstName} ${b.lastName}`));
 };
 
-export const getPrayerRequestExports = async (): Promise<PrayerRequestExport[]> => {
+export const updatePrayerRequestCare = async (
+  requestId: string,
+  changes: Partial<Pick<
+    PrayerRequest,
+    'status' | 'assignedTo' | 'assignedToName' | 'followUpDate' | 'outcome' | 'testimonyConsent'
+  >>,
+  adminId: string
+): Promise<void> => {
+  await prayerRequestsRepository.update(requestId, {
+    ...changes,
+    ...(changes.assignedTo !== undefined ? { assignedAt: changes.assignedTo ? Timestamp.now() : null } : {}),
+    ...(changes.status ? { statusUpdatedBy: adminId, statusUpdatedAt: Timestamp.now() } : {}),
+    // Reopening an answered request clears when it was answered, so answered counts stay accurate
+    ...(changes.status === 'answered' ? { answeredAt: Timestamp.now(), answeredBy: adminId } : {}),
+    ...(changes.status && changes.status !== 'answered' && changes.status !== 'archived'
+      ? { answeredAt: null, answeredBy: null }
+      : {}),
+    ...(changes.testimonyConsent !== undefined
+      ? { testimonyConsentRecordedBy: adminId, testimonyConsentRecordedAt: Timestamp.now() }
+      : {}),
+  });
+};
+
+// Creates an unpublished testimony from an answered prayer and links the two documents
+export const createTestimonyDraftFromPrayerRequest = async (prayerRequest: PrayerRequest): Promise<string> => {
   if (!db) throw new Error('Firestore is not initialized');
-  const q = query(collection(db, prayerRequestsExportsCollection), orderBy('exportedAt', 'desc'));
-  const querySnapshot = await getDocs(q);
-  
-  return querySnapshot.docs.map(doc => ({
-    id: doc.id,
-    ...doc.data()
-  })) as PrayerRequestExport[];
+  if (!prayerRequest.id) throw new Error('Prayer request has no id');
+  if (!prayerRequest.testimonyConsent) throw new Error('The submitter has not agreed to share a testimony');
+  if (prayerRequest.testimonyId) throw new Error('A testimony has already been drafted for this request');
+
+  const text = [prayerRequest.request, prayerRequest.outcome].filter(Boolean).join('\n\n');
+  const testimonyRef = testimoniesRepository.doc();
+  const batch = writeBatch(db);
+
+  batch.set(testimonyRef, {
+    name: prayerRequest.name || 'Anonymous',
+    testimony: text,
+    story: text,
+    photo: '',
+    isAnonymous: prayerRequest.isAnonymous,
+    allowSharing: true,
+    isRead: false,
+    isDraft: true,
+    prayerRequestId: prayerRequest.id,
+    status: 'submitted',
+    createdAt: Timestamp.now(),
+    updatedAt: Timestamp.now(),
+  });
+  batch.update(prayerRequestsRepository.doc(prayerRequest.id), {
+    testimonyId: testimonyRef.id,
+    updatedAt: Timestamp.now(),
+  });
+
+  await batch.commit();
+  return testimonyRef.id;
+};
+
+export const addPrayerRequestNote = async (
+  requestId: string,
+  text: string,
+  author: { id: string; name: string }
+): Promise<PrayerRequestNote> => {
+  const note: PrayerRequestNote = {
+    id: `note_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+    text,
+    authorId: author.id,
+    authorName: author.name,
+    createdAt: Timestamp.now(),
+  };
+
+  await prayerRequestsRepository.update(requestId, { notes: arrayUnion(note) });
+  return note;
+};
+
+export const deletePrayerRequestNote = async (requestId: string, note: PrayerRequestNote): Promise<void> => {
+  await prayerRequestsRepository.update(requestId, { notes: arrayRemove(note) });
 };
 
 // Contact Message Management Functions
+export interface ContactMessageFilters extends InboxDateRange {
+  filterType?: 'all' | ContactMessageStatus;
+}
+
+const contactMessageConditions = (filters: ContactMessageFilters) => {
+  const conditions = createdBetween(filters);
+  if (filters.filterType && filters.filterType !== 'all') conditions.push(where('status', '==', filters.filterType));
+  return conditions;
+};
+
 export const getContactMessagesWithFilters = async (
-  filters: {
-    searchTerm?: string;
-    filterType?: 'all' | 'new' | 'read';
-    dateFrom?: string;
-    dateTo?: string;
-  } = {}
-): Promise<ContactMessage[]> => {
-  if (!db) throw new Error('Firestore is not initialized');
-  
-  const q = query(collection(db, contactMessagesCollection), orderBy('createdAt', 'desc'));
-  const querySnapshot = await getDocs(q);
-  let contactMessages = querySnapshot.docs.map(doc => ({
-    id: doc.id,
-    ...doc.data()
-  })) as ContactMessage[];
-  
-  // Apply filters
-  if (filters.searchTerm) {
-    contactMessages = contactMessages.filter(message => 
-      (message.name && message.name.toLowerCase().includes(filters.searchTerm!.toLowerCase())) ||
-      (message.email && message.email.toLowerCase().includes(filters.searchTerm!.toLowerCase())) ||
-      (message.phone && message.phone.toLowerCase().includes(filters.searchTerm!.toLowerCase())) ||
-      (message.subject && message.subject.toLowerCase().includes(filters.searchTerm!.toLowerCase())) ||
-      (message.message && message.message.toLowerCase().includes(filters.searchTerm!.toLowerCase()))
-    );
-  }
-  
-  if (filters.filterType && filters.filterType !== 'all') {
-    switch (filters.filterType) {
-      case 'new':
-        contactMessages = contactMessages.filter(message => message.status === 'new');
-        break;
-      case 'read':
-        contactMessages = contactMessages.filter(message => message.status === 'read');
-        break;
-    }
-  }
-  
-  if (filters.dateFrom || filters.dateTo) {
-    contactMessages = contactMessages.filter(message => {
-      if (!message.createdAt) return false;
-      const messageDate = message.createdAt.toDate();
-      const fromDate = filters.dateFrom ? new Date(filters.dateFrom) : null;
-      const toDate = filters.dateTo ? new Date(filters.dateTo) : null;
-      
-      if (fromDate && messageDate < fromDate) return false;
-      if (toDate && messageDate > toDate) return false;
-      
-      return true;
-    });
-  }
-  
-  return contactMessages;
+  filters: ContactMessageFilters = {},
+  { pageSize = INBOX_PAGE_SIZE, after }: InboxPageOptions = {}
+): Promise<Page<ContactMessage>> => {
+  return contactMessagesRepository.page({ where: contactMessageConditions(filters), pageSize, after });
 };
 
 export const markContactMessageAsRead = async (
@@ -1014,15 +1836,7 @@ export const markContactMessageAsRead = async (
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   adminEmail: string
 ): Promise<void> => {
-  if (!db) throw new Error('Firestore is not initialized');
-  
-  const docRef = doc(db, contactMessagesCollection, messageId);
-  await updateDoc(docRef, {
-    status: 'read',
-    readBy: adminId,
-    readAt: Timestamp.now(),
-    updatedAt: Timestamp.now(),
-  });
+  await contactMessagesRepository.update(messageId, { status: 'read', ...readReceipt(adminId) });
 };
 
 export const markMultipleContactMessagesAsRead = async (
@@ -1031,76 +1845,294 @@ export const markMultipleContactMessagesAsRead = async (
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   adminEmail: string
 ): Promise<void> => {
-  if (!db) throw new Error('Firestore is not initialized');
-  
-  const batch = writeBatch(db);
-  
-  messageIds.forEach(messageId => {
-    const docRef = doc(db, contactMessagesCollection, messageId);
-    batch.update(docRef, {
-      status: 'read',
-      readBy: adminId,
-      readAt: Timestamp.now(),
-      updatedAt: Timestamp.now(),
-    });
-  });
-  
-  await batch.commit();
+  await contactMessagesRepository.updateMany(messageIds, { status: 'read', ...readReceipt(adminId) });
 };
 
 export const subscribeToContactMessages = (
-  callback: (data: ContactMessage[]) => void
+  callback: (data: ContactMessage[]) => void,
+  filters: ContactMessageFilters = {},
+  { until }: InboxWindow = {}
 ) => {
-  if (!db) throw new Error('Firestore is not initialized');
-  const q = query(collection(db, contactMessagesCollection), orderBy('createdAt', 'desc'));
-  
-  return onSnapshot(q, (querySnapshot) => {
-    const data = querySnapshot.docs.map(doc => ({
-      id: doc.id,
-      ...doc.data()
-    })) as ContactMessage[];
-    callback(data);
+  return contactMessagesRepository.subscribe(callback, { where: contactMessageConditions(filters), until });
+};
+
+// Moves a message through new → read → replied → closed (closed messages can be reopened as read)
+export const setContactMessageStatus = async (
+  messageId: string,
+  status: ContactMessageStatus,
+  adminId: string
+): Promise<void> => {
+  const now = Timestamp.now();
+  await contactMessagesRepository.update(messageId, {
+    status,
+    ...(status === 'replied' ? { repliedAt: now } : {}),
+    closedBy: status === 'closed' ? adminId : null,
+    closedAt: status === 'closed' ? now : null,
+  });
+};
+
+export const subscribeToContactMessageReplies = (
+  messageId: string,
+  callback: (data: ContactMessageReply[]) => void
+) => {
+  return contactMessageRepliesRepository(messageId).subscribe(callback);
+};
+
+export const createContactMessageReply = async (
+  messageId: string,
+  reply: Omit<ContactMessageReply, 'id' | 'createdAt' | 'sentAt'>
+): Promise<string> => {
+  return contactMessageRepliesRepository(messageId).create({
+    ...reply,
+    createdAt: Timestamp.now(),
+    sentAt: reply.status === 'logged' ? Timestamp.now() : null,
+  });
+};
+
+// Records the mail transport's result for an email reply
+export const updateContactMessageReply = async (
+  messageId: string,
+  replyId: string,
+  result: Pick<ContactMessageReply, 'status' | 'error' | 'transport' | 'providerMessageId'>
+): Promise<void> => {
+  await contactMessageRepliesRepository(messageId).update(replyId, {
+    ...result,
+    sentAt: result.status === 'sent' ? Timestamp.now() : null,
   });
 };
 
 export const getUnreadContactMessagesCount = async (): Promise<number> => {
-  if (!db) throw new Error('Firestore is not initialized');
-  
-  const q = query(collection(db, contactMessagesCollection), where('status', '==', 'new'));
-  const querySnapshot = await getDocs(q);
-  return querySnapshot.size;
+  return contactMessagesRepository.count([where('status', '==', 'new')]);
+};
+
+// Totals for the whole collection, not just the loaded pages
+export const getContactMessageCounts = async () => {
+  const [total, unread, awaitingReply, replied] = await Promise.all([
+    contactMessagesRepository.count(),
+    getUnreadContactMessagesCount(),
+    contactMessagesRepository.count([where('status', '==', 'read')]),
+    contactMessagesRepository.count([where('status', '==', 'replied')]),
+  ]);
+  return { total, unread, awaitingReply, replied };
 };
 
-export const logContactMessageExport = async (
-  exportData: Omit<ContactMessageExport, 'id' | 'exportedAt'>
+// Export history
+export const EXPORT_RETENTION_OPTIONS = [7, 30, 90, 365];
+export const DEFAULT_EXPORT_RETENTION_DAYS = 90;
+
+// Logs an export, keeping a copy of the generated file under exports/{exportId}/ when one is
+// given. The export is still logged, without a copy, if the upload fails.
+export const logExport = async (
+  exportData: Omit<ExportRecord, 'id' | 'itemCount' | 'archivePath' | 'archiveExpiresAt' | 'exportedAt'>,
+  archive?: { file: Blob; retentionDays: number }
 ): Promise<string> => {
   if (!db) throw new Error('Firestore is not initialized');
-  
-  // Validate export data
+
   if (!exportData.adminId || !exportData.adminEmail) {
     throw new Error('Invalid export data: missing admin information');
   }
-  
-  try {
-    const docRef = await addDoc(collection(db, contactMessagesExportsCollection), {
-      ...exportData,
-      exportedAt: Timestamp.now(),
+
+  const docRef = exportsRepository.doc();
+  let archivePath: string | null = null;
+  let archiveExpiresAt: Timestamp | null = null;
+  if (archive) {
+    try {
+      const path = `${exportsCollection}/${docRef.id}/${exportData.fileName}`;
+      await uploadExportArchive(path, archive.file, exportData.fileName, exportData.dataset);
+      archivePath = path;
+      archiveExpiresAt = Timestamp.fromMillis(Date.now() + archive.retentionDays * 24 * 60 * 60 * 1000);
+    } catch (error) {
+      console.warn('Failed to archive export file:', error);
+    }
+  }
+
+  await exportsRepository.set(docRef.id, {
+    ...exportData,
+    archivePath,
+    archiveExpiresAt,
+    itemCount: exportData.itemIds.length,
+    exportedAt: serverTimestamp(),
+  });
+  return docRef.id;
+};
+
+export const isExportArchiveAvailable = (record: ExportRecord, now: Date = new Date()) =>
+  Boolean(record.archivePath && record.archiveExpiresAt && record.archiveExpiresAt.toMillis() > now.getTime());
+
+// Deletes the files of expired exports. The history entries stay; only their archive path is cleared.
+export const purgeExpiredExportArchives = async (records: ExportRecord[]): Promise<number> => {
+  const expired = records.filter(record => record.id && record.archivePath && !isExportArchiveAvailable(record));
+  for (const record of expired) {
+    await deleteExportArchive(record.archivePath!);
+    await exportsRepository.update(record.id!, { archivePath: null });
+  }
+  return expired.length;
+};
+
+// Where each dataset's exports were logged before the exports collection existed
+const legacyExportSources: Partial<Record<ExportDataset, { collection: string; idsField: string }>> = {
+  testimonies: { collection: testimoniesExportsCollection, idsField: 'testimonyIds' },
+  prayerRequests: { collection: prayerRequestsExportsCollection, idsField: 'prayerRequestIds' },
+  contactMessages: { collection: contactMessagesExportsCollection, idsField: 'contactMessageIds' },
+  eventRegistrations: { collection: eventRegistrationsExportsCollection, idsField: 'registrationIds' },
+};
+
+type LegacyExport = TestimonyExport | PrayerRequestExport | ContactMessageExport | EventRegistrationExport;
+
+// Newest first, including entries from the legacy *_exports collections
+export const getExportHistory = async (dataset: ExportDataset): Promise<ExportRecord[]> => {
+  const records = await exportsRepository.list({ where: [where('dataset', '==', dataset)] });
+
+  const legacy = legacyExportSources[dataset];
+  if (legacy) {
+    const legacyExports = await createRepository<LegacyExport>({
+      collection: legacy.collection,
+      schema: legacyExportSchema,
+      orderBy: [orderBy('exportedAt', 'desc')],
+    }).list();
+    legacyExports.forEach(data => {
+      const itemIds: string[] = (data as unknown as Record<string, string[]>)[legacy.idsField] || [];
+      records.push({
+        id: data.id,
+        dataset,
+        format: data.exportType,
+        itemIds,
+        itemCount: itemIds.length,
+        columns: [],
+        fileName: '',
+        eventId: 'eventId' in data ? data.eventId : null,
+        adminId: data.adminId,
+        adminEmail: data.adminEmail,
+        exportedAt: data.exportedAt,
+      });
     });
-    
-    return docRef.id;
-  } catch (error) {
-    console.error('Failed to log contact message export:', error);
-    throw error;
   }
+
+  return records.sort((a, b) => (b.exportedAt?.toMillis() ?? 0) - (a.exportedAt?.toMillis() ?? 0));
+};
+
+// Mail queue
+export const MAIL_MAX_ATTEMPTS = 5;
+
+export const queueMail = async <K extends MailTemplateName>(
+  template: K,
+  data: MailTemplateData[K],
+  to: string,
+  createdBy: string,
+  related?: { collection: string; id: string }
+): Promise<string> => {
+  return mailQueueRepository.create({
+    to,
+    template,
+    data,
+    status: 'queued',
+    attempts: 0,
+    maxAttempts: MAIL_MAX_ATTEMPTS,
+    nextAttemptAt: Timestamp.now(),
+    lastError: null,
+    ...(related ? { relatedCollection: related.collection, relatedId: related.id } : {}),
+    createdBy,
+  });
+};
+
+// Puts a failed (or stuck) email back in the queue with a fresh set of attempts
+export const retryMailQueueItem = async (id: string): Promise<void> => {
+  await mailQueueRepository.update(id, {
+    status: 'queued',
+    attempts: 0,
+    nextAttemptAt: Timestamp.now(),
+    lastError: null,
+  });
+};
+
+export const subscribeToMailQueue = (
+  callback: (data: MailQueueItem[]) => void
+) => {
+  return mailQueueRepository.subscribe(callback);
+};
+
+// Newsletter campaigns
+export const createCampaign = async (
+  campaign: Pick<Campaign, 'subject' | 'content' | 'audience'>,
+  adminId: string
+): Promise<string> => {
+  return campaignsRepository.create({
+    ...campaign,
+    status: 'draft',
+    scheduledAt: null,
+    createdBy: adminId,
+    updatedBy: adminId,
+  });
+};
+
+export const updateCampaign = async (
+  id: string,
+  changes: Partial<Pick<Campaign, 'subject' | 'content' | 'audience'>>,
+  adminId: string
+): Promise<void> => {
+  await campaignsRepository.update(id, {
+    ...changes,
+    updatedBy: adminId,
+  });
+};
+
+// Schedules a draft for sending at the given time (now for "send now"), or with null
+// takes a scheduled campaign back to draft
+export const scheduleCampaign = async (
+  id: string,
+  scheduledAt: Date | null,
+  adminId: string
+): Promise<void> => {
+  await campaignsRepository.update(id, {
+    status: scheduledAt ? 'scheduled' : 'draft',
+    scheduledAt: scheduledAt ? Timestamp.fromDate(scheduledAt) : null,
+    updatedBy: adminId,
+  });
 };
 
-export const getContactMessageExports = async (): Promise<ContactMessageExport[]> => {
+// Gives failed recipients another set of attempts and resumes sending
+export const retryFailedCampaignRecipients = async (
+  campaignId: string,
+  recipients: CampaignRecipient[],
+  adminId: string
+): Promise<number> => {
   if (!db) throw new Error('Firestore is not initialized');
-  const q = query(collection(db, contactMessagesExportsCollection), orderBy('exportedAt', 'desc'));
-  const querySnapshot = await getDocs(q);
-  
-  return querySnapshot.docs.map(doc => ({
-    id: doc.id,
-    ...doc.data()
-  })) as ContactMessageExport[];
-};
\ No newline at end of file
+
+  const failed = recipients.filter(recipient => recipient.status === 'failed' && recipient.id);
+  if (failed.length === 0) return 0;
+
+  // Firestore batches are limited to 500 writes
+  for (let i = 0; i < failed.length; i += 499) {
+    const batch = writeBatch(db);
+    failed.slice(i, i + 499).forEach(recipient => {
+      batch.update(campaignRecipientsRepository(campaignId).doc(recipient.id!), {
+        status: 'pending',
+        attempts: 0,
+        error: null,
+      });
+    });
+    if (i === 0) {
+      batch.update(campaignsRepository.doc(campaignId), {
+        status: 'sending',
+        sentAt: null,
+        updatedBy: adminId,
+        updatedAt: Timestamp.now(),
+      });
+    }
+    await batch.commit();
+  }
+  return failed.length;
+};
+
+export const subscribeToCampaigns = (
+  callback: (data: Campaign[]) => void
+) => {
+  return campaignsRepository.subscribe(callback);
+};
+
+export const subscribeToCampaignRecipients = (
+  campaignId: string,
+  callback: (data: CampaignRecipient[]) => void
+) => {
+  return campaignRecipientsRepository(campaignId).subscribe(callback);
+};
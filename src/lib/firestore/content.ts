@@ -1,20 +1,19 @@
 import { 
-  collection, 
-  doc, 
-  getDocs, 
-  addDoc, 
-  updateDoc, 
-  deleteDoc, 
-  query, 
-  where, 
   orderBy,
+  where,
   writeBatch,
-  serverTimestamp,
   Timestamp,
-  onSnapshot,
   Unsubscribe
 } from 'firebase/firestore';
 import { db } from '../firebase';
+import { createRepository, Repository } from './repository';
+import {
+  aboutContentSchema,
+  carouselSlideSchema,
+  communityServiceSchema,
+  missionVisionSchema,
+  serviceTimeSchema
+} from './schemas';
 
 // Types for content management
 export interface CarouselSlide {
@@ -75,31 +74,18 @@ export interface CommunityService {
 // Carousel Management
 export const carouselCollection = 'carousel';
 
+export const carouselRepository = createRepository<CarouselSlide>({
+  collection: carouselCollection,
+  schema: carouselSlideSchema,
+  orderBy: [orderBy('order', 'asc')],
+});
+
 export async function getCarouselSlides(): Promise<CarouselSlide[]> {
-  const q = query(
-    collection(db, carouselCollection),
-    where('isVisible', '==', true),
-    orderBy('order', 'asc')
-  );
-  
-  const snapshot = await getDocs(q);
-  return snapshot.docs.map(doc => ({
-    id: doc.id,
-    ...doc.data()
-  })) as CarouselSlide[];
+  return carouselRepository.list({ where: [where('isVisible', '==', true)] });
 }
 
 export async function getAllCarouselSlides(): Promise<CarouselSlide[]> {
-  const q = query(
-    collection(db, carouselCollection),
-    orderBy('order', 'asc')
-  );
-  
-  const snapshot = await getDocs(q);
-  return snapshot.docs.map(doc => ({
-    id: doc.id,
-    ...doc.data()
-  })) as CarouselSlide[];
+  return carouselRepository.list();
 }
 
 // Real-time listener for carousel slides
@@ -107,28 +93,10 @@ export function subscribeToCarouselSlides(
   callback: (slides: CarouselSlide[]) => void,
   includeHidden: boolean = false
 ): Unsubscribe {
-  let q;
-  
-  if (includeHidden) {
-    q = query(
-      collection(db, carouselCollection),
-      orderBy('order', 'asc')
-    );
-  } else {
-    q = query(
-      collection(db, carouselCollection),
-      where('isVisible', '==', true),
-      orderBy('order', 'asc')
-    );
-  }
-  
-  return onSnapshot(q, (snapshot) => {
-    const slides = snapshot.docs.map(doc => ({
-      id: doc.id,
-      ...doc.data()
-    })) as CarouselSlide[];
-    callback(slides);
-  });
+  return carouselRepository.subscribe(
+    callback,
+    includeHidden ? {} : { where: [where('isVisible', '==', true)] }
+  );
 }
 
 export async function addCarouselSlide(slide: Omit<CarouselSlide, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
@@ -136,266 +104,129 @@ export async function addCarouselSlide(slide: Omit<CarouselSlide, 'id' | 'create
   const existingSlides = await getAllCarouselSlides();
   const nextOrder = existingSlides.length;
   
-  const docRef = await addDoc(collection(db, carouselCollection), {
+  return carouselRepository.create({
     ...slide,
     order: slide.order ?? nextOrder, // Use provided order or next available
-    createdAt: serverTimestamp(),
-    updatedAt: serverTimestamp()
   });
-  return docRef.id;
 }
 
 export async function updateCarouselSlide(id: string, updates: Partial<CarouselSlide>): Promise<void> {
-  await updateDoc(doc(db, carouselCollection, id), {
-    ...updates,
-    updatedAt: serverTimestamp()
-  });
+  await carouselRepository.update(id, updates);
 }
 
 export async function deleteCarouselSlide(id: string): Promise<void> {
-  await deleteDoc(doc(db, carouselCollection, id));
+  await carouselRepository.remove(id);
 }
 
 export async function reorderCarouselSlides(slides: { id: string; order: number }[]): Promise<void> {
   const batch = writeBatch(db);
   
   slides.forEach(({ id, order }) => {
-    const docRef = doc(db, carouselCollection, id);
-    batch.update(docRef, { order, updatedAt: serverTimestamp() });
+    batch.update(carouselRepository.doc(id), { order, updatedAt: Timestamp.now() });
   });
   
   await batch.commit();
 }
 
+// Mission, vision and about content are a single document each, created on first save
+async function saveSingleton<T extends { id?: string }>(repository: Repository<T>, data: Partial<T>): Promise<void> {
+  const [existing] = await repository.list({ limit: 1 });
+  
+  if (existing) {
+    await repository.update(existing.id!, data);
+  } else {
+    await repository.create(data);
+  }
+}
+
 // Mission & Vision Management
 export const missionVisionCollection = 'mission_vision';
 
+export const missionVisionRepository = createRepository<MissionVision>({
+  collection: missionVisionCollection,
+  schema: missionVisionSchema,
+});
+
 export async function getMissionVision(): Promise<MissionVision | null> {
-  const snapshot = await getDocs(collection(db, missionVisionCollection));
-  if (snapshot.empty) return null;
-  
-  const doc = snapshot.docs[0];
-  return {
-    id: doc.id,
-    ...doc.data()
-  } as MissionVision;
+  const [missionVision] = await missionVisionRepository.list({ limit: 1 });
+  return missionVision ?? null;
 }
 
 export async function updateMissionVision(data: { mission: string; vision: string }): Promise<void> {
-  const existing = await getMissionVision();
-  
-  if (existing) {
-    await updateDoc(doc(db, missionVisionCollection, existing.id!), {
-      ...data,
-      updatedAt: serverTimestamp()
-    });
-  } else {
-    await addDoc(collection(db, missionVisionCollection), {
-      ...data,
-      createdAt: serverTimestamp(),
-      updatedAt: serverTimestamp()
-    });
-  }
+  await saveSingleton(missionVisionRepository, data);
 }
 
 // Service Times Management
 export const serviceTimesCollection = 'service_times';
 
+export const serviceTimesRepository = createRepository<ServiceTime>({
+  collection: serviceTimesCollection,
+  schema: serviceTimeSchema,
+  orderBy: [orderBy('order', 'asc')],
+});
+
 export async function getServiceTimes(): Promise<ServiceTime[]> {
-  const q = query(
-    collection(db, serviceTimesCollection),
-    where('isActive', '==', true),
-    orderBy('order', 'asc')
-  );
-  
-  const snapshot = await getDocs(q);
-  return snapshot.docs.map(doc => ({
-    id: doc.id,
-    ...doc.data()
-  })) as ServiceTime[];
+  return serviceTimesRepository.list({ where: [where('isActive', '==', true)] });
 }
 
 export async function getAllServiceTimes(): Promise<ServiceTime[]> {
-  const q = query(
-    collection(db, serviceTimesCollection),
-    orderBy('order', 'asc')
-  );
-  
-  const snapshot = await getDocs(q);
-  return snapshot.docs.map(doc => ({
-    id: doc.id,
-    ...doc.data()
-  })) as ServiceTime[];
+  return serviceTimesRepository.list();
 }
 
 export async function addServiceTime(service: Omit<ServiceTime, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
-  const docRef = await addDoc(collection(db, serviceTimesCollection), {
-    ...service,
-    createdAt: serverTimestamp(),
-    updatedAt: serverTimestamp()
-  });
-  return docRef.id;
+  return serviceTimesRepository.create(service);
 }
 
 export async function updateServiceTime(id: string, updates: Partial<ServiceTime>): Promise<void> {
-  await updateDoc(doc(db, serviceTimesCollection, id), {
-    ...updates,
-    updatedAt: serverTimestamp()
-  });
+  await serviceTimesRepository.update(id, updates);
 }
 
 export async function deleteServiceTime(id: string): Promise<void> {
-  await deleteDoc(doc(db, serviceTimesCollection, id));
+  await serviceTimesRepository.remove(id);
 }
 
 // About Content Management
 export const aboutCollection = 'about';
 
+export const aboutRepository = createRepository<AboutContent>({
+  collection: aboutCollection,
+  schema: aboutContentSchema,
+});
+
 export async function getAboutContent(): Promise<AboutContent | null> {
-  const snapshot = await getDocs(collection(db, aboutCollection));
-  if (snapshot.empty) return null;
-  
-  const doc = snapshot.docs[0];
-  return {
-    id: doc.id,
-    ...doc.data()
-  } as AboutContent;
+  const [about] = await aboutRepository.list({ limit: 1 });
+  return about ?? null;
 }
 
 export async function updateAboutContent(data: Partial<AboutContent>): Promise<void> {
-  const existing = await getAboutContent();
-  
-  if (existing) {
-    await updateDoc(doc(db, aboutCollection, existing.id!), {
-      ...data,
-      updatedAt: serverTimestamp()
-    });
-  } else {
-    await addDoc(collection(db, aboutCollection), {
-      ...data,
-      createdAt: serverTimestamp(),
-      updatedAt: serverTimestamp()
-    });
-  }
+  await saveSingleton(aboutRepository, data);
 }
 
 // Community Service Management
 export const communityServiceCollection = 'community_service';
 
+export const communityServiceRepository = createRepository<CommunityService>({
+  collection: communityServiceCollection,
+  schema: communityServiceSchema,
+  orderBy: [orderBy('order', 'asc')],
+});
+
 export async function getCommunityServices(): Promise<CommunityService[]> {
-  const q = query(
-    collection(db, communityServiceCollection),
-    where('isActive', '==', true),
-    orderBy('order', 'asc')
-  );
-  
-  const snapshot = await getDocs(q);
-  return snapshot.docs.map(doc => ({
-    id: doc.id,
-    ...doc.data()
-  })) as CommunityService[];
+  return communityServiceRepository.list({ where: [where('isActive', '==', true)] });
 }
 
 export async function getAllCommunityServices(): Promise<CommunityService[]> {
-  const q = query(
-    collection(db, communityServiceCollection),
-    orderBy('order', 'asc')
-  );
-  
-  const snapshot = await getDocs(q);
-  return snapshot.docs.map(doc => ({
-    id: doc.id,
-    ...doc.data()
-  })) as CommunityService[];
+  return communityServiceRepository.list();
 }
 
 export async function addCommunityService(service: Omit<CommunityService, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
-  const docRef = await addDoc(collection(db, communityServiceCollection), {
-    ...service,
-    createdAt: serverTimestamp(),
-    updatedAt: serverTimestamp()
-  });
-  return docRef.id;
+  return communityServiceRepository.create(service);
 }
 
 export async function updateCommunityService(id: string, updates: Partial<CommunityService>): Promise<void> {
-  await updateDoc(doc(db, communityServiceCollection, id), {
-    ...updates,
-    updatedAt: serverTimestamp()
-  });
+  await communityServiceRepository.update(id, updates);
 }
 
 export async function deleteCommunityService(id: string): Promise<void> {
-  await deleteDoc(doc(db, communityServiceCollection, id));
+  await communityServiceRepository.remove(id);
 }
-
-// Enhanced Gallery with Categories
-export interface GalleryImage {
-  id?: string;
-  url: string;
-  title: string;
-  description?: string;
-  categories: string[];
-  tags: string[];
-  isActive: boolean;
-  createdAt?: Timestamp;
-  updatedAt?: Timestamp;
-}
-
-export const galleryCollection = 'gallery';
-
-export async function getGalleryImages(category?: string): Promise<GalleryImage[]> {
-  let q = query(
-    collection(db, galleryCollection),
-    where('isActive', '==', true),
-    orderBy('createdAt', 'desc')
-  );
-  
-  if (category) {
-    q = query(
-      collection(db, galleryCollection),
-      where('isActive', '==', true),
-      where('categories', 'array-contains', category),
-      orderBy('createdAt', 'desc')
-    );
-  }
-  
-  const snapshot = await getDocs(q);
-  return snapshot.docs.map(doc => ({
-    id: doc.id,
-    ...doc.data()
-  })) as GalleryImage[];
-}
-
-export async function getAllGalleryImages(): Promise<GalleryImage[]> {
-  const q = query(
-    collection(db, galleryCollection),
-    orderBy('createdAt', 'desc')
-  );
-  
-  const snapshot = await getDocs(q);
-  return snapshot.docs.map(doc => ({
-    id: doc.id,
-    ...doc.data()
-  })) as GalleryImage[];
-}
-
-export async function addGalleryImage(image: Omit<GalleryImage, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
-  const docRef = await addDoc(collection(db, galleryCollection), {
-    ...image,
-    createdAt: serverTimestamp(),
-    updatedAt: serverTimestamp()
-  });
-  return docRef.id;
-}
-
-export async function updateGalleryImage(id: string, updates: Partial<GalleryImage>): Promise<void> {
-  await updateDoc(doc(db, galleryCollection, id), {
-    ...updates,
-    updatedAt: serverTimestamp()
-  });
-}
-
-export async function deleteGalleryImage(id: string): Promise<void> {
-  await deleteDoc(doc(db, galleryCollection, id));
-} 
\ No newline at end of file
@@ -0,0 +1,309 @@
+// Typed access to a Firestore collection. Every read goes through the collection's zod
+// schema: lists skip (and report) documents that fail validation, single reads throw
+// InvalidDocumentError, so a malformed document never reaches a page half-formed.
+// findInvalid lists those documents so they can be fixed.
+//
+// Collections created with softDelete keep removed documents, hidden behind deletedAt,
+// until purgeDeleted runs; restore brings one back.
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  addDoc,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  query,
+  limit,
+  startAfter,
+  endAt,
+  where,
+  onSnapshot,
+  writeBatch,
+  getCountFromServer,
+  deleteField,
+  Timestamp,
+  DocumentData,
+  DocumentReference,
+  DocumentSnapshot,
+  FieldValue,
+  FirestoreDataConverter,
+  Query,
+  QueryConstraint,
+  QueryDocumentSnapshot,
+  QueryOrderByConstraint,
+  Unsubscribe,
+  WriteBatch,
+} from 'firebase/firestore';
+import type { z } from 'zod';
+import { db } from '../firebase';
+
+// Removed documents stay restorable this long before purgeDeleted deletes them for good
+export const SOFT_DELETE_RETENTION_DAYS = 30;
+
+// Firestore batches are limited to 500 writes
+const BATCH_SIZE = 450;
+
+export interface SoftDeleteFields {
+  deletedAt?: Timestamp | null;
+  deletedBy?: string | null; // admin userId
+}
+
+const issueField = (issue: z.core.$ZodIssue) => issue.path.map(String).join('.');
+
+export class InvalidDocumentError extends Error {
+  constructor(
+    readonly path: string,
+    readonly issues: z.core.$ZodIssue[]
+  ) {
+    super(`Invalid document ${path}: ${issues.map(issue => `${issueField(issue) || '(root)'} ${issue.message}`).join('; ')}`);
+    this.name = 'InvalidDocumentError';
+  }
+}
+
+export interface DocumentIssue {
+  field: string; // dotted path such as registration.capacity; empty when the whole document fails
+  message: string;
+  value: unknown; // what is stored at that path
+}
+
+export interface InvalidDocument {
+  id: string;
+  path: string;
+  issues: DocumentIssue[];
+}
+
+// Any field of the document, or a sentinel such as deleteField() or serverTimestamp()
+export type DocumentChanges<T> = { [K in Exclude<keyof T, 'id'>]?: T[K] | FieldValue | null };
+
+export interface RepositoryConfig {
+  collection: string; // collection path; subcollections use e.g. `contactMessages/${id}/replies`
+  schema: z.ZodType;
+  orderBy?: QueryOrderByConstraint[]; // default ordering of list, page and subscribe
+  softDelete?: boolean;
+  timestamps?: boolean; // stamp createdAt/updatedAt on writes; defaults to true
+}
+
+export interface ListOptions {
+  where?: QueryConstraint[];
+  orderBy?: QueryOrderByConstraint[] | false; // replaces the default ordering; false for none
+  limit?: number;
+  after?: QueryDocumentSnapshot | null; // start after this document, e.g. the cursor of the previous page
+  until?: QueryDocumentSnapshot | null; // end at this document, e.g. to keep a listener to the pages loaded so far
+  includeDeleted?: boolean;
+}
+
+export interface Page<T> {
+  items: T[];
+  cursor: QueryDocumentSnapshot | null; // pass as `after` to load the next page
+  hasMore: boolean;
+}
+
+export interface Repository<T extends { id?: string }> {
+  readonly collectionName: string;
+  doc(id?: string): DocumentReference; // for batched writes across collections
+  get(id: string): Promise<T | null>;
+  exists(id: string): Promise<boolean>;
+  list(options?: ListOptions): Promise<T[]>;
+  page(options: ListOptions & { pageSize: number }): Promise<Page<T>>;
+  subscribe(callback: (items: T[]) => void, options?: ListOptions, onError?: (error: Error) => void): Unsubscribe;
+  count(where?: QueryConstraint[]): Promise<number>;
+  create(data: DocumentChanges<T>): Promise<string>;
+  set(id: string, data: DocumentChanges<T>): Promise<void>;
+  update(id: string, changes: DocumentChanges<T>): Promise<void>;
+  updateMany(ids: string[], changes: DocumentChanges<T>): Promise<void>;
+  remove(id: string, deletedBy?: string | null): Promise<void>;
+  restore(id: string): Promise<void>;
+  purgeDeleted(): Promise<number>;
+  findInvalid(): Promise<InvalidDocument[]>; // reads the whole collection, deleted documents included
+}
+
+const reportInvalidDocument = (error: InvalidDocumentError) => {
+  console.warn(error.message);
+};
+
+const valueAt = (data: unknown, path: PropertyKey[]) =>
+  path.reduce<unknown>((value, key) => (value && typeof value === 'object' ? (value as Record<PropertyKey, unknown>)[key] : undefined), data);
+
+const isDeleted = (item: object) => Boolean((item as SoftDeleteFields).deletedAt);
+
+// Drops the id, which lives in the document path, and undefined values, which Firestore rejects
+const toFirestoreData = (data: object): DocumentData =>
+  Object.fromEntries(Object.entries(data).filter(([key, value]) => key !== 'id' && value !== undefined));
+
+export function createRepository<T extends { id?: string }>(config: RepositoryConfig): Repository<T> {
+  const { schema, softDelete = false, timestamps = true } = config;
+  const defaultOrder = config.orderBy ?? [];
+
+  const converter: FirestoreDataConverter<T, DocumentData> = {
+    toFirestore: data => toFirestoreData(data),
+    fromFirestore: (snapshot, options) => {
+      // Pending server timestamps read as estimates instead of null
+      const result = schema.safeParse(snapshot.data({ ...options, serverTimestamps: 'estimate' }));
+      if (!result.success) throw new InvalidDocumentError(snapshot.ref.path, result.error.issues);
+      return { ...(result.data as object), id: snapshot.id } as T;
+    },
+  };
+
+  const getDb = () => {
+    if (!db) throw new Error('Firestore is not initialized');
+    return db;
+  };
+  const rawCollection = () => collection(getDb(), config.collection);
+  const typedCollection = () => rawCollection().withConverter(converter);
+
+  const buildQuery = (options: ListOptions = {}, extra: QueryConstraint[] = []): Query<T, DocumentData> => {
+    const order = options.orderBy === false ? [] : options.orderBy ?? defaultOrder;
+    return query(
+      typedCollection(),
+      ...(options.where ?? []),
+      ...order,
+      // Cursors are read against the ordering, so they have to come after it
+      ...(options.after ? [startAfter(options.after)] : []),
+      ...(options.until ? [endAt(options.until)] : []),
+      ...extra,
+      ...(options.limit ? [limit(options.limit)] : [])
+    );
+  };
+
+  // Converts a snapshot, reporting and skipping it when it fails validation
+  const toItem = (snapshot: QueryDocumentSnapshot<T, DocumentData>, includeDeleted = false): T | null => {
+    try {
+      const item = snapshot.data();
+      return softDelete && !includeDeleted && isDeleted(item) ? null : item;
+    } catch (error) {
+      if (error instanceof InvalidDocumentError) {
+        reportInvalidDocument(error);
+        return null;
+      }
+      throw error;
+    }
+  };
+
+  const toItems = (snapshots: QueryDocumentSnapshot<T, DocumentData>[], includeDeleted?: boolean) =>
+    snapshots.map(snapshot => toItem(snapshot, includeDeleted)).filter((item): item is T => item !== null);
+
+  const stamp = (data: object, fields: ('createdAt' | 'updatedAt')[]) => ({
+    ...(timestamps ? Object.fromEntries(fields.map(field => [field, Timestamp.now()])) : {}),
+    ...toFirestoreData(data),
+  });
+
+  const inBatches = async (refs: DocumentReference[], write: (batch: WriteBatch, ref: DocumentReference) => void) => {
+    for (let i = 0; i < refs.length; i += BATCH_SIZE) {
+      const batch = writeBatch(getDb());
+      refs.slice(i, i + BATCH_SIZE).forEach(ref => write(batch, ref));
+      await batch.commit();
+    }
+  };
+
+  const list = async (options: ListOptions = {}) => {
+    const snapshot = await getDocs(buildQuery(options));
+    return toItems(snapshot.docs, options.includeDeleted);
+  };
+
+  return {
+    collectionName: config.collection,
+
+    doc: id => (id ? doc(rawCollection(), id) : doc(rawCollection())),
+
+    async get(id) {
+      const snapshot: DocumentSnapshot<T, DocumentData> = await getDoc(doc(typedCollection(), id));
+      const item = snapshot.exists() ? snapshot.data() : undefined;
+      return item && !(softDelete && isDeleted(item)) ? item : null;
+    },
+
+    async exists(id) {
+      return (await getDoc(doc(rawCollection(), id))).exists();
+    },
+
+    list,
+
+    // Soft-deleted and invalid documents are left out, so a page can hold fewer than pageSize items
+    async page({ pageSize, ...options }) {
+      const snapshot = await getDocs(buildQuery({ ...options, limit: undefined }, [limit(pageSize + 1)]));
+      const docs = snapshot.docs.slice(0, pageSize);
+      return {
+        items: toItems(docs, options.includeDeleted),
+        cursor: docs[docs.length - 1] ?? null,
+        hasMore: snapshot.docs.length > pageSize,
+      };
+    },
+
+    subscribe(callback, options = {}, onError) {
+      return onSnapshot(
+        buildQuery(options),
+        snapshot => callback(toItems(snapshot.docs, options.includeDeleted)),
+        error => (onError ? onError(error) : console.error(`Error listening to ${config.collection}:`, error))
+      );
+    },
+
+    // Counted on the server. Soft-deleted documents are counted separately and subtracted, which
+    // needs an index on the filtered fields plus deletedAt.
+    async count(conditions = []) {
+      const total = await getCountFromServer(query(rawCollection(), ...conditions));
+      if (!softDelete) return total.data().count;
+      const deleted = await getCountFromServer(query(rawCollection(), ...conditions, where('deletedAt', '!=', null)));
+      return total.data().count - deleted.data().count;
+    },
+
+    async create(data) {
+      const ref = await addDoc(rawCollection(), stamp(data, ['createdAt', 'updatedAt']));
+      return ref.id;
+    },
+
+    async set(id, data) {
+      await setDoc(doc(rawCollection(), id), stamp(data, ['createdAt', 'updatedAt']));
+    },
+
+    async update(id, changes) {
+      await updateDoc(doc(rawCollection(), id), stamp(changes, ['updatedAt']));
+    },
+
+    async updateMany(ids, changes) {
+      const data = stamp(changes, ['updatedAt']);
+      await inBatches(ids.map(id => doc(rawCollection(), id)), (batch, ref) => batch.update(ref, data));
+    },
+
+    async remove(id, deletedBy = null) {
+      const ref = doc(rawCollection(), id);
+      if (!softDelete) {
+        await deleteDoc(ref);
+        return;
+      }
+      await updateDoc(ref, { deletedAt: Timestamp.now(), deletedBy });
+    },
+
+    async restore(id) {
+      await updateDoc(doc(rawCollection(), id), { deletedAt: deleteField(), deletedBy: deleteField() });
+    },
+
+    // Permanently deletes documents removed more than SOFT_DELETE_RETENTION_DAYS ago
+    async purgeDeleted() {
+      if (!softDelete) return 0;
+      const cutoff = Timestamp.fromMillis(Date.now() - SOFT_DELETE_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+      const snapshot = await getDocs(query(rawCollection(), where('deletedAt', '<', cutoff)));
+      await inBatches(snapshot.docs.map(expired => expired.ref), (batch, ref) => batch.delete(ref));
+      return snapshot.size;
+    },
+
+    async findInvalid() {
+      const snapshot = await getDocs(rawCollection());
+      return snapshot.docs.flatMap(document => {
+        const data = document.data({ serverTimestamps: 'estimate' });
+        const result = schema.safeParse(data);
+        if (result.success) return [];
+        return [{
+          id: document.id,
+          path: document.ref.path,
+          issues: result.error.issues.map(issue => ({
+            field: issueField(issue),
+            message: issue.message,
+            value: valueAt(data, issue.path),
+          })),
+        }];
+      });
+    },
+  };
+}
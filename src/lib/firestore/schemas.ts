@@ -0,0 +1,576 @@
+// Runtime shapes of the documents in each collection, checked by the repositories on every
+// read. They mirror the interfaces in ../firestore.ts. Objects are loose, so fields added
+// later (or by the server) pass through untouched; optional fields also accept null,
+// which older documents and the REST helpers write for "not set".
+//
+// The dashboard forms validate against the form schemas at the end of this file, which
+// share their field types with the documents they write.
+
+import { Timestamp } from 'firebase/firestore';
+import { z } from 'zod';
+import { USER_ROLES, normalizeRole } from '../auth/roles';
+
+const timestamp = z.instanceof(Timestamp);
+const optionalTimestamp = timestamp.nullish();
+const optionalString = z.string().nullish();
+const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a YYYY-MM-DD date');
+
+const registrationQuestionType = z.enum(['text', 'select', 'checkbox']);
+const resourceType = z.enum(['room', 'equipment', 'vehicle']);
+const newsletterInterest = z.enum(['youth', 'outreach', 'womens-ministry']);
+const newsletterSource = z.enum(['website-footer', 'event-registration', 'manual-import']);
+
+const segmentCriteria = {
+  interests: z.array(newsletterInterest),
+  sources: z.array(newsletterSource),
+  tags: z.array(z.string()),
+};
+
+// Every leader collection (pastors, teamLeads and the legacy leaders) shares one shape;
+// the category comes from the collection the leader is stored in
+export const leaderSchema = z.looseObject({
+  customId: z.number().nullish(),
+  name: z.string(),
+  role: z.string(),
+  bio: optionalString,
+  image: optionalString,
+  category: z.string().nullish(),
+  order: z.number().nullish(),
+  isActive: z.boolean().nullish(),
+  createdAt: optionalTimestamp,
+  updatedAt: optionalTimestamp,
+});
+
+const registrationQuestion = z.looseObject({
+  id: z.string(),
+  label: z.string(),
+  type: registrationQuestionType,
+  required: z.boolean(),
+  options: z.array(z.string()).nullish(),
+});
+
+export const eventSchema = z.looseObject({
+  title: z.string(),
+  date: dateString,
+  startTime: z.string(),
+  endTime: z.string(),
+  location: z.string(),
+  locationId: optionalString,
+  resourceIds: z.array(z.string()).nullish(),
+  description: z.string(),
+  registration: z.looseObject({
+    enabled: z.boolean(),
+    capacity: z.number().nullable(),
+    deadline: z.string().nullable(),
+    deadlineAt: timestamp.nullable(),
+    questions: z.array(registrationQuestion),
+  }).nullish(),
+  startAt: optionalTimestamp,
+  endAt: optionalTimestamp,
+  timezone: optionalString,
+  createdAt: optionalTimestamp,
+  updatedAt: optionalTimestamp,
+});
+
+export const recurringEventSchema = z.looseObject({
+  title: z.string(),
+  description: z.string(),
+  location: z.string(),
+  locationId: optionalString,
+  resourceIds: z.array(z.string()).nullish(),
+  dayOfWeek: z.number().int().min(0).max(6),
+  rrule: optionalString,
+  startDate: dateString.nullish(),
+  startTime: z.string(),
+  endTime: z.string(),
+  isActive: z.boolean(),
+  createdAt: optionalTimestamp,
+  updatedAt: optionalTimestamp,
+});
+
+export const skippedRecurringEventSchema = z.looseObject({
+  recurringEventId: z.string(),
+  skipDate: dateString,
+  reason: optionalString,
+  createdAt: optionalTimestamp,
+});
+
+export const recurringEventOverrideSchema = z.looseObject({
+  recurringEventId: z.string(),
+  occurrenceDate: dateString,
+  startTime: optionalString,
+  endTime: optionalString,
+  location: optionalString,
+  locationId: optionalString,
+  description: optionalString,
+  reason: optionalString,
+  createdAt: optionalTimestamp,
+  updatedAt: optionalTimestamp,
+});
+
+export const bookableResourceSchema = z.looseObject({
+  name: z.string(),
+  type: resourceType,
+  capacity: z.number().nullish(),
+  description: optionalString,
+  isActive: z.boolean(),
+  createdAt: optionalTimestamp,
+  updatedAt: optionalTimestamp,
+});
+
+export const eventRegistrationSchema = z.looseObject({
+  eventId: z.string(),
+  name: z.string(),
+  email: z.string(),
+  phone: optionalString,
+  answers: z.record(z.string(), z.union([z.string(), z.boolean()])),
+  status: z.enum(['registered', 'cancelled']),
+  checkedIn: z.boolean(),
+  checkedInAt: optionalTimestamp,
+  checkedInBy: optionalString,
+  cancelledAt: optionalTimestamp,
+  createdAt: optionalTimestamp,
+  updatedAt: optionalTimestamp,
+});
+
+export const galleryItemSchema = z.looseObject({
+  caption: z.string(),
+  category: z.string(),
+  imageUrl: z.string(),
+  createdAt: optionalTimestamp,
+  updatedAt: optionalTimestamp,
+});
+
+// Testimonies from before the rename only have the story field; it is read as the testimony
+export const testimonySchema = z.looseObject({
+  name: z.string(),
+  testimony: optionalString,
+  story: optionalString,
+  photo: optionalString,
+  isAnonymous: z.boolean(),
+  allowSharing: z.boolean().nullish(),
+  isRead: z.boolean().nullish(),
+  readBy: optionalString,
+  readAt: optionalTimestamp,
+  isDraft: z.boolean().nullish(),
+  prayerRequestId: optionalString,
+  status: z.enum(['submitted', 'in-review', 'approved', 'published', 'rejected']).nullish(),
+  publicExcerpt: optionalString,
+  publishAt: optionalTimestamp,
+  rejectionReason: optionalString,
+  reviewedBy: optionalString,
+  reviewedAt: optionalTimestamp,
+  createdAt: optionalTimestamp,
+  updatedAt: optionalTimestamp,
+}).refine(testimony => typeof (testimony.testimony ?? testimony.story) === 'string', {
+  message: 'Testimony text is missing',
+  path: ['testimony'],
+}).transform(testimony => ({ ...testimony, testimony: testimony.testimony ?? testimony.story }));
+
+export const publishedTestimonySchema = z.looseObject({
+  name: z.string(),
+  excerpt: z.string(),
+  photo: optionalString,
+  publishAt: timestamp,
+  createdAt: optionalTimestamp,
+  updatedAt: optionalTimestamp,
+});
+
+const prayerRequestNote = z.looseObject({
+  id: z.string(),
+  text: z.string(),
+  authorId: z.string(),
+  authorName: z.string(),
+  createdAt: timestamp,
+});
+
+const softDeleteFields = {
+  deletedAt: optionalTimestamp,
+  deletedBy: optionalString,
+};
+
+export const prayerRequestSchema = z.looseObject({
+  name: optionalString,
+  email: optionalString,
+  request: z.string(),
+  isAnonymous: z.boolean(),
+  isRead: z.boolean().nullish(),
+  readBy: optionalString,
+  readAt: optionalTimestamp,
+  status: z.enum(['new', 'assigned', 'praying', 'followed-up', 'answered', 'archived']).nullish(),
+  assignedTo: optionalString,
+  assignedToName: optionalString,
+  assignedAt: optionalTimestamp,
+  followUpDate: dateString.nullish(),
+  notes: z.array(prayerRequestNote).nullish(),
+  outcome: optionalString,
+  answeredAt: optionalTimestamp,
+  answeredBy: optionalString,
+  testimonyConsent: z.boolean().nullish(),
+  testimonyConsentRecordedBy: optionalString,
+  testimonyConsentRecordedAt: optionalTimestamp,
+  testimonyId: optionalString,
+  statusUpdatedBy: optionalString,
+  statusUpdatedAt: optionalTimestamp,
+  createdAt: optionalTimestamp,
+  updatedAt: optionalTimestamp,
+  ...softDeleteFields,
+});
+
+export const contactMessageSchema = z.looseObject({
+  name: z.string(),
+  email: z.string(),
+  phone: optionalString,
+  subject: z.string(),
+  message: z.string(),
+  preferredContactMethod: z.enum(['email', 'phone', 'either']),
+  userAgent: optionalString,
+  status: z.enum(['new', 'read', 'replied', 'closed']).default('new'), // the public form may leave it unset
+  readBy: optionalString,
+  readAt: optionalTimestamp,
+  repliedAt: optionalTimestamp,
+  closedBy: optionalString,
+  closedAt: optionalTimestamp,
+  createdAt: optionalTimestamp,
+  updatedAt: optionalTimestamp,
+  ...softDeleteFields,
+});
+
+export const contactMessageReplySchema = z.looseObject({
+  channel: z.enum(['email', 'phone']),
+  to: z.string(),
+  subject: optionalString,
+  body: z.string(),
+  status: z.enum(['sending', 'sent', 'failed', 'logged']),
+  error: optionalString,
+  transport: optionalString,
+  providerMessageId: optionalString,
+  callOutcome: z.enum(['spoke', 'voicemail', 'no-answer']).nullish(),
+  sentBy: z.string(),
+  sentByName: z.string(),
+  createdAt: optionalTimestamp,
+  sentAt: optionalTimestamp,
+  claimedAt: optionalTimestamp,
+});
+
+export const newsletterSignupSchema = z.looseObject({
+  email: z.string(),
+  name: optionalString,
+  interests: z.array(newsletterInterest).nullish(),
+  source: newsletterSource.nullish(),
+  tags: z.array(z.string()).nullish(),
+  status: z.enum(['pending', 'confirmed', 'unsubscribed']).nullish(),
+  confirmationSentAt: optionalTimestamp,
+  confirmedAt: optionalTimestamp,
+  unsubscribedAt: optionalTimestamp,
+  createdAt: optionalTimestamp,
+  updatedAt: optionalTimestamp,
+});
+
+export const newsletterSegmentSchema = z.looseObject({
+  name: z.string(),
+  description: optionalString,
+  ...segmentCriteria,
+  createdBy: z.string(),
+  updatedBy: optionalString,
+  createdAt: optionalTimestamp,
+  updatedAt: optionalTimestamp,
+});
+
+export const newsletterSuppressionSchema = z.looseObject({
+  email: z.string(),
+  reason: z.enum(['unsubscribed', 'bounced', 'manual']),
+  detail: optionalString,
+  createdBy: optionalString,
+  createdAt: optionalTimestamp,
+});
+
+export const campaignSchema = z.looseObject({
+  subject: z.string(),
+  content: z.string(),
+  audience: z.looseObject({
+    segmentId: z.string(),
+    name: z.string(),
+    ...segmentCriteria,
+  }).nullish(),
+  status: z.enum(['draft', 'scheduled', 'sending', 'sent']),
+  scheduledAt: optionalTimestamp,
+  startedAt: optionalTimestamp,
+  recipientsPreparingAt: optionalTimestamp,
+  recipientsPreparedAt: optionalTimestamp,
+  sentAt: optionalTimestamp,
+  recipientCount: z.number().nullish(),
+  sentCount: z.number().nullish(),
+  failedCount: z.number().nullish(),
+  lastTestSentTo: optionalString,
+  lastTestSentAt: optionalTimestamp,
+  createdBy: z.string(),
+  updatedBy: optionalString,
+  createdAt: optionalTimestamp,
+  updatedAt: optionalTimestamp,
+});
+
+export const campaignRecipientSchema = z.looseObject({
+  email: z.string(),
+  status: z.enum(['pending', 'sending', 'sent', 'failed']),
+  attempts: z.number(),
+  error: optionalString,
+  providerMessageId: optionalString,
+  claimedAt: optionalTimestamp,
+  sentAt: optionalTimestamp,
+});
+
+export const mailQueueItemSchema = z.looseObject({
+  to: z.string(),
+  template: z.string(),
+  data: z.record(z.string(), z.unknown()),
+  status: z.enum(['queued', 'sending', 'sent', 'failed']),
+  attempts: z.number(),
+  maxAttempts: z.number(),
+  nextAttemptAt: timestamp,
+  lastError: optionalString,
+  subject: optionalString,
+  text: optionalString,
+  html: optionalString,
+  transport: optionalString,
+  providerMessageId: optionalString,
+  claimedAt: optionalTimestamp,
+  relatedCollection: optionalString,
+  relatedId: optionalString,
+  createdBy: z.string(),
+  createdAt: optionalTimestamp,
+  updatedAt: optionalTimestamp,
+  sentAt: optionalTimestamp,
+});
+
+export const userSchema = z.looseObject({
+  firstName: z.string(),
+  lastName: z.string(),
+  phone: optionalString,
+  title: optionalString,
+  // Older profiles hold '' or a free-form title here; they read as read-only, as in firestore.rules
+  role: z.string().nullish().transform(normalizeRole),
+  email: z.string(),
+  invitationId: optionalString,
+  isActive: z.boolean().nullish(),
+  deactivatedBy: optionalString,
+  deactivatedAt: optionalTimestamp,
+  lastSignInAt: optionalTimestamp,
+  createdAt: optionalTimestamp,
+  updatedAt: optionalTimestamp,
+});
+
+export const invitationSchema = z.looseObject({
+  email: z.string(),
+  role: z.enum(USER_ROLES),
+  status: z.enum(['pending', 'accepted', 'expired', 'revoked']),
+  invitedBy: z.string(),
+  invitedByEmail: z.string(),
+  expiresAt: timestamp,
+  acceptedBy: optionalString,
+  acceptedAt: optionalTimestamp,
+  revokedBy: optionalString,
+  revokedAt: optionalTimestamp,
+  createdAt: optionalTimestamp,
+  updatedAt: optionalTimestamp,
+});
+
+export const siteSettingsSchema = z.looseObject({
+  homeHeroText: optionalString,
+  churchName: optionalString,
+  logoUrl: optionalString,
+  exportRetentionDays: z.number().nullish(),
+  contactPhone: optionalString,
+  contactEmail: optionalString,
+  address: optionalString,
+  timezone: optionalString,
+  socialLinks: z.looseObject({
+    facebook: optionalString,
+    instagram: optionalString,
+    twitter: optionalString,
+    youtube: optionalString,
+  }).nullish(),
+  updatedAt: optionalTimestamp,
+});
+
+const exportFormat = z.enum(['csv', 'xlsx', 'json', 'pdf', 'word']);
+
+export const exportRecordSchema = z.looseObject({
+  dataset: z.enum([
+    'testimonies',
+    'prayerRequests',
+    'contactMessages',
+    'eventRegistrations',
+    'events',
+    'leaders',
+    'gallery',
+    'newsletter',
+    'activityLog',
+  ]),
+  format: exportFormat,
+  itemIds: z.array(z.string()),
+  itemCount: z.number(),
+  columns: z.array(z.string()),
+  template: z.enum(['table', 'booklet', 'prayer-list']).nullish(),
+  fileName: z.string(),
+  eventId: optionalString,
+  archivePath: optionalString,
+  archiveExpiresAt: optionalTimestamp,
+  adminId: z.string(),
+  adminEmail: z.string(),
+  exportedAt: optionalTimestamp,
+});
+
+// Entries in the *_exports collections; the ids field differs per collection
+export const legacyExportSchema = z.looseObject({
+  adminId: z.string(),
+  adminEmail: z.string(),
+  exportType: z.enum(['pdf', 'word']),
+  eventId: optionalString,
+  exportedAt: optionalTimestamp,
+});
+
+// Entries without a timestamp are still waiting for the server write and are not shown
+export const activityLogSchema = z.looseObject({
+  collection: z.string().catch('unknown'),
+  action: z.enum(['create', 'update', 'delete']).catch('create'),
+  title: z.string().catch('Untitled'),
+  description: z.string().catch('No description'),
+  timestamp,
+  userId: optionalString,
+  actorUid: optionalString,
+  metadata: z.record(z.string(), z.unknown()).catch({}),
+});
+
+// Website content (see content.ts)
+export const carouselSlideSchema = z.looseObject({
+  imageUrl: z.string(),
+  headline: z.string(),
+  subheadline: z.string(),
+  ctaText: optionalString,
+  ctaLink: optionalString,
+  isVisible: z.boolean(),
+  order: z.number(),
+  createdAt: optionalTimestamp,
+  updatedAt: optionalTimestamp,
+});
+
+export const missionVisionSchema = z.looseObject({
+  mission: z.string(),
+  vision: z.string(),
+  updatedAt: optionalTimestamp,
+});
+
+export const serviceTimeSchema = z.looseObject({
+  dayOfWeek: z.string(),
+  startTime: z.string(),
+  endTime: z.string(),
+  description: z.string(),
+  isActive: z.boolean(),
+  order: z.number(),
+  createdAt: optionalTimestamp,
+  updatedAt: optionalTimestamp,
+});
+
+export const aboutContentSchema = z.looseObject({
+  title: z.string(),
+  content: z.string(),
+  sections: z.array(z.looseObject({ title: z.string(), content: z.string() })),
+  updatedAt: optionalTimestamp,
+});
+
+export const communityServiceSchema = z.looseObject({
+  title: z.string(),
+  description: z.string(),
+  imageUrl: z.string(),
+  tags: z.array(z.string()),
+  isActive: z.boolean(),
+  order: z.number(),
+  createdAt: optionalTimestamp,
+  updatedAt: optionalTimestamp,
+});
+
+// Dashboard forms. Stored documents may predate these rules, so the document schemas above
+// only check types; new input is held to the stricter rules here.
+const requiredText = (label: string) => z.string().min(1, `${label} is required`);
+const minLengthText = (label: string, length: number) =>
+  z.string().min(length, `${label} must be at least ${length} characters`);
+
+// Fields shared by one-time events, recurring events and occurrence overrides
+export const eventDetailsFormFields = {
+  location: requiredText('Location'),
+  locationId: z.string().nullable(),
+  description: minLengthText('Description', 10),
+  startTime: requiredText('Start time'),
+  endTime: requiredText('End time'),
+};
+
+export const registrationQuestionFormSchema = z.object({
+  id: z.string(),
+  label: z.string(),
+  type: registrationQuestionType,
+  required: z.boolean(),
+  optionsText: z.string(), // one option per line
+});
+
+export const occurrenceOverrideFormSchema = z.object({
+  ...eventDetailsFormFields,
+  reason: z.string().optional(),
+});
+
+export const skippedRecurringEventFormSchema = z.object({
+  skipDate: requiredText('Skip date'),
+  reason: z.string().optional(),
+});
+
+export const bookableResourceFormSchema = z.object({
+  name: requiredText('Name'),
+  type: resourceType,
+  capacity: z.number().int().min(0, 'Capacity cannot be negative').optional(),
+  description: z.string().optional(),
+  isActive: z.boolean(),
+});
+
+export const leaderFormSchema = z.object({
+  customId: z.number().min(1, 'Custom ID must be at least 1').optional(),
+  name: requiredText('Name'),
+  role: requiredText('Role'),
+  bio: minLengthText('Bio', 10),
+  category: z.enum(['pastor', 'teamLead']),
+  isActive: z.boolean(),
+});
+
+export const galleryItemFormSchema = z.object({
+  caption: requiredText('Caption'),
+  category: requiredText('Category'),
+});
+
+export const testimonyFormSchema = z.object({
+  name: requiredText('Name'),
+  testimony: minLengthText('Testimony', 20),
+  isAnonymous: z.boolean(),
+  allowSharing: z.boolean(),
+  isDraft: z.boolean(),
+});
+
+export const invitationFormSchema = z.object({
+  email: z.string().email('Invalid email address'),
+  role: z.enum(USER_ROLES),
+});
+
+export const carouselSlideFormSchema = z.object({
+  headline: requiredText('Headline'),
+  subheadline: requiredText('Subheadline'),
+  ctaText: z.string().optional(),
+  ctaLink: z.string().url().optional().or(z.literal('')),
+  isVisible: z.boolean(),
+});
+
+export type OccurrenceOverrideFormData = z.infer<typeof occurrenceOverrideFormSchema>;
+export type SkippedRecurringEventFormData = z.infer<typeof skippedRecurringEventFormSchema>;
+export type BookableResourceFormData = z.infer<typeof bookableResourceFormSchema>;
+export type LeaderFormData = z.infer<typeof leaderFormSchema>;
+export type GalleryItemFormData = z.infer<typeof galleryItemFormSchema>;
+export type TestimonyFormData = z.infer<typeof testimonyFormSchema>;
+export type InvitationFormData = z.infer<typeof invitationFormSchema>;
+export type CarouselSlideFormData = z.infer<typeof carouselSlideFormSchema>;
@@ -0,0 +1,284 @@
+// Sends newsletter campaigns on behalf of a signed-in user, a batch at a time.
+// A due campaign is claimed (scheduled -> sending), its recipients are copied from the
+// confirmed, unsuppressed newsletterSignups into campaigns/{id}/recipients, and each recipient
+// is claimed, sent with its own unsubscribe link and marked sent or failed. When no pending
+// recipients are left the campaign is marked sent.
+
+import { sendMail, MailMessage } from './index';
+import { getChurchInfo, renderMailTemplate, ChurchInfo } from './templates';
+import { getUnsubscribeUrl, getUnsubscribeHeaders, suppressNewsletterAddress } from './subscriptions';
+import {
+  createDocumentsAsUser,
+  getDocumentAsUser,
+  getRestDocumentAsUser,
+  runQueryAsUser,
+  updateDocumentAsUser,
+  FirestoreRestError,
+  RestDocument,
+} from '../server/firestoreRest';
+import { SiteSettings, NewsletterSignup, CampaignAudience } from '../firestore';
+import { matchesSegment } from '../utils/newsletterUtils';
+
+const CAMPAIGNS_COLLECTION = 'campaigns';
+const SIGNUPS_COLLECTION = 'newsletterSignups';
+const SUPPRESSIONS_COLLECTION = 'newsletterSuppressions';
+
+// Recipients sent per request, so one call stays well inside serverless time limits
+const BATCH_SIZE = 50;
+const MAX_ATTEMPTS = 3;
+const COMMIT_SIZE = 500;
+
+// A recipient still marked sending, or recipients still being prepared, after this long
+// means the worker was interrupted
+const STALE_CLAIM_MS = 10 * 60 * 1000;
+
+export interface CampaignRunResult {
+  sent: number;
+  failed: number;
+  remaining: boolean; // call again to keep sending
+}
+
+const isPermissionError = (error: unknown) =>
+  error instanceof FirestoreRestError && (error.status === 401 || error.status === 403);
+
+// The mail server rejected the address outright (SMTP 5xx), so retrying will not help
+const isPermanentFailure = (error: unknown) => {
+  const responseCode = (error as { responseCode?: unknown } | null)?.responseCode;
+  return typeof responseCode === 'number' && responseCode >= 500 && responseCode < 600;
+};
+
+const fieldEquals = (fieldPath: string, value: Record<string, unknown>) => ({
+  fieldFilter: { field: { fieldPath }, op: 'EQUAL', value },
+});
+
+const getActiveCampaigns = (idToken: string) =>
+  runQueryAsUser({
+    from: [{ collectionId: CAMPAIGNS_COLLECTION }],
+    where: {
+      fieldFilter: {
+        field: { fieldPath: 'status' },
+        op: 'IN',
+        value: { arrayValue: { values: [{ stringValue: 'scheduled' }, { stringValue: 'sending' }] } },
+      },
+    },
+  }, idToken);
+
+const isClaimStale = (claimedAt: unknown, now: Date) =>
+  !claimedAt || now.getTime() - new Date(String(claimedAt)).getTime() > STALE_CLAIM_MS;
+
+const getRecipients = (campaignId: string, idToken: string, status?: string, limit?: number) =>
+  runQueryAsUser({
+    from: [{ collectionId: 'recipients' }],
+    ...(status ? { where: fieldEquals('status', { stringValue: status }) } : {}),
+    ...(limit ? { limit } : {}),
+  }, idToken, `${CAMPAIGNS_COLLECTION}/${campaignId}`);
+
+// Copies the confirmed subscribers in the campaign's audience into its recipients subcollection.
+// Signups without a status predate double opt-in and count as confirmed. Recipients that already
+// exist are left as they are, so preparing again after an interruption never resends to them.
+const prepareRecipients = async (campaign: RestDocument, idToken: string) => {
+  const [signups, suppressions] = await Promise.all([
+    runQueryAsUser({ from: [{ collectionId: SIGNUPS_COLLECTION }] }, idToken),
+    runQueryAsUser({ from: [{ collectionId: SUPPRESSIONS_COLLECTION }] }, idToken),
+  ]);
+
+  // Suppressed addresses are skipped, and an address that signed up more than once gets one email
+  const audience = campaign.data.audience as CampaignAudience | null | undefined;
+  const seen = new Set(suppressions.map(suppression => String(suppression.data.email || '').trim().toLowerCase()));
+  const recipients = signups.filter(signup => {
+    const email = String(signup.data.email || '').trim().toLowerCase();
+    const status = signup.data.status || 'confirmed';
+    if (!email || status !== 'confirmed' || seen.has(email)) return false;
+    if (audience && !matchesSegment(signup.data as Partial<NewsletterSignup>, audience)) return false;
+    seen.add(email);
+    return true;
+  });
+
+  for (let i = 0; i < recipients.length; i += COMMIT_SIZE) {
+    await createDocumentsAsUser(recipients.slice(i, i + COMMIT_SIZE).map(signup => ({
+      path: `${CAMPAIGNS_COLLECTION}/${campaign.id}/recipients/${signup.id}`,
+      data: { email: String(signup.data.email).trim(), status: 'pending', attempts: 0, error: null },
+    })), idToken);
+  }
+
+  await updateDocumentAsUser(`${CAMPAIGNS_COLLECTION}/${campaign.id}`, {
+    recipientCount: recipients.length,
+    recipientsPreparedAt: new Date(),
+    updatedAt: new Date(),
+  }, idToken);
+};
+
+const sendToRecipient = async (
+  campaignId: string,
+  recipient: RestDocument,
+  message: Omit<MailMessage, 'to'>,
+  idToken: string
+): Promise<'sent' | 'failed' | 'retry' | 'skipped'> => {
+  const path = `${CAMPAIGNS_COLLECTION}/${campaignId}/recipients/${recipient.id}`;
+  const attempts = Number(recipient.data.attempts || 0) + 1;
+
+  try {
+    await updateDocumentAsUser(path, { status: 'sending', attempts, claimedAt: new Date() }, idToken, recipient.updateTime);
+  } catch (error) {
+    if (isPermissionError(error)) throw error;
+    return 'skipped';
+  }
+
+  try {
+    const result = await sendMail({ to: String(recipient.data.email), ...message });
+    await updateDocumentAsUser(path, {
+      status: 'sent',
+      error: null,
+      providerMessageId: result.messageId,
+      sentAt: new Date(),
+    }, idToken);
+    return 'sent';
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to send email';
+    const bounced = isPermanentFailure(error);
+    if (bounced) {
+      await suppressNewsletterAddress(String(recipient.data.email), 'bounced', message, idToken);
+    }
+
+    const giveUp = bounced || attempts >= MAX_ATTEMPTS;
+    await updateDocumentAsUser(path, { status: giveUp ? 'failed' : 'pending', error: message }, idToken);
+    return giveUp ? 'failed' : 'retry';
+  }
+};
+
+const finishCampaign = async (campaignId: string, idToken: string) => {
+  const recipients = await getRecipients(campaignId, idToken);
+  await updateDocumentAsUser(`${CAMPAIGNS_COLLECTION}/${campaignId}`, {
+    status: 'sent',
+    sentCount: recipients.filter(recipient => recipient.data.status === 'sent').length,
+    failedCount: recipients.filter(recipient => recipient.data.status === 'failed').length,
+    sentAt: new Date(),
+    updatedAt: new Date(),
+  }, idToken);
+};
+
+// The newsletter with the recipient's own unsubscribe link and headers
+const renderForRecipient = (campaign: RestDocument, email: string, church: ChurchInfo, baseUrl: string) => {
+  const unsubscribeUrl = getUnsubscribeUrl(baseUrl, email);
+  return {
+    ...renderMailTemplate('newsletter', {
+      subject: String(campaign.data.subject),
+      contentHtml: String(campaign.data.content),
+      unsubscribeUrl,
+    }, church),
+    headers: getUnsubscribeHeaders(unsubscribeUrl),
+  };
+};
+
+const processCampaign = async (
+  campaign: RestDocument,
+  church: ChurchInfo,
+  baseUrl: string,
+  idToken: string,
+  now: Date,
+  result: CampaignRunResult
+) => {
+  const path = `${CAMPAIGNS_COLLECTION}/${campaign.id}`;
+
+  // Claim a scheduled campaign, or one whose recipients are not prepared yet, with a conditional
+  // write so only one worker prepares its recipients. Another worker's preparation is left to
+  // finish unless it has gone stale.
+  const isScheduled = campaign.data.status === 'scheduled';
+  const needsRecipients = !campaign.data.recipientsPreparedAt;
+  if (isScheduled || needsRecipients) {
+    if (!isScheduled && !isClaimStale(campaign.data.recipientsPreparingAt, now)) {
+      result.remaining = true;
+      return;
+    }
+    try {
+      await updateDocumentAsUser(path, {
+        status: 'sending',
+        ...(isScheduled ? { startedAt: new Date() } : {}),
+        ...(needsRecipients ? { recipientsPreparingAt: new Date() } : {}),
+        updatedAt: new Date(),
+      }, idToken, campaign.updateTime);
+    } catch (error) {
+      if (isPermissionError(error)) throw error;
+      result.remaining = true;
+      return;
+    }
+  }
+  if (needsRecipients) {
+    await prepareRecipients(campaign, idToken);
+  }
+
+  const pending = await getRecipients(campaign.id, idToken, 'pending', BATCH_SIZE - result.sent - result.failed);
+  for (const recipient of pending) {
+    const message = renderForRecipient(campaign, String(recipient.data.email), church, baseUrl);
+    const outcome = await sendToRecipient(campaign.id, recipient, message, idToken);
+    if (outcome === 'sent') result.sent += 1;
+    if (outcome === 'failed') result.failed += 1;
+  }
+
+  // The email may or may not have gone out, so interrupted recipients are failed rather than resent
+  const sending = await getRecipients(campaign.id, idToken, 'sending');
+  const stale = sending.filter(recipient => isClaimStale(recipient.data.claimedAt, now));
+  for (const recipient of stale) {
+    await updateDocumentAsUser(`${path}/recipients/${recipient.id}`, {
+      status: 'failed',
+      error: 'Sending was interrupted. Retry to send again.',
+    }, idToken);
+  }
+
+  const stillPending = await getRecipients(campaign.id, idToken, 'pending', 1);
+  if (stillPending.length === 0 && sending.length === stale.length) {
+    await finishCampaign(campaign.id, idToken);
+  } else {
+    result.remaining = true;
+  }
+};
+
+// Sends the next batch of the given campaign, or of every due campaign when no id is passed.
+// baseUrl is where the unsubscribe links point.
+export async function processCampaigns(idToken: string, baseUrl: string, campaignId?: string): Promise<CampaignRunResult> {
+  const now = new Date();
+  const result: CampaignRunResult = { sent: 0, failed: 0, remaining: false };
+
+  let campaigns: RestDocument[];
+  if (campaignId) {
+    const campaign = await getRestDocumentAsUser(`${CAMPAIGNS_COLLECTION}/${encodeURIComponent(campaignId)}`, idToken);
+    campaigns = campaign ? [campaign] : [];
+  } else {
+    campaigns = await getActiveCampaigns(idToken);
+  }
+  campaigns = campaigns.filter(campaign =>
+    campaign.data.status === 'sending' ||
+    (campaign.data.status === 'scheduled' && new Date(String(campaign.data.scheduledAt)) <= now)
+  );
+  if (campaigns.length === 0) return result;
+
+  const settings = await getDocumentAsUser('settings/main', idToken) as Partial<SiteSettings> | null;
+  const church = getChurchInfo(settings);
+
+  for (const campaign of campaigns) {
+    if (result.sent + result.failed >= BATCH_SIZE) {
+      result.remaining = true;
+      break;
+    }
+    await processCampaign(campaign, church, baseUrl, idToken, now, result);
+  }
+
+  return result;
+}
+
+// Sends one copy of a campaign to a single address, marked as a test in the subject.
+// Its unsubscribe link works, and would unsubscribe the test address. The test is recorded on
+// the campaign first, which the Firestore rules only allow newsletter editors to do.
+export async function sendCampaignTest(idToken: string, baseUrl: string, campaignId: string, to: string) {
+  const path = `${CAMPAIGNS_COLLECTION}/${encodeURIComponent(campaignId)}`;
+  const [campaign, settings] = await Promise.all([
+    getRestDocumentAsUser(path, idToken),
+    getDocumentAsUser('settings/main', idToken),
+  ]);
+  if (!campaign) return null;
+
+  await updateDocumentAsUser(path, { lastTestSentTo: to, lastTestSentAt: new Date(), updatedAt: new Date() }, idToken);
+
+  const message = renderForRecipient(campaign, to, getChurchInfo(settings as Partial<SiteSettings> | null), baseUrl);
+  return sendMail({ to, ...message, subject: `[Test] ${message.subject}` });
+}
@@ -0,0 +1,60 @@
+// Server-side mail entry point. The transport is chosen from environment variables:
+//   MAIL_TRANSPORT  smtp | file | console (default: smtp when SMTP_HOST is set, otherwise console,
+//                   except in production, where one of the two must be set)
+//   MAIL_FROM       sender address, e.g. "Church Office <office@example.org>"
+//   MAIL_REPLY_TO   optional reply-to address
+//   SMTP_HOST, SMTP_PORT (587), SMTP_SECURE (true for port 465), SMTP_USER, SMTP_PASS
+//   MAIL_OUTBOX_DIR directory for the file transport (default .outbox)
+
+import { MailMessage, MailTransport, MailTransportName, SendResult } from './types';
+import { createSmtpTransport, createFileTransport, createConsoleTransport } from './transports';
+
+export * from './types';
+
+const DEFAULT_FROM = 'no-reply@localhost';
+const DEFAULT_OUTBOX_DIR = '.outbox';
+
+let transport: MailTransport | null = null;
+
+const getTransportName = (): MailTransportName => {
+  const configured = process.env.MAIL_TRANSPORT;
+  if (configured === 'smtp' || configured === 'file' || configured === 'console') return configured;
+  if (process.env.SMTP_HOST) return 'smtp';
+  // Falling back to the console in production would report emails as sent without sending them
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('Set MAIL_TRANSPORT or SMTP_HOST to send email in production');
+  }
+  return 'console';
+};
+
+export function getMailTransport(): MailTransport {
+  if (transport) return transport;
+
+  const from = process.env.MAIL_FROM || DEFAULT_FROM;
+  const name = getTransportName();
+
+  if (name === 'smtp') {
+    if (!process.env.SMTP_HOST) throw new Error('SMTP_HOST is required for the smtp mail transport');
+    const port = Number(process.env.SMTP_PORT || 587);
+    transport = createSmtpTransport({
+      host: process.env.SMTP_HOST,
+      port,
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+      user: process.env.SMTP_USER,
+      pass: process.env.SMTP_PASS,
+    }, from);
+  } else if (name === 'file') {
+    transport = createFileTransport(process.env.MAIL_OUTBOX_DIR || DEFAULT_OUTBOX_DIR, from);
+  } else {
+    transport = createConsoleTransport(from);
+  }
+
+  return transport;
+}
+
+export async function sendMail(message: MailMessage): Promise<SendResult> {
+  return getMailTransport().send({
+    ...message,
+    replyTo: message.replyTo || process.env.MAIL_REPLY_TO || undefined,
+  });
+}
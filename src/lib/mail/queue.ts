@@ -0,0 +1,171 @@
+// Works through the mailQueue collection on behalf of a signed-in user. Each due item is
+// claimed with a conditional write (so two workers never send the same email), rendered with
+// the church details from settings/main, and sent. Failures are retried with a growing delay
+// until the item runs out of attempts and is marked failed. An item left sending by a worker
+// that stopped mid-send is marked failed once its claim goes stale, so it can be retried by hand.
+
+import { sendMail } from './index';
+import { getChurchInfo, isMailTemplateName, renderMailTemplate, ChurchInfo, MailTemplateData } from './templates';
+import {
+  getDocumentAsUser,
+  getRestDocumentAsUser,
+  runQueryAsUser,
+  updateDocumentAsUser,
+  FirestoreRestError,
+  RestDocument,
+} from '../server/firestoreRest';
+import { SiteSettings } from '../firestore';
+
+const MAIL_QUEUE_COLLECTION = 'mailQueue';
+const BATCH_SIZE = 20;
+
+// Minutes to wait before attempt 2, 3, 4, ...
+const RETRY_DELAYS_MINUTES = [1, 5, 30, 120];
+
+// An item still marked sending after this long was interrupted mid-send
+const STALE_SENDING_MS = 10 * 60 * 1000;
+
+export interface MailQueueRunResult {
+  sent: number;
+  retrying: number;
+  failed: number;
+  skipped: number;
+}
+
+const getRetryDelayMinutes = (attempts: number) =>
+  RETRY_DELAYS_MINUTES[Math.min(attempts - 1, RETRY_DELAYS_MINUTES.length - 1)];
+
+const isDue = (item: RestDocument, now: Date) =>
+  item.data.status === 'queued' && new Date(String(item.data.nextAttemptAt)) <= now;
+
+const getDueItems = (idToken: string, now: Date) =>
+  runQueryAsUser({
+    from: [{ collectionId: MAIL_QUEUE_COLLECTION }],
+    where: {
+      compositeFilter: {
+        op: 'AND',
+        filters: [
+          { fieldFilter: { field: { fieldPath: 'status' }, op: 'EQUAL', value: { stringValue: 'queued' } } },
+          { fieldFilter: { field: { fieldPath: 'nextAttemptAt' }, op: 'LESS_THAN_OR_EQUAL', value: { timestampValue: now.toISOString() } } },
+        ],
+      },
+    },
+    orderBy: [{ field: { fieldPath: 'nextAttemptAt' }, direction: 'ASCENDING' }],
+    limit: BATCH_SIZE,
+  }, idToken);
+
+const getSendingItems = (idToken: string) =>
+  runQueryAsUser({
+    from: [{ collectionId: MAIL_QUEUE_COLLECTION }],
+    where: { fieldFilter: { field: { fieldPath: 'status' }, op: 'EQUAL', value: { stringValue: 'sending' } } },
+  }, idToken);
+
+// Items claimed before claimedAt was recorded fall back to when they were last updated
+const isStale = (item: RestDocument, now: Date) =>
+  now.getTime() - new Date(String(item.data.claimedAt || item.data.updatedAt)).getTime() > STALE_SENDING_MS;
+
+// The email may or may not have gone out, so an interrupted item is failed rather than resent
+const failStaleItem = async (item: RestDocument, idToken: string): Promise<keyof MailQueueRunResult> => {
+  try {
+    await updateDocumentAsUser(`${MAIL_QUEUE_COLLECTION}/${item.id}`, {
+      status: 'failed',
+      lastError: 'Sending was interrupted. Retry to send again.',
+      updatedAt: new Date(),
+    }, idToken, item.updateTime);
+  } catch (error) {
+    if (error instanceof FirestoreRestError && (error.status === 401 || error.status === 403)) throw error;
+    return 'skipped';
+  }
+  return 'failed';
+};
+
+const processItem = async (
+  item: RestDocument,
+  church: ChurchInfo,
+  idToken: string
+): Promise<keyof MailQueueRunResult> => {
+  const path = `${MAIL_QUEUE_COLLECTION}/${item.id}`;
+  const attempts = Number(item.data.attempts || 0) + 1;
+  const maxAttempts = Number(item.data.maxAttempts || 1);
+  const template = item.data.template;
+
+  if (!isMailTemplateName(template)) {
+    await updateDocumentAsUser(path, {
+      status: 'failed',
+      lastError: `Unknown template "${String(template)}"`,
+      updatedAt: new Date(),
+    }, idToken);
+    return 'failed';
+  }
+
+  const rendered = renderMailTemplate(template, item.data.data as MailTemplateData[typeof template], church);
+
+  // Another worker got here first if the document changed since it was read
+  try {
+    await updateDocumentAsUser(path, {
+      status: 'sending',
+      attempts,
+      ...rendered,
+      claimedAt: new Date(),
+      updatedAt: new Date(),
+    }, idToken, item.updateTime);
+  } catch (error) {
+    if (error instanceof FirestoreRestError && (error.status === 401 || error.status === 403)) throw error;
+    return 'skipped';
+  }
+
+  try {
+    const result = await sendMail({ to: String(item.data.to), ...rendered });
+    await updateDocumentAsUser(path, {
+      status: 'sent',
+      transport: result.transport,
+      providerMessageId: result.messageId,
+      lastError: null,
+      sentAt: new Date(),
+      updatedAt: new Date(),
+    }, idToken);
+    return 'sent';
+  } catch (error) {
+    const lastError = error instanceof Error ? error.message : 'Failed to send email';
+    const outOfAttempts = attempts >= maxAttempts;
+    await updateDocumentAsUser(path, {
+      status: outOfAttempts ? 'failed' : 'queued',
+      lastError,
+      nextAttemptAt: new Date(Date.now() + (outOfAttempts ? 0 : getRetryDelayMinutes(attempts)) * 60 * 1000),
+      updatedAt: new Date(),
+    }, idToken);
+    return outOfAttempts ? 'failed' : 'retrying';
+  }
+};
+
+// Sends the given queue items, or every due item when no ids are passed.
+// Items that are not due yet, or already claimed, are skipped. A full run also fails stale sends.
+export async function processMailQueue(idToken: string, ids?: string[]): Promise<MailQueueRunResult> {
+  const now = new Date();
+  const result: MailQueueRunResult = { sent: 0, retrying: 0, failed: 0, skipped: 0 };
+
+  const items = ids
+    ? (await Promise.all(ids.map(id => getRestDocumentAsUser(`${MAIL_QUEUE_COLLECTION}/${encodeURIComponent(id)}`, idToken))))
+        .filter((item): item is RestDocument => item !== null)
+    : await getDueItems(idToken, now);
+
+  if (!ids) {
+    for (const item of (await getSendingItems(idToken)).filter(item => isStale(item, now))) {
+      result[await failStaleItem(item, idToken)] += 1;
+    }
+  }
+
+  const dueItems = items.filter(item => isDue(item, now));
+  result.skipped += items.length - dueItems.length;
+  if (dueItems.length === 0) return result;
+
+  const settings = await getDocumentAsUser('settings/main', idToken) as Partial<SiteSettings> | null;
+  const church = getChurchInfo(settings);
+
+  // One at a time keeps SMTP connections and provider rate limits predictable
+  for (const item of dueItems) {
+    result[await processItem(item, church, idToken)] += 1;
+  }
+
+  return result;
+}
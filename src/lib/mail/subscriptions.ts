@@ -0,0 +1,217 @@
+// Newsletter double opt-in, unsubscribe and suppression. The public routes have no signed-in
+// caller, so they act as the service user (see ../server/serviceUser). Confirm and unsubscribe
+// links carry an HMAC-signed token naming the address, so a link only works for the address
+// it was emailed to:
+//   NEWSLETTER_TOKEN_SECRET  long random string used to sign the tokens
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { sendMail } from './index';
+import { getChurchInfo, renderMailTemplate, escapeHtml, ChurchInfo } from './templates';
+import {
+  getDocumentAsUser,
+  getRestDocumentAsUser,
+  runQueryAsUser,
+  setDocumentsAsUser,
+  updateDocumentAsUser,
+} from '../server/firestoreRest';
+import { getServiceIdToken } from '../server/serviceUser';
+import { SiteSettings, NewsletterSuppressionReason, NewsletterSignup } from '../firestore';
+import { normalizeEmail } from '../utils/newsletterUtils';
+
+const SIGNUPS_COLLECTION = 'newsletterSignups';
+const SUPPRESSIONS_COLLECTION = 'newsletterSuppressions';
+
+// Confirmation links stop working after a week; unsubscribe links never expire
+const CONFIRM_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Repeat signups within this window do not send another confirmation email
+const CONFIRMATION_RESEND_MS = 10 * 60 * 1000;
+
+export type NewsletterTokenAction = 'confirm' | 'unsubscribe';
+
+// What a public signup form may say about the subscriber
+export type NewsletterSignupProfile = Pick<NewsletterSignup, 'name' | 'interests' | 'source'>;
+
+export type SubscribeResult = 'confirmation-sent' | 'recently-sent' | 'already-subscribed' | 'suppressed';
+export type ConfirmResult = 'confirmed' | 'already-confirmed' | 'invalid';
+export type UnsubscribeResult = 'unsubscribed' | 'invalid';
+
+const signupPath = (email: string) => `${SIGNUPS_COLLECTION}/${encodeURIComponent(normalizeEmail(email))}`;
+const suppressionPath = (email: string) => `${SUPPRESSIONS_COLLECTION}/${encodeURIComponent(normalizeEmail(email))}`;
+
+const getSecret = () => {
+  const secret = process.env.NEWSLETTER_TOKEN_SECRET;
+  if (!secret) throw new Error('NEWSLETTER_TOKEN_SECRET is required for newsletter links');
+  return secret;
+};
+
+const sign = (payload: string) => createHmac('sha256', getSecret()).update(payload).digest('base64url');
+
+export function createNewsletterToken(action: NewsletterTokenAction, email: string): string {
+  const payload = Buffer.from(JSON.stringify({ action, email: normalizeEmail(email), issuedAt: Date.now() })).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+}
+
+// Returns the address the token was issued for, or null if it is forged, expired or for another action
+export function verifyNewsletterToken(token: string, action: NewsletterTokenAction): string | null {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const data = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    if (data.action !== action || typeof data.email !== 'string') return null;
+    if (action === 'confirm' && Date.now() - Number(data.issuedAt) > CONFIRM_TOKEN_TTL_MS) return null;
+    return data.email;
+  } catch {
+    return null;
+  }
+}
+
+// Links in emails point at NEXT_PUBLIC_APP_URL when set, otherwise at the host that was called
+export const getPublicBaseUrl = (requestOrigin: string) =>
+  (process.env.NEXT_PUBLIC_APP_URL || requestOrigin).trim().replace(/\/+$/, '');
+
+export const getUnsubscribeUrl = (baseUrl: string, email: string) =>
+  `${baseUrl}/api/newsletter/unsubscribe?token=${encodeURIComponent(createNewsletterToken('unsubscribe', email))}`;
+
+// Lets mail clients show their own one-click unsubscribe button (RFC 8058)
+export const getUnsubscribeHeaders = (unsubscribeUrl: string): Record<string, string> => ({
+  'List-Unsubscribe': `<${unsubscribeUrl}>`,
+  'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+});
+
+// Church details for emails and pages, or the defaults if settings cannot be read
+export async function getNewsletterChurchInfo(): Promise<ChurchInfo> {
+  try {
+    const settings = await getDocumentAsUser('settings/main', await getServiceIdToken());
+    return getChurchInfo(settings as Partial<SiteSettings> | null);
+  } catch {
+    return getChurchInfo(null);
+  }
+}
+
+// Adds an address to the suppression list unless it is already there
+export async function suppressNewsletterAddress(
+  email: string,
+  reason: NewsletterSuppressionReason,
+  detail: string | null,
+  idToken: string
+): Promise<void> {
+  if (await getDocumentAsUser(suppressionPath(email), idToken)) return;
+  await setDocumentsAsUser([{
+    path: suppressionPath(email),
+    data: { email: email.trim(), reason, detail, createdBy: null, createdAt: new Date() },
+  }], idToken);
+}
+
+// Finds signups for the address, including ones made before signups were keyed by email
+const findSignups = async (email: string, idToken: string) => {
+  const addresses = Array.from(new Set([email.trim(), normalizeEmail(email)]));
+  return runQueryAsUser({
+    from: [{ collectionId: SIGNUPS_COLLECTION }],
+    where: {
+      fieldFilter: {
+        field: { fieldPath: 'email' },
+        op: 'IN',
+        value: { arrayValue: { values: addresses.map(address => ({ stringValue: address })) } },
+      },
+    },
+  }, idToken);
+};
+
+// Records a pending signup and emails the confirmation link. Nothing is sent to suppressed
+// or already confirmed addresses.
+export async function subscribeToNewsletter(
+  email: string,
+  profile: NewsletterSignupProfile,
+  baseUrl: string
+): Promise<SubscribeResult> {
+  const idToken = await getServiceIdToken();
+  if (await getDocumentAsUser(suppressionPath(email), idToken)) return 'suppressed';
+
+  const signups = await findSignups(email, idToken);
+  if (signups.some(signup => !signup.data.status || signup.data.status === 'confirmed')) return 'already-subscribed';
+
+  const now = new Date();
+  const existing = await getRestDocumentAsUser(signupPath(email), idToken);
+  const lastSentAt = existing?.data.confirmationSentAt ? new Date(String(existing.data.confirmationSentAt)) : null;
+  if (existing?.data.status === 'pending' && lastSentAt && now.getTime() - lastSentAt.getTime() < CONFIRMATION_RESEND_MS) {
+    return 'recently-sent';
+  }
+
+  // An unsubscribed address only gets here after an admin lifted its suppression
+  if (!existing || existing.data.status === 'unsubscribed') {
+    await setDocumentsAsUser([{
+      path: signupPath(email),
+      data: {
+        email: email.trim(),
+        name: profile.name || null,
+        interests: profile.interests || [],
+        source: profile.source || null,
+        tags: [],
+        status: 'pending',
+        confirmationSentAt: null,
+        confirmedAt: null,
+        unsubscribedAt: null,
+        createdAt: now,
+      },
+    }], idToken);
+  }
+
+  const confirmUrl = `${baseUrl}/api/newsletter/confirm?token=${encodeURIComponent(createNewsletterToken('confirm', email))}`;
+  const rendered = renderMailTemplate('newsletter-confirm', { confirmUrl }, await getNewsletterChurchInfo());
+  await sendMail({ to: email.trim(), ...rendered });
+  await updateDocumentAsUser(signupPath(email), { confirmationSentAt: now }, idToken);
+
+  return 'confirmation-sent';
+}
+
+export async function confirmNewsletterSignup(token: string): Promise<ConfirmResult> {
+  const email = verifyNewsletterToken(token, 'confirm');
+  if (!email) return 'invalid';
+
+  const idToken = await getServiceIdToken();
+  if (await getDocumentAsUser(suppressionPath(email), idToken)) return 'invalid';
+
+  const signup = await getDocumentAsUser(signupPath(email), idToken);
+  if (!signup || signup.status === 'unsubscribed') return 'invalid';
+  if (signup.status === 'confirmed') return 'already-confirmed';
+
+  await updateDocumentAsUser(signupPath(email), { status: 'confirmed', confirmedAt: new Date() }, idToken);
+  return 'confirmed';
+}
+
+// Suppresses the address first, so it stays off the list even if updating a signup fails
+export async function unsubscribeFromNewsletter(token: string): Promise<UnsubscribeResult> {
+  const email = verifyNewsletterToken(token, 'unsubscribe');
+  if (!email) return 'invalid';
+
+  const idToken = await getServiceIdToken();
+  await suppressNewsletterAddress(email, 'unsubscribed', null, idToken);
+
+  const signups = await findSignups(email, idToken);
+  for (const signup of signups.filter(signup => signup.data.status !== 'unsubscribed')) {
+    await updateDocumentAsUser(`${SIGNUPS_COLLECTION}/${encodeURIComponent(signup.id)}`, { status: 'unsubscribed', unsubscribedAt: new Date() }, idToken);
+  }
+  return 'unsubscribed';
+}
+
+// Minimal branded page for the confirm and unsubscribe links
+export function renderNewsletterPage(church: ChurchInfo, title: string, message: string, actionHtml = ''): string {
+  return `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>${escapeHtml(title)}</title></head>
+<body style="margin:0;padding:48px 24px;background:#f4f4f5;font-family:Arial,Helvetica,sans-serif;color:#18181b">
+  <div style="max-width:480px;margin:0 auto;padding:32px;background:#ffffff;border-radius:8px;text-align:center">
+    <p style="margin:0 0 24px;font-weight:bold">${escapeHtml(church.name)}</p>
+    <h1 style="margin:0 0 16px;font-size:22px">${escapeHtml(title)}</h1>
+    <p style="margin:0 0 24px;line-height:1.6;color:#52525b">${escapeHtml(message)}</p>
+    ${actionHtml}
+  </div>
+</body>
+</html>`;
+}
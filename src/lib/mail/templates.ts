@@ -0,0 +1,163 @@
+// Email templates. Every template renders a subject plus matching HTML and plain-text bodies,
+// wrapped in a shared layout that signs off with the church details from SiteSettings.
+// Pure functions with no server imports, so the dashboard can preview them too.
+
+import { SiteSettings } from '../firestore';
+
+export const DEFAULT_CHURCH_NAME = 'RCCG Place of Victory';
+
+export interface ChurchInfo {
+  name: string;
+  email?: string;
+  phone?: string;
+  address?: string;
+}
+
+export interface MailTemplateData {
+  'contact-reply': { recipientName: string; subject: string; body: string; senderName: string };
+  'prayer-follow-up': { recipientName: string; body: string; senderName: string };
+  invitation: { roleLabel: string; inviteUrl: string; expiresAt: string; invitedBy: string };
+  newsletter: { subject: string; contentHtml: string; unsubscribeUrl: string };
+  'newsletter-confirm': { confirmUrl: string };
+}
+
+export type MailTemplateName = keyof MailTemplateData;
+
+export interface RenderedMail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export const mailTemplateLabels: Record<MailTemplateName, string> = {
+  'contact-reply': 'Contact reply',
+  'prayer-follow-up': 'Prayer follow-up',
+  invitation: 'Dashboard invitation',
+  newsletter: 'Newsletter',
+  'newsletter-confirm': 'Newsletter confirmation',
+};
+
+export function getChurchInfo(settings: Partial<SiteSettings> | null | undefined): ChurchInfo {
+  return {
+    name: settings?.churchName || DEFAULT_CHURCH_NAME,
+    email: settings?.contactEmail || undefined,
+    phone: settings?.contactPhone || undefined,
+    address: settings?.address || undefined,
+  };
+}
+
+export const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+// Plain text paragraphs (blank-line separated) as HTML, with single line breaks kept
+export const textToHtml = (text: string) =>
+  text
+    .split(/\n{2,}/)
+    .map(paragraph => `<p style="margin:0 0 16px">${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`)
+    .join('');
+
+// Rough plain-text version of editor HTML for the text part of an email
+export const htmlToText = (html: string) =>
+  html
+    .replace(/<a\s[^>]*href="([^"]*)"[^>]*>(.*?)<\/a>/gi, '$2 ($1)')
+    .replace(/<li[^>]*>/gi, '- ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|h[1-6]|li|blockquote|ul|ol)>/gi, '\n\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+const getContactLines = (church: ChurchInfo) =>
+  [church.address, church.phone, church.email].filter((line): line is string => Boolean(line));
+
+const renderLayout = (church: ChurchInfo, subject: string, bodyText: string, bodyHtml: string): RenderedMail => {
+  const contactLines = getContactLines(church);
+
+  const text = [bodyText, '--', church.name, ...contactLines].join('\n');
+
+  const html = `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>${escapeHtml(subject)}</title></head>
+<body style="margin:0;padding:24px;background:#f4f4f5;font-family:Arial,Helvetica,sans-serif;color:#18181b">
+  <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:600px;margin:0 auto;background:#ffffff;border-radius:8px">
+    <tr><td style="padding:24px 32px;border-bottom:1px solid #e4e4e7;font-size:18px;font-weight:bold">${escapeHtml(church.name)}</td></tr>
+    <tr><td style="padding:32px;font-size:15px;line-height:1.6">${bodyHtml}</td></tr>
+    <tr><td style="padding:16px 32px;border-top:1px solid #e4e4e7;font-size:12px;color:#71717a">
+      ${[church.name, ...contactLines].map(escapeHtml).join('<br>')}
+    </td></tr>
+  </table>
+</body>
+</html>`;
+
+  return { subject, text, html };
+};
+
+const renderers: { [K in MailTemplateName]: (data: MailTemplateData[K], church: ChurchInfo) => RenderedMail } = {
+  'contact-reply': (data, church) => {
+    const text = `Hi ${data.recipientName},\n\n${data.body}\n\n${data.senderName}`;
+    return renderLayout(church, data.subject, text, textToHtml(text));
+  },
+
+  'prayer-follow-up': (data, church) => {
+    const subject = `Following up on your prayer request`;
+    const text = `Hi ${data.recipientName},\n\n${data.body}\n\nWe are still praying with you.\n${data.senderName}`;
+    return renderLayout(church, subject, text, textToHtml(text));
+  },
+
+  invitation: (data, church) => {
+    const subject = `You're invited to the ${church.name} dashboard`;
+    const intro = `${data.invitedBy} has invited you to join the ${church.name} dashboard as ${data.roleLabel}.`;
+    const expiry = `The invitation expires on ${data.expiresAt}.`;
+    const text = `${intro}\n\nAccept the invitation here:\n${data.inviteUrl}\n\n${expiry}`;
+    const html = [
+      textToHtml(intro),
+      `<p style="margin:0 0 16px"><a href="${escapeHtml(data.inviteUrl)}" style="display:inline-block;padding:10px 20px;background:#18181b;color:#ffffff;border-radius:6px;text-decoration:none">Accept invitation</a></p>`,
+      textToHtml(expiry),
+    ].join('');
+    return renderLayout(church, subject, text, html);
+  },
+
+  // The content comes from the dashboard's rich text editor, so it is already HTML
+  newsletter: (data, church) => {
+    const footer = `You are receiving this because you subscribed to the ${church.name} newsletter.`;
+    const text = `${htmlToText(data.contentHtml)}\n\n${footer}\nUnsubscribe: ${data.unsubscribeUrl}`;
+    const html = `${data.contentHtml}<p style="margin:24px 0 0;font-size:12px;color:#71717a">${escapeHtml(footer)} <a href="${escapeHtml(data.unsubscribeUrl)}" style="color:#71717a">Unsubscribe</a></p>`;
+    return renderLayout(church, data.subject, text, html);
+  },
+
+  'newsletter-confirm': (data, church) => {
+    const subject = `Confirm your subscription to the ${church.name} newsletter`;
+    const intro = `Thank you for signing up for the ${church.name} newsletter. Please confirm your email address so we can start sending it to you.`;
+    const ignore = `If you did not sign up, ignore this email and you will not hear from us again.`;
+    const text = `${intro}\n\nConfirm your subscription here:\n${data.confirmUrl}\n\n${ignore}`;
+    const html = [
+      textToHtml(intro),
+      `<p style="margin:0 0 16px"><a href="${escapeHtml(data.confirmUrl)}" style="display:inline-block;padding:10px 20px;background:#18181b;color:#ffffff;border-radius:6px;text-decoration:none">Confirm subscription</a></p>`,
+      textToHtml(ignore),
+    ].join('');
+    return renderLayout(church, subject, text, html);
+  },
+};
+
+export function renderMailTemplate<K extends MailTemplateName>(
+  template: K,
+  data: MailTemplateData[K],
+  church: ChurchInfo
+): RenderedMail {
+  return renderers[template](data, church);
+}
+
+export function isMailTemplateName(value: unknown): value is MailTemplateName {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(renderers, value);
+}
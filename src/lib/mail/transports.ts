@@ -0,0 +1,59 @@
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import nodemailer from 'nodemailer';
+import { MailMessage, MailTransport } from './types';
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+}
+
+export function createSmtpTransport(config: SmtpConfig, from: string): MailTransport {
+  const transporter = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    auth: config.user ? { user: config.user, pass: config.pass } : undefined,
+  });
+
+  return {
+    name: 'smtp',
+    async send(message: MailMessage) {
+      const info = await transporter.sendMail({ from, ...message });
+      return { messageId: info.messageId, transport: 'smtp' };
+    },
+  };
+}
+
+// Development transport: each message is written as JSON to the outbox directory instead of being sent
+export function createFileTransport(outboxDir: string, from: string): MailTransport {
+  return {
+    name: 'file',
+    async send(message: MailMessage) {
+      const messageId = `${Date.now()}-${randomUUID()}`;
+      await mkdir(outboxDir, { recursive: true });
+      await writeFile(
+        path.join(outboxDir, `${messageId}.json`),
+        JSON.stringify({ messageId, from, ...message, createdAt: new Date().toISOString() }, null, 2)
+      );
+      console.log(`📧 Mail written to ${outboxDir}: ${message.subject} -> ${message.to}`);
+      return { messageId, transport: 'file' };
+    },
+  };
+}
+
+// Development transport: prints the message and pretends it was sent
+export function createConsoleTransport(from: string): MailTransport {
+  return {
+    name: 'console',
+    async send(message: MailMessage) {
+      const messageId = `${Date.now()}-${randomUUID()}`;
+      console.log('📧 Mail (console transport)', { messageId, from, ...message });
+      return { messageId, transport: 'console' };
+    },
+  };
+}
@@ -0,0 +1,22 @@
+// Outbound email types shared by every mail transport. Server-side only.
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  replyTo?: string;
+  headers?: Record<string, string>; // extra headers, e.g. List-Unsubscribe
+}
+
+export interface SendResult {
+  messageId: string;
+  transport: MailTransportName;
+}
+
+export type MailTransportName = 'smtp' | 'file' | 'console';
+
+export interface MailTransport {
+  name: MailTransportName;
+  send(message: MailMessage): Promise<SendResult>;
+}
@@ -0,0 +1,42 @@
+// Copies leaders from the original single `leaders` collection into `pastors` and `teamLeads`.
+// Replaces the old Migrate Data button on the Leaders page, which created copies with new ids
+// each time it was pressed; leaders it already copied are matched by name and skipped.
+
+import { collection, doc, getDocsFromServer, Timestamp } from 'firebase/firestore';
+import { Migration } from './runner';
+
+const migration: Migration = {
+  id: 1,
+  name: 'split-leaders',
+  description: 'Copy leaders into the pastors and team leads collections',
+
+  async up({ db, log, forEachDocument }) {
+    const copied = new Set<string>();
+    for (const collectionName of ['pastors', 'teamLeads']) {
+      const snapshot = await getDocsFromServer(collection(db, collectionName));
+      snapshot.docs.forEach(leader => copied.add(`${collectionName}/${leader.data().name}`));
+    }
+
+    await forEachDocument('leaders', (snapshot, writer) => {
+      const leader = snapshot.data();
+      // department, ministry and board leaders all became team leads
+      const category = leader.category === 'pastoral' || leader.category === 'pastor' ? 'pastor' : 'teamLead';
+      const collectionName = category === 'pastor' ? 'pastors' : 'teamLeads';
+
+      if (copied.has(`${collectionName}/${leader.name}`)) {
+        log(`Skipping ${leader.name}: already in ${collectionName}`);
+        return;
+      }
+
+      // Keeping the id makes a repeated run overwrite the same copy
+      writer.set(doc(db, collectionName, snapshot.id), {
+        ...leader,
+        category,
+        createdAt: leader.createdAt || Timestamp.now(),
+        updatedAt: Timestamp.now(),
+      });
+    });
+  },
+};
+
+export default migration;
@@ -0,0 +1,21 @@
+// Testimonies submitted before the story field was renamed only have `story`. The dashboard reads
+// it as the testimony text; this writes it to `testimony` so other readers see it too.
+
+import { Migration } from './runner';
+
+const migration: Migration = {
+  id: 2,
+  name: 'testimony-text',
+  description: 'Copy the legacy story field of older testimonies into testimony',
+
+  async up({ forEachDocument }) {
+    await forEachDocument('testimonies', (snapshot, writer) => {
+      const { testimony, story } = snapshot.data();
+      if (typeof testimony !== 'string' && typeof story === 'string') {
+        writer.update(snapshot.ref, { testimony: story });
+      }
+    });
+  },
+};
+
+export default migration;
@@ -0,0 +1,30 @@
+// The inbox tables filter on the server now, and a Firestore equality filter never matches a
+// document that lacks the field. Older submissions were read as unread, not shared and new when
+// these fields were missing; this writes those values so the Unread, Read, sharing and status
+// filters (and the sidebar's unread badges) find them.
+
+import { Migration } from './runner';
+
+const defaults: Record<string, Record<string, unknown>> = {
+  testimonies: { isRead: false, allowSharing: false },
+  prayerRequests: { isRead: false },
+  contactMessages: { status: 'new' },
+};
+
+const migration: Migration = {
+  id: 3,
+  name: 'inbox-filter-fields',
+  description: 'Store the default read, sharing and status values on older inbox submissions',
+
+  async up({ forEachDocument }) {
+    for (const [collectionName, fields] of Object.entries(defaults)) {
+      await forEachDocument(collectionName, (snapshot, writer) => {
+        const data = snapshot.data();
+        const missing = Object.fromEntries(Object.entries(fields).filter(([field]) => data[field] == null));
+        if (Object.keys(missing).length > 0) writer.update(snapshot.ref, missing);
+      });
+    }
+  },
+};
+
+export default migration;
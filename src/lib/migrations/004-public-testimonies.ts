@@ -0,0 +1,35 @@
+// The public website used to read published testimonies straight from `testimonies`, which
+// exposed the original text and the names of anonymous members. It now reads the copies in
+// `publicTestimonies`; this writes a copy for every testimony published before that.
+
+import { doc } from 'firebase/firestore';
+import { Migration } from './runner';
+
+const migration: Migration = {
+  id: 4,
+  name: 'public-testimonies',
+  description: 'Copy the excerpt, display name and photo of published testimonies into publicTestimonies',
+
+  async up({ db, forEachDocument }) {
+    await forEachDocument('testimonies', (snapshot, writer) => {
+      const testimony = snapshot.data();
+      const isPublished = testimony.status === 'published' &&
+        testimony.allowSharing === true &&
+        !testimony.isDraft &&
+        testimony.publicExcerpt &&
+        testimony.publishAt;
+      if (!isPublished) return;
+
+      writer.set(doc(db, 'publicTestimonies', snapshot.id), {
+        name: testimony.isAnonymous ? 'Anonymous' : testimony.name,
+        excerpt: testimony.publicExcerpt,
+        photo: testimony.isAnonymous ? null : testimony.photo || null,
+        publishAt: testimony.publishAt,
+        createdAt: testimony.publishAt,
+        updatedAt: testimony.publishAt,
+      });
+    });
+  },
+};
+
+export default migration;
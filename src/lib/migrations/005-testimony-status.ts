@@ -0,0 +1,20 @@
+// The testimonies page now filters on review status in the query, and a Firestore equality
+// filter never matches a document that lacks the field. Testimonies without a status were read
+// as submitted; this stores that value so the status filters and the Awaiting Review count
+// find them.
+
+import { Migration } from './runner';
+
+const migration: Migration = {
+  id: 5,
+  name: 'testimony-status',
+  description: 'Store the submitted status on testimonies that have none',
+
+  async up({ forEachDocument }) {
+    await forEachDocument('testimonies', (snapshot, writer) => {
+      if (snapshot.data().status == null) writer.update(snapshot.ref, { status: 'submitted' });
+    });
+  },
+};
+
+export default migration;
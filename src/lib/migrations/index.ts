@@ -0,0 +1,19 @@
+// Every data migration, in the order they run. Add new migrations with the next id; never change
+// or remove one that has run, write another migration instead.
+
+import splitLeaders from './001-split-leaders';
+import testimonyText from './002-testimony-text';
+import inboxFilterFields from './003-inbox-filter-fields';
+import publicTestimonies from './004-public-testimonies';
+import testimonyStatus from './005-testimony-status';
+import { Migration } from './runner';
+
+export const migrations: Migration[] = [
+  splitLeaders,
+  testimonyText,
+  inboxFilterFields,
+  publicTestimonies,
+  testimonyStatus,
+];
+
+export * from './runner';
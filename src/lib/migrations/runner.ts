@@ -0,0 +1,244 @@
+// Versioned data migrations. Each migration runs once, in id order, and its progress is kept in
+// the _migrations collection: who ran it and when, whether it completed, and how far through each
+// collection it got. A failed migration stops the run; running again resumes it after the last
+// committed page, so migrations must be safe to repeat for the documents of that page.
+//
+// This module takes the Firestore instance as an argument and imports nothing from the app, so
+// the dashboard and scripts/migrate.js (against the emulator) run the same code.
+
+import {
+  collection,
+  doc,
+  documentId,
+  getDocsFromServer,
+  limit,
+  orderBy,
+  query,
+  setDoc,
+  startAfter,
+  updateDoc,
+  writeBatch,
+  DocumentData,
+  DocumentReference,
+  Firestore,
+  FirestoreDataConverter,
+  QueryDocumentSnapshot,
+  SetOptions,
+  Timestamp,
+  WriteBatch,
+} from 'firebase/firestore';
+
+export const MIGRATIONS_COLLECTION = '_migrations';
+
+// Documents read per page; the page's writes are committed before the checkpoint moves on
+const PAGE_SIZE = 200;
+// Firestore batches are limited to 500 writes
+const BATCH_SIZE = 450;
+
+export interface Migration {
+  id: number; // runs in ascending order; never renumber a migration that has run
+  name: string;
+  description: string;
+  up(context: MigrationContext): Promise<void>;
+}
+
+export interface MigrationContext {
+  db: Firestore;
+  dryRun: boolean; // writes are counted but not committed
+  log(message: string): void;
+  // Calls the handler for every document of the collection, in document id order
+  forEachDocument(
+    collectionPath: string,
+    handler: (snapshot: QueryDocumentSnapshot, writer: MigrationWriter) => void | Promise<void>
+  ): Promise<void>;
+}
+
+// Queues writes for the current page
+export interface MigrationWriter {
+  set(ref: DocumentReference, data: DocumentData, options?: SetOptions): void;
+  update(ref: DocumentReference, data: DocumentData): void;
+  delete(ref: DocumentReference): void;
+}
+
+export type MigrationStatus = 'running' | 'completed' | 'failed';
+
+interface CollectionCheckpoint {
+  lastId: string | null; // last document whose writes were committed
+  done: boolean;
+}
+
+export interface MigrationRecord {
+  id: number;
+  name: string;
+  status: MigrationStatus;
+  ranBy: string; // userId
+  ranByName: string;
+  attempts: number;
+  startedAt: Timestamp;
+  finishedAt?: Timestamp | null;
+  error?: string | null;
+  documentsProcessed: number;
+  writes: number;
+  checkpoints: Record<string, CollectionCheckpoint>; // keyed by collection path
+}
+
+export interface MigrationRunResult {
+  id: number;
+  name: string;
+  status: MigrationStatus | 'dry-run';
+  documentsProcessed: number;
+  writes: number;
+  error?: string;
+}
+
+export interface RunMigrationsOptions {
+  db: Firestore;
+  migrations: Migration[];
+  ranBy: { uid: string; name: string };
+  dryRun?: boolean;
+  to?: number; // stop after this migration id
+  log?: (message: string) => void;
+}
+
+const recordConverter: FirestoreDataConverter<MigrationRecord, DocumentData> = {
+  toFirestore: record => record,
+  fromFirestore: snapshot => snapshot.data() as MigrationRecord,
+};
+
+// Zero-padded so the collection lists in run order, e.g. _migrations/001
+const recordId = (id: number) => String(id).padStart(3, '0');
+
+const recordRef = (db: Firestore, id: number) =>
+  doc(db, MIGRATIONS_COLLECTION, recordId(id)).withConverter(recordConverter);
+
+export async function getMigrationRecords(db: Firestore): Promise<Map<number, MigrationRecord>> {
+  const snapshot = await getDocsFromServer(collection(db, MIGRATIONS_COLLECTION).withConverter(recordConverter));
+  return new Map(snapshot.docs.map(record => [record.data().id, record.data()]));
+}
+
+export const getPendingMigrations = (migrations: Migration[], records: Map<number, MigrationRecord>, to?: number) =>
+  [...migrations]
+    .sort((a, b) => a.id - b.id)
+    .filter(migration => records.get(migration.id)?.status !== 'completed' && (to === undefined || migration.id <= to));
+
+// Runs pending migrations in order and stops at the first failure
+export async function runMigrations({
+  db,
+  migrations,
+  ranBy,
+  dryRun = false,
+  to,
+  log = console.log,
+}: RunMigrationsOptions): Promise<MigrationRunResult[]> {
+  const ids = new Set(migrations.map(migration => migration.id));
+  if (ids.size !== migrations.length) throw new Error('Migration ids must be unique');
+
+  const records = await getMigrationRecords(db);
+  const pending = getPendingMigrations(migrations, records, to);
+  if (pending.length === 0) {
+    log('No pending migrations');
+    return [];
+  }
+
+  const results: MigrationRunResult[] = [];
+  for (const migration of pending) {
+    const previous = records.get(migration.id);
+    const checkpoints = { ...previous?.checkpoints };
+    // Totals carry over when a failed migration is resumed
+    let documentsProcessed = dryRun ? 0 : previous?.documentsProcessed ?? 0;
+    let writes = dryRun ? 0 : previous?.writes ?? 0;
+    const prefix = `[${recordId(migration.id)} ${migration.name}]`;
+    const migrationLog = (message: string) => log(`${prefix} ${message}`);
+
+    const progress = () => ({ checkpoints, documentsProcessed, writes });
+
+    const context: MigrationContext = {
+      db,
+      dryRun,
+      log: migrationLog,
+      async forEachDocument(collectionPath, handler) {
+        const checkpoint = checkpoints[collectionPath];
+        if (checkpoint?.done) {
+          migrationLog(`${collectionPath}: already done`);
+          return;
+        }
+        if (checkpoint?.lastId) migrationLog(`${collectionPath}: resuming after ${checkpoint.lastId}`);
+
+        let lastId = checkpoint?.lastId ?? null;
+        let operations: ((batch: WriteBatch) => void)[] = [];
+        const writer: MigrationWriter = {
+          set: (ref, data, options) => operations.push(batch => (options ? batch.set(ref, data, options) : batch.set(ref, data))),
+          update: (ref, data) => operations.push(batch => batch.update(ref, data)),
+          delete: ref => operations.push(batch => batch.delete(ref)),
+        };
+
+        for (;;) {
+          const page = await getDocsFromServer(query(
+            collection(db, collectionPath),
+            orderBy(documentId()),
+            ...(lastId ? [startAfter(lastId)] : []),
+            limit(PAGE_SIZE)
+          ));
+
+          for (const snapshot of page.docs) {
+            await handler(snapshot, writer);
+          }
+
+          if (!dryRun) {
+            for (let i = 0; i < operations.length; i += BATCH_SIZE) {
+              const batch = writeBatch(db);
+              operations.slice(i, i + BATCH_SIZE).forEach(write => write(batch));
+              await batch.commit();
+            }
+          }
+          writes += operations.length;
+          documentsProcessed += page.size;
+          operations = [];
+
+          lastId = page.docs[page.docs.length - 1]?.id ?? lastId;
+          checkpoints[collectionPath] = { lastId, done: page.size < PAGE_SIZE };
+          if (!dryRun) await updateDoc(recordRef(db, migration.id), progress());
+          if (page.size < PAGE_SIZE) break;
+        }
+
+        migrationLog(`${collectionPath}: ${dryRun ? 'checked' : 'migrated'}`);
+      },
+    };
+
+    if (!dryRun) {
+      await setDoc(recordRef(db, migration.id), {
+        id: migration.id,
+        name: migration.name,
+        status: 'running',
+        ranBy: ranBy.uid,
+        ranByName: ranBy.name,
+        attempts: (previous?.attempts ?? 0) + 1,
+        startedAt: Timestamp.now(),
+        finishedAt: null,
+        error: null,
+        ...progress(),
+      });
+    }
+    migrationLog(dryRun ? 'Dry run' : previous ? 'Resuming' : 'Running');
+
+    try {
+      await migration.up(context);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      migrationLog(`Failed: ${message}`);
+      if (!dryRun) {
+        await updateDoc(recordRef(db, migration.id), { status: 'failed', error: message, finishedAt: Timestamp.now(), ...progress() });
+      }
+      results.push({ id: migration.id, name: migration.name, status: dryRun ? 'dry-run' : 'failed', documentsProcessed, writes, error: message });
+      break;
+    }
+
+    if (!dryRun) {
+      await updateDoc(recordRef(db, migration.id), { status: 'completed', finishedAt: Timestamp.now(), ...progress() });
+    }
+    migrationLog(`${dryRun ? 'Would write' : 'Wrote'} ${writes} change(s) across ${documentsProcessed} document(s)`);
+    results.push({ id: migration.id, name: migration.name, status: dryRun ? 'dry-run' : 'completed', documentsProcessed, writes });
+  }
+
+  return results;
+}
@@ -0,0 +1,29 @@
+// Deletes archived export files once their retention period has passed, on behalf of a signed-in
+// user (the scheduler account for /api/scheduled-jobs). The export history entries stay; only
+// their archive path is cleared, which is the one change firestore.rules allow on them.
+
+import { runQueryAsUser, updateDocumentAsUser } from './firestoreRest';
+import { deleteObjectAsUser } from './storageRest';
+
+const EXPORTS_COLLECTION = 'exports';
+
+export async function purgeExpiredExportArchivesAsUser(idToken: string, now: Date = new Date()): Promise<number> {
+  const expired = await runQueryAsUser({
+    from: [{ collectionId: EXPORTS_COLLECTION }],
+    where: {
+      fieldFilter: {
+        field: { fieldPath: 'archiveExpiresAt' },
+        op: 'LESS_THAN_OR_EQUAL',
+        value: { timestampValue: now.toISOString() },
+      },
+    },
+  }, idToken);
+
+  // Entries whose file is already gone keep their expiry date, so they still match the query
+  const withFiles = expired.filter(record => typeof record.data.archivePath === 'string' && record.data.archivePath);
+  for (const record of withFiles) {
+    await deleteObjectAsUser(String(record.data.archivePath), idToken);
+    await updateDocumentAsUser(`${EXPORTS_COLLECTION}/${record.id}`, { archivePath: null }, idToken);
+  }
+  return withFiles.length;
+}
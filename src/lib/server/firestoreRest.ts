@@ -0,0 +1,209 @@
+// Reads and updates Firestore documents over the REST API on behalf of a signed-in user.
+// The caller's Firebase ID token is forwarded, so security rules decide what they can read
+// exactly as they do in the dashboard. Used by API routes that have no admin credentials.
+
+import { getFirebaseConfig } from '../config/validateFirebase';
+
+type RestValue = {
+  stringValue?: string;
+  integerValue?: string;
+  doubleValue?: number;
+  booleanValue?: boolean;
+  nullValue?: null;
+  timestampValue?: string;
+  mapValue?: { fields?: Record<string, RestValue> };
+  arrayValue?: { values?: RestValue[] };
+};
+
+export class FirestoreRestError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'FirestoreRestError';
+  }
+}
+
+const decodeValue = (value: RestValue): unknown => {
+  if (value.stringValue !== undefined) return value.stringValue;
+  if (value.integerValue !== undefined) return Number(value.integerValue);
+  if (value.doubleValue !== undefined) return value.doubleValue;
+  if (value.booleanValue !== undefined) return value.booleanValue;
+  if (value.timestampValue !== undefined) return value.timestampValue;
+  if (value.mapValue) return decodeFields(value.mapValue.fields || {});
+  if (value.arrayValue) return (value.arrayValue.values || []).map(decodeValue);
+  return null;
+};
+
+const decodeFields = (fields: Record<string, RestValue>): Record<string, unknown> =>
+  Object.fromEntries(Object.entries(fields).map(([key, value]) => [key, decodeValue(value)]));
+
+// Dates are written as timestamps; everything else maps to the matching Firestore type
+const encodeValue = (value: unknown): RestValue => {
+  if (value === null || value === undefined) return { nullValue: null };
+  if (value instanceof Date) return { timestampValue: value.toISOString() };
+  if (typeof value === 'string') return { stringValue: value };
+  if (typeof value === 'boolean') return { booleanValue: value };
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? { integerValue: String(value) } : { doubleValue: value };
+  }
+  if (Array.isArray(value)) return { arrayValue: { values: value.map(encodeValue) } };
+  return { mapValue: { fields: encodeFields(value as Record<string, unknown>) } };
+};
+
+const encodeFields = (data: Record<string, unknown>): Record<string, RestValue> =>
+  Object.fromEntries(Object.entries(data).map(([key, value]) => [key, encodeValue(value)]));
+
+const getDocumentsName = () => {
+  const { projectId } = getFirebaseConfig();
+  return `projects/${projectId}/databases/(default)/documents`;
+};
+
+const getDocumentsUrl = () => `https://firestore.googleapis.com/v1/${getDocumentsName()}`;
+
+const firestoreFetch = async (url: string, idToken: string, init: RequestInit = {}) => {
+  return fetch(url, {
+    ...init,
+    headers: {
+      ...init.headers,
+      Authorization: `Bearer ${idToken}`,
+      'Content-Type': 'application/json',
+    },
+    cache: 'no-store',
+  });
+};
+
+export interface RestDocument {
+  id: string;
+  updateTime: string;
+  data: Record<string, unknown>;
+}
+
+const toRestDocument = (document: { name: string; updateTime: string; fields?: Record<string, RestValue> }): RestDocument => ({
+  id: document.name.split('/').pop() || '',
+  updateTime: document.updateTime,
+  data: decodeFields(document.fields || {}),
+});
+
+// Returns the document's fields (timestamps as ISO strings), or null if it does not exist
+export async function getDocumentAsUser(
+  documentPath: string,
+  idToken: string
+): Promise<Record<string, unknown> | null> {
+  const document = await getRestDocumentAsUser(documentPath, idToken);
+  return document ? document.data : null;
+}
+
+// Same as getDocumentAsUser, but keeps the id and update time for conditional writes
+export async function getRestDocumentAsUser(
+  documentPath: string,
+  idToken: string
+): Promise<RestDocument | null> {
+  const response = await firestoreFetch(`${getDocumentsUrl()}/${documentPath}`, idToken);
+
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new FirestoreRestError(`Firestore request failed with status ${response.status}`, response.status);
+  }
+
+  return toRestDocument(await response.json());
+}
+
+// Runs a structured query against a top-level collection, or a subcollection of parentPath.
+// See https://firebase.google.com/docs/firestore/reference/rest/v1/StructuredQuery
+export async function runQueryAsUser(
+  structuredQuery: Record<string, unknown>,
+  idToken: string,
+  parentPath?: string
+): Promise<RestDocument[]> {
+  const parentUrl = parentPath ? `${getDocumentsUrl()}/${parentPath}` : getDocumentsUrl();
+  const response = await firestoreFetch(`${parentUrl}:runQuery`, idToken, {
+    method: 'POST',
+    body: JSON.stringify({ structuredQuery }),
+  });
+
+  if (!response.ok) {
+    throw new FirestoreRestError(`Firestore query failed with status ${response.status}`, response.status);
+  }
+
+  const results: { document?: { name: string; updateTime: string; fields?: Record<string, RestValue> } }[] = await response.json();
+  return results.filter(result => result.document).map(result => toRestDocument(result.document!));
+}
+
+// Updates only the given fields. With expectedUpdateTime the write fails
+// if the document changed since it was read, which lets concurrent workers claim work safely.
+export async function updateDocumentAsUser(
+  documentPath: string,
+  data: Record<string, unknown>,
+  idToken: string,
+  expectedUpdateTime?: string
+): Promise<void> {
+  const params = new URLSearchParams();
+  Object.keys(data).forEach(key => params.append('updateMask.fieldPaths', key));
+  if (expectedUpdateTime) params.set('currentDocument.updateTime', expectedUpdateTime);
+
+  const response = await firestoreFetch(`${getDocumentsUrl()}/${documentPath}?${params}`, idToken, {
+    method: 'PATCH',
+    body: JSON.stringify({ fields: encodeFields(data) }),
+  });
+
+  if (!response.ok) {
+    throw new FirestoreRestError(`Firestore update failed with status ${response.status}`, response.status);
+  }
+}
+
+// Writes whole documents (creating or replacing them) in one atomic commit of up to 500 writes
+export async function setDocumentsAsUser(
+  documents: { path: string; data: Record<string, unknown> }[],
+  idToken: string
+): Promise<void> {
+  const response = await firestoreFetch(`${getDocumentsUrl()}:commit`, idToken, {
+    method: 'POST',
+    body: JSON.stringify({
+      writes: documents.map(document => ({
+        update: { name: `${getDocumentsName()}/${document.path}`, fields: encodeFields(document.data) },
+      })),
+    }),
+  });
+
+  if (!response.ok) {
+    throw new FirestoreRestError(`Firestore commit failed with status ${response.status}`, response.status);
+  }
+}
+
+// gRPC status codes in a batchWrite response
+const PERMISSION_DENIED = 7;
+const UNAUTHENTICATED = 16;
+const ALREADY_EXISTS = [6, 9]; // ALREADY_EXISTS, FAILED_PRECONDITION
+
+// Creates the documents that do not exist yet and leaves existing ones untouched. Up to 500
+// writes are applied independently, so a document that already exists does not stop the rest.
+export async function createDocumentsAsUser(
+  documents: { path: string; data: Record<string, unknown> }[],
+  idToken: string
+): Promise<void> {
+  const response = await firestoreFetch(`${getDocumentsUrl()}:batchWrite`, idToken, {
+    method: 'POST',
+    body: JSON.stringify({
+      writes: documents.map(document => ({
+        update: { name: `${getDocumentsName()}/${document.path}`, fields: encodeFields(document.data) },
+        currentDocument: { exists: false },
+      })),
+    }),
+  });
+
+  if (!response.ok) {
+    throw new FirestoreRestError(`Firestore batch write failed with status ${response.status}`, response.status);
+  }
+
+  const { status = [] }: { status?: { code?: number }[] } = await response.json();
+  const failed = status.find(result => result.code && !ALREADY_EXISTS.includes(result.code));
+  if (failed) {
+    const httpStatus = failed.code === PERMISSION_DENIED ? 403 : failed.code === UNAUTHENTICATED ? 401 : 500;
+    throw new FirestoreRestError(`Firestore write failed with code ${failed.code}`, httpStatus);
+  }
+}
+
+// Extracts the ID token from an "Authorization: Bearer <token>" header
+export function getBearerToken(authorization: string | null): string | null {
+  const match = authorization?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1] : null;
+}
@@ -0,0 +1,57 @@
+// Signs the server in as a dedicated dashboard account, for API routes that have no signed-in
+// caller but must still write through security rules. Each account is an ordinary dashboard user
+// whose role decides what the routes acting as it may do:
+//   SERVICE_USER_EMAIL, SERVICE_USER_PASSWORD      public email links (e.g. confirming a newsletter
+//                                                  signup); a content-editor account
+//   SCHEDULER_USER_EMAIL, SCHEDULER_USER_PASSWORD  scheduled jobs run by /api/scheduled-jobs;
+//                                                  a super-admin account
+
+import { getFirebaseConfig } from '../config/validateFirebase';
+
+// Refresh a little before Firebase's one-hour expiry
+const EXPIRY_MARGIN_MS = 5 * 60 * 1000;
+
+type ServiceAccount = 'service' | 'scheduler';
+
+const accountEnv: Record<ServiceAccount, { email: string; password: string; purpose: string }> = {
+  service: { email: 'SERVICE_USER_EMAIL', password: 'SERVICE_USER_PASSWORD', purpose: 'public email links' },
+  scheduler: { email: 'SCHEDULER_USER_EMAIL', password: 'SCHEDULER_USER_PASSWORD', purpose: 'scheduled jobs' },
+};
+
+const cachedTokens: Partial<Record<ServiceAccount, { idToken: string; expiresAt: number }>> = {};
+
+const getAccountIdToken = async (account: ServiceAccount): Promise<string> => {
+  const cached = cachedTokens[account];
+  if (cached && cached.expiresAt - EXPIRY_MARGIN_MS > Date.now()) return cached.idToken;
+
+  const env = accountEnv[account];
+  const email = process.env[env.email];
+  const password = process.env[env.password];
+  if (!email || !password) {
+    throw new Error(`${env.email} and ${env.password} are required for ${env.purpose}`);
+  }
+
+  const { apiKey } = getFirebaseConfig();
+  const response = await fetch(`https://identitytoolkit.googleapis.com/v1/accounts:signInWithPassword?key=${apiKey}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email, password, returnSecureToken: true }),
+    cache: 'no-store',
+  });
+
+  if (!response.ok) {
+    throw new Error(`Service user sign-in failed with status ${response.status}`);
+  }
+
+  const result: { idToken: string; expiresIn: string } = await response.json();
+  cachedTokens[account] = { idToken: result.idToken, expiresAt: Date.now() + Number(result.expiresIn) * 1000 };
+  return result.idToken;
+};
+
+export function getServiceIdToken(): Promise<string> {
+  return getAccountIdToken('service');
+}
+
+export function getSchedulerIdToken(): Promise<string> {
+  return getAccountIdToken('scheduler');
+}
@@ -0,0 +1,24 @@
+// Deletes Cloud Storage files over the Firebase Storage REST API on behalf of a signed-in user.
+// The caller's Firebase ID token is forwarded, so storage.rules decide what they can delete
+// exactly as they do in the dashboard. Used by API routes that have no admin credentials.
+
+import { getFirebaseConfig } from '../config/validateFirebase';
+
+const getObjectUrl = (path: string) => {
+  const { storageBucket } = getFirebaseConfig();
+  if (!storageBucket) throw new Error('NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET is not set');
+  return `https://firebasestorage.googleapis.com/v0/b/${storageBucket}/o/${encodeURIComponent(path)}`;
+};
+
+// Already deleted files count as deleted
+export async function deleteObjectAsUser(path: string, idToken: string): Promise<void> {
+  const response = await fetch(getObjectUrl(path), {
+    method: 'DELETE',
+    headers: { Authorization: `Firebase ${idToken}` },
+    cache: 'no-store',
+  });
+
+  if (!response.ok && response.status !== 404) {
+    throw new Error(`Storage delete failed with status ${response.status}`);
+  }
+}
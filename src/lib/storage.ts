@@ -1,4 +1,4 @@
-import { ref, uploadBytesResumable, getDownloadURL } from 'firebase/storage';
+import { ref, uploadBytes, uploadBytesResumable, getDownloadURL, getBlob, deleteObject, StorageError } from 'firebase/storage';
 import { storage } from './firebase';
 
 // Check if Firebase is initialized
@@ -56,4 +56,42 @@ export const deleteImage = async (url: string): Promise<void> => {
   } catch (error) {
     throw error;
   }
-}; 
\ No newline at end of file
+}; 
+
+// Generated export files, kept so they can be downloaded again until they expire.
+// The content disposition keeps the original file name if the file is opened in the Firebase
+// console, and the dataset lets storage.rules check that the uploader can read what was exported.
+export const uploadExportArchive = async (path: string, file: Blob, fileName: string, dataset: string): Promise<void> => {
+  if (!isFirebaseInitialized()) {
+    throw new Error('Firebase Storage is not initialized');
+  }
+
+  await uploadBytes(ref(storage!, path), file, {
+    contentType: file.type || undefined,
+    contentDisposition: `attachment; filename="${fileName.replace(/"/g, '')}"`,
+    customMetadata: { dataset },
+  });
+};
+
+// Downloaded through storage.rules on every request, rather than as a download URL that would
+// keep working after the copy expires
+export const getExportArchive = async (path: string): Promise<Blob> => {
+  if (!isFirebaseInitialized()) {
+    throw new Error('Firebase Storage is not initialized');
+  }
+
+  return getBlob(ref(storage!, path));
+};
+
+// Already deleted files count as deleted
+export const deleteExportArchive = async (path: string): Promise<void> => {
+  if (!isFirebaseInitialized()) {
+    throw new Error('Firebase Storage is not initialized');
+  }
+
+  try {
+    await deleteObject(ref(storage!, path));
+  } catch (error) {
+    if (!(error instanceof StorageError && error.code === 'storage/object-not-found')) throw error;
+  }
+};
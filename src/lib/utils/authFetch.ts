@@ -0,0 +1,19 @@
+// POSTs JSON to one of the dashboard's API routes with the signed-in user's Firebase ID token.
+// The routes forward the token to Firestore, so the user's own security rules apply.
+
+import { User } from 'firebase/auth';
+
+export async function postJsonAsUser<T>(user: User, url: string, body: unknown): Promise<T> {
+  const idToken = await user.getIdToken();
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${idToken}`,
+    },
+    body: JSON.stringify(body),
+  });
+  const result = await response.json();
+  if (!response.ok) throw new Error(result.error || `Request to ${url} failed`);
+  return result;
+}
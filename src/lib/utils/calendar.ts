@@ -0,0 +1,147 @@
+// iCalendar (RFC 5545) generation for the subscribable feed, per-event downloads
+// and range exports. Times are written as UTC instants so every calendar app shows
+// the same moment without needing a VTIMEZONE definition.
+
+import { Event, getEventInstants } from '../firestore';
+import { getTodayInTimezone, formatCalendarDate } from './timezoneUtils';
+
+const PRODUCT_ID = '-//Church Dashboard//Events Calendar//EN';
+const UID_DOMAIN = 'povwebapp';
+
+export type ExportFilter = 'this-month' | 'next-month' | 'custom-range';
+
+// Church-local dates, YYYY-MM-DD, inclusive
+export interface DateRange {
+  start: string;
+  end: string;
+}
+
+export function getDateRange(filter: ExportFilter, timezone: string, customRange?: DateRange): DateRange {
+  const [year, month] = getTodayInTimezone(timezone).split('-').map(Number);
+  const monthRange = (offset: number): DateRange => {
+    const first = new Date(Date.UTC(year, month - 1 + offset, 1));
+    const last = new Date(Date.UTC(year, month + offset, 0));
+    return {
+      start: first.toISOString().split('T')[0],
+      end: last.toISOString().split('T')[0],
+    };
+  };
+
+  switch (filter) {
+    case 'next-month':
+      return monthRange(1);
+    case 'custom-range':
+      return customRange || monthRange(0);
+    case 'this-month':
+    default:
+      return monthRange(0);
+  }
+}
+
+export function formatDateRangeLabel(range: DateRange): string {
+  const options: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric', year: 'numeric' };
+  return `${formatCalendarDate(range.start, options)} - ${formatCalendarDate(range.end, options)}`;
+}
+
+const escapeText = (value: string): string => {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+};
+
+// Content lines longer than 75 octets are folded with CRLF + space
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    if (currentBytes + bytes > (chunks.length === 0 ? 75 : 74)) {
+      chunks.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  chunks.push(current);
+
+  return chunks.join('\r\n ');
+};
+
+const formatInstant = (instant: Date): string => {
+  return instant.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+};
+
+// Stored instants win; older events without them are resolved in the church timezone
+const getEventInstantRange = (event: Event, timezone: string) => {
+  if (event.startAt && event.endAt) {
+    return { start: event.startAt.toDate(), end: event.endAt.toDate() };
+  }
+
+  const { startAt, endAt } = getEventInstants(event.date, event.startTime, event.endTime, timezone);
+  return { start: startAt!.toDate(), end: endAt!.toDate() };
+};
+
+const buildEventLines = (event: Event, timezone: string, stamp: string): string[] => {
+  const { start, end } = getEventInstantRange(event, timezone);
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.id || `${event.date}-${event.startTime}-${event.title}`}@${UID_DOMAIN}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${formatInstant(start)}`,
+    `DTEND:${formatInstant(end)}`,
+    `SUMMARY:${escapeText(event.title)}`,
+  ];
+
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.updatedAt) lines.push(`LAST-MODIFIED:${formatInstant(event.updatedAt.toDate())}`);
+
+  // Skipped occurrences stay in the feed so subscribed calendars mark them cancelled
+  lines.push(`STATUS:${event.occurrenceStatus === 'cancelled' ? 'CANCELLED' : 'CONFIRMED'}`);
+  lines.push('END:VEVENT');
+  return lines;
+};
+
+// The calendar is named after the church in Settings, e.g. "Grace Chapel Events"
+export function buildICalendar(events: Event[], timezone: string, churchName: string): string {
+  const stamp = formatInstant(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(`${churchName} Events`)}`,
+    `X-WR-TIMEZONE:${timezone}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+    ...events.flatMap(event => buildEventLines(event, timezone, stamp)),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+export function getICalFilename(name: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug || 'events'}.ics`;
+}
+
+// Browser-only: saves the calendar as an .ics file
+export function downloadICalendar(content: string, filename: string): void {
+  const blob = new Blob([content], { type: 'text/calendar;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,64 @@
+// Newsletter campaign helpers. Campaigns are sent in batches by POST /api/campaigns/process,
+// which runs with the signed-in user's permissions.
+
+import { User } from 'firebase/auth';
+import { CampaignRecipient, CampaignRecipientStatus, CampaignStatus } from '../firestore';
+import { postJsonAsUser } from './authFetch';
+
+export const campaignStatusLabels: Record<CampaignStatus, string> = {
+  draft: 'Draft',
+  scheduled: 'Scheduled',
+  sending: 'Sending',
+  sent: 'Sent',
+};
+
+export const campaignStatusBadgeClass: Record<CampaignStatus, string> = {
+  draft: 'border-gray-300 text-gray-700 bg-gray-50',
+  scheduled: 'border-purple-300 text-purple-700 bg-purple-50',
+  sending: 'border-blue-300 text-blue-700 bg-blue-50',
+  sent: 'border-green-300 text-green-700 bg-green-50',
+};
+
+export const recipientStatusLabels: Record<CampaignRecipientStatus, string> = {
+  pending: 'Pending',
+  sending: 'Sending',
+  sent: 'Sent',
+  failed: 'Failed',
+};
+
+export interface CampaignRunSummary {
+  sent: number;
+  failed: number;
+  remaining: boolean;
+}
+
+export function getRecipientCounts(recipients: CampaignRecipient[]): Record<CampaignRecipientStatus, number> {
+  const counts: Record<CampaignRecipientStatus, number> = { pending: 0, sending: 0, sent: 0, failed: 0 };
+  recipients.forEach(recipient => {
+    counts[recipient.status] += 1;
+  });
+  return counts;
+}
+
+// Sends the next batch of one campaign, or of every due campaign when campaignId is omitted
+export function runCampaignSends(user: User, campaignId?: string): Promise<CampaignRunSummary> {
+  return postJsonAsUser<CampaignRunSummary>(user, '/api/campaigns/process', campaignId ? { campaignId } : {});
+}
+
+// Keeps sending batches until the campaign is done or a batch makes no progress
+// (every address in it is waiting for a retry); the newsletter page picks those up later
+export async function sendCampaignBatches(user: User, campaignId: string): Promise<CampaignRunSummary> {
+  const total: CampaignRunSummary = { sent: 0, failed: 0, remaining: true };
+  while (total.remaining) {
+    const result = await runCampaignSends(user, campaignId);
+    total.sent += result.sent;
+    total.failed += result.failed;
+    total.remaining = result.remaining;
+    if (result.sent + result.failed === 0) break;
+  }
+  return total;
+}
+
+export function sendCampaignTestEmail(user: User, campaignId: string, to: string) {
+  return postJsonAsUser<{ messageId: string; transport: string }>(user, '/api/campaigns/test', { campaignId, to });
+}
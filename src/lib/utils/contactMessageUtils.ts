@@ -0,0 +1,44 @@
+// Contact message status helpers. Messages move new → read → replied → closed;
+// closed messages can be reopened, which puts them back to read.
+
+import { ContactMessage, ContactMessageReply, ContactMessageStatus } from '../firestore';
+
+export const CONTACT_MESSAGE_STATUSES: ContactMessageStatus[] = ['new', 'read', 'replied', 'closed'];
+
+export const contactStatusLabels: Record<ContactMessageStatus, string> = {
+  new: 'Unread',
+  read: 'Read',
+  replied: 'Replied',
+  closed: 'Closed',
+};
+
+export const contactStatusBadgeClass: Record<ContactMessageStatus, string> = {
+  new: 'border-orange-300 text-orange-700 bg-orange-50',
+  read: 'border-blue-300 text-blue-700 bg-blue-50',
+  replied: 'border-green-300 text-green-700 bg-green-50',
+  closed: 'border-gray-300 text-gray-600 bg-gray-50',
+};
+
+export const replyStatusLabels: Record<ContactMessageReply['status'], string> = {
+  sending: 'Sending',
+  sent: 'Sent',
+  failed: 'Failed',
+  logged: 'Call logged',
+};
+
+export const callOutcomeLabels: Record<NonNullable<ContactMessageReply['callOutcome']>, string> = {
+  spoke: 'Spoke with them',
+  voicemail: 'Left voicemail',
+  'no-answer': 'No answer',
+};
+
+export function getReplySubject(message: ContactMessage): string {
+  return /^re:/i.test(message.subject) ? message.subject : `Re: ${message.subject}`;
+}
+
+// Which reply forms to offer, based on how the person asked to be contacted
+export function getReplyChannels(message: ContactMessage): ContactMessageReply['channel'][] {
+  if (message.preferredContactMethod === 'phone') return ['phone'];
+  if (message.preferredContactMethod === 'either') return ['email', 'phone'];
+  return ['email'];
+}
@@ -0,0 +1,78 @@
+// Detects events that overlap in time and book the same room, equipment or vehicle.
+// Dates and times are church-local wall-clock strings, so plain string comparison is enough.
+
+import { Event } from '../firestore';
+
+const normalizeLocation = (location: string) => location.trim().toLowerCase();
+
+// An end time before the start time runs past midnight
+const getEndTime = (event: Event) => (event.endTime && event.endTime > event.startTime ? event.endTime : '24:00');
+
+export function eventsOverlap(a: Event, b: Event): boolean {
+  if (a.date !== b.date) return false;
+  return a.startTime < getEndTime(b) && b.startTime < getEndTime(a);
+}
+
+// Booked rooms are compared by id; free-text locations fall back to their normalised name
+export function isSameLocation(a: Event, b: Event): boolean {
+  if (a.locationId && b.locationId) return a.locationId === b.locationId;
+  return Boolean(a.location && b.location) && normalizeLocation(a.location) === normalizeLocation(b.location);
+}
+
+export function getSharedResourceIds(a: Event, b: Event): string[] {
+  const bResourceIds = new Set(b.resourceIds || []);
+  return (a.resourceIds || []).filter(id => bResourceIds.has(id));
+}
+
+export function hasBookingClash(a: Event, b: Event): boolean {
+  return eventsOverlap(a, b) && (isSameLocation(a, b) || getSharedResourceIds(a, b).length > 0);
+}
+
+// Ids of every event that clashes with another event. Cancelled occurrences never conflict.
+export function findConflictingEventIds(events: Event[]): Set<string> {
+  const conflicts = new Set<string>();
+  const active = events.filter(event => event.occurrenceStatus !== 'cancelled');
+
+  const byDay = new Map<string, Event[]>();
+  active.forEach(event => {
+    byDay.set(event.date, [...(byDay.get(event.date) || []), event]);
+  });
+
+  byDay.forEach(dayEvents => {
+    for (let i = 0; i < dayEvents.length; i++) {
+      for (let j = i + 1; j < dayEvents.length; j++) {
+        const a = dayEvents[i];
+        const b = dayEvents[j];
+        if (hasBookingClash(a, b)) {
+          if (a.id) conflicts.add(a.id);
+          if (b.id) conflicts.add(b.id);
+        }
+      }
+    }
+  });
+
+  return conflicts;
+}
+
+export interface BookingConflict {
+  date: string;
+  event: Event; // the existing event that is already booked
+  sharedResourceIds: string[];
+  sameLocation: boolean;
+}
+
+// Clashes between proposed bookings (a one-time event or every occurrence of a series) and existing events
+export function findBookingConflicts(candidates: Event[], existing: Event[]): BookingConflict[] {
+  const active = existing.filter(event => event.occurrenceStatus !== 'cancelled');
+
+  return candidates.flatMap(candidate =>
+    active
+      .filter(event => hasBookingClash(candidate, event))
+      .map(event => ({
+        date: candidate.date,
+        event,
+        sharedResourceIds: getSharedResourceIds(candidate, event),
+        sameLocation: isSameLocation(candidate, event),
+      }))
+  );
+}
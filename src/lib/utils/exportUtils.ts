@@ -1,6 +1,23 @@
-import { Document, Packer, Paragraph, TextRun, AlignmentType, HeadingLevel } from 'docx';
+import {
+  Document,
+  Packer,
+  Paragraph,
+  TextRun,
+  ImageRun,
+  Header,
+  Footer,
+  PageNumber,
+  AlignmentType,
+  HeadingLevel,
+  Table,
+  TableRow,
+  TableCell,
+  WidthType,
+  ShadingType,
+  PageOrientation
+} from 'docx';
 import { format } from 'date-fns';
-import { Testimony, PrayerRequest, ContactMessage } from '../firestore';
+import { ReportTemplate } from '../firestore';
 
 // Dynamic import for pdfmake to avoid SSR issues
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -62,319 +79,276 @@ export interface ExportOptions {
   includePhotos: boolean;
   includeMetadata: boolean;
   churchName?: string;
-  churchLogo?: string;
+  churchLogo?: string; // image URL, from SiteSettings.logoUrl
 }
 
-// PDF Export using pdfmake
-export const exportToPDF = async (
-  testimonies: Testimony[], 
-  options: ExportOptions = { includePhotos: false, includeMetadata: true }
-): Promise<Blob> => {
+// Content of a PDF or Word report, independent of the layout it is printed in
+export interface ReportItem {
+  title: string; // heading in the booklet and prayer list
+  fields: string[]; // cell text, in the order of Report.fieldLabels
+  body?: string; // long text, always printed in full
+  photoUrl?: string | null;
+  group?: string; // prayer list section
+}
+
+export interface Report {
+  title: string;
+  subtitle?: string;
+  fieldLabels: string[];
+  bodyLabel?: string;
+  items: ReportItem[];
+  summary?: { title: string; headers: string[]; rows: string[][] };
+}
+
+interface ReportImage {
+  dataUrl: string; // pdfmake
+  data: Uint8Array; // docx
+  type: 'png' | 'jpg';
+  width: number;
+  height: number;
+}
+
+// Images are redrawn on a canvas, which turns formats pdfmake and docx can't read (e.g. WebP)
+// into PNG or JPEG and scales large photos down. An image that can't be fetched, for example
+// because the storage bucket doesn't allow cross-origin reads, is left out of the report.
+const loadReportImage = async (url: string, maxWidth: number, type: ReportImage['type']): Promise<ReportImage | null> => {
   try {
-    // Initialize pdfmake
-    const { pdfMake: pdfMakeInstance } = await initializePdfMake();
-    
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const docDefinition: any = {
-      content: [
-        // Header
-        {
-          text: options.churchName || 'Church Testimonies',
-          style: 'header',
-          alignment: 'center',
-          margin: [0, 0, 0, 20]
-        },
-        
-        // Metadata
-        ...(options.includeMetadata ? [{
-          text: `Generated on ${format(new Date(), 'PPP')}`,
-          style: 'metadata',
-          alignment: 'right',
-          margin: [0, 0, 0, 20]
-        }] : []),
-        
-        // Testimonies Table
-        {
-          table: {
-            headerRows: 1,
-            widths: ['*', '*', 'auto'],
-            body: [
-              // Header row
-              [
-                { text: 'Member', style: 'tableHeader' },
-                { text: 'Testimony', style: 'tableHeader' },
-                { text: 'Date', style: 'tableHeader' }
-              ],
-              // Data rows
-              ...testimonies.map(testimony => [
-                { 
-                  text: testimony.isAnonymous ? 'Anonymous' : testimony.name, 
-                  style: 'tableCell' 
-                },
-                              { 
-                text: (testimony.testimony || testimony.story || '').length > 200 
-                  ? (testimony.testimony || testimony.story || '').substring(0, 200) + '...' 
-                  : (testimony.testimony || testimony.story || ''), 
-                style: 'tableCell' 
-              },
-                { 
-                  text: testimony.createdAt 
-                    ? format(testimony.createdAt.toDate(), 'MMM dd, yyyy') 
-                    : 'N/A', 
-                  style: 'tableCell' 
-                }
-              ])
-            ]
-          },
-          layout: 'lightHorizontalLines'
-        }
-      ],
-      styles: {
-        header: {
-          fontSize: 24,
-          color: '#1f2937'
-        },
-        metadata: {
-          fontSize: 10,
-          color: '#6b7280'
-        },
-        tableHeader: {
-          fontSize: 12,
-          color: '#ffffff',
-          fillColor: '#3b82f6'
-        },
-        tableCell: {
-          fontSize: 10,
-          color: '#374151'
-        }
-      }
-      // Removed defaultStyle font to avoid font loading issues
-    };
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    const bitmap = await createImageBitmap(await response.blob());
 
-    return new Promise((resolve, reject) => {
-      try {
-        console.log('Creating PDF document...');
-        const pdfDoc = pdfMakeInstance.createPdf(docDefinition);
-        console.log('PDF document created, getting blob...');
-        
-        pdfDoc.getBlob((blob: Blob) => {
-          console.log('PDF blob generated successfully, size:', blob.size);
-          resolve(blob);
-        });
-      } catch (error) {
-        console.error('Error in PDF generation:', error);
-        reject(new Error(`PDF generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`));
-      }
-    });
+    const scale = Math.min(1, maxWidth / bitmap.width);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas is not available');
+    if (type === 'jpg') {
+      // JPEG has no transparency
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+    }
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+
+    const dataUrl = canvas.toDataURL(type === 'png' ? 'image/png' : 'image/jpeg', 0.85);
+    const data = Uint8Array.from(atob(dataUrl.split(',')[1]), char => char.charCodeAt(0));
+    return { dataUrl, data, type, width: canvas.width, height: canvas.height };
   } catch (error) {
-    console.error('PDF export error:', error);
-    throw new Error(`PDF export failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    console.warn(`Leaving image out of the report (${url}):`, error);
+    return null;
   }
 };
 
-// PDF Export for Prayer Requests using pdfmake
-export const exportPrayerRequestsToPDF = async (
-  prayerRequests: PrayerRequest[], 
+const loadReportImages = async (report: Report, template: ReportTemplate, options: ExportOptions) => {
+  const photoUrls = options.includePhotos && template !== 'prayer-list'
+    ? [...new Set(report.items.map(item => item.photoUrl).filter((url): url is string => Boolean(url)))]
+    : [];
+
+  const [logo, ...photos] = await Promise.all([
+    options.churchLogo ? loadReportImage(options.churchLogo, 400, 'png') : Promise.resolve(null),
+    ...photoUrls.map(url => loadReportImage(url, 1200, 'jpg'))
+  ]);
+
+  const photosByUrl = new Map(photoUrls.map((url, index) => [url, photos[index]]));
+  return {
+    logo,
+    getPhoto: (item: ReportItem) => (item.photoUrl && photosByUrl.get(item.photoUrl)) || null
+  };
+};
+
+const fitImage = (image: ReportImage, maxWidth: number, maxHeight: number) => {
+  const scale = Math.min(1, maxWidth / image.width, maxHeight / image.height);
+  return { width: Math.round(image.width * scale), height: Math.round(image.height * scale) };
+};
+
+// Table columns; the photo column is only added when at least one photo loaded
+const getTableHeaders = (report: Report, hasPhotos: boolean) => [
+  ...(hasPhotos ? ['Photo'] : []),
+  ...report.fieldLabels,
+  ...(report.bodyLabel ? [report.bodyLabel] : [])
+];
+
+// Prayer list sections, in the order each first appears
+const groupReportItems = (items: ReportItem[]) => {
+  const groups = new Map<string, ReportItem[]>();
+  items.forEach(item => groups.set(item.group || '', [...(groups.get(item.group || '') || []), item]));
+  return [...groups.entries()];
+};
+
+const getGeneratedText = (report: Report) =>
+  `Generated on ${format(new Date(), 'PPP')} · ${report.items.length} item${report.items.length !== 1 ? 's' : ''}`;
+
+// PDF report using pdfmake. Every page after the first repeats the church name and title,
+// and every page is numbered.
+export const exportReportToPDF = async (
+  report: Report,
+  template: ReportTemplate,
   options: ExportOptions = { includePhotos: false, includeMetadata: true }
 ): Promise<Blob> => {
   try {
-    // Initialize pdfmake
     const { pdfMake: pdfMakeInstance } = await initializePdfMake();
-    
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const docDefinition: any = {
-      content: [
-        // Header
-        {
-          text: options.churchName || 'Church Prayer Requests',
-          style: 'header',
-          alignment: 'center',
-          margin: [0, 0, 0, 20]
+    const { logo, getPhoto } = await loadReportImages(report, template, options);
+    const churchName = options.churchName || report.title;
+    const hasPhotos = template === 'table' && report.items.some(item => getPhoto(item));
+    const headers = getTableHeaders(report, hasPhotos);
+
+    const titleBlock = [
+      ...(logo ? [{ image: logo.dataUrl, fit: [160, 80], alignment: 'center', margin: [0, 0, 0, 10] }] : []),
+      { text: churchName, style: 'header', alignment: 'center', margin: [0, 0, 0, 6] },
+      { text: report.title, style: 'subheader', alignment: 'center', margin: [0, 0, 0, report.subtitle ? 4 : 20] },
+      ...(report.subtitle ? [{ text: report.subtitle, style: 'metadata', alignment: 'center', margin: [0, 0, 0, 20] }] : []),
+      ...(options.includeMetadata ? [{ text: getGeneratedText(report), style: 'metadata', alignment: 'right', margin: [0, 0, 0, 20] }] : [])
+    ];
+
+    const summaryBlock = report.summary ? [
+      { text: report.summary.title, style: 'sectionHeader', margin: [0, 0, 0, 8] },
+      {
+        table: {
+          headerRows: 1,
+          widths: report.summary.headers.map(() => 'auto'),
+          body: [
+            report.summary.headers.map(header => ({ text: header, style: 'tableHeader' })),
+            ...report.summary.rows.map(row => row.map(cell => ({ text: cell, style: 'tableCell' })))
+          ]
         },
-        
-        // Metadata
-        ...(options.includeMetadata ? [{
-          text: `Generated on ${format(new Date(), 'PPP')}`,
-          style: 'metadata',
-          alignment: 'right',
-          margin: [0, 0, 0, 20]
-        }] : []),
-        
-        // Prayer Requests Table
-        {
+        layout: 'lightHorizontalLines',
+        margin: [0, 0, 0, 20]
+      }
+    ] : [];
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    let itemsBlock: any[];
+    switch (template) {
+      case 'table':
+        itemsBlock = [{
           table: {
             headerRows: 1,
-            widths: ['*', '*', '*', 'auto'],
+            widths: headers.map((header, index) => (hasPhotos && index === 0 ? 54 : '*')),
             body: [
-              // Header row
-              [
-                { text: 'Name', style: 'tableHeader' },
-                { text: 'Request', style: 'tableHeader' },
-                { text: 'Email', style: 'tableHeader' },
-                { text: 'Date', style: 'tableHeader' }
-              ],
-              // Data rows
-              ...prayerRequests.map(request => [
-                { 
-                  text: request.isAnonymous ? 'Anonymous' : (request.name || 'N/A'), 
-                  style: 'tableCell' 
-                },
-                { 
-                  text: request.request.length > 150 
-                    ? request.request.substring(0, 150) + '...' 
-                    : request.request, 
-                  style: 'tableCell' 
-                },
-                { 
-                  text: request.isAnonymous ? 'N/A' : (request.email || 'N/A'), 
-                  style: 'tableCell' 
-                },
-                { 
-                  text: request.createdAt 
-                    ? format(request.createdAt.toDate(), 'MMM dd, yyyy') 
-                    : 'N/A', 
-                  style: 'tableCell' 
-                }
-              ])
+              headers.map(header => ({ text: header, style: 'tableHeader' })),
+              ...report.items.map(item => {
+                const photo = getPhoto(item);
+                return [
+                  ...(hasPhotos ? [photo ? { image: photo.dataUrl, fit: [50, 50] } : { text: '' }] : []),
+                  ...item.fields.map(field => ({ text: field || '-', style: 'tableCell' })),
+                  ...(report.bodyLabel ? [{ text: item.body || '-', style: 'tableCell' }] : [])
+                ];
+              })
             ]
           },
           layout: 'lightHorizontalLines'
-        }
-      ],
-      styles: {
-        header: {
-          fontSize: 24,
-          color: '#1f2937'
-        },
-        metadata: {
-          fontSize: 10,
-          color: '#6b7280'
-        },
-        tableHeader: {
-          fontSize: 12,
-          color: '#ffffff',
-          fillColor: '#3b82f6'
-        },
-        tableCell: {
-          fontSize: 10,
-          color: '#374151'
-        }
-      }
-    };
+        }];
+        break;
 
-    return new Promise((resolve, reject) => {
-      try {
-        console.log('Creating PDF document for prayer requests...');
-        const pdfDoc = pdfMakeInstance.createPdf(docDefinition);
-        console.log('PDF document created, getting blob...');
-        
-        pdfDoc.getBlob((blob: Blob) => {
-          console.log('PDF blob generated successfully, size:', blob.size);
-          resolve(blob);
+      case 'booklet':
+        itemsBlock = report.items.map(item => {
+          const photo = getPhoto(item);
+          const fields = report.fieldLabels
+            .map((label, index) => [label, item.fields[index]])
+            .filter(([, value]) => value);
+          return {
+            pageBreak: 'before',
+            stack: [
+              { text: item.title, style: 'itemTitle', margin: [0, 0, 0, 12] },
+              ...(photo ? [{ image: photo.dataUrl, fit: [400, 280], alignment: 'center', margin: [0, 0, 0, 12] }] : []),
+              ...(fields.length > 0 ? [{
+                table: {
+                  widths: ['auto', '*'],
+                  body: fields.map(([label, value]) => [
+                    { text: label, style: 'fieldLabel' },
+                    { text: value, style: 'tableCell' }
+                  ])
+                },
+                layout: 'noBorders',
+                margin: [0, 0, 0, 12]
+              }] : []),
+              ...(report.bodyLabel && item.body ? [
+                { text: report.bodyLabel, style: 'fieldLabel', margin: [0, 0, 0, 4] },
+                { text: item.body, style: 'bodyText' }
+              ] : [])
+            ]
+          };
         });
-      } catch (error) {
-        console.error('Error in PDF generation for prayer requests:', error);
-        reject(new Error(`PDF generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`));
-      }
-    });
-  } catch (error) {
-    console.error('PDF export error for prayer requests:', error);
-    throw new Error(`PDF export failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-  }
-};
+        break;
+
+      case 'prayer-list':
+        itemsBlock = groupReportItems(report.items).flatMap(([group, items]) => [
+          ...(group ? [{ text: group, style: 'sectionHeader', margin: [0, 10, 0, 8] }] : []),
+          {
+            ol: items.map(item => ({
+              text: [{ text: item.title, bold: true }, ...(item.body ? [`\n${item.body}`] : [])],
+              style: 'bodyText',
+              margin: [0, 0, 0, 10]
+            }))
+          }
+        ]);
+        break;
+    }
 
-// PDF Export for Contact Messages using pdfmake
-export const exportContactMessagesToPDF = async (
-  contactMessages: ContactMessage[], 
-  options: ExportOptions = { includePhotos: false, includeMetadata: true }
-): Promise<Blob> => {
-  try {
-    // Initialize pdfmake
-    const { pdfMake: pdfMakeInstance } = await initializePdfMake();
-    
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const docDefinition: any = {
-      content: [
-        // Header
-        {
-          text: options.churchName || 'Church Contact Messages',
-          style: 'header',
-          alignment: 'center',
-          margin: [0, 0, 0, 20]
-        },
-        
-        // Metadata
-        ...(options.includeMetadata ? [{
-          text: `Generated on ${format(new Date(), 'PPP')}`,
-          style: 'metadata',
-          alignment: 'right',
-          margin: [0, 0, 0, 20]
-        }] : []),
-        
-        // Contact Messages Table
-        {
-          table: {
-            headerRows: 1,
-            widths: ['*', '*', '*', 'auto', 'auto'],
-            body: [
-              // Header row
-              [
-                { text: 'Name', style: 'tableHeader' },
-                { text: 'Subject', style: 'tableHeader' },
-                { text: 'Message', style: 'tableHeader' },
-                { text: 'Contact', style: 'tableHeader' },
-                { text: 'Date', style: 'tableHeader' }
-              ],
-              // Data rows
-              ...contactMessages.map(message => [
-                { 
-                  text: message.name, 
-                  style: 'tableCell' 
-                },
-                { 
-                  text: message.subject.length > 50 
-                    ? message.subject.substring(0, 50) + '...' 
-                    : message.subject, 
-                  style: 'tableCell' 
-                },
-                { 
-                  text: message.message.length > 100 
-                    ? message.message.substring(0, 100) + '...' 
-                    : message.message, 
-                  style: 'tableCell' 
-                },
-                { 
-                  text: `${message.email}\n${message.phone || 'N/A'}`, 
-                  style: 'tableCell' 
-                },
-                { 
-                  text: message.createdAt 
-                    ? format(message.createdAt.toDate(), 'MMM dd, yyyy') 
-                    : 'N/A', 
-                  style: 'tableCell' 
-                }
-              ])
-            ]
-          },
-          layout: 'lightHorizontalLines'
-        }
-      ],
+      // Wide tables need the extra room
+      pageOrientation: template === 'table' && headers.length > 5 ? 'landscape' : 'portrait',
+      pageMargins: [40, 60, 40, 50],
+      header: (currentPage: number) => currentPage === 1 ? null : {
+        columns: [
+          { text: churchName },
+          { text: report.title, alignment: 'right' }
+        ],
+        style: 'pageHeader',
+        margin: [40, 25, 40, 0]
+      },
+      footer: (currentPage: number, pageCount: number) => ({
+        text: `Page ${currentPage} of ${pageCount}`,
+        style: 'pageHeader',
+        alignment: 'center',
+        margin: [40, 15, 40, 0]
+      }),
+      content: [...titleBlock, ...summaryBlock, ...itemsBlock],
       styles: {
         header: {
           fontSize: 24,
           color: '#1f2937'
         },
+        subheader: {
+          fontSize: 14,
+          color: '#374151'
+        },
+        sectionHeader: {
+          fontSize: 13,
+          bold: true,
+          color: '#374151'
+        },
         metadata: {
           fontSize: 10,
           color: '#6b7280'
         },
+        pageHeader: {
+          fontSize: 8,
+          color: '#6b7280'
+        },
         tableHeader: {
-          fontSize: 12,
+          fontSize: 10,
           color: '#ffffff',
           fillColor: '#3b82f6'
         },
         tableCell: {
-          fontSize: 10,
+          fontSize: 9,
+          color: '#374151'
+        },
+        itemTitle: {
+          fontSize: 18,
+          color: '#1f2937'
+        },
+        fieldLabel: {
+          fontSize: 9,
+          bold: true,
+          color: '#374151'
+        },
+        bodyText: {
+          fontSize: 11,
+          lineHeight: 1.3,
           color: '#374151'
         }
       }
@@ -382,352 +356,219 @@ export const exportContactMessagesToPDF = async (
 
     return new Promise((resolve, reject) => {
       try {
-        console.log('Creating PDF document for contact messages...');
         const pdfDoc = pdfMakeInstance.createPdf(docDefinition);
-        console.log('PDF document created, getting blob...');
-        
         pdfDoc.getBlob((blob: Blob) => {
-          console.log('PDF blob generated successfully, size:', blob.size);
           resolve(blob);
         });
       } catch (error) {
-        console.error('Error in PDF generation for contact messages:', error);
+        console.error(`Error in PDF generation for ${template} report:`, error);
         reject(new Error(`PDF generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`));
       }
     });
   } catch (error) {
-    console.error('PDF export error for contact messages:', error);
+    console.error(`PDF export error for ${template} report:`, error);
     throw new Error(`PDF export failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 };
 
-// Word Document Export using docx
-export const exportToWord = async (
-  testimonies: Testimony[], 
+// Line breaks inside a docx paragraph have to be separate runs
+const toTextRuns = (text: string, style: { bold?: boolean; size?: number; color?: string } = {}) =>
+  text.split('\n').map((line, index) => new TextRun({ text: line, break: index > 0 ? 1 : undefined, ...style }));
+
+// Word report using docx, with the same layouts as the PDF
+export const exportReportToWord = async (
+  report: Report,
+  template: ReportTemplate,
   options: ExportOptions = { includePhotos: false, includeMetadata: true }
 ): Promise<Blob> => {
-  const children = [
-    // Title
-    new Paragraph({
-      text: options.churchName || 'Church Testimonies',
-      heading: HeadingLevel.HEADING_1,
-      alignment: AlignmentType.CENTER,
-      spacing: { after: 400 }
-    }),
-    
-    // Metadata
-    ...(options.includeMetadata ? [
-      new Paragraph({
-        text: `Generated on ${format(new Date(), 'PPP')}`,
-        alignment: AlignmentType.RIGHT,
-        spacing: { after: 400 }
-      })
-    ] : []),
-    
-    // Testimonies
-    ...testimonies.flatMap((testimony, index) => [
-      new Paragraph({
-        text: `Testimony ${index + 1}`,
-        heading: HeadingLevel.HEADING_2,
-        spacing: { before: 400, after: 200 }
-      }),
-      
-      new Paragraph({
-        children: [
-          new TextRun({
-            text: 'Member: ',
-            bold: true
-          }),
-          new TextRun({
-            text: testimony.isAnonymous ? 'Anonymous' : testimony.name
-          })
-        ],
-        spacing: { after: 200 }
-      }),
-      
-      new Paragraph({
-        children: [
-          new TextRun({
-            text: 'Date: ',
-            bold: true
-          }),
-          new TextRun({
-            text: testimony.createdAt 
-              ? format(testimony.createdAt.toDate(), 'PPP') 
-              : 'N/A'
-          })
-        ],
-        spacing: { after: 200 }
-      }),
-      
-      new Paragraph({
-        children: [
-          new TextRun({
-            text: 'Story:',
-            bold: true
-          })
-        ],
-        spacing: { after: 200 }
-      }),
-      
-      new Paragraph({
-        text: testimony.testimony || testimony.story || 'No testimony text',
-        spacing: { after: 400 }
-      })
-    ])
-  ];
+  const { logo, getPhoto } = await loadReportImages(report, template, options);
+  const churchName = options.churchName || report.title;
+  const hasPhotos = template === 'table' && report.items.some(item => getPhoto(item));
+  const headers = getTableHeaders(report, hasPhotos);
 
-  const doc = new Document({
-    sections: [{
-      properties: {},
-      children
-    }]
+  const imageRun = (image: ReportImage, maxWidth: number, maxHeight: number) => new ImageRun({
+    type: image.type,
+    data: image.data,
+    transformation: fitImage(image, maxWidth, maxHeight)
   });
 
-  return await Packer.toBlob(doc);
-};
+  const cell = (children: (TextRun | ImageRun)[], isHeader = false) => new TableCell({
+    children: [new Paragraph({ children })],
+    shading: isHeader ? { type: ShadingType.CLEAR, fill: '3B82F6', color: 'auto' } : undefined
+  });
+  const textCell = (text: string, isHeader = false) =>
+    cell(toTextRuns(text || '-', { bold: isHeader, color: isHeader ? 'FFFFFF' : undefined, size: 18 }), isHeader);
+
+  const titleBlock = [
+    ...(logo ? [new Paragraph({
+      children: [imageRun(logo, 200, 100)],
+      alignment: AlignmentType.CENTER,
+      spacing: { after: 200 }
+    })] : []),
 
-// Word Document Export for Prayer Requests using docx
-export const exportPrayerRequestsToWord = async (
-  prayerRequests: PrayerRequest[], 
-  options: ExportOptions = { includePhotos: false, includeMetadata: true }
-): Promise<Blob> => {
-  const children = [
-    // Title
     new Paragraph({
-      text: options.churchName || 'Church Prayer Requests',
+      text: churchName,
       heading: HeadingLevel.HEADING_1,
       alignment: AlignmentType.CENTER,
-      spacing: { after: 400 }
+      spacing: { after: 200 }
     }),
-    
-    // Metadata
-    ...(options.includeMetadata ? [
+
+    new Paragraph({
+      text: report.title,
+      alignment: AlignmentType.CENTER,
+      spacing: { after: report.subtitle ? 100 : 400 }
+    }),
+
+    ...(report.subtitle ? [
       new Paragraph({
-        text: `Generated on ${format(new Date(), 'PPP')}`,
-        alignment: AlignmentType.RIGHT,
+        text: report.subtitle,
+        alignment: AlignmentType.CENTER,
         spacing: { after: 400 }
       })
     ] : []),
-    
-    // Prayer Requests
-    ...prayerRequests.flatMap((request, index) => [
-      new Paragraph({
-        text: `Prayer Request ${index + 1}`,
-        heading: HeadingLevel.HEADING_2,
-        spacing: { before: 400, after: 200 }
-      }),
-      
-      new Paragraph({
-        children: [
-          new TextRun({
-            text: 'Name: ',
-            bold: true
-          }),
-          new TextRun({
-            text: request.isAnonymous ? 'Anonymous' : (request.name || 'N/A')
-          })
-        ],
-        spacing: { after: 200 }
-      }),
-      
-      new Paragraph({
-        children: [
-          new TextRun({
-            text: 'Email: ',
-            bold: true
-          }),
-          new TextRun({
-            text: request.isAnonymous ? 'N/A' : (request.email || 'N/A')
-          })
-        ],
-        spacing: { after: 200 }
-      }),
-      
-      new Paragraph({
-        children: [
-          new TextRun({
-            text: 'Date: ',
-            bold: true
-          }),
-          new TextRun({
-            text: request.createdAt 
-              ? format(request.createdAt.toDate(), 'PPP') 
-              : 'N/A'
-          })
-        ],
-        spacing: { after: 200 }
-      }),
-      
-      new Paragraph({
-        children: [
-          new TextRun({
-            text: 'Request:',
-            bold: true
-          })
-        ],
-        spacing: { after: 200 }
-      }),
-      
+
+    ...(options.includeMetadata ? [
       new Paragraph({
-        text: request.request,
+        text: getGeneratedText(report),
+        alignment: AlignmentType.RIGHT,
         spacing: { after: 400 }
       })
-    ])
+    ] : [])
   ];
 
-  const doc = new Document({
-    sections: [{
-      properties: {},
-      children
-    }]
-  });
-
-  return await Packer.toBlob(doc);
-};
-
-// Word Document Export for Contact Messages using docx
-export const exportContactMessagesToWord = async (
-  contactMessages: ContactMessage[], 
-  options: ExportOptions = { includePhotos: false, includeMetadata: true }
-): Promise<Blob> => {
-  const children = [
-    // Title
+  const summaryBlock = report.summary ? [
     new Paragraph({
-      text: options.churchName || 'Church Contact Messages',
-      heading: HeadingLevel.HEADING_1,
-      alignment: AlignmentType.CENTER,
-      spacing: { after: 400 }
+      text: report.summary.title,
+      heading: HeadingLevel.HEADING_2,
+      spacing: { after: 200 }
     }),
-    
-    // Metadata
-    ...(options.includeMetadata ? [
-      new Paragraph({
-        text: `Generated on ${format(new Date(), 'PPP')}`,
-        alignment: AlignmentType.RIGHT,
-        spacing: { after: 400 }
-      })
-    ] : []),
-    
-    // Contact Messages
-    ...contactMessages.flatMap((message, index) => [
-      new Paragraph({
-        text: `Contact Message ${index + 1}`,
-        heading: HeadingLevel.HEADING_2,
-        spacing: { before: 400, after: 200 }
-      }),
-      
-      new Paragraph({
-        children: [
-          new TextRun({
-            text: 'Name: ',
-            bold: true
-          }),
-          new TextRun({
-            text: message.name
-          })
-        ],
-        spacing: { after: 200 }
-      }),
-      
-      new Paragraph({
-        children: [
-          new TextRun({
-            text: 'Email: ',
-            bold: true
+    new Table({
+      rows: [
+        new TableRow({ children: report.summary.headers.map(header => textCell(header, true)), tableHeader: true }),
+        ...report.summary.rows.map(row => new TableRow({ children: row.map(text => textCell(text)) }))
+      ]
+    }),
+    new Paragraph({ text: '', spacing: { after: 200 } })
+  ] : [];
+
+  let itemsBlock: (Paragraph | Table)[];
+  switch (template) {
+    case 'table':
+      itemsBlock = [
+        new Table({
+          width: { size: 100, type: WidthType.PERCENTAGE },
+          rows: [
+            new TableRow({ children: headers.map(header => textCell(header, true)), tableHeader: true }),
+            ...report.items.map(item => {
+              const photo = getPhoto(item);
+              return new TableRow({
+                children: [
+                  ...(hasPhotos ? [cell(photo ? [imageRun(photo, 60, 60)] : [])] : []),
+                  ...item.fields.map(field => textCell(field)),
+                  ...(report.bodyLabel ? [textCell(item.body || '')] : [])
+                ]
+              });
+            })
+          ]
+        })
+      ];
+      break;
+
+    case 'booklet':
+      itemsBlock = report.items.flatMap(item => {
+        const photo = getPhoto(item);
+        return [
+          new Paragraph({
+            text: item.title,
+            heading: HeadingLevel.HEADING_2,
+            pageBreakBefore: true,
+            spacing: { after: 200 }
           }),
-          new TextRun({
-            text: message.email
-          })
-        ],
-        spacing: { after: 200 }
-      }),
-      
-      ...(message.phone ? [
-        new Paragraph({
-          children: [
-            new TextRun({
-              text: 'Phone: ',
-              bold: true
+
+          ...(photo ? [new Paragraph({
+            children: [imageRun(photo, 500, 350)],
+            alignment: AlignmentType.CENTER,
+            spacing: { after: 200 }
+          })] : []),
+
+          ...report.fieldLabels
+            .map((label, index) => [label, item.fields[index]])
+            .filter(([, value]) => value)
+            .map(([label, value]) => new Paragraph({
+              children: [new TextRun({ text: `${label}: `, bold: true }), ...toTextRuns(value)],
+              spacing: { after: 100 }
+            })),
+
+          ...(report.bodyLabel && item.body ? [
+            new Paragraph({
+              children: [new TextRun({ text: report.bodyLabel, bold: true })],
+              spacing: { before: 200, after: 100 }
             }),
-            new TextRun({
-              text: message.phone
-            })
+            ...item.body.split(/\n{2,}/).map(paragraph => new Paragraph({
+              children: toTextRuns(paragraph),
+              spacing: { after: 200 }
+            }))
+          ] : [])
+        ];
+      });
+      break;
+
+    case 'prayer-list':
+      itemsBlock = groupReportItems(report.items).flatMap(([group, items]) => [
+        ...(group ? [new Paragraph({
+          text: group,
+          heading: HeadingLevel.HEADING_2,
+          spacing: { before: 200, after: 200 }
+        })] : []),
+
+        ...items.map((item, index) => new Paragraph({
+          children: [
+            new TextRun({ text: `${index + 1}. ${item.title}`, bold: true }),
+            ...(item.body ? toTextRuns(`\n${item.body}`) : [])
           ],
           spacing: { after: 200 }
-        })
-      ] : []),
-      
-      new Paragraph({
-        children: [
-          new TextRun({
-            text: 'Subject: ',
-            bold: true
-          }),
-          new TextRun({
-            text: message.subject
-          })
-        ],
-        spacing: { after: 200 }
-      }),
-      
-      new Paragraph({
-        children: [
-          new TextRun({
-            text: 'Preferred Contact Method: ',
-            bold: true
-          }),
-          new TextRun({
-            text: message.preferredContactMethod
-          })
-        ],
-        spacing: { after: 200 }
-      }),
-      
-      new Paragraph({
-        children: [
-          new TextRun({
-            text: 'Date: ',
-            bold: true
-          }),
-          new TextRun({
-            text: message.createdAt 
-              ? format(message.createdAt.toDate(), 'PPP') 
-              : 'N/A'
-          })
-        ],
-        spacing: { after: 200 }
-      }),
-      
-      new Paragraph({
-        children: [
-          new TextRun({
-            text: 'Message:',
-            bold: true
-          })
-        ],
-        spacing: { after: 200 }
-      }),
-      
+        }))
+      ]);
+      break;
+  }
+
+  const pageFooter = () => new Footer({
+    children: [
       new Paragraph({
-        text: message.message,
-        spacing: { after: 400 }
+        alignment: AlignmentType.CENTER,
+        children: [new TextRun({ children: ['Page ', PageNumber.CURRENT, ' of ', PageNumber.TOTAL_PAGES], size: 16, color: '6B7280' })]
       })
-    ])
-  ];
+    ]
+  });
 
   const doc = new Document({
     sections: [{
-      properties: {},
-      children
+      properties: {
+        titlePage: true, // no running header on the first page, which has the title
+        ...(template === 'table' && headers.length > 5 ? { page: { size: { orientation: PageOrientation.LANDSCAPE } } } : {})
+      },
+      headers: {
+        default: new Header({
+          children: [
+            new Paragraph({
+              alignment: AlignmentType.RIGHT,
+              children: [new TextRun({ text: `${churchName} · ${report.title}`, size: 16, color: '6B7280' })]
+            })
+          ]
+        }),
+        first: new Header({ children: [] })
+      },
+      footers: {
+        default: pageFooter(),
+        first: pageFooter()
+      },
+      children: [...titleBlock, ...summaryBlock, ...itemsBlock]
     }]
   });
 
   return await Packer.toBlob(doc);
 };
 
-
-
 // Download file utility
 export const downloadFile = (blob: Blob, fileName: string): void => {
   const url = window.URL.createObjectURL(blob);
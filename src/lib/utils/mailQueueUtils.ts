@@ -0,0 +1,34 @@
+// Mail queue helpers for the dashboard. Emails are queued in Firestore and sent by
+// POST /api/mail/process, which runs with the signed-in user's permissions.
+
+import { User } from 'firebase/auth';
+import { MailQueueStatus } from '../firestore';
+import { postJsonAsUser } from './authFetch';
+
+export const MAIL_QUEUE_STATUSES: MailQueueStatus[] = ['queued', 'sending', 'sent', 'failed'];
+
+export const mailStatusLabels: Record<MailQueueStatus, string> = {
+  queued: 'Queued',
+  sending: 'Sending',
+  sent: 'Sent',
+  failed: 'Failed',
+};
+
+export const mailStatusBadgeClass: Record<MailQueueStatus, string> = {
+  queued: 'border-gray-300 text-gray-700 bg-gray-50',
+  sending: 'border-blue-300 text-blue-700 bg-blue-50',
+  sent: 'border-green-300 text-green-700 bg-green-50',
+  failed: 'border-red-300 text-red-700 bg-red-50',
+};
+
+export interface MailQueueRunSummary {
+  sent: number;
+  retrying: number;
+  failed: number;
+  skipped: number;
+}
+
+// Asks the server to send the given queue items now, or every due item when ids is omitted
+export function runMailQueue(user: User, ids?: string[]): Promise<MailQueueRunSummary> {
+  return postJsonAsUser<MailQueueRunSummary>(user, '/api/mail/process', ids ? { ids } : {});
+}
@@ -0,0 +1,173 @@
+// Newsletter subscriber helpers shared by the dashboard and the public newsletter routes.
+// Signups and suppressions are keyed by the normalized address.
+
+import {
+  NewsletterSignup,
+  NewsletterSignupStatus,
+  NewsletterSuppression,
+  NewsletterSuppressionReason,
+  NewsletterInterest,
+  NewsletterSource,
+  NewsletterSegmentCriteria,
+} from '../firestore';
+
+// Same check as the newsletterSignups create rule. Slashes are excluded because the
+// address is used as the document id.
+export const NEWSLETTER_EMAIL_PATTERN = /^[^\s@/]+@[^\s@/]+\.[^\s@/]+$/;
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+export const isValidNewsletterEmail = (email: string) =>
+  NEWSLETTER_EMAIL_PATTERN.test(email.trim()) && email.trim().length <= 254;
+
+export const signupStatusLabels: Record<NewsletterSignupStatus, string> = {
+  pending: 'Pending',
+  confirmed: 'Confirmed',
+  unsubscribed: 'Unsubscribed',
+};
+
+export const signupStatusBadgeClass: Record<NewsletterSignupStatus, string> = {
+  pending: 'border-yellow-300 text-yellow-700 bg-yellow-50',
+  confirmed: 'border-green-300 text-green-700 bg-green-50',
+  unsubscribed: 'border-gray-300 text-gray-600 bg-gray-50',
+};
+
+export const suppressionReasonLabels: Record<NewsletterSuppressionReason, string> = {
+  unsubscribed: 'Unsubscribed',
+  bounced: 'Bounced',
+  manual: 'Added by admin',
+};
+
+export const NEWSLETTER_INTERESTS: NewsletterInterest[] = ['youth', 'outreach', 'womens-ministry'];
+
+export const interestLabels: Record<NewsletterInterest, string> = {
+  youth: 'Youth',
+  outreach: 'Outreach',
+  'womens-ministry': "Women's Ministry",
+};
+
+export const NEWSLETTER_SOURCES: NewsletterSource[] = ['website-footer', 'event-registration', 'manual-import'];
+
+export const sourceLabels: Record<NewsletterSource, string> = {
+  'website-footer': 'Website footer',
+  'event-registration': 'Event registration',
+  'manual-import': 'Manual import',
+};
+
+export const isNewsletterInterest = (value: unknown): value is NewsletterInterest =>
+  typeof value === 'string' && (NEWSLETTER_INTERESTS as string[]).includes(value);
+
+// Reads interests typed in a form or CSV cell ("Youth; women's ministry"), by key or label
+export function parseInterests(value: string): NewsletterInterest[] {
+  const interests = value.split(/[;,|]/).map(part => part.trim().toLowerCase()).filter(Boolean).map(part =>
+    NEWSLETTER_INTERESTS.find(interest => interest === part || interestLabels[interest].toLowerCase() === part)
+  );
+  return Array.from(new Set(interests.filter((interest): interest is NewsletterInterest => Boolean(interest))));
+}
+
+// Tags are stored lowercase so "Volunteers" and "volunteers" are the same tag
+export function parseTags(value: string): string[] {
+  return Array.from(new Set(value.split(/[;,|]/).map(tag => tag.trim().toLowerCase()).filter(Boolean)));
+}
+
+export function matchesSegment(
+  signup: Pick<NewsletterSignup, 'interests' | 'source' | 'tags'>,
+  criteria: NewsletterSegmentCriteria
+): boolean {
+  if (criteria.interests.length > 0 && !criteria.interests.some(interest => signup.interests?.includes(interest))) return false;
+  if (criteria.sources.length > 0 && !(signup.source && criteria.sources.includes(signup.source))) return false;
+  if (criteria.tags.length > 0 && !criteria.tags.some(tag => signup.tags?.includes(tag))) return false;
+  return true;
+}
+
+// One-line description of a segment, e.g. "Interests: Youth · Tags: volunteers"
+export function describeSegment(criteria: NewsletterSegmentCriteria): string {
+  const parts = [
+    criteria.interests.length > 0 && `Interests: ${criteria.interests.map(interest => interestLabels[interest]).join(', ')}`,
+    criteria.sources.length > 0 && `Source: ${criteria.sources.map(source => sourceLabels[source]).join(', ')}`,
+    criteria.tags.length > 0 && `Tags: ${criteria.tags.join(', ')}`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : 'All confirmed subscribers';
+}
+
+export interface NewsletterImportColumns {
+  email: number;
+  name: number | null;
+  interests: number | null;
+  tags: number | null;
+}
+
+export type NewsletterImportRow = Pick<NewsletterSignup, 'email' | 'name' | 'interests' | 'tags'>;
+
+export interface NewsletterImportPlan {
+  toImport: NewsletterImportRow[];
+  existing: string[]; // already on the list
+  duplicates: string[]; // repeated within the file
+  suppressed: string[];
+  invalid: string[]; // rows without a usable email
+}
+
+// Guesses which CSV column holds each field from the header row
+export function guessImportColumns(header: string[]): NewsletterImportColumns {
+  const find = (pattern: RegExp) => {
+    const index = header.findIndex(cell => pattern.test(cell.trim()));
+    return index === -1 ? null : index;
+  };
+  return {
+    email: find(/e-?mail/i) ?? 0,
+    name: find(/name/i),
+    interests: find(/interest/i),
+    tags: find(/tag|label|group/i),
+  };
+}
+
+// Sorts the CSV rows (header excluded) into new subscribers and the ones to skip
+export function planNewsletterImport(
+  rows: string[][],
+  columns: NewsletterImportColumns,
+  extraTags: string[],
+  signups: NewsletterSignup[],
+  suppressions: NewsletterSuppression[]
+): NewsletterImportPlan {
+  const plan: NewsletterImportPlan = { toImport: [], existing: [], duplicates: [], suppressed: [], invalid: [] };
+  const onList = new Set(signups.map(signup => normalizeEmail(signup.email)));
+  const blocked = new Set(suppressions.map(suppression => normalizeEmail(suppression.email)));
+  const seen = new Set<string>();
+  const cell = (row: string[], index: number | null) => (index === null ? '' : (row[index] || '').trim());
+
+  rows.forEach(row => {
+    const email = cell(row, columns.email);
+    const key = normalizeEmail(email);
+
+    if (!isValidNewsletterEmail(email)) plan.invalid.push(email || '(blank)');
+    else if (seen.has(key)) plan.duplicates.push(email);
+    else if (blocked.has(key)) plan.suppressed.push(email);
+    else if (onList.has(key)) plan.existing.push(email);
+    else {
+      plan.toImport.push({
+        email,
+        name: cell(row, columns.name) || null,
+        interests: parseInterests(cell(row, columns.interests)),
+        tags: Array.from(new Set([...parseTags(cell(row, columns.tags)), ...extraTags])),
+      });
+    }
+    seen.add(key);
+  });
+
+  return plan;
+}
+
+// Signups from before double opt-in have no status; they were already receiving the newsletter
+export const getSignupStatus = (signup: NewsletterSignup): NewsletterSignupStatus =>
+  signup.status || 'confirmed';
+
+// Emails the address a new confirmation link, exactly as the public signup form does
+export async function resendConfirmation(email: string): Promise<void> {
+  const response = await fetch('/api/newsletter/subscribe', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email }),
+  });
+  const result = await response.json();
+  if (!response.ok) throw new Error(result.error || 'Failed to send confirmation email');
+}
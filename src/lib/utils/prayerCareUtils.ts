@@ -0,0 +1,82 @@
+// Prayer care workflow helpers: status labels, follow-up due dates and answered-prayer counts.
+// Follow-up dates are church-local "YYYY-MM-DD" strings, so plain string comparison is enough.
+
+import { format, startOfMonth, subMonths } from 'date-fns';
+import { PrayerRequest, PrayerRequestStatus } from '../firestore';
+
+export const PRAYER_REQUEST_STATUSES: PrayerRequestStatus[] = [
+  'new',
+  'assigned',
+  'praying',
+  'followed-up',
+  'answered',
+  'archived',
+];
+
+export const prayerStatusLabels: Record<PrayerRequestStatus, string> = {
+  new: 'New',
+  assigned: 'Assigned',
+  praying: 'Praying',
+  'followed-up': 'Followed Up',
+  answered: 'Answered',
+  archived: 'Archived',
+};
+
+export const prayerStatusBadgeClass: Record<PrayerRequestStatus, string> = {
+  new: 'border-orange-300 text-orange-700 bg-orange-50',
+  assigned: 'border-blue-300 text-blue-700 bg-blue-50',
+  praying: 'border-purple-300 text-purple-700 bg-purple-50',
+  'followed-up': 'border-teal-300 text-teal-700 bg-teal-50',
+  answered: 'border-green-300 text-green-700 bg-green-50',
+  archived: 'border-gray-300 text-gray-500 bg-gray-50',
+};
+
+// Answered and archived requests need no further follow-up
+const CLOSED_STATUSES: PrayerRequestStatus[] = ['answered', 'archived'];
+
+export type FollowUpState = 'overdue' | 'due' | 'upcoming';
+
+export function getPrayerRequestStatus(request: PrayerRequest): PrayerRequestStatus {
+  return request.status || 'new';
+}
+
+export function isPrayerRequestOpen(request: PrayerRequest): boolean {
+  return !CLOSED_STATUSES.includes(getPrayerRequestStatus(request));
+}
+
+export function getFollowUpState(request: PrayerRequest, today: string): FollowUpState | null {
+  if (!request.followUpDate || !isPrayerRequestOpen(request)) return null;
+  if (request.followUpDate < today) return 'overdue';
+  if (request.followUpDate === today) return 'due';
+  return 'upcoming';
+}
+
+export function getPrayerRequestTitle(request: PrayerRequest): string {
+  return request.name || request.request?.substring(0, 50) || 'Anonymous Request';
+}
+
+export interface AnsweredMonth {
+  month: string; // "YYYY-MM"
+  label: string; // e.g. "Mar 2026"
+  count: number;
+}
+
+// Answered prayers per calendar month, oldest first, including months with none
+export function getAnsweredCountsByMonth(
+  requests: PrayerRequest[],
+  months: number,
+  now: Date = new Date()
+): AnsweredMonth[] {
+  const buckets: AnsweredMonth[] = Array.from({ length: months }, (_, index) => {
+    const date = subMonths(startOfMonth(now), months - 1 - index);
+    return { month: format(date, 'yyyy-MM'), label: format(date, 'MMM yyyy'), count: 0 };
+  });
+
+  requests.forEach(request => {
+    if (!request.answeredAt) return;
+    const bucket = buckets.find(b => b.month === format(request.answeredAt!.toDate(), 'yyyy-MM'));
+    if (bucket) bucket.count++;
+  });
+
+  return buckets;
+}
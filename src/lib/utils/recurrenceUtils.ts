@@ -0,0 +1,200 @@
+// RFC 5545 RRULE subset used by recurring events.
+//
+// Supported parts:
+//   FREQ=WEEKLY|MONTHLY, INTERVAL=n, UNTIL=YYYYMMDD, COUNT=n
+//   WEEKLY:  BYDAY=SU,WE            (one or more weekdays)
+//   MONTHLY: BYDAY=SU;BYSETPOS=1    (nth weekday, -1 = last; "BYDAY=1SU" is also accepted)
+//   MONTHLY: BYMONTHDAY=15          (months without that day are skipped, as in RFC 5545)
+//
+// All dates are calendar dates (YYYY-MM-DD); the arithmetic below runs in UTC so it never
+// depends on the browser's timezone.
+
+export type RecurrenceFrequency = 'WEEKLY' | 'MONTHLY';
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay: number[]; // 0 = Sunday ... 6 = Saturday
+  bySetPos?: number; // 1-4 or -1 (last), MONTHLY only
+  byMonthDay?: number; // 1-31, MONTHLY only
+  until?: string; // YYYY-MM-DD, inclusive
+  count?: number;
+}
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+export const SET_POS_LABELS: Record<number, string> = { 1: 'First', 2: 'Second', 3: 'Third', 4: 'Fourth', [-1]: 'Last' };
+
+// Upper bound on periods walked per expansion so a bad rule can never hang the page
+const MAX_PERIODS = 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const parseDateString = (date: string): Date => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+};
+
+export const formatDateString = (date: Date): string => {
+  return date.toISOString().split('T')[0];
+};
+
+const addDays = (date: Date, days: number) => new Date(date.getTime() + days * DAY_MS);
+
+export const parseRRule = (rrule: string): RecurrenceRule => {
+  const parts = Object.fromEntries(
+    rrule
+      .replace(/^RRULE:/i, '')
+      .split(';')
+      .filter(Boolean)
+      .map(part => {
+        const [key, value = ''] = part.split('=');
+        return [key.trim().toUpperCase(), value.trim().toUpperCase()];
+      })
+  );
+
+  const freq = parts.FREQ;
+  if (freq !== 'WEEKLY' && freq !== 'MONTHLY') {
+    throw new Error(`Unsupported recurrence frequency: ${freq || 'none'}`);
+  }
+
+  const rule: RecurrenceRule = {
+    freq,
+    interval: Math.max(1, parseInt(parts.INTERVAL || '1', 10) || 1),
+    byDay: [],
+  };
+
+  if (parts.BYDAY) {
+    parts.BYDAY.split(',').forEach(token => {
+      const match = token.match(/^([+-]?\d)?([A-Z]{2})$/);
+      const day = match ? WEEKDAY_CODES.indexOf(match[2]) : -1;
+      if (!match || day === -1) throw new Error(`Invalid BYDAY value: ${token}`);
+      if (match[1]) rule.bySetPos = parseInt(match[1], 10);
+      rule.byDay.push(day);
+    });
+  }
+
+  if (parts.BYSETPOS) rule.bySetPos = parseInt(parts.BYSETPOS, 10);
+  if (parts.BYMONTHDAY) rule.byMonthDay = parseInt(parts.BYMONTHDAY, 10);
+  if (parts.COUNT) rule.count = parseInt(parts.COUNT, 10);
+  if (parts.UNTIL) {
+    const until = parts.UNTIL.slice(0, 8);
+    rule.until = `${until.slice(0, 4)}-${until.slice(4, 6)}-${until.slice(6, 8)}`;
+  }
+
+  if (rule.freq === 'WEEKLY' && rule.byDay.length === 0) {
+    throw new Error('Weekly recurrences need at least one BYDAY weekday');
+  }
+  if (rule.freq === 'MONTHLY' && rule.byMonthDay === undefined && (rule.bySetPos === undefined || rule.byDay.length !== 1)) {
+    throw new Error('Monthly recurrences need BYMONTHDAY or a single BYDAY with BYSETPOS');
+  }
+
+  return rule;
+};
+
+export const formatRRule = (rule: RecurrenceRule): string => {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+
+  if (rule.freq === 'MONTHLY' && rule.byMonthDay !== undefined) {
+    parts.push(`BYMONTHDAY=${rule.byMonthDay}`);
+  } else {
+    parts.push(`BYDAY=${[...rule.byDay].sort((a, b) => a - b).map(day => WEEKDAY_CODES[day]).join(',')}`);
+    if (rule.freq === 'MONTHLY' && rule.bySetPos !== undefined) parts.push(`BYSETPOS=${rule.bySetPos}`);
+  }
+
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  else if (rule.count) parts.push(`COUNT=${rule.count}`);
+
+  return parts.join(';');
+};
+
+// Candidate dates for one period (a week or a month), in order
+const getPeriodDates = (rule: RecurrenceRule, anchor: Date, periodIndex: number): Date[] => {
+  if (rule.freq === 'WEEKLY') {
+    const weekStart = addDays(anchor, -anchor.getUTCDay() + periodIndex * rule.interval * 7);
+    return [...rule.byDay].sort((a, b) => a - b).map(day => addDays(weekStart, day));
+  }
+
+  const monthOffset = anchor.getUTCMonth() + periodIndex * rule.interval;
+  const year = anchor.getUTCFullYear() + Math.floor(monthOffset / 12);
+  const month = ((monthOffset % 12) + 12) % 12;
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+  if (rule.byMonthDay !== undefined) {
+    return rule.byMonthDay <= daysInMonth ? [new Date(Date.UTC(year, month, rule.byMonthDay))] : [];
+  }
+
+  const weekday = rule.byDay[0];
+  const matches: Date[] = [];
+  for (let day = 1; day <= daysInMonth; day++) {
+    const date = new Date(Date.UTC(year, month, day));
+    if (date.getUTCDay() === weekday) matches.push(date);
+  }
+  const match = rule.bySetPos === -1 ? matches[matches.length - 1] : matches[(rule.bySetPos ?? 1) - 1];
+  return match ? [match] : [];
+};
+
+// Expands a rule anchored at startDate (DTSTART) into occurrence dates between rangeStart
+// and rangeEnd, inclusive. COUNT is always measured from startDate, not from rangeStart.
+export const expandRecurrence = (
+  rule: RecurrenceRule,
+  startDate: string,
+  rangeStart: string,
+  rangeEnd: string,
+  limit?: number
+): string[] => {
+  const anchor = parseDateString(startDate);
+  const from = parseDateString(rangeStart);
+  const to = parseDateString(rangeEnd);
+  const until = rule.until ? parseDateString(rule.until) : null;
+  const occurrences: string[] = [];
+  let generated = 0;
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    for (const date of getPeriodDates(rule, anchor, period)) {
+      if (date < anchor) continue;
+      if ((until && date > until) || date > to) return occurrences;
+      if (rule.count && generated >= rule.count) return occurrences;
+
+      generated++;
+      if (date >= from) {
+        occurrences.push(formatDateString(date));
+        if (limit && occurrences.length >= limit) return occurrences;
+      }
+    }
+  }
+
+  return occurrences;
+};
+
+export const describeRecurrence = (rule: RecurrenceRule): string => {
+  let description: string;
+
+  if (rule.freq === 'WEEKLY') {
+    const days = [...rule.byDay].sort((a, b) => a - b).map(day => WEEKDAY_NAMES[day]).join(', ');
+    description = rule.interval === 1
+      ? `Every ${days}`
+      : rule.interval === 2
+        ? `Every other ${days}`
+        : `Every ${rule.interval} weeks on ${days}`;
+  } else {
+    const every = rule.interval === 1 ? 'every month' : rule.interval === 2 ? 'every other month' : `every ${rule.interval} months`;
+    description = rule.byMonthDay !== undefined
+      ? `Day ${rule.byMonthDay} of ${every}`
+      : `${SET_POS_LABELS[rule.bySetPos ?? 1]} ${WEEKDAY_NAMES[rule.byDay[0]]} of ${every}`;
+  }
+
+  if (rule.until) {
+    description += ` until ${parseDateString(rule.until).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      timeZone: 'UTC',
+    })}`;
+  } else if (rule.count) {
+    description += `, ${rule.count} times`;
+  }
+
+  return description;
+};
@@ -0,0 +1,57 @@
+// Event registration helpers. Confirmed and waitlisted places are never stored: they follow
+// from sign-up order and the event capacity, so cancellations and capacity changes promote
+// the next person on the waitlist without a write.
+
+import { EventRegistration, EventRegistrationSettings, RegistrationQuestion } from '../firestore';
+
+export type RegistrationPlacement = 'confirmed' | 'waitlisted' | 'cancelled';
+
+export const placementLabels: Record<RegistrationPlacement, string> = {
+  confirmed: 'Confirmed',
+  waitlisted: 'Waitlisted',
+  cancelled: 'Cancelled',
+};
+
+const getSignUpTime = (registration: EventRegistration) => registration.createdAt?.toMillis() ?? Number.MAX_SAFE_INTEGER;
+
+export function getRegistrationPlacements(
+  registrations: EventRegistration[],
+  capacity: number | null | undefined
+): Map<string, RegistrationPlacement> {
+  const placements = new Map<string, RegistrationPlacement>();
+  let confirmed = 0;
+
+  [...registrations]
+    .sort((a, b) => getSignUpTime(a) - getSignUpTime(b))
+    .forEach(registration => {
+      if (!registration.id) return;
+      if (registration.status === 'cancelled') {
+        placements.set(registration.id, 'cancelled');
+      } else if (capacity == null || confirmed < capacity) {
+        placements.set(registration.id, 'confirmed');
+        confirmed++;
+      } else {
+        placements.set(registration.id, 'waitlisted');
+      }
+    });
+
+  return placements;
+}
+
+export function isRegistrationOpen(settings: EventRegistrationSettings | undefined, now: Date = new Date()): boolean {
+  if (!settings?.enabled) return false;
+  return !settings.deadlineAt || now < settings.deadlineAt.toDate();
+}
+
+export function formatRegistrationAnswer(question: RegistrationQuestion, value: string | boolean | undefined): string {
+  if (value === undefined || value === '') return '';
+  if (question.type === 'checkbox') return value ? 'Yes' : 'No';
+  return String(value);
+}
+
+// firestore.rules checks registration answers one by one up to this many questions
+export const MAX_REGISTRATION_QUESTIONS = 20;
+
+export function createQuestionId(): string {
+  return `q_${Math.random().toString(36).slice(2, 10)}`;
+}
@@ -0,0 +1,61 @@
+// Testimony moderation helpers. Only published, shareable testimonies with an approved
+// excerpt reach the website, and only once their publish time has passed.
+
+import { Testimony, TestimonyStatus } from '../firestore';
+
+export const PUBLIC_EXCERPT_MAX_LENGTH = 600;
+
+export const TESTIMONY_STATUSES: TestimonyStatus[] = ['submitted', 'in-review', 'approved', 'published', 'rejected'];
+
+export const testimonyStatusLabels: Record<TestimonyStatus, string> = {
+  submitted: 'Submitted',
+  'in-review': 'In Review',
+  approved: 'Approved',
+  published: 'Published',
+  rejected: 'Rejected',
+};
+
+export const testimonyStatusBadgeClass: Record<TestimonyStatus, string> = {
+  submitted: 'border-gray-300 text-gray-700 bg-gray-50',
+  'in-review': 'border-blue-300 text-blue-700 bg-blue-50',
+  approved: 'border-purple-300 text-purple-700 bg-purple-50',
+  published: 'border-green-300 text-green-700 bg-green-50',
+  rejected: 'border-red-300 text-red-700 bg-red-50',
+};
+
+export function getTestimonyStatus(testimony: Testimony): TestimonyStatus {
+  return testimony.status || 'submitted';
+}
+
+// Published but waiting for its publish time
+export function isTestimonyScheduled(testimony: Testimony, now: Date = new Date()): boolean {
+  return getTestimonyStatus(testimony) === 'published' &&
+    Boolean(testimony.publishAt) &&
+    testimony.publishAt!.toDate() > now;
+}
+
+export function isTestimonyLive(testimony: Testimony, now: Date = new Date()): boolean {
+  return getTestimonyStatus(testimony) === 'published' &&
+    testimony.allowSharing === true &&
+    Boolean(testimony.publicExcerpt) &&
+    Boolean(testimony.publishAt) &&
+    testimony.publishAt!.toDate() <= now;
+}
+
+// Reasons a testimony cannot move to the given status, or null when it can
+export function getModerationError(
+  testimony: Testimony,
+  status: TestimonyStatus,
+  publicExcerpt: string
+): string | null {
+  if (status !== 'approved' && status !== 'published') return null;
+  if (testimony.isDraft) return 'Finish the draft before approving it';
+  if (!publicExcerpt.trim()) return 'Write the public excerpt before approving';
+  if (publicExcerpt.length > PUBLIC_EXCERPT_MAX_LENGTH) {
+    return `The public excerpt must be ${PUBLIC_EXCERPT_MAX_LENGTH} characters or fewer`;
+  }
+  if (status === 'published' && !testimony.allowSharing) {
+    return 'The member has not allowed this testimony to be shared';
+  }
+  return null;
+}
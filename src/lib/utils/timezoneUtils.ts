@@ -0,0 +1,110 @@
+// Church timezone helpers built on Intl, so event dates never depend on the
+// timezone of the device the dashboard is opened on.
+//
+// Event dates ("YYYY-MM-DD") and times ("HH:mm") are wall-clock values in the
+// church timezone; zonedTimeToInstant turns them into the instant that is stored
+// alongside them as startAt/endAt.
+
+export const DEFAULT_TIMEZONE = 'Europe/London';
+
+export const TIMEZONE_OPTIONS = [
+  'Europe/London',
+  'Europe/Dublin',
+  'Europe/Paris',
+  'Europe/Berlin',
+  'Africa/Lagos',
+  'Africa/Accra',
+  'Africa/Johannesburg',
+  'Africa/Nairobi',
+  'America/New_York',
+  'America/Chicago',
+  'America/Denver',
+  'America/Los_Angeles',
+  'America/Toronto',
+  'Asia/Dubai',
+  'Australia/Sydney',
+  'UTC',
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const isValidTimezone = (timezone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const getZonedParts = (instant: Date, timezone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(instant);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value);
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  };
+};
+
+// Offset of the timezone from UTC at the given instant, in milliseconds
+export const getTimezoneOffsetMs = (timezone: string, instant: Date): number => {
+  const parts = getZonedParts(instant, timezone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+};
+
+// Calendar date ("YYYY-MM-DD") of the instant in the timezone
+export const getDateInTimezone = (instant: Date, timezone: string): string => {
+  const { year, month, day } = getZonedParts(instant, timezone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+export const getTodayInTimezone = (timezone: string): string => {
+  return getDateInTimezone(new Date(), timezone);
+};
+
+export const addDaysToDateString = (date: string, days: number): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day) + days * DAY_MS).toISOString().split('T')[0];
+};
+
+// Converts a wall-clock date and time in the timezone to the instant it refers to.
+// Times skipped by a DST change resolve to the instant just after the gap.
+export const zonedTimeToInstant = (date: string, time: string, timezone: string): Date => {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = (time || '00:00').split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour || 0, minute || 0);
+
+  // Two passes settle the offset on either side of a DST transition
+  let instant = wallClock - getTimezoneOffsetMs(timezone, new Date(wallClock));
+  instant = wallClock - getTimezoneOffsetMs(timezone, new Date(instant));
+  return new Date(instant);
+};
+
+export const formatInTimezone = (
+  instant: Date,
+  timezone: string,
+  options: Intl.DateTimeFormatOptions
+): string => {
+  return instant.toLocaleString('en-US', { ...options, timeZone: timezone });
+};
+
+// Formats a calendar date without letting the device timezone shift it a day
+export const formatCalendarDate = (date: string, options: Intl.DateTimeFormatOptions): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).toLocaleDateString('en-US', { ...options, timeZone: 'UTC' });
+};